@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { metadataCorsOptionsRequestHandler } from 'mcp-handler'
+import { getAuthorizationServerMetadata, getOAuthIssuer, OAUTH_CORS_HEADERS } from '@/lib/auth/oauth'
+
+/**
+ * OAuth authorization server metadata (RFC 8414), discovered by MCP clients
+ * from the protected resource metadata
+ */
+export function GET(request: NextRequest) {
+  return NextResponse.json(getAuthorizationServerMetadata(getOAuthIssuer(request)), {
+    headers: { ...OAUTH_CORS_HEADERS, 'Cache-Control': 'max-age=3600' },
+  })
+}
+
+export const OPTIONS = metadataCorsOptionsRequestHandler()
@@ -0,0 +1,14 @@
+import { NextRequest } from 'next/server'
+import { metadataCorsOptionsRequestHandler, protectedResourceHandler } from 'mcp-handler'
+import { getOAuthIssuer } from '@/lib/auth/oauth'
+
+/**
+ * OAuth protected resource metadata (RFC 9728) for the MCP server. Served at
+ * the root and at /.well-known/oauth-protected-resource/api/mcp, the two
+ * locations MCP clients look in after a 401 from /api/mcp.
+ */
+export function GET(request: NextRequest) {
+  return protectedResourceHandler({ authServerUrls: [getOAuthIssuer(request)] })(request)
+}
+
+export const OPTIONS = metadataCorsOptionsRequestHandler()
@@ -0,0 +1,47 @@
+import { type NextRequest } from 'next/server'
+import { cookies } from 'next/headers'
+import { getGitProvider } from '@/lib/git-providers'
+import { exchangeOAuthCode, saveGitProviderAccount } from '@/lib/git-providers/accounts'
+
+interface RouteParams {
+  params: Promise<{ provider: string }>
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams): Promise<Response> {
+  const { provider: providerName } = await params
+  const provider = getGitProvider(providerName)
+  if (!provider || provider.name === 'github') {
+    return new Response('Unsupported git provider', { status: 400 })
+  }
+
+  const code = req.nextUrl.searchParams.get('code')
+  const state = req.nextUrl.searchParams.get('state')
+  const cookieStore = await cookies()
+
+  const storedState = cookieStore.get(`${provider.name}_oauth_state`)?.value ?? null
+  const storedRedirectTo = cookieStore.get(`${provider.name}_oauth_redirect_to`)?.value ?? null
+  const storedUserId = cookieStore.get(`${provider.name}_oauth_user_id`)?.value ?? null
+
+  if (code === null || state === null || storedState !== state || storedRedirectTo === null || storedUserId === null) {
+    return new Response('Invalid OAuth state', { status: 400 })
+  }
+
+  try {
+    const redirectUri = `${req.nextUrl.origin}/api/auth/git/${provider.name}/callback`
+    const tokens = await exchangeOAuthCode(provider, code, redirectUri)
+    const result = await saveGitProviderAccount(storedUserId, provider, tokens)
+
+    cookieStore.delete(`${provider.name}_oauth_state`)
+    cookieStore.delete(`${provider.name}_oauth_redirect_to`)
+    cookieStore.delete(`${provider.name}_oauth_user_id`)
+
+    if (!result.success) {
+      return new Response(result.error || `Failed to connect ${provider.displayName}`, { status: 409 })
+    }
+
+    return Response.redirect(new URL(storedRedirectTo, req.nextUrl.origin))
+  } catch {
+    console.error('Git provider OAuth callback failed')
+    return new Response(`Failed to complete ${provider.displayName} authentication`, { status: 500 })
+  }
+}
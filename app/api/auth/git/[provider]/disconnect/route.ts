@@ -0,0 +1,32 @@
+import { type NextRequest } from 'next/server'
+import { getSessionFromReq } from '@/lib/session/server'
+import { db } from '@/lib/db/client'
+import { accounts } from '@/lib/db/schema'
+import { eq, and } from 'drizzle-orm'
+import { getGitProvider } from '@/lib/git-providers'
+
+interface RouteParams {
+  params: Promise<{ provider: string }>
+}
+
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSessionFromReq(req)
+    if (!session?.user?.id) {
+      return Response.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const { provider: providerName } = await params
+    const provider = getGitProvider(providerName)
+    if (!provider || provider.name === 'github') {
+      return Response.json({ error: 'Unsupported git provider' }, { status: 400 })
+    }
+
+    await db.delete(accounts).where(and(eq(accounts.userId, session.user.id), eq(accounts.provider, provider.name)))
+
+    return Response.json({ success: true })
+  } catch (error) {
+    console.error('Error disconnecting git provider')
+    return Response.json({ error: 'Failed to disconnect' }, { status: 500 })
+  }
+}
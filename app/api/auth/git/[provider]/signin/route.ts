@@ -0,0 +1,63 @@
+import { type NextRequest } from 'next/server'
+import { cookies } from 'next/headers'
+import { generateState } from 'arctic'
+import { getSessionFromReq } from '@/lib/session/server'
+import { isRelativeUrl } from '@/lib/utils/is-relative-url'
+import { getGitProvider } from '@/lib/git-providers'
+import { getOAuthAuthorizationUrl } from '@/lib/git-providers/accounts'
+
+interface RouteParams {
+  params: Promise<{ provider: string }>
+}
+
+/**
+ * GET /api/auth/git/[provider]/signin
+ *
+ * Start linking a GitLab or Gitea account to the signed-in user with OAuth.
+ * GitHub accounts are connected with /api/auth/github/signin.
+ */
+export async function GET(req: NextRequest, { params }: RouteParams): Promise<Response> {
+  let session
+  try {
+    session = await getSessionFromReq(req)
+  } catch {
+    return Response.redirect(new URL('/', req.url))
+  }
+  if (!session?.user) {
+    return Response.redirect(new URL('/', req.url))
+  }
+
+  const { provider: providerName } = await params
+  const provider = getGitProvider(providerName)
+  if (!provider || provider.name === 'github') {
+    return Response.redirect(new URL('/?error=git_provider_not_supported', req.url))
+  }
+
+  const state = generateState()
+  const redirectUri = `${req.nextUrl.origin}/api/auth/git/${provider.name}/callback`
+  const authorizationUrl = getOAuthAuthorizationUrl(provider, state, redirectUri)
+  if (!authorizationUrl) {
+    return Response.redirect(new URL(`/?error=${provider.name}_not_configured`, req.url))
+  }
+
+  const store = await cookies()
+  const redirectTo = isRelativeUrl(req.nextUrl.searchParams.get('next') ?? '/')
+    ? (req.nextUrl.searchParams.get('next') ?? '/')
+    : '/'
+
+  for (const [key, value] of [
+    [`${provider.name}_oauth_redirect_to`, redirectTo],
+    [`${provider.name}_oauth_state`, state],
+    [`${provider.name}_oauth_user_id`, session.user.id],
+  ]) {
+    store.set(key, value, {
+      path: '/',
+      secure: process.env.NODE_ENV === 'production',
+      httpOnly: true,
+      maxAge: 60 * 10, // 10 minutes
+      sameSite: 'lax',
+    })
+  }
+
+  return Response.redirect(authorizationUrl)
+}
@@ -0,0 +1,54 @@
+import { type NextRequest } from 'next/server'
+import { getSessionFromReq } from '@/lib/session/server'
+import { getGitProvider, GitProviderError } from '@/lib/git-providers'
+import { saveGitProviderAccount } from '@/lib/git-providers/accounts'
+
+interface RouteParams {
+  params: Promise<{ provider: string }>
+}
+
+/**
+ * POST /api/auth/git/[provider]/token
+ *
+ * Link a GitLab or Gitea account with a personal access token, for instances
+ * without an OAuth application. Body: { token }
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSessionFromReq(req)
+    if (!session?.user?.id) {
+      return Response.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const { provider: providerName } = await params
+    const provider = getGitProvider(providerName)
+    if (!provider || provider.name === 'github') {
+      return Response.json({ error: 'Unsupported git provider' }, { status: 400 })
+    }
+
+    const body = await req.json().catch(() => null)
+    const token = typeof body?.token === 'string' ? body.token.trim() : ''
+    if (!token) {
+      return Response.json({ error: 'Token is required' }, { status: 400 })
+    }
+
+    const result = await saveGitProviderAccount(session.user.id, provider, {
+      accessToken: token,
+      refreshToken: null,
+      expiresAt: null,
+      scope: null,
+    })
+
+    if (!result.success) {
+      return Response.json({ error: result.error }, { status: 409 })
+    }
+
+    return Response.json({ success: true, username: result.username })
+  } catch (error) {
+    if (error instanceof GitProviderError && error.status === 401) {
+      return Response.json({ error: 'Invalid token' }, { status: 400 })
+    }
+    console.error('Error linking git provider token')
+    return Response.json({ error: 'Failed to connect account' }, { status: 500 })
+  }
+}
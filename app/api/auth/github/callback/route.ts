@@ -6,6 +6,7 @@ import { eq, and } from 'drizzle-orm'
 import { nanoid } from 'nanoid'
 import { createGitHubSession, saveSession } from '@/lib/session/create-github'
 import { encrypt } from '@/lib/crypto'
+import { getGitHubApiUrl, getGitHubWebUrl } from '@/lib/git-providers'
 
 export async function GET(req: NextRequest): Promise<Response> {
   const code = req.nextUrl.searchParams.get('code')
@@ -58,7 +59,7 @@ export async function GET(req: NextRequest): Promise<Response> {
     console.log('[GitHub Callback] Starting OAuth flow, mode:', authMode)
 
     // Exchange code for access token
-    const tokenResponse = await fetch('https://github.com/login/oauth/access_token', {
+    const tokenResponse = await fetch(`${getGitHubWebUrl()}/login/oauth/access_token`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -94,7 +95,7 @@ export async function GET(req: NextRequest): Promise<Response> {
     }
 
     // Fetch GitHub user info
-    const userResponse = await fetch('https://api.github.com/user', {
+    const userResponse = await fetch(`${getGitHubApiUrl()}/user`, {
       headers: {
         Authorization: `Bearer ${tokenData.access_token}`,
         Accept: 'application/vnd.github.v3+json',
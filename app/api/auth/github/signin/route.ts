@@ -3,6 +3,7 @@ import { cookies } from 'next/headers'
 import { getSessionFromReq } from '@/lib/session/server'
 import { isRelativeUrl } from '@/lib/utils/is-relative-url'
 import { generateState } from 'arctic'
+import { getGitHubWebUrl } from '@/lib/git-providers'
 
 export async function GET(req: NextRequest): Promise<Response> {
   // Check if user is authenticated with Vercel first
@@ -53,7 +54,7 @@ export async function GET(req: NextRequest): Promise<Response> {
     state: state,
   })
 
-  const url = `https://github.com/login/oauth/authorize?${params.toString()}`
+  const url = `${getGitHubWebUrl()}/login/oauth/authorize?${params.toString()}`
 
   // Redirect directly to GitHub
   return Response.redirect(url)
@@ -107,7 +108,7 @@ export async function POST(req: NextRequest): Promise<Response> {
     state: state,
   })
 
-  const url = `https://github.com/login/oauth/authorize?${params.toString()}`
+  const url = `${getGitHubWebUrl()}/login/oauth/authorize?${params.toString()}`
 
   return Response.json({ url })
 }
@@ -3,6 +3,7 @@ import { cookies } from 'next/headers'
 import { generateState } from 'arctic'
 import { isRelativeUrl } from '@/lib/utils/is-relative-url'
 import { getSessionFromReq } from '@/lib/session/server'
+import { getGitHubWebUrl } from '@/lib/git-providers'
 
 export async function GET(req: NextRequest): Promise<Response> {
   // Check if user is already authenticated with Vercel
@@ -69,7 +70,7 @@ export async function GET(req: NextRequest): Promise<Response> {
     state: state,
   })
 
-  const url = `https://github.com/login/oauth/authorize?${params.toString()}`
+  const url = `${getGitHubWebUrl()}/login/oauth/authorize?${params.toString()}`
 
   // Redirect directly to GitHub
   return Response.redirect(url)
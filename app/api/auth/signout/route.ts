@@ -4,6 +4,7 @@ import { getSessionFromReq } from '@/lib/session/server'
 import { isRelativeUrl } from '@/lib/utils/is-relative-url'
 import { saveSession } from '@/lib/session/create'
 import { getOAuthToken } from '@/lib/session/get-oauth-token'
+import { getGitHubApiUrl } from '@/lib/git-providers'
 
 export async function GET(req: NextRequest) {
   try {
@@ -30,7 +31,7 @@ export async function GET(req: NextRequest) {
           try {
             const tokenData = await getOAuthToken(session.user.id, 'github')
             if (tokenData) {
-              await fetch(`https://api.github.com/applications/${process.env.NEXT_PUBLIC_GITHUB_CLIENT_ID}/token`, {
+              await fetch(`${getGitHubApiUrl()}/applications/${process.env.NEXT_PUBLIC_GITHUB_CLIENT_ID}/token`, {
                 method: 'DELETE',
                 headers: {
                   Authorization: `Basic ${Buffer.from(`${process.env.NEXT_PUBLIC_GITHUB_CLIENT_ID}:${process.env.GITHUB_CLIENT_SECRET}`).toString('base64')}`,
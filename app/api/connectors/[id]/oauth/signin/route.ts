@@ -0,0 +1,101 @@
+import { type NextRequest } from 'next/server'
+import { cookies } from 'next/headers'
+import { generateCodeVerifier, generateState } from 'arctic'
+import { and, eq } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { connectors } from '@/lib/db/schema'
+import { encrypt } from '@/lib/crypto'
+import { getSessionFromReq } from '@/lib/session/server'
+import { isRelativeUrl } from '@/lib/utils/is-relative-url'
+import {
+  ConnectorOAuthError,
+  discoverConnectorOAuth,
+  getConnectorAuthorizationUrl,
+  registerConnectorClient,
+} from '@/lib/connectors/oauth'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * POST /api/connectors/[id]/oauth/signin
+ *
+ * Start authorizing a remote MCP connector with OAuth. Discovers the server's
+ * authorization server, registers a client if the connector has no client ID,
+ * and returns the authorization URL to send the user to: { url }
+ */
+export async function POST(req: NextRequest, { params }: RouteParams): Promise<Response> {
+  try {
+    const session = await getSessionFromReq(req)
+    if (!session?.user?.id) {
+      return Response.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const [connector] = await db
+      .select()
+      .from(connectors)
+      .where(and(eq(connectors.id, id), eq(connectors.userId, session.user.id)))
+      .limit(1)
+
+    if (!connector || connector.type !== 'remote' || !connector.baseUrl) {
+      return Response.json({ error: 'Remote MCP server not found' }, { status: 404 })
+    }
+
+    const redirectUri = `${req.nextUrl.origin}/api/connectors/oauth/callback`
+    const metadata = await discoverConnectorOAuth(connector.baseUrl)
+
+    // The callback exchanges the code at this endpoint, and refreshes use it later
+    const updates: Partial<typeof connectors.$inferInsert> = { oauthTokenEndpoint: metadata.tokenEndpoint }
+
+    let clientId = connector.oauthClientId
+    if (!clientId) {
+      const client = await registerConnectorClient(metadata, redirectUri, connector.name)
+      clientId = client.clientId
+      updates.oauthClientId = client.clientId
+      updates.oauthClientSecret = client.clientSecret ? encrypt(client.clientSecret) : null
+    }
+
+    await db.update(connectors).set(updates).where(eq(connectors.id, connector.id))
+
+    const state = generateState()
+    const codeVerifier = generateCodeVerifier()
+    const url = getConnectorAuthorizationUrl(metadata, {
+      clientId,
+      redirectUri,
+      state,
+      codeVerifier,
+      resource: connector.baseUrl,
+    })
+
+    const store = await cookies()
+    const redirectTo = isRelativeUrl(req.nextUrl.searchParams.get('next') ?? '/')
+      ? (req.nextUrl.searchParams.get('next') ?? '/')
+      : '/'
+
+    for (const [key, value] of [
+      ['connector_oauth_redirect_to', redirectTo],
+      ['connector_oauth_state', state],
+      ['connector_oauth_code_verifier', codeVerifier],
+      ['connector_oauth_connector_id', connector.id],
+      ['connector_oauth_user_id', session.user.id],
+    ]) {
+      store.set(key, value, {
+        path: '/',
+        secure: process.env.NODE_ENV === 'production',
+        httpOnly: true,
+        maxAge: 60 * 10, // 10 minutes
+        sameSite: 'lax',
+      })
+    }
+
+    return Response.json({ url })
+  } catch (error) {
+    if (error instanceof ConnectorOAuthError) {
+      return Response.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error starting connector OAuth')
+    return Response.json({ error: 'Failed to start authorization' }, { status: 500 })
+  }
+}
@@ -0,0 +1,70 @@
+import { type NextRequest } from 'next/server'
+import { cookies } from 'next/headers'
+import { and, eq } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { connectors } from '@/lib/db/schema'
+import { ConnectorOAuthError, completeConnectorAuthorization } from '@/lib/connectors/oauth'
+
+const COOKIE_NAMES = [
+  'connector_oauth_state',
+  'connector_oauth_code_verifier',
+  'connector_oauth_redirect_to',
+  'connector_oauth_connector_id',
+  'connector_oauth_user_id',
+]
+
+export async function GET(req: NextRequest): Promise<Response> {
+  const code = req.nextUrl.searchParams.get('code')
+  const state = req.nextUrl.searchParams.get('state')
+  const cookieStore = await cookies()
+
+  const storedState = cookieStore.get('connector_oauth_state')?.value ?? null
+  const storedVerifier = cookieStore.get('connector_oauth_code_verifier')?.value ?? null
+  const storedRedirectTo = cookieStore.get('connector_oauth_redirect_to')?.value ?? null
+  const storedConnectorId = cookieStore.get('connector_oauth_connector_id')?.value ?? null
+  const storedUserId = cookieStore.get('connector_oauth_user_id')?.value ?? null
+
+  if (
+    state === null ||
+    storedState !== state ||
+    storedVerifier === null ||
+    storedRedirectTo === null ||
+    storedConnectorId === null ||
+    storedUserId === null
+  ) {
+    return new Response('Invalid OAuth state', { status: 400 })
+  }
+
+  COOKIE_NAMES.forEach((name) => cookieStore.delete(name))
+
+  // The user denied access or the authorization server failed
+  if (code === null) {
+    return Response.redirect(new URL(storedRedirectTo, req.nextUrl.origin))
+  }
+
+  try {
+    const [connector] = await db
+      .select()
+      .from(connectors)
+      .where(and(eq(connectors.id, storedConnectorId), eq(connectors.userId, storedUserId)))
+      .limit(1)
+
+    if (!connector) {
+      return new Response('MCP server not found', { status: 404 })
+    }
+
+    await completeConnectorAuthorization(connector, {
+      code,
+      codeVerifier: storedVerifier,
+      redirectUri: `${req.nextUrl.origin}/api/connectors/oauth/callback`,
+    })
+
+    return Response.redirect(new URL(storedRedirectTo, req.nextUrl.origin))
+  } catch (error) {
+    if (error instanceof ConnectorOAuthError) {
+      return new Response(error.message, { status: 400 })
+    }
+    console.error('Connector OAuth callback failed')
+    return new Response('Failed to complete MCP server authorization', { status: 500 })
+  }
+}
@@ -25,6 +25,10 @@ export async function GET(req: NextRequest) {
     const decryptedConnectors = userConnectors.map((connector) => ({
       ...connector,
       oauthClientSecret: connector.oauthClientSecret ? decrypt(connector.oauthClientSecret) : null,
+      // Tokens stay on the server; clients only need to know whether the connector is authorized
+      oauthAccessToken: null,
+      oauthRefreshToken: null,
+      oauthAuthorized: !!connector.oauthAccessToken,
       env: (() => {
         if (!connector.env) return null
         try {
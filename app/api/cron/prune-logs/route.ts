@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { pruneTaskLogEntries } from '@/lib/tasks/logs'
+import { pruneRateLimitCounters } from '@/lib/rate-limit/limiter'
+import { pruneWebhookDeliveries } from '@/lib/github/webhooks'
+import { verifyCronRequest } from '@/lib/utils/cron-auth'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+/**
+ * Task log retention, invoked daily by Vercel Cron (see vercel.json).
+ * Removes logs of tasks that finished more than TASK_LOG_RETENTION_DAYS ago
+ * and trims every task to its newest MAX_LOG_ENTRIES_PER_TASK entries.
+ * Also drops expired rate limit counters and GitHub webhook delivery IDs.
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = verifyCronRequest(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    const deleted = await pruneTaskLogEntries()
+    const rateLimitCountersDeleted = await pruneRateLimitCounters()
+    const webhookDeliveriesDeleted = await pruneWebhookDeliveries()
+    return NextResponse.json({ deleted, rateLimitCountersDeleted, webhookDeliveriesDeleted })
+  } catch (error) {
+    console.error('Error pruning task logs')
+    return NextResponse.json({ error: 'Failed to prune task logs' }, { status: 500 })
+  }
+}
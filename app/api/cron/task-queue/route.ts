@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { drainTaskQueue } from '@/lib/tasks/worker'
+import { verifyCronRequest } from '@/lib/utils/cron-auth'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+/**
+ * Task queue worker, invoked by Vercel Cron (see vercel.json).
+ * Picks up jobs that were never started, retries failed ones and re-leases
+ * jobs whose worker died before finishing.
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = verifyCronRequest(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    // Stop leasing new jobs with enough headroom to finish short ones before the function limit
+    const result = await drainTaskQueue({ maxRuntimeMs: 60 * 1000 })
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error draining task queue')
+    return NextResponse.json({ error: 'Failed to drain task queue' }, { status: 500 })
+  }
+}
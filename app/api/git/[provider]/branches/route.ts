@@ -0,0 +1,46 @@
+import { type NextRequest } from 'next/server'
+import { getSessionFromReq } from '@/lib/session/server'
+import { getGitProvider, GitProviderError } from '@/lib/git-providers'
+import { getGitProviderToken } from '@/lib/git-providers/accounts'
+
+interface RouteParams {
+  params: Promise<{ provider: string }>
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSessionFromReq(req)
+    if (!session?.user?.id) {
+      return Response.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const { provider: providerName } = await params
+    const provider = getGitProvider(providerName)
+    if (!provider) {
+      return Response.json({ error: 'Unsupported git provider' }, { status: 400 })
+    }
+
+    const owner = req.nextUrl.searchParams.get('owner')
+    const repo = req.nextUrl.searchParams.get('repo')
+    if (!owner || !repo) {
+      return Response.json({ error: 'Owner and repo parameters are required' }, { status: 400 })
+    }
+
+    const token = await getGitProviderToken(session.user.id, provider.name)
+    if (!token) {
+      return Response.json({ error: `${provider.displayName} account not connected` }, { status: 401 })
+    }
+
+    const repository = { owner, repo }
+    const [branches, defaultBranch] = await Promise.all([
+      provider.listBranches(token, repository),
+      provider.getDefaultBranch(token, repository),
+    ])
+
+    return Response.json({ branches, defaultBranch })
+  } catch (error) {
+    console.error('Error fetching git provider branches')
+    const status = error instanceof GitProviderError && error.status === 404 ? 404 : 500
+    return Response.json({ error: 'Failed to fetch branches' }, { status })
+  }
+}
@@ -0,0 +1,35 @@
+import { type NextRequest } from 'next/server'
+import { getSessionFromReq } from '@/lib/session/server'
+import { getGitProvider, GitProviderError } from '@/lib/git-providers'
+import { getGitProviderToken } from '@/lib/git-providers/accounts'
+
+interface RouteParams {
+  params: Promise<{ provider: string }>
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSessionFromReq(req)
+    if (!session?.user?.id) {
+      return Response.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const { provider: providerName } = await params
+    const provider = getGitProvider(providerName)
+    if (!provider) {
+      return Response.json({ error: 'Unsupported git provider' }, { status: 400 })
+    }
+
+    const token = await getGitProviderToken(session.user.id, provider.name)
+    if (!token) {
+      return Response.json({ error: `${provider.displayName} account not connected` }, { status: 401 })
+    }
+
+    const repos = await provider.listRepositories(token)
+    return Response.json({ repos })
+  } catch (error) {
+    console.error('Error fetching git provider repositories')
+    const status = error instanceof GitProviderError && error.status === 401 ? 401 : 500
+    return Response.json({ error: 'Failed to fetch repositories' }, { status })
+  }
+}
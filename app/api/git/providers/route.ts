@@ -0,0 +1,44 @@
+import { type NextRequest } from 'next/server'
+import { getSessionFromReq } from '@/lib/session/server'
+import { db } from '@/lib/db/client'
+import { accounts } from '@/lib/db/schema'
+import { eq } from 'drizzle-orm'
+import { getGitProviders } from '@/lib/git-providers'
+
+/**
+ * GET /api/git/providers
+ *
+ * List the git hosts configured on this deployment and whether the signed-in
+ * user has linked an account on each. GitHub connection status is reported by
+ * /api/auth/github/status.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getSessionFromReq(req)
+    if (!session?.user?.id) {
+      return Response.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const linkedAccounts = await db
+      .select({ provider: accounts.provider, username: accounts.username })
+      .from(accounts)
+      .where(eq(accounts.userId, session.user.id))
+
+    const providers = getGitProviders().map((provider) => {
+      const account = linkedAccounts.find((linked) => linked.provider === provider.name)
+      return {
+        name: provider.name,
+        displayName: provider.displayName,
+        baseUrl: provider.baseUrl,
+        oauthConfigured: !!provider.oauth,
+        connected: !!account,
+        username: account?.username ?? null,
+      }
+    })
+
+    return Response.json({ providers })
+  } catch (error) {
+    console.error('Error listing git providers')
+    return Response.json({ error: 'Failed to list git providers' }, { status: 500 })
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getUserGitHubToken } from '@/lib/github/user-token'
+import { getGitHubApiUrl } from '@/lib/git-providers'
 
 /** GitHub branch object from API with protection status */
 interface GitHubBranch {
@@ -55,13 +56,13 @@ export async function GET(request: NextRequest) {
       Accept: 'application/vnd.github.v3+json',
     }
     const perPage = 100 // GitHub's maximum per page
-    const repoResponsePromise = fetch(`https://api.github.com/repos/${owner}/${repo}`, {
+    const repoResponsePromise = fetch(`${getGitHubApiUrl()}/repos/${owner}/${repo}`, {
       headers: {
         ...headers,
       },
     })
     const firstBranchesResponsePromise = fetch(
-      `https://api.github.com/repos/${owner}/${repo}/branches?per_page=${perPage}&page=1`,
+      `${getGitHubApiUrl()}/repos/${owner}/${repo}/branches?per_page=${perPage}&page=1`,
       {
         headers: {
           ...headers,
@@ -103,7 +104,7 @@ export async function GET(request: NextRequest) {
 
     while (currentPageBranches.length === perPage) {
       const branchesResponse = await fetch(
-        `https://api.github.com/repos/${owner}/${repo}/branches?per_page=${perPage}&page=${page}`,
+        `${getGitHubApiUrl()}/repos/${owner}/${repo}/branches?per_page=${perPage}&page=${page}`,
         {
           headers: {
             ...headers,
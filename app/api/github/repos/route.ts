@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getUserGitHubToken } from '@/lib/github/user-token'
+import { listGitHubAppRepositoryNames } from '@/lib/github/app'
+import { getGitHubApiUrl } from '@/lib/git-providers'
 
 export async function GET(request: NextRequest) {
   try {
@@ -17,7 +19,7 @@ export async function GET(request: NextRequest) {
     }
 
     // First, get the authenticated user to check if this is their repos
-    const userResponse = await fetch('https://api.github.com/user', {
+    const userResponse = await fetch(`${getGitHubApiUrl()}/user`, {
       headers: {
         Authorization: `Bearer ${token}`,
         Accept: 'application/vnd.github.v3+json',
@@ -44,7 +46,7 @@ export async function GET(request: NextRequest) {
     let isOrganization = false
     if (!isAuthenticatedUser) {
       // Check if it's an organization (only once, not on every page)
-      const orgResponse = await fetch(`https://api.github.com/orgs/${owner}`, {
+      const orgResponse = await fetch(`${getGitHubApiUrl()}/orgs/${owner}`, {
         headers: {
           Authorization: `Bearer ${token}`,
           Accept: 'application/vnd.github.v3+json',
@@ -63,13 +65,13 @@ export async function GET(request: NextRequest) {
 
       if (isAuthenticatedUser) {
         // Use /user/repos for authenticated user to get all accessible repos (owned, collaborator, org member)
-        apiUrl = `https://api.github.com/user/repos?sort=name&direction=asc&per_page=${perPage}&page=${page}&visibility=all&affiliation=owner,collaborator,organization_member`
+        apiUrl = `${getGitHubApiUrl()}/user/repos?sort=name&direction=asc&per_page=${perPage}&page=${page}&visibility=all&affiliation=owner,collaborator,organization_member`
       } else if (isOrganization) {
         // Use /orgs/{org}/repos for organizations to get private repos
-        apiUrl = `https://api.github.com/orgs/${owner}/repos?sort=name&direction=asc&per_page=${perPage}&page=${page}`
+        apiUrl = `${getGitHubApiUrl()}/orgs/${owner}/repos?sort=name&direction=asc&per_page=${perPage}&page=${page}`
       } else {
         // Fallback to /users/{owner}/repos (public only)
-        apiUrl = `https://api.github.com/users/${owner}/repos?sort=name&direction=asc&per_page=${perPage}&page=${page}`
+        apiUrl = `${getGitHubApiUrl()}/users/${owner}/repos?sort=name&direction=asc&per_page=${perPage}&page=${page}`
       }
 
       const response = await fetch(apiUrl, {
@@ -100,9 +102,13 @@ export async function GET(request: NextRequest) {
       page++
     }
 
-    // Remove duplicates based on full_name (owner/repo)
+    // Remove duplicates based on full_name (owner/repo), and with the GitHub App configured,
+    // keep only repositories in installations the user can access
+    const installedRepos = await listGitHubAppRepositoryNames(token)
     const uniqueRepos = allRepos.filter(
-      (repo, index, self) => index === self.findIndex((r) => r.full_name === repo.full_name),
+      (repo, index, self) =>
+        index === self.findIndex((r) => r.full_name === repo.full_name) &&
+        (!installedRepos || installedRepos.has(repo.full_name.toLowerCase())),
     )
 
     // Sort alphabetically by name (GitHub API sort might not be perfect)
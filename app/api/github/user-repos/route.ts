@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getUserGitHubToken } from '@/lib/github/user-token'
+import { listGitHubAppRepositoryNames } from '@/lib/github/app'
+import { getGitHubApiUrl } from '@/lib/git-providers'
 
 interface GitHubRepo {
   name: string
@@ -40,11 +42,16 @@ export async function GET(request: NextRequest) {
       return withServerTiming(NextResponse.json({ error: 'GitHub not connected' }, { status: 401 }), requestStart)
     }
 
+    // With the GitHub App configured, only repositories in installations the user can access are listed
+    const installedReposPromise = listGitHubAppRepositoryNames(token)
+    const isListed = (repo: GitHubRepo, installedRepos: Set<string> | null) =>
+      !installedRepos || installedRepos.has(repo.full_name.toLowerCase())
+
     const headers = {
       Authorization: `Bearer ${token}`,
       Accept: 'application/vnd.github.v3+json',
     }
-    const userResponsePromise = fetch('https://api.github.com/user', {
+    const userResponsePromise = fetch(`${getGitHubApiUrl()}/user`, {
       headers: {
         ...headers,
       },
@@ -62,7 +69,7 @@ export async function GET(request: NextRequest) {
 
       // Search for repos the user has access to matching the query
       const searchQuery = encodeURIComponent(`${search} in:name user:${username} fork:true`)
-      const searchUrl = `https://api.github.com/search/repositories?q=${searchQuery}&sort=updated&order=desc&per_page=${perPage}&page=${page}`
+      const searchUrl = `${getGitHubApiUrl()}/search/repositories?q=${searchQuery}&sort=updated&order=desc&per_page=${perPage}&page=${page}`
 
       const searchResponse = await fetch(searchUrl, {
         headers: {
@@ -74,20 +81,25 @@ export async function GET(request: NextRequest) {
         throw new Error('Failed to search repositories')
       }
 
-      const searchResult: GitHubSearchResult = await searchResponse.json()
+      const [searchResult, installedRepos]: [GitHubSearchResult, Set<string> | null] = await Promise.all([
+        searchResponse.json(),
+        installedReposPromise,
+      ])
 
       return withServerTiming(
         NextResponse.json({
-          repos: searchResult.items.map((repo) => ({
-            name: repo.name,
-            full_name: repo.full_name,
-            owner: repo.owner.login,
-            description: repo.description,
-            private: repo.private,
-            clone_url: repo.clone_url,
-            updated_at: repo.updated_at,
-            language: repo.language,
-          })),
+          repos: searchResult.items
+            .filter((repo) => isListed(repo, installedRepos))
+            .map((repo) => ({
+              name: repo.name,
+              full_name: repo.full_name,
+              owner: repo.owner.login,
+              description: repo.description,
+              private: repo.private,
+              clone_url: repo.clone_url,
+              updated_at: repo.updated_at,
+              language: repo.language,
+            })),
           page,
           per_page: perPage,
           has_more: searchResult.total_count > page * perPage,
@@ -104,7 +116,7 @@ export async function GET(request: NextRequest) {
     const githubPage = Math.ceil((page * perPage) / githubPerPage)
 
     // Fetch user's repos (owned repos, sorted by recently updated)
-    const apiUrl = `https://api.github.com/user/repos?sort=updated&direction=desc&per_page=${githubPerPage}&page=${githubPage}&visibility=all&affiliation=owner,organization_member`
+    const apiUrl = `${getGitHubApiUrl()}/user/repos?sort=updated&direction=desc&per_page=${githubPerPage}&page=${githubPage}&visibility=all&affiliation=owner,organization_member`
     const reposResponsePromise = fetch(apiUrl, {
       headers: {
         ...headers,
@@ -119,9 +131,10 @@ export async function GET(request: NextRequest) {
       throw new Error('Failed to fetch repositories')
     }
 
-    const [userPayload, repos] = await Promise.all([
+    const [userPayload, repos, installedRepos] = await Promise.all([
       userResponse.json() as Promise<{ login: string }>,
       reposResponse.json() as Promise<GitHubRepo[]>,
+      installedReposPromise,
     ])
     const username = userPayload.login
 
@@ -134,16 +147,18 @@ export async function GET(request: NextRequest) {
 
     return withServerTiming(
       NextResponse.json({
-        repos: slicedRepos.map((repo) => ({
-          name: repo.name,
-          full_name: repo.full_name,
-          owner: repo.owner.login,
-          description: repo.description,
-          private: repo.private,
-          clone_url: repo.clone_url,
-          updated_at: repo.updated_at,
-          language: repo.language,
-        })),
+        repos: slicedRepos
+          .filter((repo) => isListed(repo, installedRepos))
+          .map((repo) => ({
+            name: repo.name,
+            full_name: repo.full_name,
+            owner: repo.owner.login,
+            description: repo.description,
+            private: repo.private,
+            clone_url: repo.clone_url,
+            updated_at: repo.updated_at,
+            language: repo.language,
+          })),
         page,
         per_page: perPage,
         has_more: hasMore,
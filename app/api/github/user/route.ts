@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getUserGitHubToken } from '@/lib/github/user-token'
+import { getGitHubApiUrl } from '@/lib/git-providers'
 
 export async function GET(req: NextRequest) {
   try {
@@ -9,7 +10,7 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: 'GitHub not connected' }, { status: 401 })
     }
 
-    const response = await fetch('https://api.github.com/user', {
+    const response = await fetch(`${getGitHubApiUrl()}/user`, {
       headers: {
         Authorization: `Bearer ${token}`,
         Accept: 'application/vnd.github.v3+json',
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getUserGitHubToken } from '@/lib/github/user-token'
+import { getGitHubApiUrl } from '@/lib/git-providers'
 
 export async function GET(request: NextRequest) {
   try {
@@ -18,7 +19,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Try to fetch the repository to check if it's accessible
-    const response = await fetch(`https://api.github.com/repos/${owner}/${repo}`, {
+    const response = await fetch(`${getGitHubApiUrl()}/repos/${owner}/${repo}`, {
       headers: {
         Authorization: `Bearer ${token}`,
         Accept: 'application/vnd.github.v3+json',
@@ -50,6 +51,8 @@ export async function GET(request: NextRequest) {
         clone_url: repoData.clone_url,
         language: repoData.language,
       },
+      // Without push access, tasks push to a fork and open the pull request from it
+      canPush: !!repoData.permissions?.push,
     })
   } catch (error) {
     console.error('Error verifying GitHub repository:')
@@ -5,11 +5,17 @@
  * Exposes tools for creating, managing, and monitoring coding tasks via MCP clients.
  *
  * Features:
- * - Bearer token authentication via API tokens
+ * - Bearer token authentication via API tokens, or access tokens issued to clients through OAuth
+ *   (401 responses point clients to /.well-known/oauth-protected-resource/api/mcp)
  * - Query parameter auth support (?apikey=xxx -> Authorization header via middleware)
- * - 5 core tools: create-task, get-task, continue-task, list-tasks, stop-task
- * - Streamable HTTP transport (no SSE for simplicity)
- * - User-scoped access control
+ * - Task tools: create-task, get-task, continue-task, list-tasks, stop-task, get-task-diff, get-task-logs
+ * - Sandbox tools: list-files, read-file
+ * - Pull request tools: create-pr, merge-pr, close-pr
+ * - Repository tools: list-repos, list-branches
+ * - Task resources: task://{taskId}, task://{taskId}/logs, task://{taskId}/messages, task://{taskId}/diff
+ * - Resource subscriptions, with notifications/resources/updated sent on the GET stream
+ * - Streamable HTTP transport (no legacy SSE transport, so no Redis needed)
+ * - User-scoped access control; tokens need the "mcp" scope and each tool checks its own scope
  *
  * Client Configuration Example:
  * {
@@ -22,14 +28,26 @@
  */
 
 import { createMcpHandler, experimental_withMcpAuth } from 'mcp-handler'
-import { NextRequest } from 'next/server'
-import { getAuthFromRequest } from '@/lib/auth/api-token'
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestAuth } from '@/lib/auth/api-token'
+import { getTokenAccessError, tokenAccessDeniedResponse } from '@/lib/auth/token-permissions'
 import {
   createTaskHandler,
   getTaskHandler,
   continueTaskHandler,
   listTasksHandler,
   stopTaskHandler,
+  getTaskDiffHandler,
+  getTaskLogsHandler,
+  listFilesHandler,
+  readFileHandler,
+  createPrHandler,
+  mergePrHandler,
+  closePrHandler,
+  listReposHandler,
+  listBranchesHandler,
 } from '@/lib/mcp/tools'
 import {
   createTaskSchema,
@@ -37,14 +55,73 @@ import {
   continueTaskSchema,
   listTasksSchema,
   stopTaskSchema,
+  getTaskDiffSchema,
+  getTaskLogsSchema,
+  listFilesSchema,
+  readFileSchema,
+  createPrSchema,
+  mergePrSchema,
+  closePrSchema,
+  listReposSchema,
+  listBranchesSchema,
   type CreateTaskInput,
   type GetTaskInput,
   type ContinueTaskInput,
   type ListTasksInput,
   type StopTaskInput,
+  type GetTaskDiffInput,
+  type GetTaskLogsInput,
+  type ListFilesInput,
+  type ReadFileInput,
+  type CreatePrInput,
+  type MergePrInput,
+  type ClosePrInput,
+  type ListReposInput,
+  type ListBranchesInput,
 } from '@/lib/mcp/schemas'
+import {
+  listTaskResources,
+  readTaskResource,
+  subscribeToTaskResource,
+  unsubscribeFromTaskResource,
+  TASK_RESOURCE_MIME_TYPE,
+  type TaskResourceKind,
+} from '@/lib/mcp/resources'
+import { createResourceUpdateStream } from '@/lib/mcp/notifications'
 import type { McpToolContext } from '@/lib/mcp/types'
 
+// The GET notification stream stays open for up to 270 seconds
+export const maxDuration = 300
+
+// Task resource templates; only task://{taskId} is listed, the others are reached from it
+const TASK_RESOURCES: { kind: TaskResourceKind; uriTemplate: string; title: string; description: string }[] = [
+  {
+    kind: 'task',
+    uriTemplate: 'task://{taskId}',
+    title: 'Task',
+    description: 'Task status, progress, branch, pull request and recent logs.',
+  },
+  {
+    kind: 'logs',
+    uriTemplate: 'task://{taskId}/logs',
+    title: 'Task Logs',
+    description: "The task's most recent log entries. Use get-task-logs to page through older ones.",
+  },
+  {
+    kind: 'messages',
+    uriTemplate: 'task://{taskId}/messages',
+    title: 'Task Messages',
+    description: 'The conversation between the user and the agent.',
+  },
+  {
+    kind: 'diff',
+    uriTemplate: 'task://{taskId}/diff',
+    title: 'Task Diff',
+    description:
+      'Changes the task made: the pushed branch compared to its base on GitHub, or the running sandbox on other hosts.',
+  },
+]
+
 /**
  * Adapter to transform MCP library's extra parameter into our McpToolContext format.
  * The MCP library passes auth info via extra.authInfo, which we forward to our handlers.
@@ -135,8 +212,153 @@ const baseHandler = createMcpHandler(
         return adaptResponse(stopTaskHandler(input, adaptContext(extra)))
       },
     )
+
+    // Tool 6: Get Task Diff
+    server.registerTool(
+      'get-task-diff',
+      {
+        title: 'Get Task Diff',
+        description:
+          'Get the changes a task made. mode "remote" compares the pushed branch to its base (GitHub only); mode "local" returns uncommitted and unpushed changes in the running sandbox.',
+        inputSchema: getTaskDiffSchema,
+      },
+      async (input: GetTaskDiffInput, extra) => {
+        return adaptResponse(getTaskDiffHandler(input, adaptContext(extra)))
+      },
+    )
+
+    // Tool 7: Get Task Logs
+    server.registerTool(
+      'get-task-logs',
+      {
+        title: 'Get Task Logs',
+        description:
+          'Page through a task\'s logs. Without a cursor the most recent entries are returned; pass nextCursor as "after" to tail new entries or as "before" to load older ones.',
+        inputSchema: getTaskLogsSchema,
+      },
+      async (input: GetTaskLogsInput, extra) => {
+        return adaptResponse(getTaskLogsHandler(input, adaptContext(extra)))
+      },
+    )
+
+    // Tool 8: List Files
+    server.registerTool(
+      'list-files',
+      {
+        title: 'List Sandbox Files',
+        description:
+          "List the files in a task's running sandbox, including new files the agent created. Ignored files are left out.",
+        inputSchema: listFilesSchema,
+      },
+      async (input: ListFilesInput, extra) => {
+        return adaptResponse(listFilesHandler(input, adaptContext(extra)))
+      },
+    )
+
+    // Tool 9: Read File
+    server.registerTool(
+      'read-file',
+      {
+        title: 'Read Sandbox File',
+        description: "Read a file from a task's running sandbox, including changes that have not been pushed yet.",
+        inputSchema: readFileSchema,
+      },
+      async (input: ReadFileInput, extra) => {
+        return adaptResponse(readFileHandler(input, adaptContext(extra)))
+      },
+    )
+
+    // Tool 10: Create PR
+    server.registerTool(
+      'create-pr',
+      {
+        title: 'Create Pull Request',
+        description:
+          "Open a pull request from a task's branch. Returns the existing pull request if the task already has one.",
+        inputSchema: createPrSchema,
+      },
+      async (input: CreatePrInput, extra) => {
+        return adaptResponse(createPrHandler(input, adaptContext(extra)))
+      },
+    )
+
+    // Tool 11: Merge PR
+    server.registerTool(
+      'merge-pr',
+      {
+        title: 'Merge Pull Request',
+        description: "Merge a task's pull request and stop its sandbox.",
+        inputSchema: mergePrSchema,
+      },
+      async (input: MergePrInput, extra) => {
+        return adaptResponse(mergePrHandler(input, adaptContext(extra)))
+      },
+    )
+
+    // Tool 12: Close PR
+    server.registerTool(
+      'close-pr',
+      {
+        title: 'Close Pull Request',
+        description: "Close a task's pull request without merging it.",
+        inputSchema: closePrSchema,
+      },
+      async (input: ClosePrInput, extra) => {
+        return adaptResponse(closePrHandler(input, adaptContext(extra)))
+      },
+    )
+
+    // Tool 13: List Repos
+    server.registerTool(
+      'list-repos',
+      {
+        title: 'List Repositories',
+        description: 'List repositories the user can access on GitHub, GitLab or Gitea, most recently updated first.',
+        inputSchema: listReposSchema,
+      },
+      async (input: ListReposInput, extra) => {
+        return adaptResponse(listReposHandler(input, adaptContext(extra)))
+      },
+    )
+
+    // Tool 14: List Branches
+    server.registerTool(
+      'list-branches',
+      {
+        title: 'List Branches',
+        description: 'List the branches of a repository and its default branch.',
+        inputSchema: listBranchesSchema,
+      },
+      async (input: ListBranchesInput, extra) => {
+        return adaptResponse(listBranchesHandler(input, adaptContext(extra)))
+      },
+    )
+
+    // Task resources
+    for (const resource of TASK_RESOURCES) {
+      server.registerResource(
+        resource.kind === 'task' ? 'task' : `task-${resource.kind}`,
+        new ResourceTemplate(resource.uriTemplate, {
+          list: resource.kind === 'task' ? (extra) => listTaskResources(adaptContext(extra)) : undefined,
+        }),
+        { title: resource.title, description: resource.description, mimeType: TASK_RESOURCE_MIME_TYPE },
+        async (uri, variables, extra) => {
+          return readTaskResource(uri.href, String(variables.taskId), resource.kind, adaptContext(extra))
+        },
+      )
+    }
+
+    // Subscriptions outlive the request (the transport is stateless), so they are stored per API token
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+      await subscribeToTaskResource(request.params.uri, adaptContext(extra))
+      return {}
+    })
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request, extra) => {
+      await unsubscribeFromTaskResource(request.params.uri, adaptContext(extra))
+      return {}
+    })
   },
-  {}, // Capabilities object (empty for now)
+  { capabilities: { resources: { subscribe: true } } },
   {
     basePath: '/api',
     maxDuration: 60, // 1 minute timeout
@@ -150,18 +372,18 @@ const handler = experimental_withMcpAuth(
   baseHandler,
   async (request, bearerToken) => {
     // The middleware has already transformed ?apikey=xxx to Authorization: Bearer xxx
-    // So we can use the existing getAuthFromRequest helper
+    // So we can use the existing getRequestAuth helper
 
     if (!bearerToken) {
       // No token provided - deny access
       return undefined
     }
 
-    // Validate token and get user using existing auth helper
-    // Cast to NextRequest since getAuthFromRequest expects it
-    const user = await getAuthFromRequest(request as NextRequest)
+    // Validate token and get user using existing auth helper; OAuth access tokens are API token rows too
+    // Cast to NextRequest since getRequestAuth expects it
+    const auth = await getRequestAuth(request as NextRequest)
 
-    if (!user) {
+    if (!auth?.apiToken) {
       // Invalid token or user not found
       return undefined
     }
@@ -169,15 +391,53 @@ const handler = experimental_withMcpAuth(
     // Return auth info in the format expected by MCP tools
     return {
       token: bearerToken,
-      clientId: user.id, // Tools access this via context.extra.authInfo.clientId
-      scopes: [], // No scope-based auth for now
-      extra: { user }, // Full user object available in context.extra.authInfo.extra.user
+      clientId: auth.user.id, // Tools access this via context.extra.authInfo.clientId
+      scopes: auth.apiToken.scopes,
+      expiresAt: auth.apiToken.expiresAt ? Math.floor(auth.apiToken.expiresAt.getTime() / 1000) : undefined,
+      extra: { user: auth.user, apiToken: auth.apiToken }, // Token permissions are checked per tool
     }
   },
   {
     required: true, // Enforce authentication for all tools
+    requiredScopes: ['mcp'],
+    resourceMetadataPath: '/.well-known/oauth-protected-resource/api/mcp',
   },
 )
 
+/**
+ * GET opens the Streamable HTTP server-to-client stream, which carries
+ * notifications/resources/updated for the caller's subscriptions. mcp-handler
+ * doesn't serve this stream in stateless mode, so it is handled here.
+ */
+async function handleGet(request: NextRequest) {
+  if (!request.headers.get('accept')?.includes('text/event-stream')) {
+    return handler(request)
+  }
+
+  try {
+    const auth = await getRequestAuth(request)
+    if (!auth?.apiToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tokenError = getTokenAccessError(auth.apiToken, { scope: 'mcp' })
+    if (tokenError) {
+      return tokenAccessDeniedResponse(tokenError)
+    }
+
+    return new Response(createResourceUpdateStream(auth.apiToken.id, request.signal), {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    })
+  } catch (error) {
+    console.error('Error opening MCP notification stream')
+    return NextResponse.json({ error: 'Failed to open notification stream' }, { status: 500 })
+  }
+}
+
 // Export HTTP methods
-export { handler as GET, handler as POST, handler as DELETE }
+export { handleGet as GET, handler as POST, handler as DELETE }
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/session/get-server-session'
+import {
+  AuthorizationRequestResult,
+  createAuthorizationCode,
+  getAuthorizationRedirectUrl,
+  getOAuthIssuer,
+  validateAuthorizationRequest,
+} from '@/lib/auth/oauth'
+
+function errorRedirect(result: Extract<AuthorizationRequestResult, { ok: false }>, issuer: string) {
+  if (!result.redirectUri) {
+    return NextResponse.json({ error: result.error.message }, { status: 400 })
+  }
+
+  return NextResponse.redirect(
+    getAuthorizationRedirectUrl(
+      result.redirectUri,
+      { error: result.error.code, error_description: result.error.message },
+      result.state,
+      issuer,
+    ),
+    303,
+  )
+}
+
+/**
+ * Authorization endpoint. Valid requests continue to the consent screen;
+ * invalid ones are sent back to the client with an error.
+ */
+export async function GET(request: NextRequest) {
+  const issuer = getOAuthIssuer(request)
+  const result = await validateAuthorizationRequest(request.nextUrl.searchParams, issuer)
+  if (!result.ok) {
+    return errorRedirect(result, issuer)
+  }
+
+  return NextResponse.redirect(new URL(`/oauth/authorize${request.nextUrl.search}`, request.url), 303)
+}
+
+/**
+ * Consent screen submission: issue a code and send the user back to the client
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const issuer = getOAuthIssuer(request)
+
+    // Consent can only be given from the app's own page
+    const origin = request.headers.get('origin')
+    if (origin && origin !== issuer) {
+      return NextResponse.json({ error: 'Invalid origin' }, { status: 403 })
+    }
+
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const form = await request.formData()
+    const params = new URLSearchParams()
+    for (const [key, value] of form.entries()) {
+      if (typeof value === 'string') params.set(key, value)
+    }
+
+    const result = await validateAuthorizationRequest(params, issuer)
+    if (!result.ok) {
+      return errorRedirect(result, issuer)
+    }
+
+    const { redirectUri, state } = result.request
+    if (params.get('decision') !== 'approve') {
+      return NextResponse.redirect(
+        getAuthorizationRedirectUrl(
+          redirectUri,
+          { error: 'access_denied', error_description: 'The user denied access' },
+          state,
+          issuer,
+        ),
+        303,
+      )
+    }
+
+    const code = await createAuthorizationCode(result.request, session.user.id)
+    return NextResponse.redirect(getAuthorizationRedirectUrl(redirectUri, { code }, state, issuer), 303)
+  } catch (error) {
+    console.error('Error authorizing OAuth client')
+    return NextResponse.json({ error: 'Failed to authorize client' }, { status: 500 })
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { metadataCorsOptionsRequestHandler } from 'mcp-handler'
+import { z } from 'zod'
+import { OAuthError, OAUTH_CORS_HEADERS, registerOAuthClient } from '@/lib/auth/oauth'
+
+const registrationSchema = z.object({
+  redirect_uris: z.array(z.string()).min(1, 'At least one redirect URI is required').max(10),
+  client_name: z.string().max(100).optional(),
+  token_endpoint_auth_method: z.enum(['none', 'client_secret_post', 'client_secret_basic']).default('none'),
+  grant_types: z.array(z.string()).optional(),
+  response_types: z.array(z.string()).optional(),
+})
+
+/**
+ * Dynamic client registration (RFC 7591). Registration is open so MCP clients
+ * can connect without setup; every grant still needs the user's consent.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const validationResult = registrationSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      throw new OAuthError(
+        'invalid_client_metadata',
+        validationResult.error.issues[0]?.message || 'Invalid client metadata',
+      )
+    }
+
+    const { redirect_uris, client_name, token_endpoint_auth_method, grant_types, response_types } =
+      validationResult.data
+
+    if (grant_types?.some((grantType) => !['authorization_code', 'refresh_token'].includes(grantType))) {
+      throw new OAuthError(
+        'invalid_client_metadata',
+        'Only the authorization_code and refresh_token grants are supported',
+      )
+    }
+    if (response_types?.some((responseType) => responseType !== 'code')) {
+      throw new OAuthError('invalid_client_metadata', 'Only the code response type is supported')
+    }
+
+    const { client, clientSecret } = await registerOAuthClient({
+      name: client_name?.trim() || 'MCP client',
+      redirectUris: redirect_uris,
+      authMethod: token_endpoint_auth_method,
+    })
+
+    return NextResponse.json(
+      {
+        client_id: client.id,
+        client_id_issued_at: Math.floor(client.createdAt.getTime() / 1000),
+        client_name: client.name,
+        redirect_uris: client.redirectUris,
+        grant_types: ['authorization_code', 'refresh_token'],
+        response_types: ['code'],
+        token_endpoint_auth_method,
+        ...(clientSecret ? { client_secret: clientSecret, client_secret_expires_at: 0 } : {}),
+      },
+      { status: 201, headers: { ...OAUTH_CORS_HEADERS, 'Cache-Control': 'no-store' } },
+    )
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      return error.toResponse()
+    }
+    console.error('Error registering OAuth client')
+    return new OAuthError('server_error', 'Failed to register client', 500).toResponse()
+  }
+}
+
+export const OPTIONS = metadataCorsOptionsRequestHandler()
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { metadataCorsOptionsRequestHandler } from 'mcp-handler'
+import {
+  authenticateOAuthClient,
+  getClientCredentials,
+  OAuthError,
+  OAUTH_CORS_HEADERS,
+  revokeOAuthToken,
+} from '@/lib/auth/oauth'
+
+/**
+ * Token revocation (RFC 7009). Revoking either token of a grant disconnects the client.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData().catch(() => null)
+    if (!form) {
+      throw new OAuthError('invalid_request', 'Expected an application/x-www-form-urlencoded body')
+    }
+
+    const { clientId, clientSecret } = getClientCredentials(request, form)
+    if (!clientId) {
+      throw new OAuthError('invalid_client', 'client_id is required', 401)
+    }
+    const client = await authenticateOAuthClient(clientId, clientSecret)
+
+    const token = form.get('token')?.toString()
+    if (!token) {
+      throw new OAuthError('invalid_request', 'token is required')
+    }
+
+    await revokeOAuthToken(client, token)
+
+    return new NextResponse(null, { status: 200, headers: OAUTH_CORS_HEADERS })
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      return error.toResponse()
+    }
+    console.error('Error revoking OAuth token')
+    return new OAuthError('server_error', 'Failed to revoke token', 500).toResponse()
+  }
+}
+
+export const OPTIONS = metadataCorsOptionsRequestHandler()
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { metadataCorsOptionsRequestHandler } from 'mcp-handler'
+import {
+  authenticateOAuthClient,
+  exchangeAuthorizationCode,
+  getClientCredentials,
+  getOAuthIssuer,
+  OAuthError,
+  OAUTH_CORS_HEADERS,
+  refreshAccessToken,
+} from '@/lib/auth/oauth'
+
+/**
+ * Token endpoint: exchanges an authorization code (with its PKCE verifier) or
+ * a refresh token for a new access and refresh token
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData().catch(() => null)
+    if (!form) {
+      throw new OAuthError('invalid_request', 'Expected an application/x-www-form-urlencoded body')
+    }
+
+    const { clientId, clientSecret } = getClientCredentials(request, form)
+    if (!clientId) {
+      throw new OAuthError('invalid_client', 'client_id is required', 401)
+    }
+    const client = await authenticateOAuthClient(clientId, clientSecret)
+
+    const grantType = form.get('grant_type')?.toString()
+    let tokens
+
+    if (grantType === 'authorization_code') {
+      const code = form.get('code')?.toString()
+      const codeVerifier = form.get('code_verifier')?.toString()
+      if (!code || !codeVerifier) {
+        throw new OAuthError('invalid_request', 'code and code_verifier are required')
+      }
+
+      tokens = await exchangeAuthorizationCode({
+        client,
+        code,
+        codeVerifier,
+        redirectUri: form.get('redirect_uri')?.toString() || null,
+        resource: form.get('resource')?.toString() || null,
+        issuer: getOAuthIssuer(request),
+      })
+    } else if (grantType === 'refresh_token') {
+      const refreshToken = form.get('refresh_token')?.toString()
+      if (!refreshToken) {
+        throw new OAuthError('invalid_request', 'refresh_token is required')
+      }
+
+      tokens = await refreshAccessToken(client, refreshToken)
+    } else {
+      throw new OAuthError('unsupported_grant_type', 'Only authorization_code and refresh_token grants are supported')
+    }
+
+    return NextResponse.json(tokens, { headers: { ...OAUTH_CORS_HEADERS, 'Cache-Control': 'no-store' } })
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      return error.toResponse()
+    }
+    console.error('Error issuing OAuth token')
+    return new OAuthError('server_error', 'Failed to issue token', 500).toResponse()
+  }
+}
+
+export const OPTIONS = metadataCorsOptionsRequestHandler()
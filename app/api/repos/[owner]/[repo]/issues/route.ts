@@ -1,11 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getOctokit } from '@/lib/github/client'
+import { getRequestAuth } from '@/lib/auth/api-token'
+import { getTokenAccessError, tokenAccessDeniedResponse } from '@/lib/auth/token-permissions'
 
 export async function GET(request: NextRequest, context: { params: Promise<{ owner: string; repo: string }> }) {
   try {
-    const { owner, repo } = await context.params
+    const [auth, { owner, repo }] = await Promise.all([getRequestAuth(request), context.params])
+    if (!auth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tokenError = getTokenAccessError(auth.apiToken, { scope: 'repos:read', repoUrl: `${owner}/${repo}` })
+    if (tokenError) {
+      return tokenAccessDeniedResponse(tokenError)
+    }
 
-    const octokit = await getOctokit()
+    const octokit = await getOctokit(auth.user.id)
 
     if (!octokit.auth) {
       return NextResponse.json({ error: 'GitHub authentication required' }, { status: 401 })
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/session/get-server-session'
+import { cleanUpTaskGroupRun, getUserTaskGroup } from '@/lib/tasks/groups'
+
+interface RouteParams {
+  params: Promise<{
+    groupId: string
+  }>
+}
+
+/**
+ * Stop every run except the promoted winner, shut down their sandboxes and
+ * optionally delete their branches
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [{ groupId }, body] = await Promise.all([params, request.json().catch(() => ({}))])
+    const deleteBranches = body.deleteBranches === true
+
+    const result = await getUserTaskGroup(groupId, session.user.id)
+    if (!result) {
+      return NextResponse.json({ error: 'Task group not found' }, { status: 404 })
+    }
+
+    if (!result.group.winnerTaskId) {
+      return NextResponse.json({ error: 'Promote a run before cleaning up the others' }, { status: 400 })
+    }
+
+    const others = result.tasks.filter((task) => task.id !== result.group.winnerTaskId)
+    const cleanups = await Promise.all(
+      others.map((task) => cleanUpTaskGroupRun(task, { deleteBranch: deleteBranches })),
+    )
+    const failed = cleanups.filter((cleanup) => cleanup.error)
+
+    return NextResponse.json({
+      success: failed.length === 0,
+      runs: cleanups,
+      ...(failed.length > 0 && { error: `Failed to clean up ${failed.length} of ${cleanups.length} runs` }),
+    })
+  } catch (error) {
+    console.error('Error cleaning up task group')
+    return NextResponse.json({ error: 'Failed to clean up runs' }, { status: 500 })
+  }
+}
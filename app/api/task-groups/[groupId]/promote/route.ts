@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/session/get-server-session'
+import { getUserTaskGroup, promoteTaskGroupRun } from '@/lib/tasks/groups'
+
+interface RouteParams {
+  params: Promise<{
+    groupId: string
+  }>
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [{ groupId }, body] = await Promise.all([params, request.json()])
+    const { taskId, title, body: prBody } = body
+
+    if (!taskId) {
+      return NextResponse.json({ error: 'Task ID is required' }, { status: 400 })
+    }
+
+    const result = await getUserTaskGroup(groupId, session.user.id)
+    if (!result) {
+      return NextResponse.json({ error: 'Task group not found' }, { status: 404 })
+    }
+
+    const task = result.tasks.find((t) => t.id === taskId)
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found in this group' }, { status: 404 })
+    }
+
+    if (task.status !== 'completed') {
+      return NextResponse.json({ error: 'Only completed runs can be promoted' }, { status: 400 })
+    }
+
+    const promotion = await promoteTaskGroupRun({
+      group: result.group,
+      task,
+      title: title || task.title || task.prompt.slice(0, 72),
+      body: prBody,
+    })
+
+    if (!promotion.success) {
+      return NextResponse.json({ error: promotion.error || 'Failed to promote run' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        prUrl: promotion.task?.prUrl,
+        prNumber: promotion.task?.prNumber,
+        task: promotion.task,
+      },
+    })
+  } catch (error) {
+    console.error('Error promoting task group run')
+    return NextResponse.json({ error: 'Failed to promote run' }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from '@/lib/session/get-server-session'
+import { getTaskGroupRuns, getUserTaskGroup } from '@/lib/tasks/groups'
+
+interface RouteParams {
+  params: Promise<{
+    groupId: string
+  }>
+}
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { groupId } = await params
+    const result = await getUserTaskGroup(groupId, session.user.id)
+
+    if (!result) {
+      return NextResponse.json({ error: 'Task group not found' }, { status: 404 })
+    }
+
+    const runs = await getTaskGroupRuns(result.tasks)
+
+    const response = NextResponse.json({ group: result.group, runs })
+    // Diffs change while runs are in progress
+    response.headers.set('Cache-Control', 'no-store, no-cache, must-revalidate')
+    return response
+  } catch (error) {
+    console.error('Error fetching task group')
+    return NextResponse.json({ error: 'Failed to fetch task group' }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/client'
+import { taskGroups, insertTaskGroupSchema } from '@/lib/db/schema'
+import { generateId } from '@/lib/utils/id'
+import { getServerSession } from '@/lib/session/get-server-session'
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const parsed = insertTaskGroupSchema.safeParse({
+      id: generateId(12),
+      userId: session.user.id,
+      prompt: body.prompt,
+      repoUrl: body.repoUrl,
+    })
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message || 'Invalid task group' }, { status: 400 })
+    }
+
+    const [group] = await db
+      .insert(taskGroups)
+      .values({ ...parsed.data, id: parsed.data.id! })
+      .returning()
+
+    return NextResponse.json({ group })
+  } catch (error) {
+    console.error('Error creating task group')
+    return NextResponse.json({ error: 'Failed to create task group' }, { status: 500 })
+  }
+}
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db/client'
 import * as schema from '@/lib/db/schema'
 import { eq, and, isNull } from 'drizzle-orm'
-import { Sandbox } from '@vercel/sandbox'
+import { getSandboxProvider } from '@/lib/sandbox/providers'
 import { getSandbox } from '@/lib/sandbox/sandbox-registry'
 import { getServerSession } from '@/lib/session/get-server-session'
 
@@ -44,20 +44,12 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     // If not in registry, try to reconnect using sandboxId from database
     if (!sandbox) {
       try {
-        const sandboxToken = process.env.SANDBOX_VERCEL_TOKEN
-        const teamId = process.env.SANDBOX_VERCEL_TEAM_ID
-        const projectId = process.env.SANDBOX_VERCEL_PROJECT_ID
-
-        if (!sandboxToken || !teamId || !projectId) {
+        const provider = getSandboxProvider()
+        if (provider.validateEnvironment().length > 0) {
           return NextResponse.json({ success: false, error: 'Sandbox credentials not configured' }, { status: 500 })
         }
 
-        sandbox = await Sandbox.get({
-          sandboxId: task.sandboxId,
-          teamId,
-          projectId,
-          token: sandboxToken,
-        })
+        sandbox = await provider.get(task.sandboxId)
       } catch (error) {
         console.error('Failed to reconnect to sandbox:')
         return NextResponse.json({ success: false, error: 'Failed to connect to sandbox' }, { status: 500 })
@@ -4,6 +4,8 @@ import { tasks } from '@/lib/db/schema'
 import { eq, and, isNull } from 'drizzle-orm'
 import { getServerSession } from '@/lib/session/get-server-session'
 import { getOctokit } from '@/lib/github/client'
+import { getGitProviderForUrl, GitCheck, GitProviderError } from '@/lib/git-providers'
+import { getGitProviderToken } from '@/lib/git-providers/accounts'
 
 export const dynamic = 'force-dynamic'
 
@@ -32,6 +34,42 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ success: false, error: 'Task does not have a branch' }, { status: 400 })
     }
 
+    // Pipelines and commit statuses of other git hosts are listed through the provider
+    const gitProvider = getGitProviderForUrl(task.repoUrl)
+    if (gitProvider && gitProvider.name !== 'github') {
+      const token = await getGitProviderToken(session.user.id, gitProvider.name)
+      if (!token) {
+        return NextResponse.json(
+          { success: false, error: `${gitProvider.displayName} authentication required` },
+          { status: 401 },
+        )
+      }
+
+      let checks: GitCheck[]
+      try {
+        checks = await gitProvider.listChecks(token, gitProvider.parseRepoUrl(task.repoUrl)!, task.branchName)
+      } catch (error) {
+        // The branch hasn't been pushed yet
+        if (error instanceof GitProviderError && error.status === 404) {
+          return NextResponse.json({ success: true, checkRuns: [] })
+        }
+        throw error
+      }
+
+      return NextResponse.json({
+        success: true,
+        checkRuns: checks.map((check) => ({
+          id: check.id,
+          name: check.name,
+          status: check.status,
+          conclusion: check.conclusion,
+          html_url: check.url,
+          started_at: check.startedAt,
+          completed_at: check.completedAt,
+        })),
+      })
+    }
+
     // Extract owner and repo from repoUrl
     const repoMatch = task.repoUrl.match(/github\.com\/([^\/]+)\/([^\/\.]+)/)
     if (!repoMatch) {
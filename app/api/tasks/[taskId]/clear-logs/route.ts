@@ -3,6 +3,7 @@ import { db } from '@/lib/db/client'
 import * as schema from '@/lib/db/schema'
 import { eq, and, isNull } from 'drizzle-orm'
 import { getServerSession } from '@/lib/session/get-server-session'
+import { clearTaskLogs } from '@/lib/tasks/logs'
 
 const { tasks } = schema
 
@@ -26,8 +27,8 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ success: false, error: 'Task not found' }, { status: 404 })
     }
 
-    // Clear logs by setting to empty array
-    await db.update(tasks).set({ logs: [] }).where(eq(tasks.id, taskId))
+    // Clear logs by deleting the task's log entries
+    await clearTaskLogs(taskId)
 
     return NextResponse.json({
       success: true,
@@ -3,7 +3,7 @@ import { db } from '@/lib/db/client'
 import { tasks } from '@/lib/db/schema'
 import { eq, and, isNull } from 'drizzle-orm'
 import { getServerSession } from '@/lib/session/get-server-session'
-import { getOctokit, parseGitHubUrl } from '@/lib/github/client'
+import { closeTaskPullRequest } from '@/lib/git-providers/pull-requests'
 
 export async function POST(request: NextRequest, { params }: { params: Promise<{ taskId: string }> }) {
   try {
@@ -14,18 +14,11 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
 
     const { taskId } = await params
 
-    // Get task from database and fetch Octokit client in parallel for efficiency
-    const [task, octokit] = await Promise.all([
-      (async () => {
-        const [task] = await db
-          .select()
-          .from(tasks)
-          .where(and(eq(tasks.id, taskId), eq(tasks.userId, session.user.id), isNull(tasks.deletedAt)))
-          .limit(1)
-        return task
-      })(),
-      getOctokit(),
-    ])
+    const [task] = await db
+      .select()
+      .from(tasks)
+      .where(and(eq(tasks.id, taskId), eq(tasks.userId, session.user.id), isNull(tasks.deletedAt)))
+      .limit(1)
 
     if (!task) {
       return NextResponse.json({ error: 'Task not found' }, { status: 404 })
@@ -35,77 +28,26 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ error: 'Task does not have a pull request' }, { status: 400 })
     }
 
-    // Verify GitHub authentication
-    if (!octokit.auth) {
-      return NextResponse.json(
-        {
-          error: 'GitHub authentication required. Please connect your GitHub account.',
-        },
-        { status: 401 },
-      )
-    }
+    // Close the pull request
+    const result = await closeTaskPullRequest(session.user.id, { repoUrl: task.repoUrl, prNumber: task.prNumber })
 
-    // Parse repository URL
-    const parsed = parseGitHubUrl(task.repoUrl)
-    if (!parsed) {
-      return NextResponse.json({ error: 'Invalid GitHub repository URL' }, { status: 400 })
+    if (!result.success) {
+      return NextResponse.json({ error: result.error || 'Failed to close pull request' }, { status: 500 })
     }
 
-    const { owner, repo } = parsed
-
-    try {
-      // Close the pull request
-      await octokit.rest.pulls.update({
-        owner,
-        repo,
-        pull_number: task.prNumber,
-        state: 'closed',
+    // Update task status in database
+    await db
+      .update(tasks)
+      .set({
+        prStatus: 'closed',
+        updatedAt: new Date(),
       })
+      .where(eq(tasks.id, task.id))
 
-      // Update task status in database
-      await db
-        .update(tasks)
-        .set({
-          prStatus: 'closed',
-          updatedAt: new Date(),
-        })
-        .where(eq(tasks.id, task.id))
-
-      return NextResponse.json({
-        success: true,
-        message: 'Pull request closed successfully',
-      })
-    } catch (error: unknown) {
-      console.error('Error closing pull request:')
-
-      // Handle specific error cases
-      if (error && typeof error === 'object' && 'status' in error) {
-        const status = (error as { status: number }).status
-        if (status === 404) {
-          return NextResponse.json(
-            {
-              error: 'Pull request not found',
-            },
-            { status: 404 },
-          )
-        }
-        if (status === 403) {
-          return NextResponse.json(
-            {
-              error: 'Permission denied. Check repository access',
-            },
-            { status: 403 },
-          )
-        }
-      }
-
-      return NextResponse.json(
-        {
-          error: 'Failed to close pull request',
-        },
-        { status: 500 },
-      )
-    }
+    return NextResponse.json({
+      success: true,
+      message: 'Pull request closed successfully',
+    })
   } catch (error) {
     console.error('Error in close PR API:')
     return NextResponse.json(
@@ -1,32 +1,39 @@
 import { NextRequest, NextResponse, after } from 'next/server'
-import { getAuthFromRequest } from '@/lib/auth/api-token'
-import { getServerSession } from '@/lib/session/get-server-session'
+import { getRequestAuth } from '@/lib/auth/api-token'
+import { getTokenAccessError, tokenAccessDeniedResponse } from '@/lib/auth/token-permissions'
 import { db } from '@/lib/db/client'
-import { tasks, taskMessages, connectors } from '@/lib/db/schema'
-import { eq, and, asc, isNull } from 'drizzle-orm'
+import { tasks, taskMessages } from '@/lib/db/schema'
+import { eq, and, isNull } from 'drizzle-orm'
 import { generateId } from '@/lib/utils/id'
 import { createTaskLogger } from '@/lib/utils/task-logger'
-import { Sandbox } from '@vercel/sandbox'
-import { createSandbox } from '@/lib/sandbox/creation'
-import { executeAgentInSandbox, AgentType } from '@/lib/sandbox/agents'
-import { pushChangesToBranch, shutdownSandbox } from '@/lib/sandbox/git'
-import { unregisterSandbox, isSandboxHealthy } from '@/lib/sandbox/sandbox-registry'
-import { decrypt } from '@/lib/crypto'
-import { getUserGitHubToken } from '@/lib/github/user-token'
-import { getGitHubUser } from '@/lib/github/client'
+import { getOctokit, getRepoOctokit, parseGitHubUrl } from '@/lib/github/client'
+import { getGitProviderForUrl } from '@/lib/git-providers'
+import { getRepoGitAccount } from '@/lib/git-providers/accounts'
+import {
+  formatReviewFeedbackPrompt,
+  listReviewThreads,
+  replyToReviewThreads,
+  ReviewThread,
+} from '@/lib/github/review-threads'
 import { validateGitHubToken } from '@/lib/github/validate-token'
-import { getUserApiKeys } from '@/lib/api-keys/user-keys'
-import { checkRateLimit } from '@/lib/utils/rate-limit'
+import { getUserApiKeysWithSource } from '@/lib/api-keys/user-keys'
+import { checkRateLimit, checkSpendLimit } from '@/lib/utils/rate-limit'
+import { formatUsd } from '@/lib/utils/model-pricing'
 import { getMaxSandboxDuration } from '@/lib/db/settings'
-import { generateCommitMessage, createFallbackCommitMessage } from '@/lib/utils/commit-message-generator'
-import { detectPortFromRepo } from '@/lib/sandbox/port-detection'
+import { continueTask } from '@/lib/tasks/continue-task'
 
 export async function POST(req: NextRequest, context: { params: Promise<{ taskId: string }> }) {
   try {
-    const user = await getAuthFromRequest(req)
-    if (!user?.id) {
+    const auth = await getRequestAuth(req)
+    if (!auth) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
+    const { user } = auth
+
+    const scopeError = getTokenAccessError(auth.apiToken, { scope: 'tasks:write' })
+    if (scopeError) {
+      return tokenAccessDeniedResponse(scopeError)
+    }
 
     // Check rate limit for follow-up messages
     const rateLimit = await checkRateLimit({ id: user.id, email: user.email ?? undefined })
@@ -43,11 +50,31 @@ export async function POST(req: NextRequest, context: { params: Promise<{ taskId
       )
     }
 
+    const spendLimit = await checkSpendLimit({ id: user.id, email: user.email ?? undefined })
+    if (!spendLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Spend limit exceeded',
+          message: `You have reached your monthly agent spend limit of ${formatUsd(spendLimit.limitUsd!)}. Your limit will reset at ${spendLimit.resetAt.toISOString()}`,
+          spentUsd: spendLimit.spentUsd,
+          limitUsd: spendLimit.limitUsd,
+          resetAt: spendLimit.resetAt.toISOString(),
+        },
+        { status: 429 },
+      )
+    }
+
     const { taskId } = await context.params
     const body = await req.json()
-    const { message } = body
+    const { message, reviewThreadIds, resolveThreads = true } = body
+
+    // Review threads to address instead of (or in addition to) a message
+    const threadIds: string[] = Array.isArray(reviewThreadIds)
+      ? reviewThreadIds.filter((id: unknown): id is string => typeof id === 'string')
+      : []
+    const instructions = typeof message === 'string' ? message.trim() : ''
 
-    if (!message || typeof message !== 'string' || !message.trim()) {
+    if (!instructions && threadIds.length === 0) {
       return NextResponse.json({ error: 'Message is required' }, { status: 400 })
     }
 
@@ -62,17 +89,53 @@ export async function POST(req: NextRequest, context: { params: Promise<{ taskId
       return NextResponse.json({ error: 'Task not found' }, { status: 404 })
     }
 
+    const tokenError = getTokenAccessError(auth.apiToken, {
+      scope: 'tasks:write',
+      repoUrl: task.repoUrl,
+      agent: task.selectedAgent,
+    })
+    if (tokenError) {
+      return tokenAccessDeniedResponse(tokenError)
+    }
+
     // Check if task has a branch name (required to continue)
     if (!task.branchName) {
       return NextResponse.json({ error: 'Task does not have a branch to continue from' }, { status: 400 })
     }
 
+    let followUp = instructions
+    let reviewFeedback: { owner: string; repo: string; prNumber: number; threads: ReviewThread[] } | null = null
+
+    if (threadIds.length > 0) {
+      const parsedRepo = task.repoUrl ? parseGitHubUrl(task.repoUrl) : null
+      if (!task.prNumber || !parsedRepo) {
+        return NextResponse.json({ error: 'Task does not have a PR' }, { status: 400 })
+      }
+
+      let threads: ReviewThread[]
+      try {
+        const octokit = await getOctokit(user.id)
+        threads = await listReviewThreads(octokit, parsedRepo.owner, parsedRepo.repo, task.prNumber)
+      } catch (error) {
+        console.error('Error fetching review threads')
+        return NextResponse.json({ error: 'Failed to fetch review threads' }, { status: 502 })
+      }
+
+      const selectedThreads = threads.filter((thread) => threadIds.includes(thread.id))
+      if (selectedThreads.length === 0) {
+        return NextResponse.json({ error: 'Review threads not found' }, { status: 404 })
+      }
+
+      followUp = formatReviewFeedbackPrompt(task.prNumber, selectedThreads, instructions)
+      reviewFeedback = { ...parsedRepo, prNumber: task.prNumber, threads: selectedThreads }
+    }
+
     // Save the user's message
     await db.insert(taskMessages).values({
       id: generateId(12),
       taskId,
       role: 'user',
-      content: message.trim(),
+      content: followUp,
     })
 
     // Reset task status and progress
@@ -86,27 +149,33 @@ export async function POST(req: NextRequest, context: { params: Promise<{ taskId
       })
       .where(eq(tasks.id, taskId))
 
-    // Get user's API keys, GitHub token, and GitHub user info
+    // Get user's API keys and their token and user info on the repository's git host
     // Pass user.id directly to support both session-based and API token-based authentication
     // Use Promise.all to fetch all user data in parallel for better performance
-    const [userApiKeys, userGithubToken, githubUser, maxSandboxDuration] = await Promise.all([
-      getUserApiKeys(user.id),
-      getUserGitHubToken(user.id),
-      getGitHubUser(user.id),
+    const [userApiKeys, gitAccount, maxSandboxDuration] = await Promise.all([
+      getUserApiKeysWithSource(user.id),
+      getRepoGitAccount(user.id, task.repoUrl),
       getMaxSandboxDuration(user.id),
     ])
+    const userGithubToken = gitAccount.token
+    const githubUser = gitAccount.user
+    const gitProvider = task.repoUrl ? getGitProviderForUrl(task.repoUrl) : null
 
-    // Validate GitHub token if task requires repository access
+    // Validate the git host token if task requires repository access
     if (task.repoUrl) {
+      const providerName = gitProvider?.displayName || 'GitHub'
+
       // Check if token exists
       if (!userGithubToken) {
         return NextResponse.json(
-          { error: 'GitHub token was revoked or expired. Please reconnect your GitHub account.' },
+          { error: `${providerName} token was revoked or expired. Please reconnect your ${providerName} account.` },
           { status: 401 },
         )
       }
+    }
 
-      // Validate token with GitHub API
+    // Validate token with GitHub API (GitHub App installation tokens can't read /user)
+    if (userGithubToken && gitProvider?.name === 'github' && !gitAccount.coAuthor) {
       const validationResult = await validateGitHubToken(userGithubToken)
 
       if (!validationResult.valid) {
@@ -119,415 +188,44 @@ export async function POST(req: NextRequest, context: { params: Promise<{ taskId
 
     // Process the continuation asynchronously
     after(async () => {
-      await continueTask(
+      const { commitSha } = await continueTask(
         taskId,
-        message.trim(),
+        user.id,
+        followUp,
         task.repoUrl || '',
         task.branchName || '',
         task.maxDuration || maxSandboxDuration,
         task.selectedAgent || 'claude',
         task.selectedModel || undefined,
         task.installDependencies || false,
-        userApiKeys,
+        userApiKeys.apiKeys,
         userGithubToken,
         githubUser,
+        gitAccount.coAuthor,
+        userApiKeys.userKeyNames,
       )
-    })
-
-    return NextResponse.json({ success: true })
-  } catch (error) {
-    console.error('Error continuing task')
-    return NextResponse.json({ error: 'Failed to continue task' }, { status: 500 })
-  }
-}
-
-async function continueTask(
-  taskId: string,
-  prompt: string,
-  repoUrl: string,
-  branchName: string,
-  maxDuration: number,
-  selectedAgent: string = 'claude',
-  selectedModel?: string,
-  installDependencies: boolean = false,
-  apiKeys?: {
-    OPENAI_API_KEY?: string
-    GEMINI_API_KEY?: string
-    CURSOR_API_KEY?: string
-    ANTHROPIC_API_KEY?: string
-    AI_GATEWAY_API_KEY?: string
-  },
-  githubToken?: string | null,
-  githubUser?: {
-    username: string
-    name: string | null
-    email: string | null
-  } | null,
-) {
-  let sandbox: Sandbox | null = null
-  let isResumedSandbox = false // Track if we reconnected to existing sandbox
-  const logger = createTaskLogger(taskId)
-
-  try {
-    console.log('Continuing task with new message')
-
-    await logger.updateStatus('processing', 'Processing follow-up message...')
-    await logger.updateProgress(10, 'Initializing continuation...')
-
-    if (githubToken) {
-      await logger.info('Using authenticated GitHub access')
-    }
-
-    // Fetch task to get sandboxId and keepAlive settings
-    // Also fetch session and previous messages in parallel for efficiency
-    const [currentTask, previousMessages] = await Promise.all([
-      (async () => {
-        const [task] = await db.select().from(tasks).where(eq(tasks.id, taskId)).limit(1)
-        return task
-      })(),
-      db
-        .select()
-        .from(taskMessages)
-        .where(eq(taskMessages.taskId, taskId))
-        .orderBy(asc(taskMessages.createdAt))
-        .limit(10),
-    ])
-
-    if (!currentTask) {
-      throw new Error('Task not found')
-    }
-
-    // Try to reconnect to existing sandbox if keepAlive was enabled
-    console.log('Checking for existing sandbox:', {
-      hasSandboxId: !!currentTask.sandboxId,
-      sandboxId: currentTask.sandboxId,
-      keepAlive: currentTask.keepAlive,
-    })
-
-    if (currentTask.sandboxId && currentTask.keepAlive) {
-      try {
-        await logger.info('Attempting to reconnect to existing sandbox')
-        console.log('Calling Sandbox.get with sandboxId:', currentTask.sandboxId)
-        const reconnectedSandbox = await Sandbox.get({
-          sandboxId: currentTask.sandboxId,
-          teamId: process.env.SANDBOX_VERCEL_TEAM_ID!,
-          projectId: process.env.SANDBOX_VERCEL_PROJECT_ID!,
-          token: process.env.SANDBOX_VERCEL_TOKEN!,
-        })
-
-        if (reconnectedSandbox) {
-          // Health check before reuse
-          const healthy = await isSandboxHealthy(reconnectedSandbox)
-
-          if (healthy) {
-            await logger.info('Successfully reconnected to existing sandbox')
-            sandbox = reconnectedSandbox
-            isResumedSandbox = true // Mark as resumed
-            await logger.updateProgress(50, 'Executing agent with follow-up message')
-          } else {
-            // Sandbox expired or unhealthy - clear session and create new one
-            await logger.info('Sandbox expired, will create new one')
-            // Clear agent session ID since sandbox is gone
-            await db.update(tasks).set({ agentSessionId: null }).where(eq(tasks.id, taskId))
-            // Don't set sandbox - will fall through to create new one below
-          }
-        }
-      } catch (error) {
-        console.error('Failed to reconnect to sandbox')
-        await logger.info('Could not reconnect to sandbox, will create new one')
-        // Clear agent session ID on reconnect failure
-        await db.update(tasks).set({ agentSessionId: null }).where(eq(tasks.id, taskId))
-      }
-    }
-
-    if (!sandbox) {
-      // Create new sandbox
-      await logger.updateProgress(15, 'Creating sandbox environment')
-      console.log('Creating sandbox for continuation')
-
-      // Detect the appropriate port for the project
-      const port = await detectPortFromRepo(repoUrl, githubToken)
-      console.log('Port detection completed for project')
-
-      // Create sandbox and checkout the existing branch
-      const sandboxResult = await createSandbox(
-        {
-          taskId,
-          repoUrl,
-          githubToken,
-          gitAuthorName: githubUser?.name || githubUser?.username || 'Coding Agent',
-          gitAuthorEmail: githubUser?.username
-            ? `${githubUser.username}@users.noreply.github.com`
-            : 'agent@example.com',
-          apiKeys,
-          timeout: `${maxDuration}m`,
-          ports: [port],
-          runtime: 'node22',
-          resources: { vcpus: 4 },
-          taskPrompt: prompt,
-          selectedAgent,
-          selectedModel,
-          installDependencies,
-          preDeterminedBranchName: branchName, // Use existing branch
-          onProgress: async (progress: number, message: string) => {
-            await logger.updateProgress(progress, message)
-          },
-        },
-        logger,
-      )
-
-      if (!sandboxResult.success) {
-        throw new Error(sandboxResult.error || 'Failed to create sandbox')
-      }
 
-      const { sandbox: createdSandbox, domain } = sandboxResult
-      sandbox = createdSandbox || null
-
-      await db
-        .update(tasks)
-        .set({
-          sandboxId: sandbox?.sandboxId || undefined,
-          sandboxUrl: domain || undefined,
-          updatedAt: new Date(),
-        })
-        .where(eq(tasks.id, taskId))
-    }
-
-    console.log('Starting agent execution')
-
-    // Get the last 5 messages before the current one (which is the last message)
-    // previousMessages was already fetched in parallel above during task fetch
-    const contextMessages = previousMessages.slice(-6, -1) // Last 6 excluding the very last one, giving us 5 messages
-
-    // Build conversation history context - put the new request FIRST, then context
-    // Sanitize the current prompt to prevent CLI option parsing issues
-    const sanitizedPrompt = prompt
-      .replace(/`/g, "'") // Replace backticks with single quotes
-      .replace(/\$/g, '') // Remove dollar signs
-      .replace(/\\/g, '') // Remove backslashes
-      .replace(/^-/gm, ' -') // Prefix lines starting with dash to avoid CLI option parsing
-
-    let promptWithContext = sanitizedPrompt
-    // Always add conversation history as context backup
-    // Even when using --resume, Claude may not have access to previous context if session expired
-    if (contextMessages.length > 0) {
-      let conversationHistory = '\n\n---\n\nFor context, here is the conversation history from this session:\n\n'
-      contextMessages.forEach((msg) => {
-        const role = msg.role === 'user' ? 'User' : 'A'
-        // Escape special characters and limit length to avoid shell parsing issues
-        const truncatedContent = msg.content.length > 500 ? msg.content.substring(0, 500) + '...' : msg.content
-        // Remove problematic characters that could cause shell parsing issues
-        const sanitizedContent = truncatedContent
-          .replace(/`/g, "'") // Replace backticks with single quotes
-          .replace(/\$/g, '') // Remove dollar signs
-          .replace(/\\/g, '') // Remove backslashes
-          .replace(/^-/gm, ' -') // Prefix lines starting with dash to avoid CLI option parsing
-        conversationHistory += `${role}: ${sanitizedContent}\n\n`
-      })
-      promptWithContext = `${sanitizedPrompt}${conversationHistory}`
-    }
-
-    type Connector = typeof connectors.$inferSelect
-
-    let mcpServers: Connector[] = []
-
-    try {
-      const session = await getServerSession()
-
-      if (session?.user?.id) {
-        const userConnectors = await db
-          .select()
-          .from(connectors)
-          .where(and(eq(connectors.userId, session.user.id), eq(connectors.status, 'connected')))
-
-        mcpServers = userConnectors.map((connector: Connector) => {
-          const decryptedEnv = (() => {
-            if (!connector.env) return null
-            try {
-              const decrypted = decrypt(connector.env)
-              return decrypted ? JSON.parse(decrypted) : null
-            } catch {
-              return null
-            }
-          })()
-          return {
-            ...connector,
-            env: decryptedEnv,
-            oauthClientSecret: connector.oauthClientSecret ? decrypt(connector.oauthClientSecret) : null,
-          }
-        })
-
-        if (mcpServers.length > 0) {
-          await logger.info('Found connected MCP servers')
-        }
-      }
-    } catch (mcpError) {
-      console.error('Failed to fetch MCP servers')
-      await logger.info('Warning: Could not fetch MCP servers, continuing without them')
-    }
-
-    if (!sandbox) {
-      throw new Error('Sandbox is not available for agent execution')
-    }
-
-    // Generate agent message ID for streaming updates
-    const agentMessageId = generateId()
-
-    // Validate session ID format before using
-    const sessionId = currentTask.agentSessionId
-    const validSessionId =
-      sessionId && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(sessionId)
-        ? sessionId
-        : undefined
-
-    // Log session state for debugging
-    await logger.info('Executing follow-up agent')
-    console.log('Session state:', {
-      hasSessionId: !!sessionId,
-      isResumedSandbox,
-      sandboxId: sandbox?.sandboxId?.substring(0, 8),
-    })
-
-    const agentResult = await executeAgentInSandbox(
-      sandbox,
-      promptWithContext,
-      selectedAgent as AgentType,
-      logger,
-      selectedModel,
-      mcpServers,
-      undefined,
-      apiKeys,
-      isResumedSandbox && !!validSessionId, // Only set isResumed if we have valid session
-      validSessionId, // Use validated session ID
-      taskId, // taskId for streaming updates
-      agentMessageId, // agentMessageId for streaming updates
-      githubToken ?? undefined, // githubToken for agent MCP external access
-    )
-
-    console.log('Agent execution completed')
-
-    // Update agent session ID if provided (for Cursor agent resumption)
-    if (agentResult.sessionId) {
-      await db.update(tasks).set({ agentSessionId: agentResult.sessionId }).where(eq(tasks.id, taskId))
-    }
-
-    if (agentResult.success) {
-      await logger.success('Agent execution completed')
-      await logger.info('Code changes applied successfully')
-
-      if (agentResult.agentResponse) {
-        await logger.info('Agent response received')
-
-        // Save the agent's response message
+      // Point each addressed thread at the commit that fixed it
+      if (reviewFeedback && commitSha) {
         try {
-          await db.insert(taskMessages).values({
-            id: generateId(12),
-            taskId,
-            role: 'agent',
-            content: agentResult.agentResponse,
+          const octokit = await getRepoOctokit(task.repoUrl || '', user.id)
+          const replied = await replyToReviewThreads(octokit, {
+            ...reviewFeedback,
+            commitSha,
+            resolve: resolveThreads !== false,
           })
+          await createTaskLogger(taskId).info(
+            `Replied to ${replied} review thread(s) with commit ${commitSha.slice(0, 7)}`,
+          )
         } catch (error) {
-          console.error('Failed to save agent message')
-        }
-      }
-
-      // Generate AI-powered commit message
-      let commitMessage: string
-      try {
-        // Extract repository name from URL for context
-        let repoName: string | undefined
-        try {
-          const url = new URL(repoUrl)
-          const pathParts = url.pathname.split('/')
-          if (pathParts.length >= 3) {
-            repoName = pathParts[pathParts.length - 1].replace(/\.git$/, '')
-          }
-        } catch {
-          // Ignore URL parsing errors
-        }
-
-        if (process.env.AI_GATEWAY_API_KEY) {
-          commitMessage = await generateCommitMessage({
-            description: prompt,
-            repoName,
-            context: `${selectedAgent} agent follow-up`,
-          })
-        } else {
-          commitMessage = createFallbackCommitMessage(prompt)
-        }
-      } catch (error) {
-        console.error('Error generating commit message')
-        commitMessage = createFallbackCommitMessage(prompt)
-      }
-
-      // Push changes to branch
-      const pushResult = await pushChangesToBranch(sandbox, branchName, commitMessage, logger)
-
-      // Conditionally shutdown sandbox based on task's keepAlive setting
-      // currentTask was already fetched at the beginning, use that value
-      if (currentTask.keepAlive) {
-        // Keep sandbox alive for future follow-up messages
-        await logger.info('Sandbox kept alive for follow-up messages')
-      } else {
-        // Shutdown sandbox
-        unregisterSandbox(taskId)
-        const shutdownResult = await shutdownSandbox(sandbox)
-        if (shutdownResult.success) {
-          await logger.success('Sandbox shutdown completed')
-        } else {
-          await logger.error('Sandbox shutdown failed')
+          console.error('Error replying to review threads')
         }
       }
+    })
 
-      if (pushResult.pushFailed) {
-        await logger.updateStatus('error')
-        await logger.error('Task failed: Unable to push changes to repository')
-        throw new Error('Failed to push changes to repository')
-      } else {
-        await logger.updateStatus('completed')
-        await logger.updateProgress(100, 'Task completed successfully')
-        console.log('Task continuation completed successfully')
-      }
-    } else {
-      await logger.error('Agent execution failed')
-      throw new Error(agentResult.error || 'Agent execution failed')
-    }
+    return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Error continuing task')
-
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
-
-    try {
-      if (sandbox) {
-        // Check keepAlive setting before shutting down sandbox on error
-        // Fetch task to get current keepAlive setting
-        const [currentTaskData] = await db
-          .select({ keepAlive: tasks.keepAlive })
-          .from(tasks)
-          .where(eq(tasks.id, taskId))
-          .limit(1)
-
-        if (currentTaskData?.keepAlive) {
-          // Keep sandbox alive even on error for potential retry
-          await logger.info('Sandbox kept alive despite error')
-        } else {
-          unregisterSandbox(taskId)
-          await shutdownSandbox(sandbox)
-        }
-      }
-    } catch (cleanupError) {
-      console.error('Error during cleanup')
-    }
-
-    await logger.updateStatus('error')
-    await logger.error('Task failed to continue')
-
-    await db
-      .update(tasks)
-      .set({
-        error: errorMessage,
-        updatedAt: new Date(),
-      })
-      .where(eq(tasks.id, taskId))
+    return NextResponse.json({ error: 'Failed to continue task' }, { status: 500 })
   }
 }
@@ -37,23 +37,15 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
 
     // Get sandbox
     const { getSandbox } = await import('@/lib/sandbox/sandbox-registry')
-    const { Sandbox } = await import('@vercel/sandbox')
+    const { getSandboxProvider } = await import('@/lib/sandbox/providers')
 
     let sandbox = getSandbox(taskId)
 
     // Try to reconnect if not in registry
     if (!sandbox) {
-      const sandboxToken = process.env.SANDBOX_VERCEL_TOKEN
-      const teamId = process.env.SANDBOX_VERCEL_TEAM_ID
-      const projectId = process.env.SANDBOX_VERCEL_PROJECT_ID
-
-      if (sandboxToken && teamId && projectId) {
-        sandbox = await Sandbox.get({
-          sandboxId: task.sandboxId,
-          teamId,
-          projectId,
-          token: sandboxToken,
-        })
+      const provider = getSandboxProvider()
+      if (provider.validateEnvironment().length === 0) {
+        sandbox = await provider.get(task.sandboxId)
       }
     }
 
@@ -5,6 +5,8 @@ import { eq, and, isNull } from 'drizzle-orm'
 import { getOctokit } from '@/lib/github/client'
 import { getServerSession } from '@/lib/session/get-server-session'
 import { PROJECT_DIR } from '@/lib/sandbox/commands'
+import { authenticatedGitCommand, fetchBranchArgs, getTaskRemote } from '@/lib/sandbox/git'
+import { getRepoGitCredentials } from '@/lib/git-providers/accounts'
 import type { Octokit } from '@octokit/rest'
 
 function getLanguageFromFilename(filename: string): string {
@@ -180,23 +182,15 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
 
       try {
         const { getSandbox } = await import('@/lib/sandbox/sandbox-registry')
-        const { Sandbox } = await import('@vercel/sandbox')
+        const { getSandboxProvider } = await import('@/lib/sandbox/providers')
 
         let sandbox = getSandbox(taskId)
 
         // Try to reconnect if not in registry
         if (!sandbox) {
-          const sandboxToken = process.env.SANDBOX_VERCEL_TOKEN
-          const teamId = process.env.SANDBOX_VERCEL_TEAM_ID
-          const projectId = process.env.SANDBOX_VERCEL_PROJECT_ID
-
-          if (sandboxToken && teamId && projectId) {
-            sandbox = await Sandbox.get({
-              sandboxId: task.sandboxId,
-              teamId,
-              projectId,
-              token: sandboxToken,
-            })
+          const provider = getSandboxProvider()
+          if (provider.validateEnvironment().length === 0) {
+            sandbox = await provider.get(task.sandboxId)
           }
         }
 
@@ -204,15 +198,22 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
           return NextResponse.json({ error: 'Sandbox not found or inactive' }, { status: 400 })
         }
 
+        const git = task.repoUrl ? await getRepoGitCredentials(session.user.id, task.repoUrl) : null
+
         // Fetch latest from remote to ensure we have up-to-date remote refs
+        const remote = getTaskRemote(task.repoUrl || '', task.forkRepoUrl)
         const fetchResult = await sandbox.runCommand({
-          cmd: 'git',
-          args: ['fetch', 'origin', task.branchName],
+          ...authenticatedGitCommand(
+            fetchBranchArgs(remote, task.branchName),
+            remote.url,
+            git?.token,
+            git?.provider.gitUsername,
+          ),
           cwd: PROJECT_DIR,
         })
 
         // Check if remote branch actually exists (even if fetch succeeds, the branch might not exist)
-        const remoteBranchRef = `origin/${task.branchName}`
+        const remoteBranchRef = `${remote.name}/${task.branchName}`
         const checkRemoteResult = await sandbox.runCommand({
           cmd: 'git',
           args: ['rev-parse', '--verify', remoteBranchRef],
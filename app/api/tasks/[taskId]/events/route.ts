@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/client'
+import { tasks } from '@/lib/db/schema'
+import { eq, and, isNull } from 'drizzle-orm'
+import { getRequestAuth } from '@/lib/auth/api-token'
+import { getTokenAccessError, tokenAccessDeniedResponse } from '@/lib/auth/token-permissions'
+import { createTaskEventStream, parseTaskEventId } from '@/lib/tasks/events'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+interface RouteParams {
+  params: Promise<{
+    taskId: string
+  }>
+}
+
+/**
+ * Server-Sent Events stream of task logs, progress, status, sub-agent activity and messages.
+ * Supports resuming via the Last-Event-ID header (or ?lastEventId= for manual reconnects).
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const [auth, { taskId }] = await Promise.all([getRequestAuth(request), params])
+    if (!auth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [task] = await db
+      .select({ id: tasks.id, repoUrl: tasks.repoUrl })
+      .from(tasks)
+      .where(and(eq(tasks.id, taskId), eq(tasks.userId, auth.user.id), isNull(tasks.deletedAt)))
+      .limit(1)
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+    }
+
+    const tokenError = getTokenAccessError(auth.apiToken, { scope: 'tasks:read', repoUrl: task.repoUrl })
+    if (tokenError) {
+      return tokenAccessDeniedResponse(tokenError)
+    }
+
+    const lastEventId = parseTaskEventId(
+      request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId'),
+    )
+
+    return new Response(createTaskEventStream(taskId, lastEventId, request.signal), {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    })
+  } catch (error) {
+    console.error('Error opening task event stream')
+    return NextResponse.json({ error: 'Failed to open event stream' }, { status: 500 })
+  }
+}
@@ -238,23 +238,15 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
         if (task.sandboxId) {
           try {
             const { getSandbox } = await import('@/lib/sandbox/sandbox-registry')
-            const { Sandbox } = await import('@vercel/sandbox')
+            const { getSandboxProvider } = await import('@/lib/sandbox/providers')
 
             let sandbox = getSandbox(taskId)
 
             // Try to reconnect if not in registry
             if (!sandbox) {
-              const sandboxToken = process.env.SANDBOX_VERCEL_TOKEN
-              const teamId = process.env.SANDBOX_VERCEL_TEAM_ID
-              const projectId = process.env.SANDBOX_VERCEL_PROJECT_ID
-
-              if (sandboxToken && teamId && projectId) {
-                sandbox = await Sandbox.get({
-                  sandboxId: task.sandboxId,
-                  teamId,
-                  projectId,
-                  token: sandboxToken,
-                })
+              const provider = getSandboxProvider()
+              if (provider.validateEnvironment().length === 0) {
+                sandbox = await provider.get(task.sandboxId)
               }
             }
 
@@ -293,23 +285,15 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
         if (isNodeModulesFile && task.sandboxId) {
           try {
             const { getSandbox } = await import('@/lib/sandbox/sandbox-registry')
-            const { Sandbox } = await import('@vercel/sandbox')
+            const { getSandboxProvider } = await import('@/lib/sandbox/providers')
 
             let sandbox = getSandbox(taskId)
 
             // Try to reconnect if not in registry
             if (!sandbox) {
-              const sandboxToken = process.env.SANDBOX_VERCEL_TOKEN
-              const teamId = process.env.SANDBOX_VERCEL_TEAM_ID
-              const projectId = process.env.SANDBOX_VERCEL_PROJECT_ID
-
-              if (sandboxToken && teamId && projectId) {
-                sandbox = await Sandbox.get({
-                  sandboxId: task.sandboxId,
-                  teamId,
-                  projectId,
-                  token: sandboxToken,
-                })
+              const provider = getSandboxProvider()
+              if (provider.validateEnvironment().length === 0) {
+                sandbox = await provider.get(task.sandboxId)
               }
             }
 
@@ -343,23 +327,15 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
         if (!fileFound && !isImage && !isNodeModulesFile && task.sandboxId) {
           try {
             const { getSandbox } = await import('@/lib/sandbox/sandbox-registry')
-            const { Sandbox } = await import('@vercel/sandbox')
+            const { getSandboxProvider } = await import('@/lib/sandbox/providers')
 
             let sandbox = getSandbox(taskId)
 
             // Try to reconnect if not in registry
             if (!sandbox) {
-              const sandboxToken = process.env.SANDBOX_VERCEL_TOKEN
-              const teamId = process.env.SANDBOX_VERCEL_TEAM_ID
-              const projectId = process.env.SANDBOX_VERCEL_PROJECT_ID
-
-              if (sandboxToken && teamId && projectId) {
-                sandbox = await Sandbox.get({
-                  sandboxId: task.sandboxId,
-                  teamId,
-                  projectId,
-                  token: sandboxToken,
-                })
+              const provider = getSandboxProvider()
+              if (provider.validateEnvironment().length === 0) {
+                sandbox = await provider.get(task.sandboxId)
               }
             }
 
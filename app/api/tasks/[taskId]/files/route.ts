@@ -5,6 +5,8 @@ import { eq, and, isNull } from 'drizzle-orm'
 import { getOctokit } from '@/lib/github/client'
 import { getServerSession } from '@/lib/session/get-server-session'
 import { PROJECT_DIR } from '@/lib/sandbox/commands'
+import { authenticatedGitCommand, getTaskRemote } from '@/lib/sandbox/git'
+import { getRepoGitCredentials } from '@/lib/git-providers/accounts'
 
 interface FileChange {
   filename: string
@@ -119,23 +121,15 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
 
       try {
         const { getSandbox } = await import('@/lib/sandbox/sandbox-registry')
-        const { Sandbox } = await import('@vercel/sandbox')
+        const { getSandboxProvider } = await import('@/lib/sandbox/providers')
 
         let sandbox = getSandbox(taskId)
 
         // Try to reconnect if not in registry
         if (!sandbox) {
-          const sandboxToken = process.env.SANDBOX_VERCEL_TOKEN
-          const teamId = process.env.SANDBOX_VERCEL_TEAM_ID
-          const projectId = process.env.SANDBOX_VERCEL_PROJECT_ID
-
-          if (sandboxToken && teamId && projectId) {
-            sandbox = await Sandbox.get({
-              sandboxId: task.sandboxId,
-              teamId,
-              projectId,
-              token: sandboxToken,
-            })
+          const provider = getSandboxProvider()
+          if (provider.validateEnvironment().length === 0) {
+            sandbox = await provider.get(task.sandboxId)
           }
         }
 
@@ -172,13 +166,20 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
           .split('\n')
           .filter((line) => line.trim())
 
+        const git = task.repoUrl ? await getRepoGitCredentials(session.user.id, task.repoUrl) : null
+
         // First, check if remote branch exists to determine comparison base
+        const remote = getTaskRemote(task.repoUrl || '', task.forkRepoUrl)
         const lsRemoteResult = await sandbox.runCommand({
-          cmd: 'git',
-          args: ['ls-remote', '--heads', 'origin', task.branchName],
+          ...authenticatedGitCommand(
+            ['ls-remote', '--heads', remote.url, task.branchName],
+            remote.url,
+            git?.token,
+            git?.provider.gitUsername,
+          ),
           cwd: PROJECT_DIR,
         })
-        const remoteBranchRef = `origin/${task.branchName}`
+        const remoteBranchRef = `${remote.name}/${task.branchName}`
         const checkRemoteResult = await sandbox.runCommand({
           cmd: 'git',
           args: ['rev-parse', '--verify', remoteBranchRef],
@@ -347,23 +348,15 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
 
       try {
         const { getSandbox } = await import('@/lib/sandbox/sandbox-registry')
-        const { Sandbox } = await import('@vercel/sandbox')
+        const { getSandboxProvider } = await import('@/lib/sandbox/providers')
 
         let sandbox = getSandbox(taskId)
 
         // Try to reconnect if not in registry
         if (!sandbox) {
-          const sandboxToken = process.env.SANDBOX_VERCEL_TOKEN
-          const teamId = process.env.SANDBOX_VERCEL_TEAM_ID
-          const projectId = process.env.SANDBOX_VERCEL_PROJECT_ID
-
-          if (sandboxToken && teamId && projectId) {
-            sandbox = await Sandbox.get({
-              sandboxId: task.sandboxId,
-              teamId,
-              projectId,
-              token: sandboxToken,
-            })
+          const provider = getSandboxProvider()
+          if (provider.validateEnvironment().length === 0) {
+            sandbox = await provider.get(task.sandboxId)
           }
         }
 
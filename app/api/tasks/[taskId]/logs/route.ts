@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db/client'
+import { tasks } from '@/lib/db/schema'
+import { eq, and, isNull } from 'drizzle-orm'
+import { getRequestAuth } from '@/lib/auth/api-token'
+import { getTokenAccessError, tokenAccessDeniedResponse } from '@/lib/auth/token-permissions'
+import { getTaskLogPage } from '@/lib/tasks/logs'
+
+interface RouteParams {
+  params: Promise<{
+    taskId: string
+  }>
+}
+
+function parseCursor(value: string | null): number | undefined {
+  if (value === null) return undefined
+  const cursor = parseInt(value, 10)
+  return Number.isFinite(cursor) && cursor >= 0 ? cursor : undefined
+}
+
+/**
+ * Paginated task logs.
+ *
+ * Query parameters:
+ * - after: return entries newer than this seq (for tailing)
+ * - before: return entries older than this seq (for loading history)
+ * - limit: page size (max 1000)
+ *
+ * Without a cursor the most recent page is returned.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const [auth, { taskId }] = await Promise.all([getRequestAuth(request), params])
+    if (!auth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [task] = await db
+      .select({ id: tasks.id, repoUrl: tasks.repoUrl })
+      .from(tasks)
+      .where(and(eq(tasks.id, taskId), eq(tasks.userId, auth.user.id), isNull(tasks.deletedAt)))
+      .limit(1)
+
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+    }
+
+    const tokenError = getTokenAccessError(auth.apiToken, { scope: 'tasks:read', repoUrl: task.repoUrl })
+    if (tokenError) {
+      return tokenAccessDeniedResponse(tokenError)
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const page = await getTaskLogPage(taskId, {
+      after: parseCursor(searchParams.get('after')),
+      before: parseCursor(searchParams.get('before')),
+      limit: parseCursor(searchParams.get('limit')),
+    })
+
+    return NextResponse.json(page)
+  } catch (error) {
+    console.error('Error fetching task logs')
+    return NextResponse.json({ error: 'Failed to fetch task logs' }, { status: 500 })
+  }
+}
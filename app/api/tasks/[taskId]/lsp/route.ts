@@ -44,21 +44,13 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     // If not in registry, try to reconnect using sandboxId from database
     if (!sandbox) {
       try {
-        const sandboxToken = process.env.SANDBOX_VERCEL_TOKEN
-        const teamId = process.env.SANDBOX_VERCEL_TEAM_ID
-        const projectId = process.env.SANDBOX_VERCEL_PROJECT_ID
-
-        if (!sandboxToken || !teamId || !projectId) {
+        const { getSandboxProvider } = await import('@/lib/sandbox/providers')
+        const provider = getSandboxProvider()
+        if (provider.validateEnvironment().length > 0) {
           return NextResponse.json({ error: 'Sandbox credentials not configured' }, { status: 500 })
         }
 
-        const { Sandbox } = await import('@vercel/sandbox')
-        sandbox = await Sandbox.get({
-          sandboxId: task.sandboxId,
-          teamId,
-          projectId,
-          token: sandboxToken,
-        })
+        sandbox = await provider.get(task.sandboxId)
       } catch (error) {
         console.error('Failed to reconnect to sandbox:')
         return NextResponse.json({ error: 'Failed to connect to sandbox' }, { status: 500 })
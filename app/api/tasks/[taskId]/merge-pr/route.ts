@@ -3,8 +3,8 @@ import { db } from '@/lib/db/client'
 import { tasks } from '@/lib/db/schema'
 import { eq, and, isNull } from 'drizzle-orm'
 import { getServerSession } from '@/lib/session/get-server-session'
-import { mergePullRequest } from '@/lib/github/client'
-import { Sandbox } from '@vercel/sandbox'
+import { mergeTaskPullRequest } from '@/lib/git-providers/pull-requests'
+import { getSandboxProvider } from '@/lib/sandbox/providers'
 import { unregisterSandbox } from '@/lib/sandbox/sandbox-registry'
 
 interface RouteParams {
@@ -41,7 +41,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
 
     // Merge the pull request
-    const result = await mergePullRequest({
+    const result = await mergeTaskPullRequest(session.user.id, {
       repoUrl: task.repoUrl,
       prNumber: task.prNumber,
       commitTitle,
@@ -70,12 +70,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     if (task.sandboxId) {
       after(async () => {
         try {
-          const sandbox = await Sandbox.get({
-            sandboxId: task.sandboxId!,
-            teamId: process.env.SANDBOX_VERCEL_TEAM_ID!,
-            projectId: process.env.SANDBOX_VERCEL_PROJECT_ID!,
-            token: process.env.SANDBOX_VERCEL_TOKEN!,
-          })
+          const sandbox = await getSandboxProvider().get(task.sandboxId!)
 
           await sandbox.stop()
           unregisterSandbox(taskId)
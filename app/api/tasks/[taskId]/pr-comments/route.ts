@@ -4,6 +4,9 @@ import { tasks } from '@/lib/db/schema'
 import { eq, and, isNull } from 'drizzle-orm'
 import { getServerSession } from '@/lib/session/get-server-session'
 import { getOctokit } from '@/lib/github/client'
+import { listReviewThreads, ReviewThread } from '@/lib/github/review-threads'
+import { getGitProviderForUrl } from '@/lib/git-providers'
+import { getGitProviderToken } from '@/lib/git-providers/accounts'
 
 export const dynamic = 'force-dynamic'
 
@@ -32,6 +35,35 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ success: false, error: 'Task does not have a PR' }, { status: 400 })
     }
 
+    // Other git hosts have no review threads; their comments are listed through the provider
+    const gitProvider = getGitProviderForUrl(task.repoUrl)
+    if (gitProvider && gitProvider.name !== 'github') {
+      const token = await getGitProviderToken(session.user.id, gitProvider.name)
+      if (!token) {
+        return NextResponse.json(
+          { success: false, error: `${gitProvider.displayName} authentication required` },
+          { status: 401 },
+        )
+      }
+
+      const comments = await gitProvider.listPullRequestComments(
+        token,
+        gitProvider.parseRepoUrl(task.repoUrl)!,
+        task.prNumber,
+      )
+      return NextResponse.json({
+        success: true,
+        comments: comments.map((comment) => ({
+          id: comment.id,
+          type: 'issue' as const,
+          user: { login: comment.author, avatar_url: comment.avatarUrl || '' },
+          body: comment.body,
+          created_at: comment.createdAt,
+          html_url: comment.url || '',
+        })),
+      })
+    }
+
     // Extract owner and repo from repoUrl
     const repoMatch = task.repoUrl.match(/github\.com\/([^\/]+)\/([^\/\.]+)/)
     if (!repoMatch) {
@@ -46,8 +78,9 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ success: false, error: 'GitHub authentication required' }, { status: 401 })
     }
 
-    // Fetch both issue comments and review comments from GitHub
-    const [issueCommentsResponse, reviewCommentsResponse] = await Promise.all([
+    // Fetch both issue comments and review comments from GitHub, plus the review threads
+    // the review comments belong to (used to select threads to address)
+    const [issueCommentsResponse, reviewCommentsResponse, reviewThreads] = await Promise.all([
       octokit.rest.issues.listComments({
         owner,
         repo,
@@ -58,12 +91,24 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
         repo,
         pull_number: task.prNumber,
       }),
+      listReviewThreads(octokit, owner, repo, task.prNumber).catch((): ReviewThread[] => {
+        console.error('Error fetching review threads')
+        return []
+      }),
     ])
 
+    const threadByCommentId = new Map<number, ReviewThread>()
+    for (const thread of reviewThreads) {
+      for (const comment of thread.comments) {
+        threadByCommentId.set(comment.id, thread)
+      }
+    }
+
     // Combine and format both types of comments
     const allComments = [
       ...issueCommentsResponse.data.map((comment) => ({
         id: comment.id,
+        type: 'issue' as const,
         user: {
           login: comment.user?.login || 'unknown',
           avatar_url: comment.user?.avatar_url || '',
@@ -72,16 +117,25 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
         created_at: comment.created_at,
         html_url: comment.html_url,
       })),
-      ...reviewCommentsResponse.data.map((comment) => ({
-        id: comment.id,
-        user: {
-          login: comment.user?.login || 'unknown',
-          avatar_url: comment.user?.avatar_url || '',
-        },
-        body: comment.body || '',
-        created_at: comment.created_at,
-        html_url: comment.html_url,
-      })),
+      ...reviewCommentsResponse.data.map((comment) => {
+        const thread = threadByCommentId.get(comment.id)
+        return {
+          id: comment.id,
+          type: 'review' as const,
+          user: {
+            login: comment.user?.login || 'unknown',
+            avatar_url: comment.user?.avatar_url || '',
+          },
+          body: comment.body || '',
+          created_at: comment.created_at,
+          html_url: comment.html_url,
+          path: comment.path,
+          line: comment.line ?? comment.original_line ?? null,
+          // Only the first comment of a thread carries its ID, so each thread is selected once
+          threadId: thread && thread.comments[0]?.id === comment.id ? thread.id : null,
+          isResolved: thread?.isResolved ?? false,
+        }
+      }),
     ]
 
     // Sort by created_at date (oldest first)
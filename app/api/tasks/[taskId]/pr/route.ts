@@ -3,7 +3,7 @@ import { db } from '@/lib/db/client'
 import { tasks } from '@/lib/db/schema'
 import { eq, and, isNull } from 'drizzle-orm'
 import { getServerSession } from '@/lib/session/get-server-session'
-import { createPullRequest } from '@/lib/github/client'
+import { createTaskPullRequest } from '@/lib/git-providers/pull-requests'
 
 interface RouteParams {
   params: Promise<{
@@ -58,12 +58,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
 
     // Create the pull request
-    const result = await createPullRequest({
+    const result = await createTaskPullRequest(session.user.id, {
       repoUrl: task.repoUrl,
       branchName: task.branchName,
       title,
       body: prBody,
       baseBranch,
+      headRepoUrl: task.forkRepoUrl,
     })
 
     if (!result.success) {
@@ -4,7 +4,7 @@ import { tasks } from '@/lib/db/schema'
 import { eq, and, isNull } from 'drizzle-orm'
 import { getServerSession } from '@/lib/session/get-server-session'
 import { getSandbox } from '@/lib/sandbox/sandbox-registry'
-import { Sandbox } from '@vercel/sandbox'
+import { getSandboxProvider } from '@/lib/sandbox/providers'
 
 export async function GET(request: NextRequest, { params }: { params: Promise<{ taskId: string }> }) {
   try {
@@ -37,20 +37,12 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
     // If not in registry, try to reconnect using sandboxId from database
     if (!sandbox) {
       try {
-        const sandboxToken = process.env.SANDBOX_VERCEL_TOKEN
-        const teamId = process.env.SANDBOX_VERCEL_TEAM_ID
-        const projectId = process.env.SANDBOX_VERCEL_PROJECT_ID
-
-        if (!sandboxToken || !teamId || !projectId) {
+        const provider = getSandboxProvider()
+        if (provider.validateEnvironment().length > 0) {
           return NextResponse.json({ error: 'Sandbox credentials not configured' }, { status: 500 })
         }
 
-        sandbox = await Sandbox.get({
-          sandboxId: task.sandboxId,
-          teamId,
-          projectId,
-          token: sandboxToken,
-        })
+        sandbox = await provider.get(task.sandboxId)
       } catch (error) {
         console.error('Failed to reconnect to sandbox:')
         return NextResponse.json({ error: 'Failed to connect to sandbox' }, { status: 500 })
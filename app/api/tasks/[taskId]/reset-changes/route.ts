@@ -4,6 +4,8 @@ import { tasks } from '@/lib/db/schema'
 import { eq, and, isNull } from 'drizzle-orm'
 import { getServerSession } from '@/lib/session/get-server-session'
 import { PROJECT_DIR } from '@/lib/sandbox/commands'
+import { authenticatedGitCommand, fetchBranchArgs, getTaskRemote } from '@/lib/sandbox/git'
+import { getRepoGitCredentials } from '@/lib/git-providers/accounts'
 
 export async function POST(request: NextRequest, { params }: { params: Promise<{ taskId: string }> }) {
   try {
@@ -37,23 +39,15 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
 
     // Get sandbox
     const { getSandbox } = await import('@/lib/sandbox/sandbox-registry')
-    const { Sandbox } = await import('@vercel/sandbox')
+    const { getSandboxProvider } = await import('@/lib/sandbox/providers')
 
     let sandbox = getSandbox(taskId)
 
     // Try to reconnect if not in registry
     if (!sandbox) {
-      const sandboxToken = process.env.SANDBOX_VERCEL_TOKEN
-      const teamId = process.env.SANDBOX_VERCEL_TEAM_ID
-      const projectId = process.env.SANDBOX_VERCEL_PROJECT_ID
-
-      if (sandboxToken && teamId && projectId) {
-        sandbox = await Sandbox.get({
-          sandboxId: task.sandboxId,
-          teamId,
-          projectId,
-          token: sandboxToken,
-        })
+      const provider = getSandboxProvider()
+      if (provider.validateEnvironment().length === 0) {
+        sandbox = await provider.get(task.sandboxId)
       }
     }
 
@@ -105,10 +99,17 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       }
     }
 
+    const git = task.repoUrl ? await getRepoGitCredentials(session.user.id, task.repoUrl) : null
+
     // Step 3: Check if remote branch exists
+    const remote = getTaskRemote(task.repoUrl || '', task.forkRepoUrl)
     const lsRemoteResult = await sandbox.runCommand({
-      cmd: 'git',
-      args: ['ls-remote', '--heads', 'origin', task.branchName],
+      ...authenticatedGitCommand(
+        ['ls-remote', '--heads', remote.url, task.branchName],
+        remote.url,
+        git?.token,
+        git?.provider.gitUsername,
+      ),
       cwd: PROJECT_DIR,
     })
 
@@ -120,8 +121,12 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       if (remoteBranchExists) {
         // Remote branch exists, fetch and reset to it
         const fetchResult = await sandbox.runCommand({
-          cmd: 'git',
-          args: ['fetch', 'origin', task.branchName],
+          ...authenticatedGitCommand(
+            fetchBranchArgs(remote, task.branchName),
+            remote.url,
+            git?.token,
+            git?.provider.gitUsername,
+          ),
           cwd: PROJECT_DIR,
         })
 
@@ -4,7 +4,9 @@ import { tasks } from '@/lib/db/schema'
 import { eq, and, isNull } from 'drizzle-orm'
 import { createTaskLogger } from '@/lib/utils/task-logger'
 import { killSandbox, stopSandboxFromDB } from '@/lib/sandbox/sandbox-registry'
-import { getAuthFromRequest } from '@/lib/auth/api-token'
+import { getRequestAuth } from '@/lib/auth/api-token'
+import { getTokenAccessError } from '@/lib/auth/token-permissions'
+import { getRecentTaskLogs } from '@/lib/tasks/logs'
 
 interface RouteParams {
   params: Promise<{
@@ -16,12 +18,6 @@ function jsonError(error: string, status: number) {
   return NextResponse.json({ error }, { status })
 }
 
-async function getAuthenticatedUser(request: NextRequest) {
-  const user = await getAuthFromRequest(request)
-  if (!user?.id) return null
-  return user
-}
-
 async function getUserTask(taskId: string, userId: string) {
   const [task] = await db
     .select()
@@ -33,14 +29,20 @@ async function getUserTask(taskId: string, userId: string) {
 
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
-    const [user, { taskId }] = await Promise.all([getAuthenticatedUser(request), params])
-    if (!user) return jsonError('Unauthorized', 401)
+    const [auth, { taskId }] = await Promise.all([getRequestAuth(request), params])
+    if (!auth) return jsonError('Unauthorized', 401)
 
-    const task = await getUserTask(taskId, user.id)
+    const task = await getUserTask(taskId, auth.user.id)
 
     if (!task) return jsonError('Task not found', 404)
 
-    return NextResponse.json({ task })
+    const tokenError = getTokenAccessError(auth.apiToken, { scope: 'tasks:read', repoUrl: task.repoUrl })
+    if (tokenError) return jsonError(tokenError, 403)
+
+    // Only the most recent entries are inlined; older history is paged via /logs
+    const logs = await getRecentTaskLogs(task.id)
+
+    return NextResponse.json({ task: { ...task, logs } })
   } catch (error) {
     console.error('Error fetching task')
     return jsonError('Failed to fetch task', 500)
@@ -97,15 +99,43 @@ async function terminateSandbox(taskId: string, logger: ReturnType<typeof create
 
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
-    const [user, { taskId }] = await Promise.all([getAuthenticatedUser(request), params])
-    if (!user) return jsonError('Unauthorized', 401)
+    const [auth, { taskId }] = await Promise.all([getRequestAuth(request), params])
+    if (!auth) return jsonError('Unauthorized', 401)
+    const { user } = auth
 
     const existingTask = await getUserTask(taskId, user.id)
     if (!existingTask) return jsonError('Task not found', 404)
 
     const body = await request.json()
+
+    if (body.action === 'set-ci-auto-fix') {
+      const tokenError = getTokenAccessError(auth.apiToken, { scope: 'tasks:write', repoUrl: existingTask.repoUrl })
+      if (tokenError) return jsonError(tokenError, 403)
+
+      if (typeof body.enabled !== 'boolean') return jsonError('enabled must be a boolean', 400)
+
+      // Turning auto-fix on starts a fresh attempt budget
+      const [updatedTask] = await db
+        .update(tasks)
+        .set({
+          ciAutoFix: body.enabled,
+          ...(body.enabled && { ciFixAttempts: 0, ciFixHeadSha: null }),
+          updatedAt: new Date(),
+        })
+        .where(eq(tasks.id, taskId))
+        .returning()
+
+      return NextResponse.json({
+        message: body.enabled ? 'CI auto-fix enabled' : 'CI auto-fix disabled',
+        task: updatedTask,
+      })
+    }
+
     if (body.action !== 'stop') return jsonError('Invalid action', 400)
 
+    const tokenError = getTokenAccessError(auth.apiToken, { scope: 'tasks:stop', repoUrl: existingTask.repoUrl })
+    if (tokenError) return jsonError(tokenError, 403)
+
     if (existingTask.status !== 'processing') {
       return jsonError('Task can only be stopped when it is in progress', 400)
     }
@@ -126,12 +156,16 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
-    const [user, { taskId }] = await Promise.all([getAuthenticatedUser(request), params])
-    if (!user) return jsonError('Unauthorized', 401)
+    const [auth, { taskId }] = await Promise.all([getRequestAuth(request), params])
+    if (!auth) return jsonError('Unauthorized', 401)
+    const { user } = auth
 
     const existingTask = await getUserTask(taskId, user.id)
     if (!existingTask) return jsonError('Task not found', 404)
 
+    const tokenError = getTokenAccessError(auth.apiToken, { scope: 'tasks:write', repoUrl: existingTask.repoUrl })
+    if (tokenError) return jsonError(tokenError, 403)
+
     await db
       .update(tasks)
       .set({ deletedAt: new Date() })
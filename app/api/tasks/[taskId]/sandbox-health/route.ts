@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db/client'
 import { tasks } from '@/lib/db/schema'
 import { eq, and, isNull } from 'drizzle-orm'
-import { Sandbox } from '@vercel/sandbox'
+import { getSandboxProvider } from '@/lib/sandbox/providers'
 import { getServerSession } from '@/lib/session/get-server-session'
 
 export async function GET(_request: NextRequest, { params }: { params: Promise<{ taskId: string }> }) {
@@ -37,12 +37,7 @@ export async function GET(_request: NextRequest, { params }: { params: Promise<{
 
     // Check if sandbox is still alive
     try {
-      const sandbox = await Sandbox.get({
-        teamId: process.env.SANDBOX_VERCEL_TEAM_ID!,
-        projectId: process.env.SANDBOX_VERCEL_PROJECT_ID!,
-        token: process.env.SANDBOX_VERCEL_TOKEN!,
-        sandboxId: taskData.sandboxId,
-      })
+      const sandbox = await getSandboxProvider().get(taskData.sandboxId)
 
       if (!sandbox) {
         return NextResponse.json({
@@ -120,7 +115,7 @@ export async function GET(_request: NextRequest, { params }: { params: Promise<{
         })
       }
     } catch (sandboxError) {
-      console.error('Sandbox.get() error:')
+      console.error('Sandbox reconnect error:')
       return NextResponse.json({
         status: 'stopped',
         message: 'Sandbox no longer exists',
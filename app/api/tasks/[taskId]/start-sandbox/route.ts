@@ -2,16 +2,23 @@ import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db/client'
 import { tasks } from '@/lib/db/schema'
 import { eq } from 'drizzle-orm'
-import { Sandbox } from '@vercel/sandbox'
+import { getSandboxProvider } from '@/lib/sandbox/providers'
 import { getServerSession } from '@/lib/session/get-server-session'
-import { getGitHubUser } from '@/lib/github/client'
-import { getUserGitHubToken } from '@/lib/github/user-token'
+import { getRepoGitAccount } from '@/lib/git-providers/accounts'
 import { registerSandbox, unregisterSandbox } from '@/lib/sandbox/sandbox-registry'
 import { runCommandInSandbox, runInProject, PROJECT_DIR } from '@/lib/sandbox/commands'
 import { detectPackageManager, installDependencies } from '@/lib/sandbox/package-manager'
 import { createTaskLogger } from '@/lib/utils/task-logger'
 import { getMaxSandboxDuration } from '@/lib/db/settings'
 import { detectPortFromRepo } from '@/lib/sandbox/port-detection'
+import { FORK_REMOTE } from '@/lib/sandbox/git'
+import {
+  loadRepoConfig,
+  resolveRepoConfigEnv,
+  runRepoSetupCommands,
+  startRepoDevServer,
+} from '@/lib/sandbox/repo-config'
+import { getUserApiKeysWithSource } from '@/lib/api-keys/user-keys'
 
 export async function POST(_request: NextRequest, { params }: { params: Promise<{ taskId: string }> }) {
   try {
@@ -44,12 +51,7 @@ export async function POST(_request: NextRequest, { params }: { params: Promise<
     // Check if sandbox is already running by verifying if it's actually accessible
     if (task.sandboxId && task.sandboxUrl) {
       try {
-        const existingSandbox = await Sandbox.get({
-          sandboxId: task.sandboxId,
-          teamId: process.env.SANDBOX_VERCEL_TEAM_ID!,
-          projectId: process.env.SANDBOX_VERCEL_PROJECT_ID!,
-          token: process.env.SANDBOX_VERCEL_TOKEN!,
-        })
+        const existingSandbox = await getSandboxProvider().get(task.sandboxId)
 
         // Try a simple command to verify it's accessible
         const testResult = await runCommandInSandbox(existingSandbox, 'echo', ['test'])
@@ -74,10 +76,9 @@ export async function POST(_request: NextRequest, { params }: { params: Promise<
     await logger.info('Starting sandbox')
 
     // Fetch independent user data in parallel for better performance
-    const [githubUser, maxSandboxDuration, githubToken] = await Promise.all([
-      getGitHubUser(),
+    const [{ user: githubUser, token: githubToken }, maxSandboxDuration] = await Promise.all([
+      getRepoGitAccount(session.user.id, task.repoUrl),
       getMaxSandboxDuration(session.user.id),
-      getUserGitHubToken(),
     ])
     const maxDurationMinutes = task.maxDuration || maxSandboxDuration
 
@@ -86,15 +87,13 @@ export async function POST(_request: NextRequest, { params }: { params: Promise<
     console.log('Port detection completed for project')
 
     // Create a new sandbox by cloning the repo
-    const sandbox = await Sandbox.create({
-      teamId: process.env.SANDBOX_VERCEL_TEAM_ID!,
-      projectId: process.env.SANDBOX_VERCEL_PROJECT_ID!,
-      token: process.env.SANDBOX_VERCEL_TOKEN!,
+    const sandbox = await getSandboxProvider().create({
       source:
         task.repoUrl && task.branchName
           ? {
               type: 'git' as const,
-              url: task.repoUrl,
+              // The branch of a task without push access lives in the fork
+              url: task.forkRepoUrl || task.repoUrl,
               revision: task.branchName,
               depth: 1,
             }
@@ -119,6 +118,17 @@ export async function POST(_request: NextRequest, { params }: { params: Promise<
       runInProject(sandbox, 'git', ['config', 'user.name', gitName]),
       runInProject(sandbox, 'git', ['config', 'user.email', gitEmail]),
     ])
+    if (task.forkRepoUrl) {
+      await runInProject(sandbox, 'git', ['remote', 'add', FORK_REMOTE, task.forkRepoUrl])
+    }
+
+    // Optional repository configuration replaces the setup heuristics below
+    const repoConfig = await loadRepoConfig(sandbox, logger)
+    let repoEnv: Record<string, string> = {}
+    if (repoConfig?.env?.length) {
+      const { apiKeys, userKeyNames } = await getUserApiKeysWithSource(session.user.id)
+      repoEnv = await resolveRepoConfigEnv(repoConfig.env, apiKeys, userKeyNames, logger)
+    }
 
     // Check for package.json and requirements.txt in parallel
     const [packageJsonCheck, requirementsTxtCheck] = await Promise.all([
@@ -127,7 +137,13 @@ export async function POST(_request: NextRequest, { params }: { params: Promise<
     ])
 
     // Install dependencies if package.json exists
-    if (packageJsonCheck.success) {
+    if (repoConfig?.setup) {
+      await logger.info('Running setup commands from repository configuration')
+      const setupSucceeded = await runRepoSetupCommands(sandbox, repoConfig.setup, repoEnv, logger)
+      if (!setupSucceeded) {
+        await logger.info('Warning: Repository setup failed, but continuing with sandbox setup')
+      }
+    } else if (packageJsonCheck.success) {
       await logger.info('Installing Node.js dependencies')
 
       const packageManager = await detectPackageManager(sandbox, logger)
@@ -165,8 +181,14 @@ export async function POST(_request: NextRequest, { params }: { params: Promise<
 
     let sandboxUrl: string | undefined
 
-    // Start dev server if package.json has dev script
-    if (packageJsonCheck.success) {
+    // Start dev server if configured or package.json has dev script
+    if (repoConfig?.dev?.command) {
+      await startRepoDevServer(sandbox, repoConfig.dev.command, repoEnv, logger)
+
+      // Wait a bit for server to start, then get URL
+      await new Promise((resolve) => setTimeout(resolve, 3000))
+      sandboxUrl = sandbox.domain(port)
+    } else if (packageJsonCheck.success) {
       const packageJsonRead = await runInProject(sandbox, 'cat', ['package.json'])
       if (packageJsonRead.success && packageJsonRead.output) {
         const packageJson = JSON.parse(packageJsonRead.output)
@@ -2,14 +2,15 @@ import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db/client'
 import { tasks } from '@/lib/db/schema'
 import { eq, and } from 'drizzle-orm'
-import { Sandbox } from '@vercel/sandbox'
-import { getAuthFromRequest } from '@/lib/auth/api-token'
+import { getSandboxProvider } from '@/lib/sandbox/providers'
+import { getRequestAuth } from '@/lib/auth/api-token'
+import { getTokenAccessError, tokenAccessDeniedResponse } from '@/lib/auth/token-permissions'
 import { unregisterSandbox } from '@/lib/sandbox/sandbox-registry'
 
 export async function POST(request: NextRequest, { params }: { params: Promise<{ taskId: string }> }) {
   try {
-    const user = await getAuthFromRequest(request)
-    if (!user?.id) {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
@@ -19,25 +20,25 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     const [task] = await db
       .select()
       .from(tasks)
-      .where(and(eq(tasks.id, taskId), eq(tasks.userId, user.id)))
+      .where(and(eq(tasks.id, taskId), eq(tasks.userId, auth.user.id)))
       .limit(1)
 
     if (!task) {
       return NextResponse.json({ error: 'Task not found' }, { status: 404 })
     }
 
+    const tokenError = getTokenAccessError(auth.apiToken, { scope: 'tasks:stop', repoUrl: task.repoUrl })
+    if (tokenError) {
+      return tokenAccessDeniedResponse(tokenError)
+    }
+
     // Check if sandbox is active
     if (!task.sandboxId) {
       return NextResponse.json({ error: 'Sandbox is not active' }, { status: 400 })
     }
 
     // Reconnect to the sandbox
-    const sandbox = await Sandbox.get({
-      sandboxId: task.sandboxId,
-      teamId: process.env.SANDBOX_VERCEL_TEAM_ID!,
-      projectId: process.env.SANDBOX_VERCEL_PROJECT_ID!,
-      token: process.env.SANDBOX_VERCEL_TOKEN!,
-    })
+    const sandbox = await getSandboxProvider().get(task.sandboxId)
 
     // Shutdown the sandbox
     await sandbox.stop()
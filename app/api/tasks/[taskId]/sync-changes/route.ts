@@ -4,6 +4,8 @@ import { tasks } from '@/lib/db/schema'
 import { eq, and, isNull } from 'drizzle-orm'
 import { getServerSession } from '@/lib/session/get-server-session'
 import { PROJECT_DIR } from '@/lib/sandbox/commands'
+import { authenticatedGitCommand, getTaskRemote, markBranchPushed } from '@/lib/sandbox/git'
+import { getRepoGitCredentials } from '@/lib/git-providers/accounts'
 
 export async function POST(request: Request, { params }: { params: Promise<{ taskId: string }> }) {
   try {
@@ -37,23 +39,15 @@ export async function POST(request: Request, { params }: { params: Promise<{ tas
 
     // Get sandbox
     const { getSandbox } = await import('@/lib/sandbox/sandbox-registry')
-    const { Sandbox } = await import('@vercel/sandbox')
+    const { getSandboxProvider } = await import('@/lib/sandbox/providers')
 
     let sandbox = getSandbox(taskId)
 
     // Try to reconnect if not in registry
     if (!sandbox) {
-      const sandboxToken = process.env.SANDBOX_VERCEL_TOKEN
-      const teamId = process.env.SANDBOX_VERCEL_TEAM_ID
-      const projectId = process.env.SANDBOX_VERCEL_PROJECT_ID
-
-      if (sandboxToken && teamId && projectId) {
-        sandbox = await Sandbox.get({
-          sandboxId: task.sandboxId,
-          teamId,
-          projectId,
-          token: sandboxToken,
-        })
+      const provider = getSandboxProvider()
+      if (provider.validateEnvironment().length === 0) {
+        sandbox = await provider.get(task.sandboxId)
       }
     }
 
@@ -114,9 +108,15 @@ export async function POST(request: Request, { params }: { params: Promise<{ tas
     }
 
     // Step 4: Push changes
+    const git = task.repoUrl ? await getRepoGitCredentials(session.user.id, task.repoUrl) : null
+    const remote = getTaskRemote(task.repoUrl || '', task.forkRepoUrl)
     const pushResult = await sandbox.runCommand({
-      cmd: 'git',
-      args: ['push', 'origin', task.branchName],
+      ...authenticatedGitCommand(
+        ['push', remote.url, `HEAD:refs/heads/${task.branchName}`],
+        remote.url,
+        git?.token,
+        git?.provider.gitUsername,
+      ),
       cwd: PROJECT_DIR,
     })
 
@@ -125,6 +125,7 @@ export async function POST(request: Request, { params }: { params: Promise<{ tas
       console.error('Failed to push changes:')
       return NextResponse.json({ success: false, error: 'Failed to push changes' }, { status: 500 })
     }
+    await markBranchPushed(sandbox, remote.name, task.branchName)
 
     return NextResponse.json({
       success: true,
@@ -1,36 +1,44 @@
 import { NextRequest, NextResponse, after } from 'next/server'
 import { db } from '@/lib/db/client'
-import { tasks, insertTaskSchema, connectors } from '@/lib/db/schema'
+import { tasks, taskGroups, insertTaskSchema } from '@/lib/db/schema'
 import { generateId } from '@/lib/utils/id'
 import { eq, desc, or, and, isNull } from 'drizzle-orm'
 import { createTaskLogger } from '@/lib/utils/task-logger'
 import { generateBranchName, createFallbackBranchName } from '@/lib/utils/branch-name-generator'
 import { generateTaskTitle, createFallbackTitle } from '@/lib/utils/title-generator'
-import { decrypt } from '@/lib/crypto'
-import { getAuthFromRequest } from '@/lib/auth/api-token'
-import { getUserGitHubToken } from '@/lib/github/user-token'
-import { getGitHubUser } from '@/lib/github/client'
-import { getUserApiKeys } from '@/lib/api-keys/user-keys'
-import { checkRateLimit } from '@/lib/utils/rate-limit'
-import { getMaxSandboxDuration } from '@/lib/db/settings'
-import { processTaskWithTimeout } from '@/lib/tasks/process-task'
+import { getRequestAuth } from '@/lib/auth/api-token'
+import { getTokenAccessError, isRepoAllowed, tokenAccessDeniedResponse } from '@/lib/auth/token-permissions'
+import { checkRateLimit, checkSpendLimit } from '@/lib/utils/rate-limit'
+import { formatUsd } from '@/lib/utils/model-pricing'
+import { enqueueTaskJob } from '@/lib/tasks/queue'
+import { drainTaskQueue } from '@/lib/tasks/worker'
 
 export async function GET(request: NextRequest) {
   try {
     // Get user from Bearer token or session
-    const user = await getAuthFromRequest(request)
-    if (!user?.id) {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    const tokenError = getTokenAccessError(auth.apiToken, { scope: 'tasks:read' })
+    if (tokenError) {
+      return tokenAccessDeniedResponse(tokenError)
+    }
+
     // Get tasks for this user only (exclude soft-deleted tasks)
     const userTasks = await db
       .select()
       .from(tasks)
-      .where(and(eq(tasks.userId, user.id), isNull(tasks.deletedAt)))
+      .where(and(eq(tasks.userId, auth.user.id), isNull(tasks.deletedAt)))
       .orderBy(desc(tasks.createdAt))
 
-    return NextResponse.json({ tasks: userTasks })
+    // Tokens restricted to some repositories only see tasks on those repositories
+    const visibleTasks = auth.apiToken
+      ? userTasks.filter((task) => isRepoAllowed(auth.apiToken!.allowedRepos, task.repoUrl))
+      : userTasks
+
+    return NextResponse.json({ tasks: visibleTasks })
   } catch (error) {
     console.error('Error fetching tasks')
     return NextResponse.json({ error: 'Failed to fetch tasks' }, { status: 500 })
@@ -40,10 +48,16 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     // Get user from Bearer token or session
-    const user = await getAuthFromRequest(request)
-    if (!user?.id) {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
+    const { user } = auth
+
+    const scopeError = getTokenAccessError(auth.apiToken, { scope: 'tasks:write' })
+    if (scopeError) {
+      return tokenAccessDeniedResponse(scopeError)
+    }
 
     // Check rate limit (convert null to undefined for type compatibility)
     const rateLimit = await checkRateLimit({ id: user.id, email: user.email ?? undefined })
@@ -60,6 +74,20 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const spendLimit = await checkSpendLimit({ id: user.id, email: user.email ?? undefined })
+    if (!spendLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Spend limit exceeded',
+          message: `You have reached your monthly agent spend limit of ${formatUsd(spendLimit.limitUsd!)}. Your limit will reset at ${spendLimit.resetAt.toISOString()}`,
+          spentUsd: spendLimit.spentUsd,
+          limitUsd: spendLimit.limitUsd,
+          resetAt: spendLimit.resetAt.toISOString(),
+        },
+        { status: 429 },
+      )
+    }
+
     const body = await request.json()
 
     // Use provided ID or generate a new one
@@ -70,9 +98,30 @@ export async function POST(request: NextRequest) {
       userId: user.id,
       status: 'pending',
       progress: 0,
-      logs: [],
     })
 
+    const tokenError = getTokenAccessError(auth.apiToken, {
+      scope: 'tasks:write',
+      repoUrl: validatedData.repoUrl ?? null,
+      agent: validatedData.selectedAgent,
+    })
+    if (tokenError) {
+      return tokenAccessDeniedResponse(tokenError)
+    }
+
+    // Runs started from the multi-agent comparison must join one of the user's own groups
+    if (validatedData.groupId) {
+      const [group] = await db
+        .select({ id: taskGroups.id })
+        .from(taskGroups)
+        .where(and(eq(taskGroups.id, validatedData.groupId), eq(taskGroups.userId, user.id)))
+        .limit(1)
+
+      if (!group) {
+        return NextResponse.json({ error: 'Task group not found' }, { status: 404 })
+      }
+    }
+
     // Insert the task into the database - ensure id is definitely present
     const [newTask] = await db
       .insert(tasks)
@@ -202,41 +251,17 @@ export async function POST(request: NextRequest) {
       }
     })
 
-    // Get user's API keys, GitHub token, and GitHub user info BEFORE entering after() block (where session is not accessible)
-    // Pass user.id directly to support both session-based and API token-based authentication
-    // Use Promise.all to fetch all user data in parallel for better performance
-    const [userApiKeys, userGithubToken, githubUser, maxSandboxDuration, mcpServers] = await Promise.all([
-      getUserApiKeys(user.id),
-      getUserGitHubToken(user.id),
-      getGitHubUser(user.id),
-      getMaxSandboxDuration(user.id),
-      getMcpServersForUser(user.id),
-    ])
-
-    // Process the task asynchronously with timeout
+    // Queue the task for execution. The job is durable, so it is retried if the
+    // worker running it dies, and the per-user concurrency cap is applied at lease time.
+    const job = await enqueueTaskJob({ taskId: newTask.id, userId: user.id, type: 'process-task' })
+
+    // Start draining right away so the task doesn't wait for the next cron tick
     // CRITICAL: Wrap in after() to ensure Vercel doesn't kill the function after response
-    // Without this, serverless functions terminate immediately after sending the response
     after(async () => {
       try {
-        await processTaskWithTimeout({
-          taskId: newTask.id,
-          prompt: validatedData.prompt,
-          repoUrl: validatedData.repoUrl || '',
-          maxDuration: validatedData.maxDuration || maxSandboxDuration,
-          selectedAgent: validatedData.selectedAgent || 'claude',
-          selectedModel: validatedData.selectedModel,
-          installDependencies: validatedData.installDependencies || false,
-          keepAlive: validatedData.keepAlive || false,
-          sourceBranch: validatedData.sourceBranch,
-          apiKeys: userApiKeys,
-          githubToken: userGithubToken,
-          githubUser,
-          userId: user.id,
-          mcpServers,
-        })
+        await drainTaskQueue({ jobId: job.id })
       } catch (error) {
-        console.error('Task processing failed')
-        // Error handling is already done inside processTaskWithTimeout
+        console.error('Task queue drain failed')
       }
     })
 
@@ -247,45 +272,24 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Helper function to get MCP servers for a user with decrypted credentials
-type Connector = typeof connectors.$inferSelect
-
-async function getMcpServersForUser(userId: string): Promise<Connector[]> {
-  try {
-    const userConnectors = await db
-      .select()
-      .from(connectors)
-      .where(and(eq(connectors.userId, userId), eq(connectors.status, 'connected')))
-
-    return userConnectors.map((connector: Connector) => {
-      const decryptedEnv = (() => {
-        if (!connector.env) return null
-        try {
-          const decrypted = decrypt(connector.env)
-          return decrypted ? JSON.parse(decrypted) : null
-        } catch {
-          return null
-        }
-      })()
-
-      return {
-        ...connector,
-        env: decryptedEnv,
-        oauthClientSecret: connector.oauthClientSecret ? decrypt(connector.oauthClientSecret) : null,
-      }
-    })
-  } catch {
-    return []
-  }
-}
-
 export async function DELETE(request: NextRequest) {
   try {
     // Get user from Bearer token or session
-    const user = await getAuthFromRequest(request)
-    if (!user?.id) {
+    const auth = await getRequestAuth(request)
+    if (!auth) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
+    const { user } = auth
+
+    const tokenError = getTokenAccessError(auth.apiToken, { scope: 'tasks:write' })
+    if (tokenError) {
+      return tokenAccessDeniedResponse(tokenError)
+    }
+
+    // Bulk deletion can't be limited to a token's repositories
+    if (auth.apiToken?.allowedRepos?.length) {
+      return tokenAccessDeniedResponse('API tokens restricted to repositories cannot bulk delete tasks')
+    }
 
     const url = new URL(request.url)
     const action = url.searchParams.get('action')
@@ -1,17 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getAuthFromRequest } from '@/lib/auth/api-token'
+import { getRequestAuth } from '@/lib/auth/api-token'
 import { db } from '@/lib/db/client'
 import { apiTokens } from '@/lib/db/schema'
 import { eq, and } from 'drizzle-orm'
 
 export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
-    const user = await getAuthFromRequest(req)
+    const auth = await getRequestAuth(req)
 
-    if (!user?.id) {
+    if (!auth) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    // Tokens are managed from the web UI so a token can't mint itself more access
+    if (auth.apiToken) {
+      return NextResponse.json({ error: 'API tokens cannot manage API tokens' }, { status: 403 })
+    }
+    const { user } = auth
+
     const { id } = await params
 
     const [token] = await db
@@ -1,29 +1,51 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getAuthFromRequest } from '@/lib/auth/api-token'
+import { getRequestAuth } from '@/lib/auth/api-token'
+import { normalizeRepoName } from '@/lib/auth/token-permissions'
 import { db } from '@/lib/db/client'
-import { apiTokens } from '@/lib/db/schema'
-import { eq } from 'drizzle-orm'
+import { apiTokens, apiTokenScopeSchema, API_TOKEN_SCOPES } from '@/lib/db/schema'
+import { and, eq, isNull } from 'drizzle-orm'
 import { generateApiToken } from '@/lib/auth/api-token'
 import { z } from 'zod'
 
 const createTokenSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   expiresAt: z.string().datetime().optional(),
+  scopes: z
+    .array(apiTokenScopeSchema)
+    .min(1, 'At least one scope is required')
+    .default([...API_TOKEN_SCOPES]),
+  allowedRepos: z
+    .array(z.string().regex(/^[\w.-]+\/([\w.-]+|\*)$/, 'Repositories must be "owner/repo" or "owner/*"'))
+    .max(50)
+    .optional(),
+  allowedAgents: z.array(z.enum(['claude', 'codex', 'copilot', 'cursor', 'gemini', 'opencode'])).optional(),
+  rateLimitPerMinute: z.number().int().min(1).max(10000).optional(),
 })
 
 export async function GET(req: NextRequest) {
   try {
-    const user = await getAuthFromRequest(req)
+    const auth = await getRequestAuth(req)
 
-    if (!user?.id) {
+    if (!auth) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    // Tokens are managed from the web UI so a token can't mint itself more access
+    if (auth.apiToken) {
+      return NextResponse.json({ error: 'API tokens cannot manage API tokens' }, { status: 403 })
+    }
+    const { user } = auth
+
     const tokens = await db
       .select({
         id: apiTokens.id,
         name: apiTokens.name,
         tokenPrefix: apiTokens.tokenPrefix,
+        scopes: apiTokens.scopes,
+        allowedRepos: apiTokens.allowedRepos,
+        allowedAgents: apiTokens.allowedAgents,
+        rateLimitPerMinute: apiTokens.rateLimitPerMinute,
+        oauthClientId: apiTokens.oauthClientId,
         createdAt: apiTokens.createdAt,
         lastUsedAt: apiTokens.lastUsedAt,
         expiresAt: apiTokens.expiresAt,
@@ -39,23 +61,35 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   try {
-    const user = await getAuthFromRequest(req)
+    const auth = await getRequestAuth(req)
 
-    if (!user?.id) {
+    if (!auth) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    // Tokens are managed from the web UI so a token can't mint itself more access
+    if (auth.apiToken) {
+      return NextResponse.json({ error: 'API tokens cannot manage API tokens' }, { status: 403 })
+    }
+    const { user } = auth
+
     const body = await req.json()
     const validationResult = createTokenSchema.safeParse(body)
 
     if (!validationResult.success) {
-      return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+      return NextResponse.json(
+        { error: validationResult.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 },
+      )
     }
 
-    const { name, expiresAt } = validationResult.data
+    const { name, expiresAt, scopes, allowedRepos, allowedAgents, rateLimitPerMinute } = validationResult.data
 
-    // Rate limiting: max 20 tokens per user
-    const existingTokens = await db.select({ id: apiTokens.id }).from(apiTokens).where(eq(apiTokens.userId, user.id))
+    // Rate limiting: max 20 tokens per user (OAuth grants of connected MCP clients don't count)
+    const existingTokens = await db
+      .select({ id: apiTokens.id })
+      .from(apiTokens)
+      .where(and(eq(apiTokens.userId, user.id), isNull(apiTokens.oauthClientId)))
 
     if (existingTokens.length >= 20) {
       return NextResponse.json({ error: 'Maximum token limit reached' }, { status: 429 })
@@ -68,6 +102,10 @@ export async function POST(req: NextRequest) {
       name,
       tokenHash: hash,
       tokenPrefix: prefix,
+      scopes: [...new Set(scopes)],
+      allowedRepos: allowedRepos?.length ? [...new Set(allowedRepos.map(normalizeRepoName))] : null,
+      allowedAgents: allowedAgents?.length ? [...new Set(allowedAgents)] : null,
+      rateLimitPerMinute: rateLimitPerMinute ?? null,
       expiresAt: expiresAt ? new Date(expiresAt) : null,
     })
 
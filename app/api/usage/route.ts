@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestAuth } from '@/lib/auth/api-token'
+import { getTokenAccessError, tokenAccessDeniedResponse } from '@/lib/auth/token-permissions'
+import { getUserUsageSummary } from '@/lib/tasks/usage'
+import { checkSpendLimit } from '@/lib/utils/rate-limit'
+
+const MAX_DAYS = 365
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await getRequestAuth(req)
+    if (!auth) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    const { user } = auth
+
+    const tokenError = getTokenAccessError(auth.apiToken, { scope: 'tasks:read' })
+    if (tokenError) {
+      return tokenAccessDeniedResponse(tokenError)
+    }
+
+    const days = Math.min(Math.max(parseInt(req.nextUrl.searchParams.get('days') || '30', 10) || 30, 1), MAX_DAYS)
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+    const [summary, spendLimit] = await Promise.all([
+      getUserUsageSummary(user.id, since),
+      checkSpendLimit({ id: user.id, email: user.email ?? undefined }),
+    ])
+
+    return NextResponse.json({
+      days,
+      ...summary,
+      monthlySpend: {
+        spentUsd: spendLimit.spentUsd,
+        limitUsd: spendLimit.limitUsd,
+        resetAt: spendLimit.resetAt.toISOString(),
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching usage')
+    return NextResponse.json({ error: 'Failed to fetch usage' }, { status: 500 })
+  }
+}
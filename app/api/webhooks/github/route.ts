@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  forgetWebhookDelivery,
+  handleGitHubWebhook,
+  recordWebhookDelivery,
+  type WebhookResult,
+} from '@/lib/github/webhooks'
+import {
+  handleWebhookDeliveryOnce,
+  verifyGitHubWebhookSignature,
+  type GitHubWebhookPayload,
+} from '@/lib/github/webhook-events'
+
+/**
+ * GitHub webhook receiver. Configure the repository or organization webhook
+ * with this URL, content type application/json and GITHUB_WEBHOOK_SECRET.
+ * See lib/github/webhooks.ts for the handled events.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET
+  if (!secret) {
+    return NextResponse.json({ error: 'GITHUB_WEBHOOK_SECRET is not configured' }, { status: 500 })
+  }
+
+  const body = await request.text()
+  if (!verifyGitHubWebhookSignature(body, request.headers.get('x-hub-signature-256'), secret)) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+  }
+
+  const event = request.headers.get('x-github-event')
+  const deliveryId = request.headers.get('x-github-delivery')
+  if (!event || !deliveryId) {
+    return NextResponse.json({ error: 'Missing GitHub event headers' }, { status: 400 })
+  }
+
+  let payload: GitHubWebhookPayload
+  try {
+    payload = JSON.parse(body)
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 })
+  }
+
+  let result: WebhookResult | null
+  try {
+    result = await handleWebhookDeliveryOnce(
+      deliveryId,
+      event,
+      { record: recordWebhookDelivery, forget: forgetWebhookDelivery },
+      () => handleGitHubWebhook(event, payload, request.nextUrl.origin),
+    )
+  } catch (error) {
+    console.error('Error handling GitHub webhook')
+    return NextResponse.json({ error: 'Failed to handle webhook' }, { status: 500 })
+  }
+
+  if (!result) {
+    return NextResponse.json({ handled: false, message: 'Delivery already handled' })
+  }
+  return NextResponse.json(result)
+}
@@ -0,0 +1,48 @@
+import { Metadata } from 'next'
+import { OAuthConsent } from '@/components/oauth-consent'
+import { validateAuthorizationRequest } from '@/lib/auth/oauth'
+import { getServerSession } from '@/lib/session/get-server-session'
+
+interface OAuthAuthorizePageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+/**
+ * Consent screen for MCP clients connecting through OAuth. Requests arrive
+ * here from /api/oauth/authorize, which has already sent invalid ones back
+ * to the client.
+ */
+export default async function OAuthAuthorizePage({ searchParams }: OAuthAuthorizePageProps) {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(await searchParams)) {
+    const first = Array.isArray(value) ? value[0] : value
+    if (first !== undefined) params.set(key, first)
+  }
+
+  const [result, session] = await Promise.all([validateAuthorizationRequest(params), getServerSession()])
+
+  if (!result.ok) {
+    return (
+      <div className="flex min-h-[50vh] items-center justify-center px-4">
+        <p className="text-sm text-muted-foreground">Invalid authorization request: {result.error.message}</p>
+      </div>
+    )
+  }
+
+  const { client, redirectUri, scopes } = result.request
+
+  return (
+    <OAuthConsent
+      clientName={client.name}
+      redirectTarget={new URL(redirectUri).host || new URL(redirectUri).protocol}
+      scopes={scopes}
+      params={Object.fromEntries(params.entries())}
+      user={session?.user ?? null}
+    />
+  )
+}
+
+export const metadata: Metadata = {
+  title: 'Authorize Application - Coding Agent Platform',
+  description: 'Allow an MCP client to access your account',
+}
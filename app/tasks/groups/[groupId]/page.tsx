@@ -0,0 +1,40 @@
+import { TaskGroupPageClient } from '@/components/task-group-page-client'
+import { getServerSession } from '@/lib/session/get-server-session'
+import { Metadata } from 'next'
+import { redirect } from 'next/navigation'
+import { Suspense } from 'react'
+
+interface TaskGroupPageProps {
+  params: Promise<{
+    groupId: string
+  }>
+}
+
+export default function TaskGroupPage({ params }: TaskGroupPageProps) {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-[50vh] items-center justify-center">
+          <p className="text-sm text-muted-foreground">Loading comparison...</p>
+        </div>
+      }
+    >
+      <TaskGroupPageContent params={params} />
+    </Suspense>
+  )
+}
+
+async function TaskGroupPageContent({ params }: TaskGroupPageProps) {
+  const [{ groupId }, session] = await Promise.all([params, getServerSession()])
+
+  if (!session?.user) {
+    redirect('/')
+  }
+
+  return <TaskGroupPageClient groupId={groupId} user={session.user} authProvider={session.authProvider} />
+}
+
+export const metadata: Metadata = {
+  title: 'Compare Runs - Coding Agent Platform',
+  description: 'Compare the results of several agents working on the same task',
+}
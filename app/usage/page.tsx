@@ -0,0 +1,34 @@
+import { UsageDashboardClient } from '@/components/usage-dashboard-client'
+import { getServerSession } from '@/lib/session/get-server-session'
+import { Metadata } from 'next'
+import { redirect } from 'next/navigation'
+import { Suspense } from 'react'
+
+export default function UsagePage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-[50vh] items-center justify-center">
+          <p className="text-sm text-muted-foreground">Loading usage...</p>
+        </div>
+      }
+    >
+      <UsagePageContent />
+    </Suspense>
+  )
+}
+
+async function UsagePageContent() {
+  const session = await getServerSession()
+
+  if (!session?.user) {
+    redirect('/')
+  }
+
+  return <UsageDashboardClient user={session.user} authProvider={session.authProvider} />
+}
+
+export const metadata: Metadata = {
+  title: 'Usage - Coding Agent Platform',
+  description: 'Token usage and agent spend across your tasks',
+}
@@ -6,8 +6,11 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
 import { toast } from 'sonner'
-import { Eye, EyeOff, Plus, Trash2, Copy, Loader2, AlertTriangle, Check } from 'lucide-react'
+import { Eye, EyeOff, Plus, Trash2, Copy, Loader2, AlertTriangle, Check, ChevronDown, ChevronRight } from 'lucide-react'
+import type { ApiTokenScope } from '@/lib/db/schema'
 
 interface ApiKeysDialogProps {
   open: boolean
@@ -20,11 +23,31 @@ interface Token {
   id: string
   name: string
   tokenPrefix: string
+  scopes: ApiTokenScope[]
+  allowedRepos: string[] | null
+  allowedAgents: string[] | null
+  rateLimitPerMinute: number | null
+  oauthClientId: string | null // Set for MCP clients connected through OAuth
   createdAt: string
   lastUsedAt: string | null
   expiresAt: string | null
 }
 
+const TOKEN_SCOPES: { id: ApiTokenScope; label: string }[] = [
+  { id: 'tasks:read', label: 'Read tasks' },
+  { id: 'tasks:write', label: 'Create and continue tasks' },
+  { id: 'tasks:stop', label: 'Stop tasks' },
+  { id: 'repos:read', label: 'Read repositories' },
+  { id: 'mcp', label: 'MCP server' },
+]
+
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
 const PROVIDERS = [
   { id: 'aigateway' as Provider, name: 'AI Gateway', placeholder: 'gw_\u2026' },
   { id: 'anthropic' as Provider, name: 'Anthropic', placeholder: 'sk-ant-\u2026' },
@@ -60,6 +83,11 @@ export function ApiKeysDialog({ open, onOpenChange }: ApiKeysDialogProps) {
   const [tokens, setTokens] = useState<Token[]>([])
   const [tokensLoading, setTokensLoading] = useState(false)
   const [tokenName, setTokenName] = useState('')
+  const [showPermissions, setShowPermissions] = useState(false)
+  const [tokenScopes, setTokenScopes] = useState<Set<ApiTokenScope>>(new Set(TOKEN_SCOPES.map((scope) => scope.id)))
+  const [tokenRepos, setTokenRepos] = useState('')
+  const [tokenAgents, setTokenAgents] = useState('')
+  const [tokenRateLimit, setTokenRateLimit] = useState('')
   const [creating, setCreating] = useState(false)
   const [newToken, setNewToken] = useState<string | null>(null)
   const [deletingId, setDeletingId] = useState<string | null>(null)
@@ -182,6 +210,10 @@ export function ApiKeysDialog({ open, onOpenChange }: ApiKeysDialogProps) {
       toast.error('Token name is required')
       return
     }
+    if (tokenScopes.size === 0) {
+      toast.error('Select at least one permission')
+      return
+    }
     if (creating) return
 
     setCreating(true)
@@ -189,13 +221,24 @@ export function ApiKeysDialog({ open, onOpenChange }: ApiKeysDialogProps) {
       const response = await fetch('/api/tokens', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name: tokenName }),
+        body: JSON.stringify({
+          name: tokenName,
+          scopes: [...tokenScopes],
+          allowedRepos: parseList(tokenRepos),
+          allowedAgents: parseList(tokenAgents),
+          rateLimitPerMinute: tokenRateLimit ? parseInt(tokenRateLimit, 10) : undefined,
+        }),
       })
 
       if (response.ok) {
         const data = await response.json()
         setNewToken(data.token)
         setTokenName('')
+        setTokenScopes(new Set(TOKEN_SCOPES.map((scope) => scope.id)))
+        setTokenRepos('')
+        setTokenAgents('')
+        setTokenRateLimit('')
+        setShowPermissions(false)
         fetchTokens()
         toast.success('Token created')
       } else {
@@ -238,6 +281,27 @@ export function ApiKeysDialog({ open, onOpenChange }: ApiKeysDialogProps) {
     }
   }
 
+  const toggleTokenScope = (scope: ApiTokenScope, checked: boolean) => {
+    setTokenScopes((prev) => {
+      const next = new Set(prev)
+      if (checked) {
+        next.add(scope)
+      } else {
+        next.delete(scope)
+      }
+      return next
+    })
+  }
+
+  const formatTokenAccess = (token: Token) => {
+    const parts = []
+    if (token.scopes.length < TOKEN_SCOPES.length) parts.push(token.scopes.join(', '))
+    if (token.allowedRepos?.length) parts.push(token.allowedRepos.join(', '))
+    if (token.allowedAgents?.length) parts.push(token.allowedAgents.join(', '))
+    if (token.rateLimitPerMinute) parts.push(`${token.rateLimitPerMinute}/min`)
+    return parts.length > 0 ? parts.join(' · ') : 'Full access'
+  }
+
   const formatDate = (date: string | null) => {
     if (!date) return 'Never'
     return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
@@ -399,25 +463,71 @@ export function ApiKeysDialog({ open, onOpenChange }: ApiKeysDialogProps) {
             </div>
           ) : (
             /* Create Token Form */
-            <div className="flex gap-2">
-              <Input
-                placeholder="Token name (e.g., My Script)"
-                value={tokenName}
-                onChange={(e) => setTokenName(e.target.value)}
-                onKeyDown={(e) => e.key === 'Enter' && handleCreateToken()}
-                className="h-8 text-sm"
-                maxLength={50}
-                aria-label="Token name"
-              />
-              <Button
-                size="sm"
-                onClick={handleCreateToken}
-                disabled={creating || !tokenName.trim()}
-                className="h-8 px-3 shrink-0"
-              >
-                {creating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
-                {creating ? '' : 'Create'}
-              </Button>
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Token name (e.g., My Script)"
+                  value={tokenName}
+                  onChange={(e) => setTokenName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleCreateToken()}
+                  className="h-8 text-sm"
+                  maxLength={50}
+                  aria-label="Token name"
+                />
+                <Button
+                  size="sm"
+                  onClick={handleCreateToken}
+                  disabled={creating || !tokenName.trim()}
+                  className="h-8 px-3 shrink-0"
+                >
+                  {creating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+                  {creating ? '' : 'Create'}
+                </Button>
+              </div>
+              <Collapsible open={showPermissions} onOpenChange={setShowPermissions}>
+                <CollapsibleTrigger className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+                  {showPermissions ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                  Permissions
+                </CollapsibleTrigger>
+                <CollapsibleContent className="space-y-2 pt-2">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-1.5">
+                    {TOKEN_SCOPES.map((scope) => (
+                      <label key={scope.id} className="flex items-center gap-2 text-xs">
+                        <Checkbox
+                          checked={tokenScopes.has(scope.id)}
+                          onCheckedChange={(checked) => toggleTokenScope(scope.id, checked === true)}
+                        />
+                        {scope.label}
+                      </label>
+                    ))}
+                  </div>
+                  <Input
+                    placeholder="Repositories (optional): owner/repo, owner/*"
+                    value={tokenRepos}
+                    onChange={(e) => setTokenRepos(e.target.value)}
+                    className="h-8 text-xs"
+                    aria-label="Allowed repositories"
+                  />
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Agents (optional): claude, codex"
+                      value={tokenAgents}
+                      onChange={(e) => setTokenAgents(e.target.value)}
+                      className="h-8 text-xs"
+                      aria-label="Allowed agents"
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder="Requests/min"
+                      value={tokenRateLimit}
+                      onChange={(e) => setTokenRateLimit(e.target.value)}
+                      className="h-8 text-xs w-32 shrink-0"
+                      aria-label="Requests per minute"
+                    />
+                  </div>
+                </CollapsibleContent>
+              </Collapsible>
             </div>
           )}
 
@@ -436,10 +546,15 @@ export function ApiKeysDialog({ open, onOpenChange }: ApiKeysDialogProps) {
                   <div className="flex flex-col sm:flex-row sm:items-center sm:gap-3 min-w-0 flex-1">
                     <span className="text-sm truncate">{token.name}</span>
                     <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                      <span className="font-mono">{token.tokenPrefix}&hellip;</span>
+                      {token.oauthClientId ? (
+                        <span>Connected app</span>
+                      ) : (
+                        <span className="font-mono">{token.tokenPrefix}&hellip;</span>
+                      )}
                       <span className="hidden sm:inline">•</span>
                       <span>Used: {formatDate(token.lastUsedAt)}</span>
                     </div>
+                    <span className="text-xs text-muted-foreground truncate">{formatTokenAccess(token)}</span>
                   </div>
                   <Button
                     variant="ghost"
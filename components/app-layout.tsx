@@ -235,10 +235,11 @@ export function AppLayout({ children, initialSidebarWidth, initialSidebarOpen, i
       keepAlive: false,
       status: 'pending',
       progress: 0,
-      logs: [],
+      logSeq: 0,
       error: null,
       branchName: null,
       sourceBranch: null,
+      forkRepoUrl: null,
       sandboxId: null,
       agentSessionId: null,
       sandboxUrl: null,
@@ -253,6 +254,11 @@ export function AppLayout({ children, initialSidebarWidth, initialSidebarOpen, i
       currentSubAgent: null,
       lastHeartbeat: null,
       heartbeatExtensionCount: 0,
+      verification: null,
+      ciAutoFix: false,
+      ciFixAttempts: 0,
+      ciFixHeadSha: null,
+      groupId: null,
       createdAt: new Date(),
       updatedAt: new Date(),
       completedAt: null,
@@ -19,7 +19,7 @@ import { GitHubIcon } from '@/components/icons/github-icon'
 import { ApiKeysDialog } from '@/components/api-keys-dialog'
 import { SandboxesDialog } from '@/components/sandboxes-dialog'
 import { ThemeToggle } from '@/components/theme-toggle'
-import { Key, Server } from 'lucide-react'
+import { BarChart3, Key, Server } from 'lucide-react'
 import { useState, useEffect, useCallback } from 'react'
 import { getEnabledAuthProviders } from '@/lib/auth/providers'
 
@@ -145,6 +145,11 @@ export function SignOut({ user, authProvider }: Pick<Session, 'user' | 'authProv
           Sandboxes
         </DropdownMenuItem>
 
+        <DropdownMenuItem onClick={() => router.push('/usage')} className="cursor-pointer">
+          <BarChart3 className="h-4 w-4 mr-2" />
+          Usage
+        </DropdownMenuItem>
+
         {/* Only show GitHub Connect/Disconnect for Vercel users when GitHub is enabled */}
         {authProvider === 'vercel' && hasGitHub && (
           <>
@@ -3,8 +3,11 @@
 import { useState, useEffect, createContext, useContext, useCallback } from 'react'
 import type { Connector } from '@/lib/db/schema'
 
+/** Connector as returned by /api/connectors, without its OAuth tokens */
+export type ConnectorListItem = Connector & { oauthAuthorized: boolean }
+
 interface ConnectorsContextType {
-  connectors: Connector[]
+  connectors: ConnectorListItem[]
   refreshConnectors: () => Promise<void>
   isLoading: boolean
 }
@@ -24,7 +27,7 @@ interface ConnectorsProviderProps {
 }
 
 export function ConnectorsProvider({ children }: ConnectorsProviderProps) {
-  const [connectors, setConnectors] = useState<Connector[]>([])
+  const [connectors, setConnectors] = useState<ConnectorListItem[]>([])
   const [isLoading, setIsLoading] = useState(true)
 
   const fetchConnectors = useCallback(async () => {
@@ -16,7 +16,13 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
-import { createConnector, updateConnector, deleteConnector, toggleConnectorStatus } from '@/lib/actions/connectors'
+import {
+  createConnector,
+  updateConnector,
+  deleteConnector,
+  toggleConnectorStatus,
+  clearConnectorAuthorization,
+} from '@/lib/actions/connectors'
 import type { Connector } from '@/lib/db/schema'
 import { useActionState } from 'react'
 import { toast } from 'sonner'
@@ -162,6 +168,9 @@ export function ConnectorDialog({ open, onOpenChange }: ConnectorDialogProps) {
   const lastStateRef = useRef<{ success: boolean; message: string }>({ success: false, message: '' })
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
+  const [isAuthorizing, setIsAuthorizing] = useState(false)
+
+  const editingAuthorized = connectors.find((connector) => connector.id === editingConnector?.id)?.oauthAuthorized
 
   // Reset to list view when dialog opens
   useEffect(() => {
@@ -266,6 +275,50 @@ export function ConnectorDialog({ open, onOpenChange }: ConnectorDialogProps) {
     }
   }
 
+  const handleAuthorize = async () => {
+    if (!editingConnector) return
+
+    setIsAuthorizing(true)
+    try {
+      const response = await fetch(
+        `/api/connectors/${editingConnector.id}/oauth/signin?${new URLSearchParams({ next: window.location.pathname })}`,
+        { method: 'POST' },
+      )
+      const data = await response.json()
+
+      if (!response.ok || !data.url) {
+        toast.error(data.error || 'Failed to start authorization')
+        setIsAuthorizing(false)
+        return
+      }
+
+      // Leave the app for the server's authorization page; the callback returns here
+      window.location.href = data.url
+    } catch {
+      toast.error('Failed to start authorization')
+      setIsAuthorizing(false)
+    }
+  }
+
+  const handleClearAuthorization = async () => {
+    if (!editingConnector) return
+
+    setIsAuthorizing(true)
+    try {
+      const result = await clearConnectorAuthorization(editingConnector.id)
+      if (result.success) {
+        await refreshConnectors()
+        toast.success(result.message)
+      } else {
+        toast.error(result.message)
+      }
+    } catch {
+      toast.error('Failed to remove authorization')
+    } finally {
+      setIsAuthorizing(false)
+    }
+  }
+
   const toggleEnvVarVisibility = (index: number) => {
     const newVisible = new Set(visibleEnvVars)
     if (newVisible.has(index)) {
@@ -345,7 +398,7 @@ export function ConnectorDialog({ open, onOpenChange }: ConnectorDialogProps) {
               {view === 'list' && 'Manage your Model Context Protocol servers.'}
               {view === 'presets' && 'Choose a preset or add a custom server.'}
               {view === 'form' &&
-                'Allow agents to reference other apps and services for more context. For authentication, add headers like Authorization using environment variables below.'}
+                'Allow agents to reference other apps and services for more context. For authentication, add headers like Authorization using environment variables below, or authorize the server with OAuth once it is saved.'}
             </DialogDescription>
           </DialogHeader>
 
@@ -666,6 +719,42 @@ export function ConnectorDialog({ open, onOpenChange }: ConnectorDialogProps) {
                   )}
                 </div>
 
+                {serverType === 'remote' && isEditing && (
+                  <div className="space-y-2">
+                    <Label>OAuth</Label>
+                    <div className="flex items-center justify-between gap-3 rounded-md border p-3">
+                      <p className="text-xs text-muted-foreground">
+                        {editingAuthorized
+                          ? 'Authorized. Tasks send the access token to this server.'
+                          : 'For servers that support OAuth. Save any changes before authorizing.'}
+                      </p>
+                      <div className="flex gap-2">
+                        {editingAuthorized && (
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="ghost"
+                            onClick={handleClearAuthorization}
+                            disabled={isAuthorizing || pending}
+                          >
+                            Remove
+                          </Button>
+                        )}
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          onClick={handleAuthorize}
+                          disabled={isAuthorizing || pending}
+                        >
+                          {isAuthorizing && <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />}
+                          {editingAuthorized ? 'Reauthorize' : 'Authorize'}
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 {serverType === 'remote' && (
                   <Accordion type="single" collapsible className="w-full">
                     <AccordionItem value="advanced" className="border-none">
@@ -676,7 +765,8 @@ export function ConnectorDialog({ open, onOpenChange }: ConnectorDialogProps) {
                           <Input
                             id="oauthClientId"
                             name="oauthClientId"
-                            placeholder="OAuth Client ID (optional)"
+                            placeholder="Registered automatically if empty"
+                            defaultValue={editingConnector?.oauthClientId || ''}
                             autoComplete="off"
                             spellCheck={false}
                           />
@@ -689,6 +779,7 @@ export function ConnectorDialog({ open, onOpenChange }: ConnectorDialogProps) {
                             name="oauthClientSecret"
                             type="password"
                             placeholder="OAuth Client Secret (optional)"
+                            defaultValue={editingConnector?.oauthClientSecret || ''}
                             autoComplete="off"
                           />
                         </div>
@@ -242,8 +242,32 @@ export function HomePageContent({
     const isMultiAgent = data.selectedAgent === 'multi-agent' && data.selectedModels && data.selectedModels.length > 0
 
     if (isMultiAgent) {
+      // Create the group first so every run is linked to the comparison page
+      let groupId: string
+      try {
+        const groupResponse = await fetch('/api/task-groups', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ prompt: data.prompt, repoUrl: data.repoUrl }),
+        })
+
+        if (!groupResponse.ok) {
+          const error = await groupResponse.json()
+          throw new Error(error.error || 'Failed to create task group')
+        }
+
+        const { group } = await groupResponse.json()
+        groupId = group.id
+      } catch (error) {
+        console.error('Error creating task group:', error)
+        toast.error('Failed to create tasks')
+        setIsSubmitting(false)
+        return
+      }
+
       // Create multiple tasks, one for each selected model
-      const taskIds: string[] = []
       const tasksData = data.selectedModels!.map((modelValue) => {
         // Parse agent:model format
         const [agent, model] = modelValue.split(':')
@@ -255,7 +279,6 @@ export function HomePageContent({
           installDependencies: data.installDependencies,
           maxDuration: data.maxDuration,
         })
-        taskIds.push(id)
         return {
           id,
           prompt: data.prompt,
@@ -266,11 +289,12 @@ export function HomePageContent({
           maxDuration: data.maxDuration,
           keepAlive: data.keepAlive,
           sourceBranch: selectedBranch || undefined,
+          groupId,
         }
       })
 
-      // Navigate to the first task
-      router.push(`/tasks/${taskIds[0]}`)
+      // Navigate to the comparison page
+      router.push(`/tasks/groups/${groupId}`)
 
       try {
         // Create all tasks in parallel
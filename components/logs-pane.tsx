@@ -1,6 +1,6 @@
 'use client'
 
-import type { Task, LogEntry } from '@/lib/db/schema'
+import type { TaskWithLogs, LogEntry } from '@/lib/db/schema'
 import { Button } from '@/components/ui/button'
 import { Copy, Check, ChevronDown, ChevronUp, Trash2, Bot } from 'lucide-react'
 import { cn } from '@/lib/utils'
@@ -13,9 +13,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { SubAgentIndicatorCompact } from '@/components/sub-agent-indicator'
 import { Badge } from '@/components/ui/badge'
 import { useWindowResize } from '@/lib/hooks/use-window-resize'
+import { useTaskEvents } from '@/lib/hooks/use-task-events'
 
 interface LogsPaneProps {
-  task: Task
+  task: TaskWithLogs
   onHeightChange?: (height: number) => void
 }
 
@@ -39,6 +40,8 @@ export function LogsPane({ task, onHeightChange }: LogsPaneProps) {
   const hasInitialScrolled = useRef<boolean>(false)
   const wasAtBottomRef = useRef<boolean>(true)
   const { isSidebarOpen, isSidebarResizing, refreshTasks } = useTasks()
+  // Log entries are pushed into `task` over the shared task event stream
+  const { isConnected: isLive } = useTaskEvents(task.id)
 
   // Check if we're on desktop using centralized resize hook
   useWindowResize(1024, () => {
@@ -272,6 +275,13 @@ export function LogsPane({ task, onHeightChange }: LogsPaneProps) {
                 )}
               >
                 Logs
+                {isLive && (
+                  <span
+                    className="ml-1.5 inline-block h-1.5 w-1.5 rounded-full bg-green-500 align-middle"
+                    title="Streaming live"
+                    aria-label="Streaming live"
+                  />
+                )}
               </button>
               <button
                 onClick={(e) => {
@@ -0,0 +1,116 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { GitHubIcon } from '@/components/icons/github-icon'
+import { getEnabledAuthProviders } from '@/lib/auth/providers'
+import { redirectToSignIn } from '@/lib/session/redirect-to-sign-in'
+import type { ApiTokenScope } from '@/lib/db/schema'
+import type { Session } from '@/lib/session/types'
+
+interface OAuthConsentProps {
+  clientName: string
+  /** Host (or scheme, for native apps) the user is sent back to */
+  redirectTarget: string
+  scopes: ApiTokenScope[]
+  /** Authorization request parameters, submitted with the decision */
+  params: Record<string, string>
+  user: Session['user'] | null
+}
+
+const SCOPE_DESCRIPTIONS: Record<ApiTokenScope, string> = {
+  'tasks:read': 'View your tasks, their logs, changes and usage',
+  'tasks:write': 'Create, continue and delete tasks',
+  'tasks:stop': 'Stop running tasks and their sandboxes',
+  'repos:read': 'List your repositories, branches, commits and pull requests',
+  mcp: 'Connect to the MCP server',
+}
+
+export function OAuthConsent({ clientName, redirectTarget, scopes, params, user }: OAuthConsentProps) {
+  const [submitting, setSubmitting] = useState(false)
+  const { github: hasGitHub, vercel: hasVercel } = getEnabledAuthProviders()
+
+  // Come back to this screen after signing in
+  const next = `/oauth/authorize?${new URLSearchParams(params).toString()}`
+
+  return (
+    <div className="flex min-h-[70vh] items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Authorize {clientName}</CardTitle>
+          <CardDescription>
+            {user
+              ? `${clientName} wants to access your account as ${user.username}.`
+              : `Sign in to allow ${clientName} to access your account.`}
+          </CardDescription>
+        </CardHeader>
+
+        {user ? (
+          <form action="/api/oauth/authorize" method="POST" onSubmit={() => setSubmitting(true)}>
+            {Object.entries(params).map(([name, value]) => (
+              <input key={name} type="hidden" name={name} value={value} />
+            ))}
+
+            <CardContent className="space-y-3">
+              <ul className="space-y-1.5 text-sm">
+                {scopes.map((scope) => (
+                  <li key={scope} className="flex gap-2">
+                    <span className="text-muted-foreground">•</span>
+                    {SCOPE_DESCRIPTIONS[scope]}
+                  </li>
+                ))}
+              </ul>
+              <p className="text-xs text-muted-foreground">
+                You will be sent back to <span className="font-mono">{redirectTarget}</span>. The connection shows up
+                under API Tokens, where you can revoke it at any time.
+              </p>
+            </CardContent>
+
+            <CardFooter className="flex justify-end gap-2 pt-6">
+              <Button type="submit" name="decision" value="deny" variant="outline" disabled={submitting}>
+                Deny
+              </Button>
+              <Button type="submit" name="decision" value="approve" disabled={submitting}>
+                Allow
+              </Button>
+            </CardFooter>
+          </form>
+        ) : (
+          <CardContent className="flex flex-col gap-3">
+            {hasVercel && (
+              <Button
+                variant="outline"
+                size="lg"
+                disabled={submitting}
+                onClick={async () => {
+                  setSubmitting(true)
+                  await redirectToSignIn(next)
+                }}
+              >
+                <svg viewBox="0 0 76 65" className="h-3 w-3 mr-2" fill="currentColor" aria-hidden="true">
+                  <path d="M37.5274 0L75.0548 65H0L37.5274 0Z" />
+                </svg>
+                Sign in with Vercel
+              </Button>
+            )}
+            {hasGitHub && (
+              <Button
+                variant="outline"
+                size="lg"
+                disabled={submitting}
+                onClick={() => {
+                  setSubmitting(true)
+                  window.location.href = `/api/auth/signin/github?${new URLSearchParams({ next }).toString()}`
+                }}
+              >
+                <GitHubIcon className="h-4 w-4 mr-2" aria-hidden="true" />
+                Sign in with GitHub
+              </Button>
+            )}
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  )
+}
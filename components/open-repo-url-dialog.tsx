@@ -25,11 +25,11 @@ export function OpenRepoUrlDialog({ open, onOpenChange, onSubmit }: OpenRepoUrlD
       return
     }
 
-    // Basic validation for GitHub URL format
-    const githubUrlPattern = /^https?:\/\/(www\.)?github\.com\/[\w-]+\/[\w.-]+/
-    if (!githubUrlPattern.test(repoUrl.trim())) {
-      toast.error('Invalid GitHub repository URL', {
-        description: 'Please enter a valid GitHub repository URL (e.g., https://github.com/owner/repo)',
+    // Basic validation for an owner/repo URL; the server checks the host is a configured git provider
+    const repoUrlPattern = /^https?:\/\/[\w.-]+(:\d+)?\/[\w.-]+(\/[\w.-]+)+/
+    if (!repoUrlPattern.test(repoUrl.trim())) {
+      toast.error('Invalid repository URL', {
+        description: 'Please enter a valid repository URL (e.g., https://github.com/owner/repo)',
       })
       return
     }
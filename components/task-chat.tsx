@@ -6,6 +6,7 @@ import Image from 'next/image'
 import { Card } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
 import {
   ArrowUp,
   Loader2,
@@ -19,6 +20,7 @@ import {
   RefreshCw,
   MoreVertical,
   MessageSquare,
+  Wrench,
 } from 'lucide-react'
 import { toast } from 'sonner'
 import { Streamdown } from 'streamdown'
@@ -36,6 +38,7 @@ interface TaskChatProps {
 
 interface PRComment {
   id: number
+  type: 'issue' | 'review'
   user: {
     login: string
     avatar_url: string
@@ -43,6 +46,11 @@ interface PRComment {
   body: string
   created_at: string
   html_url: string
+  // Review comments only
+  path?: string
+  line?: number | null
+  threadId?: string | null
+  isResolved?: boolean
 }
 
 interface DeploymentInfo {
@@ -69,6 +77,9 @@ export function TaskChat({ taskId, task }: TaskChatProps) {
   const [prComments, setPrComments] = useState<PRComment[]>([])
   const [loadingComments, setLoadingComments] = useState(false)
   const [commentsError, setCommentsError] = useState<string | null>(null)
+  const [selectedThreadIds, setSelectedThreadIds] = useState<Set<string>>(new Set())
+  const [isAddressingFeedback, setIsAddressingFeedback] = useState(false)
+  const [isUpdatingCiAutoFix, setIsUpdatingCiAutoFix] = useState(false)
   const [deployment, setDeployment] = useState<DeploymentInfo | null>(null)
   const [loadingDeployment, setLoadingDeployment] = useState(false)
   const [deploymentError, setDeploymentError] = useState<string | null>(null)
@@ -495,6 +506,80 @@ export function TaskChat({ taskId, task }: TaskChatProps) {
     toast.success('Comment added to chat input')
   }
 
+  const toggleThread = (threadId: string, selected: boolean) => {
+    setSelectedThreadIds((prev) => {
+      const next = new Set(prev)
+      if (selected) {
+        next.add(threadId)
+      } else {
+        next.delete(threadId)
+      }
+      return next
+    })
+  }
+
+  const handleAddressFeedback = async () => {
+    if (selectedThreadIds.size === 0 || isAddressingFeedback) return
+
+    setIsAddressingFeedback(true)
+
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/continue`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          reviewThreadIds: [...selectedThreadIds],
+          resolveThreads: true,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        toast.success('Addressing review feedback')
+        setSelectedThreadIds(new Set())
+        await mutateMessages()
+        setActiveTab('chat')
+      } else {
+        toast.error(data.error || 'Failed to address feedback')
+      }
+    } catch (err) {
+      console.error('Error addressing feedback:', err)
+      toast.error('Failed to address feedback')
+    } finally {
+      setIsAddressingFeedback(false)
+    }
+  }
+
+  const handleToggleCiAutoFix = async (enabled: boolean) => {
+    setIsUpdatingCiAutoFix(true)
+
+    try {
+      const response = await fetch(`/api/tasks/${taskId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'set-ci-auto-fix', enabled }),
+      })
+
+      if (response.ok) {
+        toast.success(enabled ? 'Failing checks will be fixed automatically' : 'CI auto-fix turned off')
+        // Task will update through polling
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to update CI auto-fix')
+      }
+    } catch (error) {
+      console.error('Error updating CI auto-fix:', error)
+      toast.error('Failed to update CI auto-fix')
+    } finally {
+      setIsUpdatingCiAutoFix(false)
+    }
+  }
+
   // Use a non-narrowed variable for tab button comparisons
   const currentTab = activeTab as string
 
@@ -579,6 +664,21 @@ export function TaskChat({ taskId, task }: TaskChatProps) {
 
       return (
         <div className="flex-1 overflow-y-auto pb-4">
+          {task.branchName && (
+            <label className="flex items-center gap-2 px-2 pb-2 mb-2 border-b text-xs">
+              <Checkbox
+                checked={task.ciAutoFix}
+                disabled={isUpdatingCiAutoFix}
+                onCheckedChange={(checked) => handleToggleCiAutoFix(checked === true)}
+              />
+              Auto-fix failing checks
+              {task.ciFixAttempts > 0 && (
+                <span className="text-muted-foreground">
+                  ({task.ciFixAttempts} attempt{task.ciFixAttempts === 1 ? '' : 's'} so far)
+                </span>
+              )}
+            </label>
+          )}
           {!task.branchName ? (
             <div className="flex items-center justify-center h-full text-center text-muted-foreground px-4">
               <div className="text-sm md:text-base">
@@ -651,9 +751,37 @@ export function TaskChat({ taskId, task }: TaskChatProps) {
             </div>
           ) : (
             <div className="space-y-4">
+              {selectedThreadIds.size > 0 && (
+                <div className="sticky top-0 z-10 flex items-center justify-between gap-2 px-2 py-2 bg-background border-b">
+                  <span className="text-xs text-muted-foreground">
+                    {selectedThreadIds.size} review thread{selectedThreadIds.size === 1 ? '' : 's'} selected
+                  </span>
+                  <Button
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={handleAddressFeedback}
+                    disabled={isAddressingFeedback || isSending || task.status === 'processing'}
+                  >
+                    {isAddressingFeedback ? (
+                      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                    ) : (
+                      <Wrench className="h-3 w-3 mr-1" />
+                    )}
+                    Address Feedback
+                  </Button>
+                </div>
+              )}
               {prComments.map((comment) => (
                 <div key={comment.id} className="px-2">
                   <div className="flex items-start gap-2 mb-2">
+                    {comment.threadId && !comment.isResolved && (
+                      <Checkbox
+                        className="mt-1"
+                        checked={selectedThreadIds.has(comment.threadId)}
+                        onCheckedChange={(checked) => toggleThread(comment.threadId!, checked === true)}
+                        aria-label="Select review thread"
+                      />
+                    )}
                     <Image
                       src={comment.user.avatar_url}
                       alt={comment.user.login}
@@ -668,7 +796,13 @@ export function TaskChat({ taskId, task }: TaskChatProps) {
                         <span className="text-xs text-muted-foreground">
                           {new Date(comment.created_at).toLocaleString()}
                         </span>
+                        {comment.isResolved && <span className="text-xs text-muted-foreground">· Resolved</span>}
                       </div>
+                      {comment.path && (
+                        <div className="text-xs text-muted-foreground font-mono truncate mb-1">
+                          {comment.line ? `${comment.path}:${comment.line}` : comment.path}
+                        </div>
+                      )}
                       <div className="text-xs text-foreground">
                         <Streamdown
                           components={{
@@ -31,6 +31,7 @@ import {
   Plus,
   Maximize,
   Minimize,
+  GitCompare,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useState, useEffect, useRef, useCallback } from 'react'
@@ -100,6 +101,7 @@ import SupabaseIcon from '@/components/icons/supabase-icon'
 import VercelIcon from '@/components/icons/vercel-icon'
 import { PRStatusIcon } from '@/components/pr-status-icon'
 import { SubAgentIndicator } from '@/components/sub-agent-indicator'
+import { VerificationIndicator } from '@/components/verification-indicator'
 
 interface TaskDetailsProps {
   task: Task
@@ -1594,6 +1596,17 @@ export function TaskDetails({ task, maxSandboxDuration = 300 }: TaskDetailsProps
             </div>
           )}
 
+          {/* Comparison group */}
+          {task.groupId && (
+            <Link
+              href={`/tasks/groups/${task.groupId}`}
+              className="flex items-center gap-1.5 md:gap-2 flex-shrink-0 text-muted-foreground hover:text-foreground"
+            >
+              <GitCompare className="h-3.5 w-3.5 md:h-4 md:w-4 flex-shrink-0" />
+              <span className="whitespace-nowrap">Compare runs</span>
+            </Link>
+          )}
+
           {/* MCP Servers */}
           {!loadingMcpServers && mcpServers.length > 0 && (
             <TooltipProvider>
@@ -1718,6 +1731,9 @@ export function TaskDetails({ task, maxSandboxDuration = 300 }: TaskDetailsProps
             className="mt-3"
           />
         )}
+
+        {/* Verification Results - Shown when the repository configures checks */}
+        <VerificationIndicator verification={task.verification} className="mt-3" />
       </div>
 
       {/* Changes Section - Only show when a branch exists */}
@@ -0,0 +1,371 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import useSWR from 'swr'
+import { toast } from 'sonner'
+import { ChevronDown, ChevronRight, ExternalLink, GitPullRequest, Trash2, Trophy } from 'lucide-react'
+import type { TaskGroup } from '@/lib/db/schema'
+import type { TaskGroupRun } from '@/lib/tasks/groups'
+import type { BranchFileChange } from '@/lib/github/client'
+import type { Session } from '@/lib/session/types'
+import { fetcher } from '@/lib/hooks/use-swr-fetcher'
+import { cn } from '@/lib/utils'
+import { formatUsd } from '@/lib/utils/model-pricing'
+import { PageHeader } from '@/components/page-header'
+import { useTasks } from '@/components/app-layout'
+import { User } from '@/components/auth/user'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { TaskDuration } from '@/components/task-duration'
+import { VerificationIndicator } from '@/components/verification-indicator'
+import { Claude, Codex, Copilot, Cursor, Gemini, OpenCode } from '@/components/logos'
+
+interface TaskGroupPageClientProps {
+  groupId: string
+  user: Session['user'] | null
+  authProvider: Session['authProvider'] | null
+}
+
+type TaskGroupResponse = { group: TaskGroup; runs: TaskGroupRun[] }
+
+const AGENT_LOGOS = {
+  claude: Claude,
+  codex: Codex,
+  copilot: Copilot,
+  cursor: Cursor,
+  gemini: Gemini,
+  opencode: OpenCode,
+} as const
+
+const STATUS_LABELS: Record<TaskGroupRun['status'], string> = {
+  pending: 'Pending',
+  processing: 'Running',
+  completed: 'Completed',
+  error: 'Failed',
+  stopped: 'Stopped',
+}
+
+function isRunActive(run: TaskGroupRun): boolean {
+  return run.status === 'pending' || run.status === 'processing' || run.verification?.status === 'running'
+}
+
+export function TaskGroupPageClient({ groupId, user, authProvider }: TaskGroupPageClientProps) {
+  const { toggleSidebar, refreshTasks } = useTasks()
+  const [promotingTaskId, setPromotingTaskId] = useState<string | null>(null)
+  const [showCleanupDialog, setShowCleanupDialog] = useState(false)
+  const [deleteBranches, setDeleteBranches] = useState(true)
+  const [isCleaningUp, setIsCleaningUp] = useState(false)
+
+  const { data, error, isLoading, mutate } = useSWR<TaskGroupResponse>(`/api/task-groups/${groupId}`, fetcher, {
+    // Keep refreshing diffs and statuses until every run has finished
+    refreshInterval: (latestData) => (!latestData || latestData.runs.some(isRunActive) ? 5000 : 0),
+    revalidateOnFocus: true,
+  })
+
+  const group = data?.group
+  const runs = data?.runs ?? []
+  const hasOtherRuns = runs.some((run) => run.id !== group?.winnerTaskId)
+
+  const handlePromote = async (run: TaskGroupRun) => {
+    setPromotingTaskId(run.id)
+    try {
+      const response = await fetch(`/api/task-groups/${groupId}/promote`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskId: run.id }),
+      })
+      const result = await response.json()
+
+      if (response.ok && result.success) {
+        toast.success('Pull request created', {
+          action: result.data.prUrl
+            ? { label: 'View PR', onClick: () => window.open(result.data.prUrl, '_blank') }
+            : undefined,
+        })
+        await mutate()
+        await refreshTasks()
+      } else {
+        toast.error(result.error || 'Failed to promote run')
+      }
+    } catch (error) {
+      console.error('Error promoting run:', error)
+      toast.error('Failed to promote run')
+    } finally {
+      setPromotingTaskId(null)
+    }
+  }
+
+  const handleCleanup = async () => {
+    setIsCleaningUp(true)
+    try {
+      const response = await fetch(`/api/task-groups/${groupId}/cleanup`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ deleteBranches }),
+      })
+      const result = await response.json()
+
+      if (response.ok && result.success) {
+        toast.success('Other runs cleaned up')
+      } else {
+        toast.error(result.error || 'Failed to clean up runs')
+      }
+
+      setShowCleanupDialog(false)
+      await mutate()
+      await refreshTasks()
+    } catch (error) {
+      console.error('Error cleaning up runs:', error)
+      toast.error('Failed to clean up runs')
+    } finally {
+      setIsCleaningUp(false)
+    }
+  }
+
+  return (
+    <div className="flex-1 bg-background flex flex-col h-full overflow-hidden">
+      <div className="flex-shrink-0 p-3">
+        <PageHeader
+          showMobileMenu={true}
+          onToggleMobileMenu={toggleSidebar}
+          title="Compare Runs"
+          actions={
+            <div className="flex items-center gap-2 h-8">
+              <User user={user} authProvider={authProvider} />
+            </div>
+          }
+        />
+      </div>
+
+      <div className="flex-1 overflow-auto px-4 pb-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <p className="text-sm text-muted-foreground">Loading comparison...</p>
+          </div>
+        ) : error || !group ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-center">
+              <h2 className="text-lg font-semibold mb-2">Comparison Not Found</h2>
+              <p className="text-muted-foreground">The requested comparison could not be found.</p>
+            </div>
+          </div>
+        ) : (
+          <div className="max-w-7xl mx-auto space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm whitespace-pre-wrap line-clamp-3">{group.prompt}</p>
+                {group.repoUrl && (
+                  <p className="text-xs text-muted-foreground mt-1 truncate">
+                    {group.repoUrl.replace(/^https:\/\/github\.com\//, '').replace(/\.git$/, '')}
+                  </p>
+                )}
+              </div>
+              {group.winnerTaskId && hasOtherRuns && (
+                <Button variant="outline" size="sm" onClick={() => setShowCleanupDialog(true)}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Clean Up Other Runs
+                </Button>
+              )}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+              {runs.map((run) => (
+                <RunCard
+                  key={run.id}
+                  run={run}
+                  isWinner={run.id === group.winnerTaskId}
+                  canPromote={!group.winnerTaskId && run.status === 'completed' && !!run.diff?.files.length}
+                  isPromoting={promotingTaskId === run.id}
+                  onPromote={() => handlePromote(run)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <AlertDialog open={showCleanupDialog} onOpenChange={setShowCleanupDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Clean up other runs?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Runs still in progress will be stopped and their sandboxes shut down. The promoted run is kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={deleteBranches} onCheckedChange={(checked) => setDeleteBranches(checked === true)} />
+            Also delete their branches
+          </label>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isCleaningUp}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCleanup} disabled={isCleaningUp}>
+              {isCleaningUp ? 'Cleaning up...' : 'Clean Up'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
+
+interface RunCardProps {
+  run: TaskGroupRun
+  isWinner: boolean
+  canPromote: boolean
+  isPromoting: boolean
+  onPromote: () => void
+}
+
+function RunCard({ run, isWinner, canPromote, isPromoting, onPromote }: RunCardProps) {
+  const AgentLogo = AGENT_LOGOS[run.selectedAgent as keyof typeof AGENT_LOGOS]
+
+  return (
+    <Card className={cn('gap-3 py-4', isWinner && 'border-green-500/50')}>
+      <CardHeader className="px-4">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            {AgentLogo && <AgentLogo className="w-4 h-4 flex-shrink-0" />}
+            <span className="text-sm font-medium truncate">{run.selectedModel || run.selectedAgent}</span>
+          </div>
+          <div className="flex items-center gap-1.5 flex-shrink-0">
+            {isWinner && (
+              <Badge variant="secondary" className="h-5 text-xs gap-1">
+                <Trophy className="h-3 w-3" />
+                Winner
+              </Badge>
+            )}
+            <Badge variant={run.status === 'error' ? 'destructive' : 'outline'} className="h-5 text-xs">
+              {STATUS_LABELS[run.status]}
+            </Badge>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="px-4 space-y-3">
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <div>
+            <div className="text-xs text-muted-foreground">Duration</div>
+            <TaskDuration task={run} hideTitle />
+          </div>
+          <div>
+            <div className="text-xs text-muted-foreground">Changes</div>
+            {run.diff ? (
+              <p className="text-sm" style={{ fontVariantNumeric: 'tabular-nums' }}>
+                {run.diff.files.length} {run.diff.files.length === 1 ? 'file' : 'files'}{' '}
+                <span className="text-green-600">+{run.diff.additions}</span>{' '}
+                <span className="text-red-600">-{run.diff.deletions}</span>
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">{run.diffError || '—'}</p>
+            )}
+          </div>
+          <div>
+            <div className="text-xs text-muted-foreground">Tokens</div>
+            <p className="text-sm" style={{ fontVariantNumeric: 'tabular-nums' }}>
+              {run.usage ? run.usage.totalTokens.toLocaleString('en-US') : '—'}
+            </p>
+          </div>
+          <div>
+            <div className="text-xs text-muted-foreground">Cost</div>
+            <p className="text-sm" style={{ fontVariantNumeric: 'tabular-nums' }}>
+              {run.usage && run.usage.costUsd > 0 ? formatUsd(run.usage.costUsd) : '—'}
+            </p>
+          </div>
+        </div>
+
+        {run.error && run.status !== 'completed' && (
+          <p className="text-xs text-destructive line-clamp-2">{run.error}</p>
+        )}
+
+        <VerificationIndicator verification={run.verification} />
+
+        {run.diff && run.diff.files.length > 0 && (
+          <div className="rounded-md border divide-y">
+            {run.diff.files.map((file) => (
+              <FileChangeRow key={file.filename} file={file} />
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2 pt-1">
+          <Button asChild variant="outline" size="sm">
+            <Link href={`/tasks/${run.id}`}>Open Task</Link>
+          </Button>
+          {run.prUrl ? (
+            <Button asChild variant="outline" size="sm">
+              <a href={run.prUrl} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="h-4 w-4 mr-1.5" />
+                View PR
+              </a>
+            </Button>
+          ) : (
+            canPromote && (
+              <Button size="sm" onClick={onPromote} disabled={isPromoting}>
+                <GitPullRequest className="h-4 w-4 mr-1.5" />
+                {isPromoting ? 'Creating PR...' : 'Promote to PR'}
+              </Button>
+            )
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function FileChangeRow({ file }: { file: BranchFileChange }) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger className="w-full flex items-center justify-between gap-2 px-2 py-1.5 text-left hover:bg-accent/50">
+        <div className="flex items-center gap-1 min-w-0">
+          {isOpen ? (
+            <ChevronDown className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+          ) : (
+            <ChevronRight className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+          )}
+          <span className="text-xs font-mono truncate">{file.filename}</span>
+        </div>
+        <span className="text-xs flex-shrink-0" style={{ fontVariantNumeric: 'tabular-nums' }}>
+          <span className="text-green-600">+{file.additions}</span>{' '}
+          <span className="text-red-600">-{file.deletions}</span>
+        </span>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        {file.patch ? (
+          <pre className="text-xs font-mono overflow-x-auto max-h-80 overflow-y-auto bg-muted/30">
+            {file.patch.split('\n').map((line, index) => (
+              <div
+                key={index}
+                className={cn(
+                  'px-2',
+                  line.startsWith('+') && 'bg-green-500/10 text-green-700 dark:text-green-400',
+                  line.startsWith('-') && 'bg-red-500/10 text-red-700 dark:text-red-400',
+                  line.startsWith('@@') && 'text-muted-foreground',
+                )}
+              >
+                {line || ' '}
+              </div>
+            ))}
+          </pre>
+        ) : (
+          <p className="px-2 py-1.5 text-xs text-muted-foreground">No textual diff available</p>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
@@ -0,0 +1,223 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import useSWR from 'swr'
+import type { UserUsageSummary, UsageTotals } from '@/lib/tasks/usage'
+import type { Session } from '@/lib/session/types'
+import { fetcher } from '@/lib/hooks/use-swr-fetcher'
+import { formatUsd } from '@/lib/utils/model-pricing'
+import { PageHeader } from '@/components/page-header'
+import { useTasks } from '@/components/app-layout'
+import { User } from '@/components/auth/user'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+
+interface UsageDashboardClientProps {
+  user: Session['user'] | null
+  authProvider: Session['authProvider'] | null
+}
+
+type UsageResponse = UserUsageSummary & {
+  days: number
+  monthlySpend: {
+    spentUsd: number
+    limitUsd: number | null
+    resetAt: string
+  }
+}
+
+const PERIODS = ['7', '30', '90'] as const
+
+function formatTokens(count: number): string {
+  return count.toLocaleString('en-US')
+}
+
+function formatRepo(repoUrl: string | null): string {
+  if (!repoUrl) return 'No repository'
+  return repoUrl.replace(/^https:\/\/github\.com\//, '').replace(/\.git$/, '')
+}
+
+export function UsageDashboardClient({ user, authProvider }: UsageDashboardClientProps) {
+  const { toggleSidebar } = useTasks()
+  const [days, setDays] = useState<string>('30')
+
+  const { data, error, isLoading } = useSWR<UsageResponse>(`/api/usage?days=${days}`, fetcher)
+
+  return (
+    <div className="flex-1 bg-background flex flex-col h-full overflow-hidden">
+      <div className="flex-shrink-0 p-3">
+        <PageHeader
+          showMobileMenu={true}
+          onToggleMobileMenu={toggleSidebar}
+          title="Usage"
+          actions={
+            <div className="flex items-center gap-2 h-8">
+              <User user={user} authProvider={authProvider} />
+            </div>
+          }
+        />
+      </div>
+
+      <div className="flex-1 overflow-auto px-4 pb-4">
+        <div className="max-w-5xl mx-auto space-y-4">
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm text-muted-foreground">
+              Tokens and cost reported by the agent CLIs. Runs whose cost is unknown are not counted toward spend.
+            </p>
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger className="w-36 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIODS.map((period) => (
+                  <SelectItem key={period} value={period}>
+                    Last {period} days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center h-64">
+              <p className="text-sm text-muted-foreground">Loading usage...</p>
+            </div>
+          ) : error || !data ? (
+            <div className="flex items-center justify-center h-64">
+              <p className="text-sm text-muted-foreground">Failed to load usage.</p>
+            </div>
+          ) : (
+            <>
+              <MonthlySpendCard monthlySpend={data.monthlySpend} />
+
+              <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+                <StatCard label="Cost" value={formatUsd(data.totals.costUsd)} />
+                <StatCard label="Tokens" value={formatTokens(data.totals.totalTokens)} />
+                <StatCard
+                  label="Input / Output"
+                  value={`${formatTokens(data.totals.inputTokens)} / ${formatTokens(data.totals.outputTokens)}`}
+                />
+                <StatCard label="Agent runs" value={formatTokens(data.totals.runs)} />
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <UsageTable
+                  title="By agent"
+                  rows={data.byAgent.map((row) => ({
+                    key: `${row.agent}:${row.model ?? ''}`,
+                    label: row.model ? `${row.agent} · ${row.model}` : row.agent,
+                    totals: row,
+                  }))}
+                />
+                <UsageTable
+                  title="By repository"
+                  rows={data.byRepo.map((row) => ({
+                    key: row.repoUrl ?? '',
+                    label: formatRepo(row.repoUrl),
+                    totals: row,
+                  }))}
+                />
+              </div>
+
+              <UsageTable
+                title="By day"
+                rows={[...data.byDay].reverse().map((row) => ({ key: row.day, label: row.day, totals: row }))}
+              />
+
+              <UsageTable
+                title="Most expensive tasks"
+                rows={data.topTasks.map((row) => ({
+                  key: row.taskId,
+                  label: (
+                    <Link href={`/tasks/${row.taskId}`} className="hover:underline">
+                      {row.title || row.prompt || row.taskId}
+                    </Link>
+                  ),
+                  totals: row,
+                }))}
+              />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function MonthlySpendCard({ monthlySpend }: { monthlySpend: UsageResponse['monthlySpend'] }) {
+  const { spentUsd, limitUsd, resetAt } = monthlySpend
+  const percent = limitUsd ? Math.min((spentUsd / limitUsd) * 100, 100) : 0
+
+  return (
+    <Card className="gap-2 py-4">
+      <CardHeader className="px-4">
+        <CardTitle className="text-sm font-medium">This month</CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 space-y-2">
+        <p className="text-sm" style={{ fontVariantNumeric: 'tabular-nums' }}>
+          {formatUsd(spentUsd)}
+          {limitUsd ? ` of ${formatUsd(limitUsd)} spent` : ' spent (no limit)'}
+        </p>
+        {limitUsd && <Progress value={percent} className={percent >= 100 ? '[&>div]:bg-destructive' : undefined} />}
+        <p className="text-xs text-muted-foreground">Resets {new Date(resetAt).toLocaleDateString()}</p>
+      </CardContent>
+    </Card>
+  )
+}
+
+function StatCard({ label, value }: { label: string; value: string }) {
+  return (
+    <Card className="gap-1 py-4">
+      <CardContent className="px-4">
+        <div className="text-xs text-muted-foreground">{label}</div>
+        <p className="text-lg font-semibold truncate" style={{ fontVariantNumeric: 'tabular-nums' }}>
+          {value}
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
+
+interface UsageTableRow {
+  key: string
+  label: React.ReactNode
+  totals: UsageTotals
+}
+
+function UsageTable({ title, rows }: { title: string; rows: UsageTableRow[] }) {
+  return (
+    <Card className="gap-2 py-4">
+      <CardHeader className="px-4">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="px-4">
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No usage in this period.</p>
+        ) : (
+          <table className="w-full text-sm" style={{ fontVariantNumeric: 'tabular-nums' }}>
+            <thead>
+              <tr className="text-xs text-muted-foreground">
+                <th className="text-left font-normal pb-1"></th>
+                <th className="text-right font-normal pb-1">Runs</th>
+                <th className="text-right font-normal pb-1">Tokens</th>
+                <th className="text-right font-normal pb-1">Cost</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {rows.map((row) => (
+                <tr key={row.key}>
+                  <td className="py-1.5 pr-2 max-w-0 w-full truncate">{row.label}</td>
+                  <td className="py-1.5 pl-2 text-right">{row.totals.runs}</td>
+                  <td className="py-1.5 pl-2 text-right">{formatTokens(row.totals.totalTokens)}</td>
+                  <td className="py-1.5 pl-2 text-right">{formatUsd(row.totals.costUsd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,145 @@
+'use client'
+
+import type { VerificationCheck, VerificationResult } from '@/lib/db/schema'
+import { cn } from '@/lib/utils'
+import { useState } from 'react'
+import { Loader2, CheckCircle, XCircle, ChevronDown, ChevronUp, ShieldCheck } from 'lucide-react'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import { Badge } from '@/components/ui/badge'
+
+interface VerificationIndicatorProps {
+  verification: VerificationResult | null | undefined
+  className?: string
+}
+
+const STATUS_CONFIG = {
+  running: {
+    icon: Loader2,
+    color: 'text-blue-500',
+    bgColor: 'bg-blue-500/10',
+    borderColor: 'border-blue-500/30',
+    animate: true,
+    label: 'Verifying',
+  },
+  passed: {
+    icon: CheckCircle,
+    color: 'text-green-500',
+    bgColor: 'bg-green-500/10',
+    borderColor: 'border-green-500/30',
+    animate: false,
+    label: 'Checks passed',
+  },
+  failed: {
+    icon: XCircle,
+    color: 'text-red-500',
+    bgColor: 'bg-red-500/10',
+    borderColor: 'border-red-500/30',
+    animate: false,
+    label: 'Checks failed',
+  },
+}
+
+function formatDuration(durationMs: number): string {
+  const seconds = Math.round(durationMs / 1000)
+  const minutes = Math.floor(seconds / 60)
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`
+}
+
+/**
+ * Results of the repository's typecheck/lint/test commands run after the agent
+ */
+export function VerificationIndicator({ verification, className }: VerificationIndicatorProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  if (!verification) {
+    return null
+  }
+
+  const config = STATUS_CONFIG[verification.status]
+  const Icon = config.icon
+
+  return (
+    <div className={cn('rounded-lg border', className)} role="region" aria-label="Verification results">
+      <Collapsible open={isExpanded} onOpenChange={setIsExpanded}>
+        <CollapsibleTrigger
+          className="w-full focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 rounded-lg"
+          aria-label="Toggle verification details"
+          aria-expanded={isExpanded}
+        >
+          <div
+            className={cn(
+              'flex items-center justify-between px-3 py-2 rounded-lg transition-colors hover:bg-accent/50',
+              config.bgColor,
+              config.borderColor,
+            )}
+          >
+            <div className="flex items-center gap-2">
+              <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+              <span className="text-sm font-medium">{config.label}</span>
+              {verification.iteration > 0 && (
+                <Badge variant="secondary" className="h-5 text-xs">
+                  {verification.iteration}/{verification.maxIterations} fix-ups
+                </Badge>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              {config.animate ? (
+                <div className="animate-spin">
+                  <Icon className={cn('h-4 w-4', config.color)} />
+                </div>
+              ) : (
+                <Icon className={cn('h-4 w-4', config.color)} />
+              )}
+              {isExpanded ? (
+                <ChevronUp className="h-4 w-4 text-muted-foreground" />
+              ) : (
+                <ChevronDown className="h-4 w-4 text-muted-foreground" />
+              )}
+            </div>
+          </div>
+        </CollapsibleTrigger>
+
+        <CollapsibleContent>
+          <div className="px-3 pb-3 pt-2 space-y-1.5">
+            {verification.checks.length === 0 ? (
+              <div className="text-xs text-muted-foreground">Running checks...</div>
+            ) : (
+              verification.checks.map((check) => <VerificationCheckRow key={check.name} check={check} />)
+            )}
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  )
+}
+
+function VerificationCheckRow({ check }: { check: VerificationCheck }) {
+  const [showOutput, setShowOutput] = useState(false)
+  const config = check.success ? STATUS_CONFIG.passed : STATUS_CONFIG.failed
+  const Icon = config.icon
+
+  return (
+    <div className={cn('rounded-md border', config.bgColor, config.borderColor)}>
+      <button
+        type="button"
+        className="w-full flex items-center justify-between p-3 min-h-[44px] text-left"
+        onClick={() => setShowOutput(!showOutput)}
+        disabled={!check.output}
+      >
+        <div className="flex items-center gap-2 min-w-0">
+          <Icon className={cn('h-4 w-4 shrink-0', config.color)} />
+          <div className="min-w-0">
+            <div className="text-sm font-medium">{check.name}</div>
+            <div className="text-xs text-muted-foreground font-mono truncate">{check.command}</div>
+          </div>
+        </div>
+        <span className="text-xs text-muted-foreground shrink-0">{formatDuration(check.durationMs)}</span>
+      </button>
+      {showOutput && check.output && (
+        <pre className="px-3 pb-3 text-xs font-mono whitespace-pre-wrap break-all max-h-64 overflow-y-auto">
+          {check.output}
+        </pre>
+      )}
+    </div>
+  )
+}
@@ -15,6 +15,12 @@ type FormState = {
   errors: Record<string, string>
 }
 
+const CLEARED_AUTHORIZATION = {
+  oauthAccessToken: null,
+  oauthRefreshToken: null,
+  oauthTokenExpiresAt: null,
+}
+
 export async function createConnector(_: FormState, formData: FormData): Promise<FormState> {
   try {
     const session = await getServerSession()
@@ -179,6 +185,18 @@ export async function updateConnector(_: FormState, formData: FormData): Promise
 
     const validatedData = insertConnectorSchema.parse(connectorData)
 
+    const [existing] = await db
+      .select({ baseUrl: connectors.baseUrl, oauthClientId: connectors.oauthClientId })
+      .from(connectors)
+      .where(and(eq(connectors.id, id), eq(connectors.userId, session.user.id)))
+      .limit(1)
+
+    // Tokens belong to the server and client they were issued for
+    const authorizationChanged =
+      existing &&
+      (existing.baseUrl !== (validatedData.baseUrl || null) ||
+        existing.oauthClientId !== (validatedData.oauthClientId || null))
+
     await db
       .update(connectors)
       .set({
@@ -191,6 +209,7 @@ export async function updateConnector(_: FormState, formData: FormData): Promise
         command: validatedData.command || null,
         env: validatedData.env ? encrypt(JSON.stringify(validatedData.env)) : null,
         status: validatedData.status,
+        ...(authorizationChanged ? CLEARED_AUTHORIZATION : {}),
         updatedAt: new Date(),
       })
       .where(and(eq(connectors.id, id), eq(connectors.userId, session.user.id)))
@@ -228,6 +247,40 @@ export async function updateConnector(_: FormState, formData: FormData): Promise
   }
 }
 
+export async function clearConnectorAuthorization(id: string) {
+  'use server'
+
+  try {
+    const session = await getServerSession()
+
+    if (!session?.user?.id) {
+      return {
+        success: false,
+        message: 'Unauthorized',
+      }
+    }
+
+    await db
+      .update(connectors)
+      .set({ ...CLEARED_AUTHORIZATION, updatedAt: new Date() })
+      .where(and(eq(connectors.id, id), eq(connectors.userId, session.user.id)))
+
+    revalidatePath('/')
+
+    return {
+      success: true,
+      message: 'Authorization removed',
+    }
+  } catch (error) {
+    console.error('Error clearing connector authorization')
+
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to remove authorization',
+    }
+  }
+}
+
 export async function deleteConnector(id: string) {
   'use server'
 
@@ -277,6 +330,9 @@ export async function getConnectors() {
     const decryptedConnectors = userConnectors.map((connector) => ({
       ...connector,
       oauthClientSecret: connector.oauthClientSecret ? decrypt(connector.oauthClientSecret) : null,
+      oauthAccessToken: null,
+      oauthRefreshToken: null,
+      oauthAuthorized: !!connector.oauthAccessToken,
       env: (() => {
         if (!connector.env) return null
         try {
@@ -8,21 +8,31 @@ import { decrypt } from '@/lib/crypto'
 
 type Provider = 'openai' | 'gemini' | 'cursor' | 'anthropic' | 'aigateway'
 
+type ApiKeyName = 'OPENAI_API_KEY' | 'GEMINI_API_KEY' | 'CURSOR_API_KEY' | 'ANTHROPIC_API_KEY' | 'AI_GATEWAY_API_KEY'
+
+const PROVIDER_KEY_NAMES: Record<Provider, ApiKeyName> = {
+  openai: 'OPENAI_API_KEY',
+  gemini: 'GEMINI_API_KEY',
+  cursor: 'CURSOR_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  aigateway: 'AI_GATEWAY_API_KEY',
+}
+
+export interface UserApiKeysWithSource {
+  apiKeys: Record<ApiKeyName, string | undefined>
+  /** Keys the user stored; the others hold the server's fallback keys */
+  userKeyNames: ApiKeyName[]
+}
+
 /**
  * Internal helper function to fetch and decrypt API keys from the database.
  * This is a private implementation detail - use getUserApiKeys() or getUserApiKey() instead.
  *
  * @param userId - The user's internal ID
- * @returns Object with all API keys (user keys override system env vars)
+ * @returns All API keys (user keys override system env vars) and the names of the keys the user stored
  * @private
  */
-async function _fetchKeysFromDatabase(userId: string): Promise<{
-  OPENAI_API_KEY: string | undefined
-  GEMINI_API_KEY: string | undefined
-  CURSOR_API_KEY: string | undefined
-  ANTHROPIC_API_KEY: string | undefined
-  AI_GATEWAY_API_KEY: string | undefined
-}> {
+async function _fetchKeysFromDatabase(userId: string): Promise<UserApiKeysWithSource> {
   // Default to system keys
   const apiKeys = {
     OPENAI_API_KEY: process.env.OPENAI_API_KEY,
@@ -31,6 +41,7 @@ async function _fetchKeysFromDatabase(userId: string): Promise<{
     ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
     AI_GATEWAY_API_KEY: process.env.AI_GATEWAY_API_KEY,
   }
+  const userKeyNames: ApiKeyName[] = []
 
   try {
     const userKeys = await db.select().from(keys).where(eq(keys.userId, userId))
@@ -40,30 +51,18 @@ async function _fetchKeysFromDatabase(userId: string): Promise<{
       // Skip keys that fail to decrypt (keeps env var fallback)
       if (decryptedValue === null) return
 
-      switch (key.provider) {
-        case 'openai':
-          apiKeys.OPENAI_API_KEY = decryptedValue
-          break
-        case 'gemini':
-          apiKeys.GEMINI_API_KEY = decryptedValue
-          break
-        case 'cursor':
-          apiKeys.CURSOR_API_KEY = decryptedValue
-          break
-        case 'anthropic':
-          apiKeys.ANTHROPIC_API_KEY = decryptedValue
-          break
-        case 'aigateway':
-          apiKeys.AI_GATEWAY_API_KEY = decryptedValue
-          break
-      }
+      const name = PROVIDER_KEY_NAMES[key.provider as Provider]
+      if (!name) return
+
+      apiKeys[name] = decryptedValue
+      userKeyNames.push(name)
     })
   } catch (error) {
     console.error('Error fetching user API keys')
     // Fall back to system keys on error
   }
 
-  return apiKeys
+  return { apiKeys, userKeyNames }
 }
 
 /**
@@ -102,7 +101,7 @@ export async function getUserApiKeys(userId?: string): Promise<{
 
   // If userId is provided directly, use it
   if (userId) {
-    return _fetchKeysFromDatabase(userId)
+    return (await _fetchKeysFromDatabase(userId)).apiKeys
   }
 
   // Otherwise, try to get userId from session
@@ -111,7 +110,18 @@ export async function getUserApiKeys(userId?: string): Promise<{
     return systemKeys
   }
 
-  return _fetchKeysFromDatabase(session.user.id)
+  return (await _fetchKeysFromDatabase(session.user.id)).apiKeys
+}
+
+/**
+ * Get all API keys for a user along with which of them the user stored.
+ * Use this where a user's own keys may be shared with less trusted code
+ * (e.g. repository configuration) but the server's fallback keys may not.
+ *
+ * @param userId - The user's internal ID
+ */
+export async function getUserApiKeysWithSource(userId: string): Promise<UserApiKeysWithSource> {
+  return _fetchKeysFromDatabase(userId)
 }
 
 /**
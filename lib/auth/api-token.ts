@@ -1,7 +1,7 @@
 import { NextRequest } from 'next/server'
 import { createHash, randomBytes } from 'crypto'
 import { db } from '@/lib/db/client'
-import { apiTokens, users, type User } from '@/lib/db/schema'
+import { apiTokens, users, type ApiToken, type User } from '@/lib/db/schema'
 import { eq } from 'drizzle-orm'
 import { getServerSession } from '@/lib/session/get-server-session'
 
@@ -16,7 +16,16 @@ export function generateApiToken(): { raw: string; hash: string; prefix: string
   return { raw, hash, prefix }
 }
 
-export async function getAuthFromRequest(request: NextRequest): Promise<User | null> {
+export interface RequestAuth {
+  user: User
+  apiToken: ApiToken | null // Set when the request authenticated with an API token instead of a session
+}
+
+/**
+ * Resolve the user behind a request from its Bearer API token or session cookie.
+ * Callers that accept API tokens check the token's scopes with getTokenAccessError.
+ */
+export async function getRequestAuth(request: NextRequest): Promise<RequestAuth | null> {
   const authHeader = request.headers.get('authorization')
 
   if (authHeader?.startsWith('Bearer ')) {
@@ -46,7 +55,7 @@ export async function getAuthFromRequest(request: NextRequest): Promise<User | n
       .set({ lastUsedAt: new Date(), updatedAt: new Date() })
       .where(eq(apiTokens.tokenHash, hash))
 
-    return user
+    return { user, apiToken: tokenRecord }
   }
 
   const session = await getServerSession()
@@ -56,5 +65,5 @@ export async function getAuthFromRequest(request: NextRequest): Promise<User | n
 
   const [user] = await db.select().from(users).where(eq(users.id, session.user.id)).limit(1)
 
-  return user || null
+  return user ? { user, apiToken: null } : null
 }
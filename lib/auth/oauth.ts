@@ -0,0 +1,476 @@
+/**
+ * OAuth 2.1 Authorization Server
+ *
+ * Lets MCP clients connect without a copy-pasted API token, following the MCP
+ * authorization spec: clients register themselves (RFC 7591), send the user
+ * to the authorization endpoint with a PKCE challenge to approve access, and
+ * exchange the returned code for an access and refresh token.
+ *
+ * Each grant is an API token row linked to the client, holding the hash of
+ * its current access token, so access tokens are checked, scoped, rate
+ * limited and revoked like any other API token. Refreshing rotates both
+ * tokens on the same row.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto'
+import { NextResponse } from 'next/server'
+import { getPublicOrigin } from 'mcp-handler'
+import { db } from '@/lib/db/client'
+import {
+  apiTokens,
+  oauthAuthorizationCodes,
+  oauthClients,
+  API_TOKEN_SCOPES,
+  type ApiTokenScope,
+  type OAuthClient,
+} from '@/lib/db/schema'
+import { and, eq, isNotNull, lt, or } from 'drizzle-orm'
+import { generateApiToken, hashToken } from './api-token'
+
+export const ACCESS_TOKEN_TTL_SECONDS = 60 * 60
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000
+const AUTHORIZATION_CODE_TTL_MS = 10 * 60 * 1000
+
+// Metadata and token endpoints are called from browser-based MCP clients
+export const OAUTH_CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, MCP-Protocol-Version',
+}
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]']
+const BLOCKED_REDIRECT_PROTOCOLS = ['javascript:', 'data:', 'file:', 'vbscript:']
+
+export type OAuthClientAuthMethod = 'none' | 'client_secret_post' | 'client_secret_basic'
+
+/**
+ * OAuth error response (RFC 6749 section 5.2). code is the "error" value.
+ */
+export class OAuthError extends Error {
+  constructor(
+    readonly code: string,
+    message: string,
+    readonly status: number = 400,
+  ) {
+    super(message)
+    this.name = 'OAuthError'
+  }
+
+  toResponse(): NextResponse {
+    return NextResponse.json(
+      { error: this.code, error_description: this.message },
+      { status: this.status, headers: { ...OAUTH_CORS_HEADERS, 'Cache-Control': 'no-store' } },
+    )
+  }
+}
+
+/**
+ * Issuer identifier: the app's public origin, which also hosts the MCP server
+ */
+export function getOAuthIssuer(request: Request): string {
+  return getPublicOrigin(request)
+}
+
+export function getAuthorizationServerMetadata(issuer: string) {
+  return {
+    issuer,
+    authorization_endpoint: `${issuer}/api/oauth/authorize`,
+    token_endpoint: `${issuer}/api/oauth/token`,
+    registration_endpoint: `${issuer}/api/oauth/register`,
+    revocation_endpoint: `${issuer}/api/oauth/revoke`,
+    response_types_supported: ['code'],
+    grant_types_supported: ['authorization_code', 'refresh_token'],
+    code_challenge_methods_supported: ['S256'],
+    token_endpoint_auth_methods_supported: ['none', 'client_secret_post', 'client_secret_basic'],
+    revocation_endpoint_auth_methods_supported: ['none', 'client_secret_post', 'client_secret_basic'],
+    scopes_supported: [...API_TOKEN_SCOPES],
+  }
+}
+
+/**
+ * Scopes to grant for a space-separated scope parameter. Unknown scopes are
+ * ignored (some clients send their own), no known scope grants every scope,
+ * and "mcp" is always granted since the token is for the MCP server.
+ */
+export function parseOAuthScopes(scope: string | null | undefined): ApiTokenScope[] {
+  const requested = (scope || '')
+    .split(' ')
+    .filter((value): value is ApiTokenScope => API_TOKEN_SCOPES.includes(value as ApiTokenScope))
+
+  if (requested.length === 0) return [...API_TOKEN_SCOPES]
+  return [...new Set<ApiTokenScope>([...requested, 'mcp'])]
+}
+
+/**
+ * Redirect URIs must be HTTPS, HTTP on a loopback address, or a custom scheme
+ * for native apps (e.g. cursor://)
+ */
+function isAllowedRedirectUri(uri: string): boolean {
+  let url: URL
+  try {
+    url = new URL(uri)
+  } catch {
+    return false
+  }
+
+  if (url.hash) return false
+  if (url.protocol === 'https:') return true
+  if (url.protocol === 'http:') return LOOPBACK_HOSTS.includes(url.hostname)
+  return !BLOCKED_REDIRECT_PROTOCOLS.includes(url.protocol)
+}
+
+/**
+ * Exact match, except that loopback redirects may use any port (RFC 8252 section 7.3)
+ */
+function matchesRedirectUri(registered: string, requested: string): boolean {
+  if (registered === requested) return true
+
+  try {
+    const registeredUrl = new URL(registered)
+    const requestedUrl = new URL(requested)
+    return (
+      registeredUrl.protocol === 'http:' &&
+      LOOPBACK_HOSTS.includes(registeredUrl.hostname) &&
+      requestedUrl.protocol === 'http:' &&
+      requestedUrl.hostname === registeredUrl.hostname &&
+      requestedUrl.pathname === registeredUrl.pathname &&
+      requestedUrl.search === registeredUrl.search
+    )
+  } catch {
+    return false
+  }
+}
+
+function isResourceAllowed(resource: string, issuer: string): boolean {
+  const normalized = resource.replace(/\/+$/, '')
+  return normalized === issuer || normalized === `${issuer}/api/mcp`
+}
+
+/**
+ * Register a client (RFC 7591). Confidential clients get a secret, public
+ * clients ("none") rely on PKCE alone.
+ */
+export async function registerOAuthClient(params: {
+  name: string
+  redirectUris: string[]
+  authMethod: OAuthClientAuthMethod
+}): Promise<{ client: OAuthClient; clientSecret: string | null }> {
+  const invalidUri = params.redirectUris.find((uri) => !isAllowedRedirectUri(uri))
+  if (invalidUri) {
+    throw new OAuthError('invalid_redirect_uri', `Redirect URI is not allowed: ${invalidUri}`)
+  }
+
+  const clientSecret = params.authMethod === 'none' ? null : randomBytes(32).toString('hex')
+
+  const [client] = await db
+    .insert(oauthClients)
+    .values({
+      id: randomBytes(16).toString('hex'),
+      name: params.name,
+      clientSecretHash: clientSecret ? hashToken(clientSecret) : null,
+      redirectUris: [...new Set(params.redirectUris)],
+    })
+    .returning()
+
+  return { client, clientSecret }
+}
+
+export async function getOAuthClient(clientId: string): Promise<OAuthClient | null> {
+  const [client] = await db.select().from(oauthClients).where(eq(oauthClients.id, clientId)).limit(1)
+  return client ?? null
+}
+
+/**
+ * Client credentials from an HTTP Basic header (client_secret_basic) or the
+ * form body (client_secret_post, or just client_id for public clients)
+ */
+export function getClientCredentials(
+  request: Request,
+  form: FormData,
+): { clientId: string | null; clientSecret: string | null } {
+  const authorization = request.headers.get('authorization')
+  if (authorization?.startsWith('Basic ')) {
+    const decoded = Buffer.from(authorization.slice(6), 'base64').toString('utf8')
+    const separator = decoded.indexOf(':')
+    if (separator !== -1) {
+      return {
+        clientId: decodeURIComponent(decoded.slice(0, separator)),
+        clientSecret: decodeURIComponent(decoded.slice(separator + 1)),
+      }
+    }
+  }
+
+  return {
+    clientId: form.get('client_id')?.toString() || null,
+    clientSecret: form.get('client_secret')?.toString() || null,
+  }
+}
+
+/**
+ * Authenticate a client at the token and revocation endpoints
+ */
+export async function authenticateOAuthClient(clientId: string, clientSecret: string | null): Promise<OAuthClient> {
+  const client = await getOAuthClient(clientId)
+  if (!client) {
+    throw new OAuthError('invalid_client', 'Unknown client', 401)
+  }
+
+  if (client.clientSecretHash) {
+    const expected = Buffer.from(client.clientSecretHash, 'hex')
+    const actual = Buffer.from(hashToken(clientSecret || ''), 'hex')
+    if (!clientSecret || !timingSafeEqual(expected, actual)) {
+      throw new OAuthError('invalid_client', 'Client authentication failed', 401)
+    }
+  }
+
+  return client
+}
+
+export interface AuthorizationRequest {
+  client: OAuthClient
+  redirectUri: string
+  state: string | null
+  codeChallenge: string
+  scopes: ApiTokenScope[]
+}
+
+export type AuthorizationRequestResult =
+  | { ok: true; request: AuthorizationRequest }
+  // redirectUri is null when the client or redirect URI can't be trusted, so the error is shown to the user instead
+  | { ok: false; error: OAuthError; redirectUri: string | null; state: string | null }
+
+/**
+ * Validate the parameters of an authorization request
+ *
+ * @param issuer - Checked against the resource parameter (RFC 8707) when given
+ */
+export async function validateAuthorizationRequest(
+  params: URLSearchParams,
+  issuer?: string,
+): Promise<AuthorizationRequestResult> {
+  const state = params.get('state')
+  const clientId = params.get('client_id')
+  const client = clientId ? await getOAuthClient(clientId) : null
+  if (!client) {
+    return { ok: false, error: new OAuthError('invalid_client', 'Unknown client'), redirectUri: null, state }
+  }
+
+  const requestedRedirectUri = params.get('redirect_uri')
+  const redirectUri = requestedRedirectUri
+    ? client.redirectUris.some((uri) => matchesRedirectUri(uri, requestedRedirectUri))
+      ? requestedRedirectUri
+      : null
+    : client.redirectUris.length === 1
+      ? client.redirectUris[0]
+      : null
+  if (!redirectUri) {
+    return {
+      ok: false,
+      error: new OAuthError('invalid_request', 'Redirect URI is not registered for this client'),
+      redirectUri: null,
+      state,
+    }
+  }
+
+  const fail = (code: string, message: string): AuthorizationRequestResult => ({
+    ok: false,
+    error: new OAuthError(code, message),
+    redirectUri,
+    state,
+  })
+
+  if (params.get('response_type') !== 'code') {
+    return fail('unsupported_response_type', 'Only the authorization code flow is supported')
+  }
+
+  const codeChallenge = params.get('code_challenge')
+  if (!codeChallenge || params.get('code_challenge_method') !== 'S256') {
+    return fail('invalid_request', 'A PKCE code_challenge with code_challenge_method S256 is required')
+  }
+
+  const resource = params.get('resource')
+  if (issuer && resource && !isResourceAllowed(resource, issuer)) {
+    return fail('invalid_target', 'Unknown resource')
+  }
+
+  return {
+    ok: true,
+    request: { client, redirectUri, state, codeChallenge, scopes: parseOAuthScopes(params.get('scope')) },
+  }
+}
+
+/**
+ * URL to send the user back to the client with, carrying a code or an error
+ */
+export function getAuthorizationRedirectUrl(
+  redirectUri: string,
+  params: Record<string, string>,
+  state: string | null,
+  issuer: string,
+): string {
+  const url = new URL(redirectUri)
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value)
+  }
+  if (state) url.searchParams.set('state', state)
+  url.searchParams.set('iss', issuer) // RFC 9207, lets the client detect mix-up attacks
+  return url.toString()
+}
+
+/**
+ * Issue an authorization code once the user has approved the request
+ */
+export async function createAuthorizationCode(request: AuthorizationRequest, userId: string): Promise<string> {
+  const code = randomBytes(32).toString('hex')
+
+  await db.delete(oauthAuthorizationCodes).where(lt(oauthAuthorizationCodes.expiresAt, new Date()))
+  await db.insert(oauthAuthorizationCodes).values({
+    codeHash: hashToken(code),
+    clientId: request.client.id,
+    userId,
+    redirectUri: request.redirectUri,
+    codeChallenge: request.codeChallenge,
+    scopes: request.scopes,
+    expiresAt: new Date(Date.now() + AUTHORIZATION_CODE_TTL_MS),
+  })
+
+  return code
+}
+
+export interface OAuthTokenResponse {
+  access_token: string
+  token_type: 'Bearer'
+  expires_in: number
+  refresh_token: string
+  scope: string
+}
+
+function createTokenPair() {
+  const access = generateApiToken()
+  const refresh = generateApiToken()
+  const now = Date.now()
+
+  return {
+    access,
+    refresh,
+    expiresAt: new Date(now + ACCESS_TOKEN_TTL_SECONDS * 1000),
+    refreshTokenExpiresAt: new Date(now + REFRESH_TOKEN_TTL_MS),
+  }
+}
+
+function toTokenResponse(pair: ReturnType<typeof createTokenPair>, scopes: ApiTokenScope[]): OAuthTokenResponse {
+  return {
+    access_token: pair.access.raw,
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    refresh_token: pair.refresh.raw,
+    scope: scopes.join(' '),
+  }
+}
+
+export async function exchangeAuthorizationCode(params: {
+  client: OAuthClient
+  code: string
+  redirectUri: string | null
+  codeVerifier: string
+  resource: string | null
+  issuer: string
+}): Promise<OAuthTokenResponse> {
+  // Deleting the code up front makes it single-use even under concurrent requests
+  const [authorizationCode] = await db
+    .delete(oauthAuthorizationCodes)
+    .where(eq(oauthAuthorizationCodes.codeHash, hashToken(params.code)))
+    .returning()
+
+  if (
+    !authorizationCode ||
+    authorizationCode.clientId !== params.client.id ||
+    authorizationCode.expiresAt < new Date() ||
+    (params.redirectUri !== null && params.redirectUri !== authorizationCode.redirectUri)
+  ) {
+    throw new OAuthError('invalid_grant', 'Authorization code is invalid or expired')
+  }
+
+  const challenge = createHash('sha256').update(params.codeVerifier).digest('base64url')
+  if (challenge !== authorizationCode.codeChallenge) {
+    throw new OAuthError('invalid_grant', 'PKCE verification failed')
+  }
+
+  if (params.resource && !isResourceAllowed(params.resource, params.issuer)) {
+    throw new OAuthError('invalid_target', 'Unknown resource')
+  }
+
+  // Grants whose refresh token has expired can no longer be used
+  await db
+    .delete(apiTokens)
+    .where(and(isNotNull(apiTokens.oauthClientId), lt(apiTokens.refreshTokenExpiresAt, new Date())))
+
+  const pair = createTokenPair()
+  await db.insert(apiTokens).values({
+    userId: authorizationCode.userId,
+    name: params.client.name,
+    tokenHash: pair.access.hash,
+    tokenPrefix: pair.access.prefix,
+    scopes: authorizationCode.scopes,
+    oauthClientId: params.client.id,
+    refreshTokenHash: pair.refresh.hash,
+    refreshTokenExpiresAt: pair.refreshTokenExpiresAt,
+    expiresAt: pair.expiresAt,
+  })
+
+  return toTokenResponse(pair, authorizationCode.scopes)
+}
+
+/**
+ * Rotate the access and refresh token of a grant
+ */
+export async function refreshAccessToken(client: OAuthClient, refreshToken: string): Promise<OAuthTokenResponse> {
+  const refreshTokenHash = hashToken(refreshToken)
+  const [grant] = await db.select().from(apiTokens).where(eq(apiTokens.refreshTokenHash, refreshTokenHash)).limit(1)
+
+  if (
+    !grant ||
+    grant.oauthClientId !== client.id ||
+    !grant.refreshTokenExpiresAt ||
+    grant.refreshTokenExpiresAt < new Date()
+  ) {
+    throw new OAuthError('invalid_grant', 'Refresh token is invalid or expired')
+  }
+
+  const pair = createTokenPair()
+  const [updated] = await db
+    .update(apiTokens)
+    .set({
+      tokenHash: pair.access.hash,
+      tokenPrefix: pair.access.prefix,
+      expiresAt: pair.expiresAt,
+      refreshTokenHash: pair.refresh.hash,
+      refreshTokenExpiresAt: pair.refreshTokenExpiresAt,
+      updatedAt: new Date(),
+    })
+    // A refresh token that was rotated by a concurrent request no longer matches
+    .where(and(eq(apiTokens.id, grant.id), eq(apiTokens.refreshTokenHash, refreshTokenHash)))
+    .returning({ id: apiTokens.id })
+
+  if (!updated) {
+    throw new OAuthError('invalid_grant', 'Refresh token is invalid or expired')
+  }
+
+  return toTokenResponse(pair, grant.scopes)
+}
+
+/**
+ * Revoke the grant an access or refresh token belongs to (RFC 7009). Unknown
+ * tokens are ignored.
+ */
+export async function revokeOAuthToken(client: OAuthClient, token: string): Promise<void> {
+  const hash = hashToken(token)
+  await db
+    .delete(apiTokens)
+    .where(
+      and(
+        eq(apiTokens.oauthClientId, client.id),
+        or(eq(apiTokens.tokenHash, hash), eq(apiTokens.refreshTokenHash, hash)),
+      ),
+    )
+}
@@ -0,0 +1,106 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { API_TOKEN_SCOPES } from '@/lib/db/schema'
+import { getTokenAccessError, isRepoAllowed, normalizeRepoName } from './token-permissions'
+
+const FULL_ACCESS = { scopes: [...API_TOKEN_SCOPES], allowedRepos: null, allowedAgents: null }
+
+test('requests without an API token are not restricted', () => {
+  assert.equal(
+    getTokenAccessError(null, { scope: 'tasks:write', repoUrl: 'https://github.com/a/b', agent: 'codex' }),
+    null,
+  )
+  assert.equal(getTokenAccessError(undefined, { scope: 'mcp' }), null)
+})
+
+test('tokens need the scope the request asks for', () => {
+  const token = { ...FULL_ACCESS, scopes: ['tasks:read' as const] }
+
+  assert.equal(getTokenAccessError(token, { scope: 'tasks:read' }), null)
+  assert.equal(getTokenAccessError(token, { scope: 'tasks:write' }), 'API token is missing the "tasks:write" scope')
+  assert.equal(
+    getTokenAccessError({ ...token, scopes: [] }, { scope: 'tasks:read' }),
+    'API token is missing the "tasks:read" scope',
+  )
+})
+
+test('repository allow-lists match exact names and owner globs', () => {
+  const token = { ...FULL_ACCESS, allowedRepos: ['acme/api', 'tools/*'] }
+
+  for (const repoUrl of [
+    'https://github.com/acme/api',
+    'https://github.com/Acme/API.git',
+    'https://github.com/tools/cli',
+    'https://gitlab.example.com/tools/anything/',
+    'acme/api',
+  ]) {
+    assert.equal(getTokenAccessError(token, { scope: 'tasks:write', repoUrl }), null, repoUrl)
+  }
+})
+
+test('repositories outside the allow-list are denied', () => {
+  const token = { ...FULL_ACCESS, allowedRepos: ['acme/api', 'tools/*'] }
+
+  for (const repoUrl of [
+    'https://github.com/acme/web',
+    'https://github.com/acme/api-internal',
+    'https://github.com/other/api',
+    'https://github.com/toolsx/cli',
+    '',
+    null,
+  ]) {
+    assert.equal(
+      getTokenAccessError(token, { scope: 'tasks:write', repoUrl }),
+      'API token is not allowed to access this repository',
+      String(repoUrl),
+    )
+  }
+})
+
+test('the repository check is skipped when the request has no repository to check', () => {
+  const token = { ...FULL_ACCESS, allowedRepos: ['acme/api'] }
+
+  assert.equal(getTokenAccessError(token, { scope: 'tasks:read' }), null)
+})
+
+test('empty or missing allow-lists allow every repository and agent', () => {
+  for (const token of [FULL_ACCESS, { ...FULL_ACCESS, allowedRepos: [], allowedAgents: [] }]) {
+    assert.equal(
+      getTokenAccessError(token, { scope: 'tasks:write', repoUrl: 'https://github.com/x/y', agent: 'gemini' }),
+      null,
+    )
+  }
+})
+
+test('agent allow-lists restrict which agents a token can start', () => {
+  const token = { ...FULL_ACCESS, allowedAgents: ['claude', 'codex'] }
+
+  assert.equal(getTokenAccessError(token, { scope: 'tasks:write', agent: 'claude' }), null)
+  assert.equal(
+    getTokenAccessError(token, { scope: 'tasks:write', agent: 'cursor' }),
+    'API token is not allowed to use the cursor agent',
+  )
+  assert.equal(getTokenAccessError(token, { scope: 'tasks:write', agent: null }), null)
+})
+
+test('the scope is checked before the repository and agent', () => {
+  const token = { scopes: ['tasks:read' as const], allowedRepos: ['acme/api'], allowedAgents: ['claude'] }
+
+  assert.equal(
+    getTokenAccessError(token, { scope: 'tasks:write', repoUrl: 'https://github.com/other/repo', agent: 'codex' }),
+    'API token is missing the "tasks:write" scope',
+  )
+  assert.equal(
+    getTokenAccessError(
+      { ...token, scopes: ['tasks:write'] },
+      { scope: 'tasks:write', repoUrl: 'https://github.com/other/repo', agent: 'codex' },
+    ),
+    'API token is not allowed to access this repository',
+  )
+})
+
+test('repository names are normalized for matching', () => {
+  assert.equal(normalizeRepoName(' https://github.com/Acme/API.git/ '), 'acme/api')
+  assert.equal(normalizeRepoName('http://gitea.local/acme/api'), 'acme/api')
+  assert.equal(isRepoAllowed(['acme/*'], 'https://github.com/ACME/Widgets'), true)
+})
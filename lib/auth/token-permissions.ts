@@ -0,0 +1,77 @@
+/**
+ * API Token Permissions
+ *
+ * Session requests have full access to the user's account. Requests made with
+ * an API token are limited to the token's scopes and, when set, to its
+ * repository and agent allow-lists.
+ */
+
+import { NextResponse } from 'next/server'
+import type { ApiToken, ApiTokenScope } from '@/lib/db/schema'
+
+type TokenPermissions = Pick<ApiToken, 'scopes' | 'allowedRepos' | 'allowedAgents'>
+
+export interface TokenAccessCheck {
+  scope: ApiTokenScope
+  repoUrl?: string | null
+  agent?: string | null
+}
+
+/**
+ * Normalize a repository URL or "owner/repo" name for allow-list matching
+ */
+export function normalizeRepoName(repo: string): string {
+  return repo
+    .trim()
+    .replace(/^https?:\/\/[^/]+\//, '')
+    .replace(/\/+$/, '')
+    .replace(/\.git$/, '')
+    .toLowerCase()
+}
+
+/**
+ * Allow-list entries are "owner/repo" or "owner/*"
+ */
+export function isRepoAllowed(allowedRepos: string[] | null, repoUrl: string | null | undefined): boolean {
+  if (!allowedRepos || allowedRepos.length === 0) return true
+  if (!repoUrl) return false
+
+  const repo = normalizeRepoName(repoUrl)
+  const owner = repo.split('/')[0]
+  return allowedRepos.some((entry) => entry === repo || entry === `${owner}/*`)
+}
+
+/**
+ * Check a request's API token against what the request needs.
+ * Returns an error message when access is denied, or null when allowed
+ * (including requests without a token).
+ */
+export function getTokenAccessError(
+  apiToken: TokenPermissions | null | undefined,
+  check: TokenAccessCheck,
+): string | null {
+  if (!apiToken) return null
+
+  if (!apiToken.scopes.includes(check.scope)) {
+    return `API token is missing the "${check.scope}" scope`
+  }
+
+  if (check.repoUrl !== undefined && !isRepoAllowed(apiToken.allowedRepos, check.repoUrl)) {
+    return 'API token is not allowed to access this repository'
+  }
+
+  if (
+    check.agent &&
+    apiToken.allowedAgents &&
+    apiToken.allowedAgents.length > 0 &&
+    !apiToken.allowedAgents.includes(check.agent)
+  ) {
+    return `API token is not allowed to use the ${check.agent} agent`
+  }
+
+  return null
+}
+
+export function tokenAccessDeniedResponse(error: string): NextResponse {
+  return NextResponse.json({ error }, { status: 403 })
+}
@@ -0,0 +1,433 @@
+import 'server-only'
+
+import { createHash } from 'crypto'
+import { lookup } from 'dns/promises'
+import { BlockList, isIP } from 'net'
+import { and, eq } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { connectors } from '@/lib/db/schema'
+import { decrypt, encrypt } from '@/lib/crypto'
+
+/**
+ * OAuth for remote MCP connectors.
+ *
+ * Servers that require authorization advertise it the way the MCP
+ * authorization spec describes: protected resource metadata (RFC 9728) names
+ * the authorization server, and its metadata (RFC 8414) gives the endpoints.
+ * The user authorizes a connector with the authorization code flow and PKCE.
+ * Without a configured client ID, a client is registered dynamically
+ * (RFC 7591). Tokens are stored encrypted on the connector and refreshed
+ * when a task loads it.
+ *
+ * The server URL and every URL its metadata points to are user-controlled, so
+ * requests only go to https URLs on public addresses.
+ */
+
+type ConnectorRow = typeof connectors.$inferSelect
+
+export interface ConnectorOAuthMetadata {
+  authorizationEndpoint: string
+  tokenEndpoint: string
+  registrationEndpoint: string | null
+  scopes: string[]
+}
+
+export interface ConnectorOAuthClient {
+  clientId: string
+  clientSecret: string | null
+}
+
+export interface ConnectorOAuthTokens {
+  accessToken: string
+  refreshToken: string | null
+  expiresAt: Date | null
+}
+
+/**
+ * Thrown when a server doesn't support OAuth or one of its endpoints rejects
+ * a request. The message is safe to show to the user.
+ */
+export class ConnectorOAuthError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ConnectorOAuthError'
+  }
+}
+
+const REQUEST_TIMEOUT_MS = 15000
+
+// Refresh tokens this close to expiry so they don't expire mid-task
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000
+
+const MCP_PROTOCOL_VERSION = '2025-06-18'
+
+// Loopback, private, shared, link-local and unspecified ranges
+const BLOCKED_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked as IPv4
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)
+  if (mapped) {
+    return BLOCKED_ADDRESSES.check(mapped[1], 'ipv4')
+  }
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * Throw unless the URL is https and its host resolves only to public addresses
+ */
+async function assertPublicHttpsUrl(url: string): Promise<void> {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw new ConnectorOAuthError('Invalid OAuth URL')
+  }
+
+  if (parsed.protocol !== 'https:') {
+    throw new ConnectorOAuthError('OAuth URLs must use https')
+  }
+
+  const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1')
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : await lookup(hostname, { all: true })
+        .then((results) => results.map((result) => result.address))
+        .catch(() => [])
+
+  if (addresses.length === 0) {
+    throw new ConnectorOAuthError('Could not resolve the OAuth server')
+  }
+  if (addresses.some(isBlockedAddress)) {
+    throw new ConnectorOAuthError('OAuth URLs must not point to a private or local address')
+  }
+}
+
+/**
+ * fetch for user-controlled URLs. Redirects aren't followed, since they could
+ * lead to an address the URL check would reject.
+ */
+async function fetchPublicUrl(url: string, init: RequestInit): Promise<Response> {
+  await assertPublicHttpsUrl(url)
+  return fetch(url, { ...init, redirect: 'manual', signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) })
+}
+
+async function fetchMetadata(url: string): Promise<Record<string, unknown> | null> {
+  try {
+    const response = await fetchPublicUrl(url, {
+      headers: { Accept: 'application/json', 'MCP-Protocol-Version': MCP_PROTOCOL_VERSION },
+    })
+    if (!response.ok) return null
+    const data = await response.json()
+    return data && typeof data === 'object' && !Array.isArray(data) ? data : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Well-known URLs for a resource or issuer: with its path inserted after the
+ * well-known segment first, then at the root
+ */
+function getWellKnownUrls(url: URL, suffix: string): string[] {
+  const path = url.pathname.replace(/\/$/, '')
+  return path
+    ? [`${url.origin}/.well-known/${suffix}${path}`, `${url.origin}/.well-known/${suffix}`]
+    : [`${url.origin}/.well-known/${suffix}`]
+}
+
+/**
+ * The resource_metadata URL from the WWW-Authenticate header of an
+ * unauthenticated request, when the server sends one
+ */
+async function probeResourceMetadataUrl(baseUrl: string): Promise<string | null> {
+  try {
+    const response = await fetchPublicUrl(baseUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'MCP-Protocol-Version': MCP_PROTOCOL_VERSION,
+      },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: {
+          protocolVersion: MCP_PROTOCOL_VERSION,
+          capabilities: {},
+          clientInfo: { name: 'probe', version: '1' },
+        },
+      }),
+    })
+    await response.body?.cancel()
+
+    const match = response.headers.get('www-authenticate')?.match(/resource_metadata="([^"]+)"/)
+    return match ? new URL(match[1], baseUrl).toString() : null
+  } catch {
+    return null
+  }
+}
+
+async function getAuthorizationServerUrl(baseUrl: string): Promise<string> {
+  const resourceUrl = new URL(baseUrl)
+  const advertised = await probeResourceMetadataUrl(baseUrl)
+  const candidates = advertised
+    ? [advertised, ...getWellKnownUrls(resourceUrl, 'oauth-protected-resource')]
+    : getWellKnownUrls(resourceUrl, 'oauth-protected-resource')
+
+  for (const url of candidates) {
+    const metadata = await fetchMetadata(url)
+    const servers = metadata?.authorization_servers
+    if (Array.isArray(servers) && typeof servers[0] === 'string') {
+      return servers[0]
+    }
+  }
+
+  // Servers from before protected resource metadata are their own authorization server
+  return resourceUrl.origin
+}
+
+/**
+ * Discover the OAuth endpoints of a remote MCP server
+ */
+export async function discoverConnectorOAuth(baseUrl: string): Promise<ConnectorOAuthMetadata> {
+  await assertPublicHttpsUrl(baseUrl)
+  const issuer = new URL(await getAuthorizationServerUrl(baseUrl))
+  const path = issuer.pathname.replace(/\/$/, '')
+  const candidates = [
+    ...getWellKnownUrls(issuer, 'oauth-authorization-server'),
+    ...getWellKnownUrls(issuer, 'openid-configuration'),
+    ...(path ? [`${issuer.origin}${path}/.well-known/openid-configuration`] : []),
+  ]
+
+  for (const url of candidates) {
+    const metadata = await fetchMetadata(url)
+    if (
+      !metadata ||
+      typeof metadata.authorization_endpoint !== 'string' ||
+      typeof metadata.token_endpoint !== 'string'
+    ) {
+      continue
+    }
+
+    const methods = metadata.code_challenge_methods_supported
+    if (Array.isArray(methods) && !methods.includes('S256')) {
+      throw new ConnectorOAuthError('The authorization server does not support PKCE with S256')
+    }
+
+    const scopes = metadata.scopes_supported
+    return {
+      authorizationEndpoint: metadata.authorization_endpoint,
+      tokenEndpoint: metadata.token_endpoint,
+      registrationEndpoint: typeof metadata.registration_endpoint === 'string' ? metadata.registration_endpoint : null,
+      scopes: Array.isArray(scopes) ? scopes.filter((scope): scope is string => typeof scope === 'string') : [],
+    }
+  }
+
+  throw new ConnectorOAuthError('This server does not advertise OAuth metadata')
+}
+
+/**
+ * Register a client for the connector with the authorization server
+ */
+export async function registerConnectorClient(
+  metadata: ConnectorOAuthMetadata,
+  redirectUri: string,
+  name: string,
+): Promise<ConnectorOAuthClient> {
+  if (!metadata.registrationEndpoint) {
+    throw new ConnectorOAuthError('This server does not support client registration; add an OAuth client ID')
+  }
+
+  const response = await fetchPublicUrl(metadata.registrationEndpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify({
+      client_name: `AI Coding Agent (${name})`,
+      redirect_uris: [redirectUri],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+    }),
+  })
+
+  const data = (await response.json().catch(() => ({}))) as { client_id?: string; client_secret?: string }
+  if (!response.ok || !data.client_id) {
+    throw new ConnectorOAuthError('Client registration failed')
+  }
+
+  return { clientId: data.client_id, clientSecret: data.client_secret || null }
+}
+
+function createCodeChallenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url')
+}
+
+export function getConnectorAuthorizationUrl(
+  metadata: ConnectorOAuthMetadata,
+  params: { clientId: string; redirectUri: string; state: string; codeVerifier: string; resource: string },
+): string {
+  const url = new URL(metadata.authorizationEndpoint)
+  // The user's browser is sent here
+  if (url.protocol !== 'https:') {
+    throw new ConnectorOAuthError('OAuth URLs must use https')
+  }
+  url.searchParams.set('response_type', 'code')
+  url.searchParams.set('client_id', params.clientId)
+  url.searchParams.set('redirect_uri', params.redirectUri)
+  url.searchParams.set('state', params.state)
+  url.searchParams.set('code_challenge', createCodeChallenge(params.codeVerifier))
+  url.searchParams.set('code_challenge_method', 'S256')
+  url.searchParams.set('resource', params.resource)
+  if (metadata.scopes.length > 0) {
+    url.searchParams.set('scope', metadata.scopes.join(' '))
+  }
+  return url.toString()
+}
+
+async function requestConnectorToken(
+  tokenEndpoint: string,
+  client: ConnectorOAuthClient,
+  params: Record<string, string>,
+): Promise<ConnectorOAuthTokens> {
+  const response = await fetchPublicUrl(tokenEndpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: new URLSearchParams({
+      client_id: client.clientId,
+      ...(client.clientSecret ? { client_secret: client.clientSecret } : {}),
+      ...params,
+    }),
+  })
+
+  const data = (await response.json().catch(() => ({}))) as {
+    access_token?: string
+    refresh_token?: string
+    expires_in?: number
+  }
+  if (!response.ok || !data.access_token) {
+    throw new ConnectorOAuthError('Token request failed')
+  }
+
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token || null,
+    expiresAt: data.expires_in ? new Date(Date.now() + data.expires_in * 1000) : null,
+  }
+}
+
+function getConnectorClient(connector: ConnectorRow): ConnectorOAuthClient | null {
+  if (!connector.oauthClientId) return null
+  return {
+    clientId: connector.oauthClientId,
+    clientSecret: connector.oauthClientSecret ? decrypt(connector.oauthClientSecret) : null,
+  }
+}
+
+/**
+ * Exchange the authorization code and store the tokens on the connector
+ */
+export async function completeConnectorAuthorization(
+  connector: ConnectorRow,
+  params: { code: string; codeVerifier: string; redirectUri: string },
+): Promise<void> {
+  const client = getConnectorClient(connector)
+  if (!client || !connector.oauthTokenEndpoint || !connector.baseUrl) {
+    throw new ConnectorOAuthError('Authorization was not started for this connector')
+  }
+
+  const tokens = await requestConnectorToken(connector.oauthTokenEndpoint, client, {
+    grant_type: 'authorization_code',
+    code: params.code,
+    code_verifier: params.codeVerifier,
+    redirect_uri: params.redirectUri,
+    resource: connector.baseUrl,
+  })
+
+  await db
+    .update(connectors)
+    .set({
+      oauthAccessToken: encrypt(tokens.accessToken),
+      oauthRefreshToken: tokens.refreshToken ? encrypt(tokens.refreshToken) : null,
+      oauthTokenExpiresAt: tokens.expiresAt,
+      updatedAt: new Date(),
+    })
+    .where(eq(connectors.id, connector.id))
+}
+
+/**
+ * Access token for a connector row as stored (encrypted), refreshed first if
+ * it is about to expire. Null when the connector isn't authorized or the
+ * token can't be refreshed.
+ */
+export async function getConnectorAccessToken(connector: ConnectorRow): Promise<string | null> {
+  if (!connector.oauthAccessToken) {
+    return null
+  }
+
+  const expiresSoon =
+    connector.oauthTokenExpiresAt && connector.oauthTokenExpiresAt.getTime() - Date.now() < TOKEN_REFRESH_MARGIN_MS
+  if (!expiresSoon) {
+    return decrypt(connector.oauthAccessToken)
+  }
+
+  const client = getConnectorClient(connector)
+  const storedRefreshToken = connector.oauthRefreshToken
+  const refreshToken = storedRefreshToken ? decrypt(storedRefreshToken) : null
+  if (!client || !storedRefreshToken || !refreshToken || !connector.oauthTokenEndpoint || !connector.baseUrl) {
+    return null
+  }
+
+  try {
+    const tokens = await requestConnectorToken(connector.oauthTokenEndpoint, client, {
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+      resource: connector.baseUrl,
+    })
+
+    // Only replace the refresh token that was used, in case another task refreshed concurrently
+    const updated = await db
+      .update(connectors)
+      .set({
+        oauthAccessToken: encrypt(tokens.accessToken),
+        oauthRefreshToken: tokens.refreshToken ? encrypt(tokens.refreshToken) : storedRefreshToken,
+        oauthTokenExpiresAt: tokens.expiresAt,
+      })
+      .where(and(eq(connectors.id, connector.id), eq(connectors.oauthRefreshToken, storedRefreshToken)))
+      .returning({ id: connectors.id })
+
+    if (updated.length === 0) {
+      const [current] = await db
+        .select({ oauthAccessToken: connectors.oauthAccessToken })
+        .from(connectors)
+        .where(eq(connectors.id, connector.id))
+        .limit(1)
+      return current?.oauthAccessToken ? decrypt(current.oauthAccessToken) : null
+    }
+
+    return tokens.accessToken
+  } catch {
+    console.error('Failed to refresh connector OAuth token')
+    return null
+  }
+}
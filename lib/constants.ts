@@ -2,9 +2,34 @@
 export const MAX_MESSAGES_PER_DAY = parseInt(process.env.MAX_MESSAGES_PER_DAY || '20', 10)
 export const ADMIN_MAX_MESSAGES_PER_DAY = 100
 
+// Monthly agent spend limit in US dollars (0 = unlimited)
+export const MONTHLY_SPEND_LIMIT_USD = Number(process.env.MONTHLY_SPEND_LIMIT_USD || '0')
+if (!Number.isFinite(MONTHLY_SPEND_LIMIT_USD) || MONTHLY_SPEND_LIMIT_USD < 0) {
+  throw new Error('MONTHLY_SPEND_LIMIT_USD must be a non-negative number of US dollars')
+}
+
 // Sandbox configuration (in minutes)
 export const MAX_SANDBOX_DURATION = parseInt(process.env.MAX_SANDBOX_DURATION || '300', 10)
 
+// Server environment variables that repositories may request via .aa-agent.yml `env`
+export const SANDBOX_ENV_ALLOWLIST = (process.env.SANDBOX_ENV_ALLOWLIST || '')
+  .split(',')
+  .map((name) => name.trim())
+  .filter(Boolean)
+
+// Verification: fix-up turns sent to the agent when the repo's checks fail
+export const MAX_VERIFICATION_ITERATIONS = parseInt(process.env.MAX_VERIFICATION_ITERATIONS || '2', 10)
+
+// CI auto-fix: follow-up turns started per task when checks on its branch fail
+export const MAX_CI_FIX_ATTEMPTS = parseInt(process.env.MAX_CI_FIX_ATTEMPTS || '3', 10)
+
+// Task log retention
+export const TASK_LOG_RETENTION_DAYS = parseInt(process.env.TASK_LOG_RETENTION_DAYS || '30', 10)
+export const MAX_LOG_ENTRIES_PER_TASK = parseInt(process.env.MAX_LOG_ENTRIES_PER_TASK || '10000', 10)
+
+// Task queue configuration
+export const MAX_CONCURRENT_TASKS_PER_USER = parseInt(process.env.MAX_CONCURRENT_TASKS_PER_USER || '2', 10)
+
 // Vercel deployment configuration
 export const VERCEL_DEPLOY_URL =
   'https://vercel.com/new/clone?repository-url=https%3A%2F%2Fgithub.com%2Fagenticassets%2FAA-coding-agent&env=SANDBOX_VERCEL_TEAM_ID,SANDBOX_VERCEL_PROJECT_ID,SANDBOX_VERCEL_TOKEN,JWE_SECRET,ENCRYPTION_KEY&envDescription=Required+environment+variables+for+the+Agentic+Assets+coding+agent.+You+must+also+configure+at+least+one+OAuth+provider+(GitHub+or+Vercel)+after+deployment.+Optional+API+keys+can+be+added+later.&stores=%5B%7B%22type%22%3A%22postgres%22%7D%5D&project-name=AA-coding-agent&repository-name=AA-coding-agent'
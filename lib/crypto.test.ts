@@ -0,0 +1,109 @@
+import { test, beforeEach } from 'node:test'
+import assert from 'node:assert/strict'
+import crypto from 'crypto'
+import { decrypt, encrypt, getPrimaryEncryptionKeyId, needsReEncryption } from './crypto'
+
+const OLD_KEY = 'a'.repeat(64)
+const NEW_KEY = 'b'.repeat(64)
+
+beforeEach(() => {
+  delete process.env.ENCRYPTION_KEYS
+  delete process.env.ENCRYPTION_KEY
+})
+
+// The format written before key versioning: AES-256-CBC as `<iv>:<ciphertext>`
+function encryptLegacyCbc(text: string, hexKey: string): string {
+  const iv = crypto.randomBytes(16)
+  const cipher = crypto.createCipheriv('aes-256-cbc', Buffer.from(hexKey, 'hex'), iv)
+  const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()])
+  return `${iv.toString('hex')}:${encrypted.toString('hex')}`
+}
+
+test('encrypted values round-trip in the versioned GCM format', () => {
+  process.env.ENCRYPTION_KEY = OLD_KEY
+
+  const encrypted = encrypt('ghp_secret-value')
+  const [prefix, keyId, iv, tag, ciphertext] = encrypted.split(':')
+
+  assert.equal(prefix, 'gcm')
+  assert.equal(keyId, 'default')
+  assert.equal(iv.length, 24)
+  assert.equal(tag.length, 32)
+  assert.ok(ciphertext.length > 0)
+  assert.notEqual(encrypt('ghp_secret-value'), encrypted)
+  assert.equal(decrypt(encrypted), 'ghp_secret-value')
+})
+
+test('new values use the first ENCRYPTION_KEYS entry and older keys still decrypt', () => {
+  process.env.ENCRYPTION_KEYS = `old:${OLD_KEY}`
+  const oldValue = encrypt('rotated secret')
+
+  process.env.ENCRYPTION_KEYS = `new:${NEW_KEY},old:${OLD_KEY}`
+  const newValue = encrypt('rotated secret')
+
+  assert.equal(getPrimaryEncryptionKeyId(), 'new')
+  assert.ok(newValue.startsWith('gcm:new:'))
+  assert.equal(decrypt(oldValue), 'rotated secret')
+  assert.equal(decrypt(newValue), 'rotated secret')
+  assert.equal(needsReEncryption(oldValue), true)
+  assert.equal(needsReEncryption(newValue), false)
+})
+
+test('ENCRYPTION_KEY stays available under the "default" key id once ENCRYPTION_KEYS is added', () => {
+  process.env.ENCRYPTION_KEY = OLD_KEY
+  const defaultValue = encrypt('from the default key')
+
+  process.env.ENCRYPTION_KEYS = `new:${NEW_KEY}`
+
+  assert.ok(defaultValue.startsWith('gcm:default:'))
+  assert.equal(getPrimaryEncryptionKeyId(), 'new')
+  assert.equal(decrypt(defaultValue), 'from the default key')
+})
+
+test('legacy CBC values are decrypted with ENCRYPTION_KEY', () => {
+  const legacyValue = encryptLegacyCbc('stored before rotation', OLD_KEY)
+
+  process.env.ENCRYPTION_KEYS = `new:${NEW_KEY}`
+  process.env.ENCRYPTION_KEY = OLD_KEY
+  assert.equal(decrypt(legacyValue), 'stored before rotation')
+  assert.equal(needsReEncryption(legacyValue), true)
+
+  delete process.env.ENCRYPTION_KEY
+  assert.equal(decrypt(legacyValue), null)
+})
+
+test('tampered ciphertext and tags are rejected', () => {
+  process.env.ENCRYPTION_KEYS = `new:${NEW_KEY}`
+  const [prefix, keyId, iv, tag, ciphertext] = encrypt('integrity protected').split(':')
+
+  const flipFirstByte = (hex: string) =>
+    (parseInt(hex.slice(0, 2), 16) ^ 1).toString(16).padStart(2, '0') + hex.slice(2)
+
+  assert.equal(decrypt([prefix, keyId, iv, flipFirstByte(tag), ciphertext].join(':')), null)
+  assert.equal(decrypt([prefix, keyId, iv, tag, flipFirstByte(ciphertext)].join(':')), null)
+  assert.equal(decrypt([prefix, keyId, iv, tag.slice(0, 16), ciphertext].join(':')), null)
+})
+
+test('values encrypted with a key that is no longer configured are not decrypted', () => {
+  process.env.ENCRYPTION_KEYS = `old:${OLD_KEY}`
+  const oldValue = encrypt('orphaned secret')
+
+  process.env.ENCRYPTION_KEYS = `new:${NEW_KEY}`
+  assert.equal(decrypt(oldValue), null)
+  assert.equal(decrypt(oldValue.replace('gcm:old:', 'gcm:missing:')), null)
+})
+
+test('malformed values and key configuration fail safely', () => {
+  process.env.ENCRYPTION_KEYS = `new:${NEW_KEY}`
+  assert.equal(decrypt('not-encrypted'), null)
+  assert.equal(decrypt('gcm:new:too:few'), null)
+
+  process.env.ENCRYPTION_KEYS = 'new:abcd'
+  assert.throws(() => encrypt('secret'), /32-byte hex string/)
+
+  process.env.ENCRYPTION_KEYS = `new:${NEW_KEY},new:${OLD_KEY}`
+  assert.throws(() => encrypt('secret'), /more than once/)
+
+  process.env.ENCRYPTION_KEYS = ''
+  assert.throws(() => encrypt('secret'), /ENCRYPTION_KEY environment variable is required/)
+})
@@ -1,62 +1,160 @@
 import crypto from 'crypto'
 
-const ALGORITHM = 'aes-256-cbc'
-const IV_LENGTH = 16
+/**
+ * Encryption for secrets stored in the database (OAuth tokens, API keys,
+ * connector env and client secrets).
+ *
+ * Values are encrypted with AES-256-GCM and stored as
+ * `gcm:<key id>:<iv>:<auth tag>:<ciphertext>` (hex). Keys come from
+ * ENCRYPTION_KEYS ("<id>:<hex key>,<id>:<hex key>", newest first) and the
+ * original ENCRYPTION_KEY, which is available under the id "default".
+ * New values are always encrypted with the first key; every configured key
+ * can decrypt. Values from before key versioning (`<iv>:<ciphertext>`,
+ * AES-256-CBC) are decrypted with ENCRYPTION_KEY until
+ * scripts/rotate-encryption-key.ts has re-encrypted them.
+ */
 
-const getEncryptionKey = (): Buffer | null => {
-  const key = process.env.ENCRYPTION_KEY
-  if (!key) {
-    return null
-  }
-  const keyBuffer = Buffer.from(key, 'hex')
+const ALGORITHM = 'aes-256-gcm'
+const IV_LENGTH = 12
+const AUTH_TAG_LENGTH = 16
+const GCM_PREFIX = 'gcm'
+
+const LEGACY_ALGORITHM = 'aes-256-cbc'
+const LEGACY_KEY_ID = 'default'
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/
+
+interface EncryptionKeyring {
+  primaryKeyId: string
+  keys: Map<string, Buffer>
+}
+
+const parseKey = (name: string, hex: string): Buffer => {
+  const keyBuffer = Buffer.from(hex.trim(), 'hex')
   if (keyBuffer.length !== 32) {
-    throw new Error(
-      'ENCRYPTION_KEY must be a 32-byte hex string (64 characters). Generate one with: openssl rand -hex 32',
-    )
+    throw new Error(`${name} must be a 32-byte hex string (64 characters). Generate one with: openssl rand -hex 32`)
   }
   return keyBuffer
 }
 
+const getKeyring = (): EncryptionKeyring | null => {
+  const keys = new Map<string, Buffer>()
+
+  for (const entry of (process.env.ENCRYPTION_KEYS || '').split(',')) {
+    if (!entry.trim()) continue
+
+    const separator = entry.indexOf(':')
+    const id = entry.slice(0, separator).trim()
+    if (separator === -1 || !KEY_ID_PATTERN.test(id)) {
+      throw new Error('ENCRYPTION_KEYS entries must look like "<key id>:<64 hex characters>"')
+    }
+    if (keys.has(id)) {
+      throw new Error(`ENCRYPTION_KEYS contains the key id "${id}" more than once`)
+    }
+    keys.set(id, parseKey(`ENCRYPTION_KEYS key "${id}"`, entry.slice(separator + 1)))
+  }
+
+  if (process.env.ENCRYPTION_KEY && !keys.has(LEGACY_KEY_ID)) {
+    keys.set(LEGACY_KEY_ID, parseKey('ENCRYPTION_KEY', process.env.ENCRYPTION_KEY))
+  }
+
+  const primaryKeyId = keys.keys().next().value
+  return primaryKeyId ? { primaryKeyId, keys } : null
+}
+
+/**
+ * Id of the key new values are encrypted with, or null if no key is configured
+ */
+export const getPrimaryEncryptionKeyId = (): string | null => getKeyring()?.primaryKeyId ?? null
+
+/**
+ * Whether a stored value should be re-encrypted with the primary key
+ */
+export const needsReEncryption = (encryptedText: string): boolean => {
+  const primaryKeyId = getPrimaryEncryptionKeyId()
+  return !!encryptedText && !encryptedText.startsWith(`${GCM_PREFIX}:${primaryKeyId}:`)
+}
+
 export const encrypt = (text: string): string => {
   if (!text) return text
 
-  const ENCRYPTION_KEY = getEncryptionKey()
-  if (!ENCRYPTION_KEY) {
+  const keyring = getKeyring()
+  if (!keyring) {
     throw new Error(
       'ENCRYPTION_KEY environment variable is required for MCP encryption. Generate one with: openssl rand -hex 32',
     )
   }
 
   const iv = crypto.randomBytes(IV_LENGTH)
-  const cipher = crypto.createCipheriv(ALGORITHM, ENCRYPTION_KEY, iv)
+  const cipher = crypto.createCipheriv(ALGORITHM, keyring.keys.get(keyring.primaryKeyId)!, iv)
   const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()])
+  const authTag = cipher.getAuthTag()
 
-  return `${iv.toString('hex')}:${encrypted.toString('hex')}`
+  return [
+    GCM_PREFIX,
+    keyring.primaryKeyId,
+    iv.toString('hex'),
+    authTag.toString('hex'),
+    encrypted.toString('hex'),
+  ].join(':')
 }
 
-export const decrypt = (encryptedText: string): string | null => {
-  if (!encryptedText) return null
+const decryptGcm = (keyring: EncryptionKeyring, parts: string[]): string | null => {
+  const [, keyId, ivHex, authTagHex, encryptedHex] = parts
+  const key = keyring.keys.get(keyId)
+  if (!key) {
+    console.error('Encryption key for stored value is not configured')
+    return null
+  }
+
+  const authTag = Buffer.from(authTagHex, 'hex')
+  if (authTag.length !== AUTH_TAG_LENGTH) {
+    console.error('Invalid authentication tag detected')
+    return null
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(ivHex, 'hex'), {
+    authTagLength: AUTH_TAG_LENGTH,
+  })
+  decipher.setAuthTag(authTag)
+  const decrypted = Buffer.concat([decipher.update(Buffer.from(encryptedHex, 'hex')), decipher.final()])
 
-  const ENCRYPTION_KEY = getEncryptionKey()
-  if (!ENCRYPTION_KEY) {
-    console.error('Decryption service unavailable')
+  return decrypted.toString('utf8')
+}
+
+const decryptLegacyCbc = (keyring: EncryptionKeyring, parts: string[]): string | null => {
+  const key = keyring.keys.get(LEGACY_KEY_ID)
+  if (!key) {
+    console.error('ENCRYPTION_KEY is required to decrypt values stored before key rotation')
     return null
   }
 
-  if (!encryptedText.includes(':')) {
+  const [ivHex, encryptedHex] = parts
+  const decipher = crypto.createDecipheriv(LEGACY_ALGORITHM, key, Buffer.from(ivHex, 'hex'))
+  const decrypted = Buffer.concat([decipher.update(Buffer.from(encryptedHex, 'hex')), decipher.final()])
+
+  return decrypted.toString('utf8')
+}
+
+export const decrypt = (encryptedText: string): string | null => {
+  if (!encryptedText) return null
+
+  const parts = encryptedText.split(':')
+  const isGcm = parts[0] === GCM_PREFIX && parts.length === 5
+  if (!isGcm && parts.length !== 2) {
     console.error('Invalid encrypted format detected')
     return null
   }
 
   try {
-    const [ivHex, encryptedHex] = encryptedText.split(':')
-    const iv = Buffer.from(ivHex, 'hex')
-    const encrypted = Buffer.from(encryptedHex, 'hex')
-
-    const decipher = crypto.createDecipheriv(ALGORITHM, ENCRYPTION_KEY, iv)
-    const decrypted = Buffer.concat([decipher.update(encrypted), decipher.final()])
+    // Inside the try so a malformed ENCRYPTION_KEYS fails the read instead of throwing
+    const keyring = getKeyring()
+    if (!keyring) {
+      console.error('Decryption service unavailable')
+      return null
+    }
 
-    return decrypted.toString('utf8')
+    return isGcm ? decryptGcm(keyring, parts) : decryptLegacyCbc(keyring, parts)
   } catch {
     console.error('Decryption failed')
     return null
@@ -0,0 +1,23 @@
+-- Durable task queue: jobs are leased by workers with a visibility timeout and retried on failure
+CREATE TABLE IF NOT EXISTS "task_jobs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"task_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"type" text NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"payload" jsonb,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"lease_owner" text,
+	"leased_until" timestamp,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);--> statement-breakpoint
+ALTER TABLE "task_jobs" ADD CONSTRAINT "task_jobs_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "task_jobs" ADD CONSTRAINT "task_jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "task_jobs_status_run_at_idx" ON "task_jobs" USING btree ("status","run_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "task_jobs_user_id_status_idx" ON "task_jobs" USING btree ("user_id","status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "task_jobs_task_id_idx" ON "task_jobs" USING btree ("task_id");
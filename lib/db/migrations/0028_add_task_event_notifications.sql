@@ -0,0 +1,16 @@
+-- Notify listeners on the "task_events" channel whenever a task or one of its messages changes.
+-- The payload is only the task ID; the events stream reads the actual changes from the tables.
+CREATE OR REPLACE FUNCTION notify_task_event() RETURNS trigger AS $$
+BEGIN
+	IF TG_TABLE_NAME = 'task_messages' THEN
+		PERFORM pg_notify('task_events', NEW.task_id);
+	ELSE
+		PERFORM pg_notify('task_events', NEW.id);
+	END IF;
+	RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+DROP TRIGGER IF EXISTS "tasks_notify_task_event" ON "tasks";--> statement-breakpoint
+CREATE TRIGGER "tasks_notify_task_event" AFTER INSERT OR UPDATE ON "tasks" FOR EACH ROW EXECUTE FUNCTION notify_task_event();--> statement-breakpoint
+DROP TRIGGER IF EXISTS "task_messages_notify_task_event" ON "task_messages";--> statement-breakpoint
+CREATE TRIGGER "task_messages_notify_task_event" AFTER INSERT OR UPDATE ON "task_messages" FOR EACH ROW EXECUTE FUNCTION notify_task_event();
@@ -0,0 +1,27 @@
+-- Move task logs out of the tasks.logs JSONB array into an append-only table keyed by (task_id, seq)
+CREATE TABLE IF NOT EXISTS "task_log_entries" (
+	"task_id" text NOT NULL,
+	"seq" integer NOT NULL,
+	"type" text NOT NULL,
+	"message" text NOT NULL,
+	"agent_source" jsonb,
+	"timestamp" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "task_log_entries_task_id_seq_pk" PRIMARY KEY("task_id","seq")
+);--> statement-breakpoint
+ALTER TABLE "task_log_entries" ADD CONSTRAINT "task_log_entries_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "log_seq" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+
+-- Backfill existing log arrays, numbering entries in their original order
+INSERT INTO "task_log_entries" ("task_id", "seq", "type", "message", "agent_source", "timestamp")
+SELECT
+	t."id",
+	e.idx,
+	COALESCE(e.entry->>'type', 'info'),
+	COALESCE(e.entry->>'message', ''),
+	e.entry->'agentSource',
+	COALESCE((e.entry->>'timestamp')::timestamptz AT TIME ZONE 'UTC', t."created_at")
+FROM "tasks" t, jsonb_array_elements(t."logs") WITH ORDINALITY AS e(entry, idx)
+WHERE jsonb_typeof(t."logs") = 'array'
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+UPDATE "tasks" SET "log_seq" = jsonb_array_length("logs") WHERE jsonb_typeof("logs") = 'array';--> statement-breakpoint
+ALTER TABLE "tasks" DROP COLUMN IF EXISTS "logs";
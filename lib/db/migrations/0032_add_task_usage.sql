@@ -0,0 +1,22 @@
+-- Token usage and cost of every agent run, for usage dashboards and monthly spend limits
+CREATE TABLE IF NOT EXISTS "task_usage" (
+	"id" text PRIMARY KEY NOT NULL,
+	"task_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"repo_url" text,
+	"agent" text NOT NULL,
+	"model" text,
+	"turn" text NOT NULL,
+	"input_tokens" integer DEFAULT 0 NOT NULL,
+	"output_tokens" integer DEFAULT 0 NOT NULL,
+	"cache_read_tokens" integer DEFAULT 0 NOT NULL,
+	"cache_write_tokens" integer DEFAULT 0 NOT NULL,
+	"total_tokens" integer DEFAULT 0 NOT NULL,
+	"cost_usd" double precision,
+	"cost_source" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+ALTER TABLE "task_usage" ADD CONSTRAINT "task_usage_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "task_usage" ADD CONSTRAINT "task_usage_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "task_usage_user_id_created_at_idx" ON "task_usage" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "task_usage_task_id_idx" ON "task_usage" USING btree ("task_id");
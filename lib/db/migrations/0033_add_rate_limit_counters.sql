@@ -0,0 +1,8 @@
+-- Request counters for the sliding-window API rate limiter, one row per limiter key and window
+CREATE TABLE IF NOT EXISTS "rate_limit_counters" (
+	"key" text NOT NULL,
+	"window_start" timestamp NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "rate_limit_counters_key_window_start_pk" PRIMARY KEY("key","window_start")
+);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "rate_limit_counters_window_start_idx" ON "rate_limit_counters" USING btree ("window_start");
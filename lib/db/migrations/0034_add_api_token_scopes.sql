@@ -0,0 +1,5 @@
+-- Scopes, repository/agent allow-lists and rate limits for API tokens. Existing tokens keep full access.
+ALTER TABLE "api_tokens" ADD COLUMN IF NOT EXISTS "scopes" jsonb DEFAULT '["tasks:read","tasks:write","tasks:stop","repos:read","mcp"]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "api_tokens" ADD COLUMN IF NOT EXISTS "allowed_repos" jsonb;--> statement-breakpoint
+ALTER TABLE "api_tokens" ADD COLUMN IF NOT EXISTS "allowed_agents" jsonb;--> statement-breakpoint
+ALTER TABLE "api_tokens" ADD COLUMN IF NOT EXISTS "rate_limit_per_minute" integer;
@@ -0,0 +1,7 @@
+-- Delivery IDs of handled GitHub webhook events, used to ignore redeliveries
+CREATE TABLE IF NOT EXISTS "github_webhook_deliveries" (
+	"id" text PRIMARY KEY NOT NULL,
+	"event" text NOT NULL,
+	"received_at" timestamp DEFAULT now() NOT NULL
+);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "github_webhook_deliveries_received_at_idx" ON "github_webhook_deliveries" USING btree ("received_at");
@@ -0,0 +1,4 @@
+-- Opt-in follow-up turns for failing CI checks on the task branch
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "ci_auto_fix" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "ci_fix_attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "ci_fix_head_sha" text;
@@ -0,0 +1,2 @@
+-- Fork the task branch is pushed to when the user has no push access to the repository
+ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "fork_repo_url" text;
@@ -0,0 +1,11 @@
+-- Task resources each API token's MCP client subscribed to, used to send resources/updated notifications
+CREATE TABLE IF NOT EXISTS "mcp_resource_subscriptions" (
+	"api_token_id" text NOT NULL,
+	"task_id" text NOT NULL,
+	"uri" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "mcp_resource_subscriptions_api_token_id_uri_pk" PRIMARY KEY("api_token_id","uri")
+);--> statement-breakpoint
+ALTER TABLE "mcp_resource_subscriptions" ADD CONSTRAINT "mcp_resource_subscriptions_api_token_id_api_tokens_id_fk" FOREIGN KEY ("api_token_id") REFERENCES "public"."api_tokens"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "mcp_resource_subscriptions" ADD CONSTRAINT "mcp_resource_subscriptions_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "mcp_resource_subscriptions_task_id_idx" ON "mcp_resource_subscriptions" USING btree ("task_id");
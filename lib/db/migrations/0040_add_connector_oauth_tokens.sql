@@ -0,0 +1,5 @@
+-- Tokens from authorizing remote MCP connectors with OAuth (access and refresh tokens are encrypted)
+ALTER TABLE "connectors" ADD COLUMN IF NOT EXISTS "oauth_access_token" text;--> statement-breakpoint
+ALTER TABLE "connectors" ADD COLUMN IF NOT EXISTS "oauth_refresh_token" text;--> statement-breakpoint
+ALTER TABLE "connectors" ADD COLUMN IF NOT EXISTS "oauth_token_expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "connectors" ADD COLUMN IF NOT EXISTS "oauth_token_endpoint" text;
@@ -0,0 +1,3 @@
+-- Remote connectors used to send their OAuth client secret as a Bearer token. Keep sending it for connectors
+-- that were never authorized with OAuth by copying it to the access token (both values are encrypted the same way).
+UPDATE "connectors" SET "oauth_access_token" = "oauth_client_secret" WHERE "type" = 'remote' AND "oauth_client_secret" IS NOT NULL AND "oauth_access_token" IS NULL AND "oauth_token_endpoint" IS NULL;
@@ -0,0 +1,4 @@
+-- Usage rows count toward the monthly spend limit, so they must outlive the task they were recorded for.
+ALTER TABLE "task_usage" DROP CONSTRAINT IF EXISTS "task_usage_task_id_tasks_id_fk";--> statement-breakpoint
+ALTER TABLE "task_usage" ALTER COLUMN "task_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "task_usage" ADD CONSTRAINT "task_usage_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE set null ON UPDATE no action;
@@ -1,4 +1,15 @@
-import { pgTable, text, timestamp, integer, jsonb, boolean, uniqueIndex, index } from 'drizzle-orm/pg-core'
+import {
+  pgTable,
+  text,
+  timestamp,
+  integer,
+  doublePrecision,
+  jsonb,
+  boolean,
+  uniqueIndex,
+  index,
+  primaryKey,
+} from 'drizzle-orm/pg-core'
 import { createId } from '@paralleldrive/cuid2'
 import { z } from 'zod'
 
@@ -35,6 +46,28 @@ export const logEntrySchema = z.object({
 
 export type LogEntry = z.infer<typeof logEntrySchema>
 
+// Verification results - outcome of the repository's test/lint/typecheck commands after the agent ran
+export const verificationCheckSchema = z.object({
+  name: z.enum(['typecheck', 'lint', 'test']),
+  command: z.string().max(500),
+  success: z.boolean(),
+  exitCode: z.number().int().nullable(),
+  durationMs: z.number().int().min(0),
+  output: z.string().max(4000), // Tail of stdout/stderr
+})
+
+export type VerificationCheck = z.infer<typeof verificationCheckSchema>
+
+export const verificationResultSchema = z.object({
+  status: z.enum(['running', 'passed', 'failed']),
+  iteration: z.number().int().min(0), // Number of fix-up turns sent to the agent so far
+  maxIterations: z.number().int().min(0),
+  checks: z.array(verificationCheckSchema),
+  updatedAt: z.string().datetime(), // ISO string format from JSONB
+})
+
+export type VerificationResult = z.infer<typeof verificationResultSchema>
+
 // Users table - user profile and primary OAuth account
 export const users = pgTable(
   'users',
@@ -98,52 +131,66 @@ export const selectUserSchema = z.object({
 export type User = z.infer<typeof selectUserSchema>
 export type InsertUser = z.infer<typeof insertUserSchema>
 
-export const tasks = pgTable('tasks', {
-  id: text('id').primaryKey(),
-  userId: text('user_id')
-    .notNull()
-    .references(() => users.id, { onDelete: 'cascade' }), // Foreign key to users table
-  prompt: text('prompt').notNull(),
-  title: text('title'),
-  repoUrl: text('repo_url'),
-  selectedAgent: text('selected_agent').default('claude'),
-  selectedModel: text('selected_model'),
-  installDependencies: boolean('install_dependencies').default(false),
-  maxDuration: integer('max_duration').default(parseInt(process.env.MAX_SANDBOX_DURATION || '300', 10)),
-  keepAlive: boolean('keep_alive').default(false),
-  status: text('status', {
-    enum: ['pending', 'processing', 'completed', 'error', 'stopped'],
-  })
-    .notNull()
-    .default('pending'),
-  progress: integer('progress').default(0),
-  logs: jsonb('logs').$type<LogEntry[]>(),
-  error: text('error'),
-  branchName: text('branch_name'), // New branch name created by agent for changes
-  sourceBranch: text('source_branch'), // Source branch to clone from (defaults to repository default branch)
-  sandboxId: text('sandbox_id'),
-  agentSessionId: text('agent_session_id'),
-  sandboxUrl: text('sandbox_url'),
-  previewUrl: text('preview_url'),
-  prUrl: text('pr_url'),
-  prNumber: integer('pr_number'),
-  prStatus: text('pr_status', {
-    enum: ['open', 'closed', 'merged'],
+export const tasks = pgTable(
+  'tasks',
+  {
+    id: text('id').primaryKey(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }), // Foreign key to users table
+    prompt: text('prompt').notNull(),
+    title: text('title'),
+    repoUrl: text('repo_url'),
+    selectedAgent: text('selected_agent').default('claude'),
+    selectedModel: text('selected_model'),
+    installDependencies: boolean('install_dependencies').default(false),
+    maxDuration: integer('max_duration').default(parseInt(process.env.MAX_SANDBOX_DURATION || '300', 10)),
+    keepAlive: boolean('keep_alive').default(false),
+    status: text('status', {
+      enum: ['pending', 'processing', 'completed', 'error', 'stopped'],
+    })
+      .notNull()
+      .default('pending'),
+    progress: integer('progress').default(0),
+    logSeq: integer('log_seq').notNull().default(0), // Last sequence number assigned in task_log_entries
+    error: text('error'),
+    branchName: text('branch_name'), // New branch name created by agent for changes
+    sourceBranch: text('source_branch'), // Source branch to clone from (defaults to repository default branch)
+    forkRepoUrl: text('fork_repo_url'), // Fork the branch is pushed to when the user can't push to repoUrl
+    sandboxId: text('sandbox_id'),
+    agentSessionId: text('agent_session_id'),
+    sandboxUrl: text('sandbox_url'),
+    previewUrl: text('preview_url'),
+    prUrl: text('pr_url'),
+    prNumber: integer('pr_number'),
+    prStatus: text('pr_status', {
+      enum: ['open', 'closed', 'merged'],
+    }),
+    prMergeCommitSha: text('pr_merge_commit_sha'),
+    mcpServerIds: jsonb('mcp_server_ids').$type<string[]>(),
+    // Sub-agent tracking for visibility and timeout handling
+    subAgentActivity: jsonb('sub_agent_activity').$type<SubAgentActivity[]>(),
+    currentSubAgent: text('current_sub_agent'), // Name of currently active sub-agent
+    lastHeartbeat: timestamp('last_heartbeat'), // Last activity timestamp for timeout extension
+    heartbeatExtensionCount: integer('heartbeat_extension_count').default(0), // Track timeout extensions
+    verification: jsonb('verification').$type<VerificationResult>(), // Latest verification run, if the repo configures checks
+    ciAutoFix: boolean('ci_auto_fix').notNull().default(false), // Start a follow-up turn when a check on the branch fails
+    ciFixAttempts: integer('ci_fix_attempts').notNull().default(0), // Follow-up turns started for failing checks
+    ciFixHeadSha: text('ci_fix_head_sha'), // Last commit whose failing checks were handled
+    groupId: text('group_id').references(() => taskGroups.id, { onDelete: 'set null' }), // Comparison group for multi-agent runs
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+    completedAt: timestamp('completed_at'),
+    deletedAt: timestamp('deleted_at'),
+  },
+  (table) => ({
+    groupIdIdx: index('tasks_group_id_idx').on(table.groupId),
   }),
-  prMergeCommitSha: text('pr_merge_commit_sha'),
-  mcpServerIds: jsonb('mcp_server_ids').$type<string[]>(),
-  // Sub-agent tracking for visibility and timeout handling
-  subAgentActivity: jsonb('sub_agent_activity').$type<SubAgentActivity[]>(),
-  currentSubAgent: text('current_sub_agent'), // Name of currently active sub-agent
-  lastHeartbeat: timestamp('last_heartbeat'), // Last activity timestamp for timeout extension
-  heartbeatExtensionCount: integer('heartbeat_extension_count').default(0), // Track timeout extensions
-  createdAt: timestamp('created_at').defaultNow().notNull(),
-  updatedAt: timestamp('updated_at').defaultNow().notNull(),
-  completedAt: timestamp('completed_at'),
-  deletedAt: timestamp('deleted_at'),
-})
+)
 
 // Manual Zod schemas for validation
+// forkRepoUrl and the CI auto-fix counters are left out: only the server sets them,
+// and clients creating tasks must not choose where a task pushes
 export const insertTaskSchema = z.object({
   id: z.string().optional(),
   userId: z.string().min(1, 'User ID is required'),
@@ -157,7 +204,7 @@ export const insertTaskSchema = z.object({
   keepAlive: z.boolean().default(false),
   status: z.enum(['pending', 'processing', 'completed', 'error', 'stopped']).default('pending'),
   progress: z.number().min(0).max(100).default(0),
-  logs: z.array(logEntrySchema).optional(),
+  logSeq: z.number().int().min(0).default(0),
   error: z.string().optional(),
   branchName: z.string().optional(),
   sourceBranch: z.string().optional(),
@@ -175,6 +222,9 @@ export const insertTaskSchema = z.object({
   currentSubAgent: z.string().optional(),
   lastHeartbeat: z.date().optional(),
   heartbeatExtensionCount: z.number().int().min(0).default(0),
+  verification: verificationResultSchema.optional(),
+  ciAutoFix: z.boolean().default(false),
+  groupId: z.string().optional(),
   createdAt: z.date().optional(),
   updatedAt: z.date().optional(),
   completedAt: z.date().optional(),
@@ -194,10 +244,11 @@ export const selectTaskSchema = z.object({
   keepAlive: z.boolean().nullable(),
   status: z.enum(['pending', 'processing', 'completed', 'error', 'stopped']),
   progress: z.number().nullable(),
-  logs: z.array(logEntrySchema).nullable(),
+  logSeq: z.number().int().min(0),
   error: z.string().nullable(),
   branchName: z.string().nullable(),
   sourceBranch: z.string().nullable(),
+  forkRepoUrl: z.string().nullable(),
   sandboxId: z.string().nullable(),
   agentSessionId: z.string().nullable(),
   sandboxUrl: z.string().nullable(),
@@ -212,6 +263,11 @@ export const selectTaskSchema = z.object({
   currentSubAgent: z.string().nullable(),
   lastHeartbeat: z.date().nullable(),
   heartbeatExtensionCount: z.number().int().min(0),
+  verification: verificationResultSchema.nullable(),
+  ciAutoFix: z.boolean(),
+  ciFixAttempts: z.number().int().min(0),
+  ciFixHeadSha: z.string().nullable(),
+  groupId: z.string().nullable(),
   createdAt: z.date(),
   updatedAt: z.date(),
   completedAt: z.date().nullable(),
@@ -221,6 +277,82 @@ export const selectTaskSchema = z.object({
 export type Task = z.infer<typeof selectTaskSchema>
 export type InsertTask = z.infer<typeof insertTaskSchema>
 
+// Task as returned by GET /api/tasks/[taskId], with its most recent log entries
+export type TaskWithLogs = Task & { logs: LogEntry[] }
+
+// Task groups table - the same prompt run by several agents, compared side by side
+export const taskGroups = pgTable('task_groups', {
+  id: text('id').primaryKey(),
+  userId: text('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  prompt: text('prompt').notNull(),
+  repoUrl: text('repo_url'),
+  winnerTaskId: text('winner_task_id'), // Run promoted to a pull request
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+})
+
+export const insertTaskGroupSchema = z.object({
+  id: z.string().optional(),
+  userId: z.string().min(1, 'User ID is required'),
+  prompt: z.string().min(1, 'Prompt is required'),
+  repoUrl: z.string().url('Must be a valid URL').optional(),
+  winnerTaskId: z.string().optional(),
+  createdAt: z.date().optional(),
+  updatedAt: z.date().optional(),
+})
+
+export const selectTaskGroupSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  prompt: z.string(),
+  repoUrl: z.string().nullable(),
+  winnerTaskId: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+export type TaskGroup = z.infer<typeof selectTaskGroupSchema>
+export type InsertTaskGroup = z.infer<typeof insertTaskGroupSchema>
+
+// Task log entries table - append-only log lines, ordered per task by seq
+export const taskLogEntries = pgTable(
+  'task_log_entries',
+  {
+    taskId: text('task_id')
+      .notNull()
+      .references(() => tasks.id, { onDelete: 'cascade' }),
+    seq: integer('seq').notNull(), // Allocated from tasks.log_seq, strictly increasing per task
+    type: text('type', {
+      enum: ['info', 'command', 'error', 'success', 'subagent'],
+    }).notNull(),
+    message: text('message').notNull(),
+    agentSource: jsonb('agent_source').$type<LogEntry['agentSource']>(),
+    timestamp: timestamp('timestamp').defaultNow().notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.taskId, table.seq] }),
+  }),
+)
+
+export const insertTaskLogEntrySchema = logEntrySchema.extend({
+  taskId: z.string().min(1, 'Task ID is required'),
+  seq: z.number().int().min(1),
+})
+
+export const selectTaskLogEntrySchema = z.object({
+  taskId: z.string(),
+  seq: z.number(),
+  type: z.enum(['info', 'command', 'error', 'success', 'subagent']),
+  message: z.string(),
+  agentSource: logEntrySchema.shape.agentSource.nullable(),
+  timestamp: z.date(),
+})
+
+export type TaskLogEntry = z.infer<typeof selectTaskLogEntrySchema>
+export type InsertTaskLogEntry = z.infer<typeof insertTaskLogEntrySchema>
+
 export const connectors = pgTable('connectors', {
   id: text('id').primaryKey(),
   userId: text('user_id')
@@ -237,6 +369,11 @@ export const connectors = pgTable('connectors', {
   baseUrl: text('base_url'),
   oauthClientId: text('oauth_client_id'),
   oauthClientSecret: text('oauth_client_secret'),
+  // Tokens from authorizing the server with OAuth - stored encrypted
+  oauthAccessToken: text('oauth_access_token'),
+  oauthRefreshToken: text('oauth_refresh_token'),
+  oauthTokenExpiresAt: timestamp('oauth_token_expires_at'),
+  oauthTokenEndpoint: text('oauth_token_endpoint'),
   // For local MCP servers
   command: text('command'),
   // Environment variables (for both local and remote) - stored encrypted
@@ -279,6 +416,10 @@ export const selectConnectorSchema = z.object({
   baseUrl: z.string().nullable(),
   oauthClientId: z.string().nullable(),
   oauthClientSecret: z.string().nullable(),
+  oauthAccessToken: z.string().nullable(),
+  oauthRefreshToken: z.string().nullable(),
+  oauthTokenExpiresAt: z.date().nullable(),
+  oauthTokenEndpoint: z.string().nullable(),
   // For local MCP servers
   command: z.string().nullable(),
   // Environment variables (for both local and remote) - stored encrypted as string
@@ -303,16 +444,16 @@ export const accounts = pgTable(
       .notNull()
       .references(() => users.id, { onDelete: 'cascade' }), // Foreign key to users table
     provider: text('provider', {
-      enum: ['github'],
+      enum: ['github', 'gitlab', 'gitea'],
     })
       .notNull()
-      .default('github'), // Only GitHub for now
-    externalUserId: text('external_user_id').notNull(), // GitHub user ID
+      .default('github'), // Git hosting provider (see lib/git-providers)
+    externalUserId: text('external_user_id').notNull(), // User ID on the provider
     accessToken: text('access_token').notNull(), // Encrypted OAuth access token
     refreshToken: text('refresh_token'), // Encrypted OAuth refresh token
     expiresAt: timestamp('expires_at'),
     scope: text('scope'),
-    username: text('username').notNull(), // GitHub username
+    username: text('username').notNull(), // Username on the provider
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
   },
@@ -325,7 +466,7 @@ export const accounts = pgTable(
 export const insertAccountSchema = z.object({
   id: z.string().optional(),
   userId: z.string(),
-  provider: z.enum(['github']).default('github'),
+  provider: z.enum(['github', 'gitlab', 'gitea']).default('github'),
   externalUserId: z.string().min(1, 'External user ID is required'),
   accessToken: z.string(),
   refreshToken: z.string().optional(),
@@ -339,7 +480,7 @@ export const insertAccountSchema = z.object({
 export const selectAccountSchema = z.object({
   id: z.string(),
   userId: z.string(),
-  provider: z.enum(['github']),
+  provider: z.enum(['github', 'gitlab', 'gitea']),
   externalUserId: z.string(),
   accessToken: z.string(),
   refreshToken: z.string().nullable(),
@@ -469,6 +610,11 @@ export type Setting = z.infer<typeof selectSettingSchema>
 export type InsertSetting = z.infer<typeof insertSettingSchema>
 
 // API Tokens table - user-generated API tokens for authenticating external requests
+// Permissions an API token can be granted. Tokens created before scopes existed have all of them.
+export const API_TOKEN_SCOPES = ['tasks:read', 'tasks:write', 'tasks:stop', 'repos:read', 'mcp'] as const
+export const apiTokenScopeSchema = z.enum(API_TOKEN_SCOPES)
+export type ApiTokenScope = z.infer<typeof apiTokenScopeSchema>
+
 export const apiTokens = pgTable(
   'api_tokens',
   {
@@ -481,6 +627,17 @@ export const apiTokens = pgTable(
     name: text('name').notNull(),
     tokenHash: text('token_hash').notNull().unique(),
     tokenPrefix: text('token_prefix').notNull(),
+    scopes: jsonb('scopes')
+      .$type<ApiTokenScope[]>()
+      .notNull()
+      .default([...API_TOKEN_SCOPES]),
+    allowedRepos: jsonb('allowed_repos').$type<string[]>(), // "owner/repo" names (lowercase); null allows every repository
+    allowedAgents: jsonb('allowed_agents').$type<string[]>(), // null allows every agent
+    rateLimitPerMinute: integer('rate_limit_per_minute'), // null uses the RATE_LIMIT_API_TOKEN default
+    // OAuth grants: tokenHash is the current access token and both hashes rotate on refresh
+    oauthClientId: text('oauth_client_id').references(() => oauthClients.id, { onDelete: 'cascade' }),
+    refreshTokenHash: text('refresh_token_hash').unique(),
+    refreshTokenExpiresAt: timestamp('refresh_token_expires_at'),
     lastUsedAt: timestamp('last_used_at'),
     expiresAt: timestamp('expires_at'),
     createdAt: timestamp('created_at').defaultNow().notNull(),
@@ -497,6 +654,13 @@ export const insertApiTokenSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   tokenHash: z.string().min(1, 'Token hash is required'),
   tokenPrefix: z.string().min(1, 'Token prefix is required'),
+  scopes: z.array(apiTokenScopeSchema).min(1, 'At least one scope is required'),
+  allowedRepos: z.array(z.string()).optional(),
+  allowedAgents: z.array(z.string()).optional(),
+  rateLimitPerMinute: z.number().int().min(1).optional(),
+  oauthClientId: z.string().optional(),
+  refreshTokenHash: z.string().optional(),
+  refreshTokenExpiresAt: z.date().optional(),
   lastUsedAt: z.date().optional(),
   expiresAt: z.date().optional(),
   createdAt: z.date().optional(),
@@ -509,6 +673,13 @@ export const selectApiTokenSchema = z.object({
   name: z.string(),
   tokenHash: z.string(),
   tokenPrefix: z.string(),
+  scopes: z.array(apiTokenScopeSchema),
+  allowedRepos: z.array(z.string()).nullable(),
+  allowedAgents: z.array(z.string()).nullable(),
+  rateLimitPerMinute: z.number().nullable(),
+  oauthClientId: z.string().nullable(),
+  refreshTokenHash: z.string().nullable(),
+  refreshTokenExpiresAt: z.date().nullable(),
   lastUsedAt: z.date().nullable(),
   expiresAt: z.date().nullable(),
   createdAt: z.date(),
@@ -518,6 +689,278 @@ export const selectApiTokenSchema = z.object({
 export type ApiToken = z.infer<typeof selectApiTokenSchema>
 export type InsertApiToken = z.infer<typeof insertApiTokenSchema>
 
+// Task jobs table - durable queue of background work drained by the task worker
+export const taskJobs = pgTable(
+  'task_jobs',
+  {
+    id: text('id').primaryKey(),
+    taskId: text('task_id')
+      .notNull()
+      .references(() => tasks.id, { onDelete: 'cascade' }),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }), // Used for the per-user concurrency cap
+    type: text('type', {
+      enum: ['process-task', 'keepalive-cleanup'],
+    }).notNull(),
+    status: text('status', {
+      enum: ['queued', 'leased', 'completed', 'failed'],
+    })
+      .notNull()
+      .default('queued'),
+    payload: jsonb('payload').$type<Record<string, unknown>>(), // Job-specific data (never secrets)
+    attempts: integer('attempts').notNull().default(0),
+    maxAttempts: integer('max_attempts').notNull().default(3),
+    runAt: timestamp('run_at').defaultNow().notNull(), // Earliest time the job may be leased
+    leaseOwner: text('lease_owner'), // Worker currently holding the lease
+    leasedUntil: timestamp('leased_until'), // Visibility timeout - job is re-leased after this passes
+    lastError: text('last_error'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+    completedAt: timestamp('completed_at'),
+  },
+  (table) => ({
+    statusRunAtIdx: index('task_jobs_status_run_at_idx').on(table.status, table.runAt),
+    userIdStatusIdx: index('task_jobs_user_id_status_idx').on(table.userId, table.status),
+    taskIdIdx: index('task_jobs_task_id_idx').on(table.taskId),
+  }),
+)
+
+export const insertTaskJobSchema = z.object({
+  id: z.string().optional(),
+  taskId: z.string().min(1, 'Task ID is required'),
+  userId: z.string().min(1, 'User ID is required'),
+  type: z.enum(['process-task', 'keepalive-cleanup']),
+  status: z.enum(['queued', 'leased', 'completed', 'failed']).default('queued'),
+  payload: z.record(z.string(), z.unknown()).optional(),
+  attempts: z.number().int().min(0).default(0),
+  maxAttempts: z.number().int().min(1).default(3),
+  runAt: z.date().optional(),
+  leaseOwner: z.string().optional(),
+  leasedUntil: z.date().optional(),
+  lastError: z.string().optional(),
+  createdAt: z.date().optional(),
+  updatedAt: z.date().optional(),
+  completedAt: z.date().optional(),
+})
+
+export const selectTaskJobSchema = z.object({
+  id: z.string(),
+  taskId: z.string(),
+  userId: z.string(),
+  type: z.enum(['process-task', 'keepalive-cleanup']),
+  status: z.enum(['queued', 'leased', 'completed', 'failed']),
+  payload: z.record(z.string(), z.unknown()).nullable(),
+  attempts: z.number(),
+  maxAttempts: z.number(),
+  runAt: z.date(),
+  leaseOwner: z.string().nullable(),
+  leasedUntil: z.date().nullable(),
+  lastError: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  completedAt: z.date().nullable(),
+})
+
+export type TaskJob = z.infer<typeof selectTaskJobSchema>
+export type InsertTaskJob = z.infer<typeof insertTaskJobSchema>
+
+// Task usage table - tokens and cost of each agent run (initial, follow-up or verification fix-up)
+export const taskUsage = pgTable(
+  'task_usage',
+  {
+    id: text('id').primaryKey(),
+    taskId: text('task_id').references(() => tasks.id, { onDelete: 'set null' }), // Kept when the task is deleted so spend still counts
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    repoUrl: text('repo_url'), // Copied from the task so totals include soft-deleted tasks without a join
+    agent: text('agent').notNull(),
+    model: text('model'),
+    turn: text('turn', {
+      enum: ['initial', 'follow-up', 'verification'],
+    }).notNull(),
+    inputTokens: integer('input_tokens').notNull().default(0),
+    outputTokens: integer('output_tokens').notNull().default(0),
+    cacheReadTokens: integer('cache_read_tokens').notNull().default(0),
+    cacheWriteTokens: integer('cache_write_tokens').notNull().default(0),
+    totalTokens: integer('total_tokens').notNull().default(0),
+    costUsd: doublePrecision('cost_usd'), // Null when the cost is unknown
+    costSource: text('cost_source', {
+      enum: ['reported', 'estimated'],
+    }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdCreatedAtIdx: index('task_usage_user_id_created_at_idx').on(table.userId, table.createdAt),
+    taskIdIdx: index('task_usage_task_id_idx').on(table.taskId),
+  }),
+)
+
+export const insertTaskUsageSchema = z.object({
+  id: z.string().optional(),
+  taskId: z.string().min(1, 'Task ID is required'),
+  userId: z.string().min(1, 'User ID is required'),
+  repoUrl: z.string().optional(),
+  agent: z.string().min(1, 'Agent is required'),
+  model: z.string().optional(),
+  turn: z.enum(['initial', 'follow-up', 'verification']),
+  inputTokens: z.number().int().min(0).default(0),
+  outputTokens: z.number().int().min(0).default(0),
+  cacheReadTokens: z.number().int().min(0).default(0),
+  cacheWriteTokens: z.number().int().min(0).default(0),
+  totalTokens: z.number().int().min(0).default(0),
+  costUsd: z.number().min(0).optional(),
+  costSource: z.enum(['reported', 'estimated']).optional(),
+  createdAt: z.date().optional(),
+})
+
+export const selectTaskUsageSchema = z.object({
+  id: z.string(),
+  taskId: z.string().nullable(),
+  userId: z.string(),
+  repoUrl: z.string().nullable(),
+  agent: z.string(),
+  model: z.string().nullable(),
+  turn: z.enum(['initial', 'follow-up', 'verification']),
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+  cacheReadTokens: z.number(),
+  cacheWriteTokens: z.number(),
+  totalTokens: z.number(),
+  costUsd: z.number().nullable(),
+  costSource: z.enum(['reported', 'estimated']).nullable(),
+  createdAt: z.date(),
+})
+
+export type TaskUsage = z.infer<typeof selectTaskUsageSchema>
+export type InsertTaskUsage = z.infer<typeof insertTaskUsageSchema>
+
+// Rate limit counters table - request counts per limiter key and fixed window, combined into a sliding window
+export const rateLimitCounters = pgTable(
+  'rate_limit_counters',
+  {
+    key: text('key').notNull(), // Policy name and subject, e.g. "terminal:user:abc123"
+    windowStart: timestamp('window_start').notNull(),
+    count: integer('count').notNull().default(0),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.key, table.windowStart] }),
+    windowStartIdx: index('rate_limit_counters_window_start_idx').on(table.windowStart),
+  }),
+)
+
+export const selectRateLimitCounterSchema = z.object({
+  key: z.string(),
+  windowStart: z.date(),
+  count: z.number(),
+})
+
+export type RateLimitCounter = z.infer<typeof selectRateLimitCounterSchema>
+
+// GitHub webhook deliveries - delivery IDs already handled, so redelivered events don't start tasks twice
+export const githubWebhookDeliveries = pgTable(
+  'github_webhook_deliveries',
+  {
+    id: text('id').primaryKey(), // X-GitHub-Delivery header
+    event: text('event').notNull(), // X-GitHub-Event header, e.g. "issue_comment"
+    receivedAt: timestamp('received_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    receivedAtIdx: index('github_webhook_deliveries_received_at_idx').on(table.receivedAt),
+  }),
+)
+
+export const selectGitHubWebhookDeliverySchema = z.object({
+  id: z.string(),
+  event: z.string(),
+  receivedAt: z.date(),
+})
+
+export type GitHubWebhookDelivery = z.infer<typeof selectGitHubWebhookDeliverySchema>
+
+// MCP resource subscriptions - task resources an API token's MCP client subscribed to, notified over the GET stream
+export const mcpResourceSubscriptions = pgTable(
+  'mcp_resource_subscriptions',
+  {
+    apiTokenId: text('api_token_id')
+      .notNull()
+      .references(() => apiTokens.id, { onDelete: 'cascade' }),
+    taskId: text('task_id')
+      .notNull()
+      .references(() => tasks.id, { onDelete: 'cascade' }),
+    uri: text('uri').notNull(), // e.g. "task://abc123/logs"
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.apiTokenId, table.uri] }),
+    taskIdIdx: index('mcp_resource_subscriptions_task_id_idx').on(table.taskId),
+  }),
+)
+
+export const selectMcpResourceSubscriptionSchema = z.object({
+  apiTokenId: z.string(),
+  taskId: z.string(),
+  uri: z.string(),
+  createdAt: z.date(),
+})
+
+export type McpResourceSubscription = z.infer<typeof selectMcpResourceSubscriptionSchema>
+
+// OAuth clients - MCP clients registered through dynamic client registration (RFC 7591)
+export const oauthClients = pgTable('oauth_clients', {
+  id: text('id').primaryKey(), // client_id
+  name: text('name').notNull(),
+  clientSecretHash: text('client_secret_hash'), // null for public clients, which must use PKCE
+  redirectUris: jsonb('redirect_uris').$type<string[]>().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+})
+
+export const selectOAuthClientSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  clientSecretHash: z.string().nullable(),
+  redirectUris: z.array(z.string()),
+  createdAt: z.date(),
+})
+
+export type OAuthClient = z.infer<typeof selectOAuthClientSchema>
+
+// OAuth authorization codes - issued on consent, exchanged once for an access and refresh token
+export const oauthAuthorizationCodes = pgTable(
+  'oauth_authorization_codes',
+  {
+    codeHash: text('code_hash').primaryKey(),
+    clientId: text('client_id')
+      .notNull()
+      .references(() => oauthClients.id, { onDelete: 'cascade' }),
+    userId: text('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    redirectUri: text('redirect_uri').notNull(),
+    codeChallenge: text('code_challenge').notNull(), // S256 PKCE challenge
+    scopes: jsonb('scopes').$type<ApiTokenScope[]>().notNull(),
+    expiresAt: timestamp('expires_at').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    expiresAtIdx: index('oauth_authorization_codes_expires_at_idx').on(table.expiresAt),
+  }),
+)
+
+export const selectOAuthAuthorizationCodeSchema = z.object({
+  codeHash: z.string(),
+  clientId: z.string(),
+  userId: z.string(),
+  redirectUri: z.string(),
+  codeChallenge: z.string(),
+  scopes: z.array(apiTokenScopeSchema),
+  expiresAt: z.date(),
+  createdAt: z.date(),
+})
+
+export type OAuthAuthorizationCode = z.infer<typeof selectOAuthAuthorizationCodeSchema>
+
 // Keep legacy export for backwards compatibility during migration
 export const userConnections = accounts
 export type UserConnection = Account
@@ -2,7 +2,13 @@ import { cache } from 'react'
 import { db } from './client'
 import { settings } from './schema'
 import { eq, and } from 'drizzle-orm'
-import { MAX_MESSAGES_PER_DAY, MAX_SANDBOX_DURATION } from '@/lib/constants'
+import {
+  MAX_MESSAGES_PER_DAY,
+  MAX_SANDBOX_DURATION,
+  MAX_VERIFICATION_ITERATIONS,
+  MAX_CI_FIX_ATTEMPTS,
+  MONTHLY_SPEND_LIMIT_USD,
+} from '@/lib/constants'
 
 /**
  * Get a setting value with fallback to default.
@@ -74,3 +80,41 @@ export const getMaxSandboxDuration = cache(async function getMaxSandboxDuration(
   const result = await getNumericSetting('maxSandboxDuration', userId, MAX_SANDBOX_DURATION)
   return result ?? MAX_SANDBOX_DURATION
 })
+
+/**
+ * Get the maximum number of fix-up turns sent to the agent when verification fails.
+ * Checks user-specific setting, then falls back to environment variable. 0 disables fix-ups.
+ *
+ * @param userId - Optional user ID for user-specific limit
+ * @returns The max verification iterations
+ */
+export async function getMaxVerificationIterations(userId?: string): Promise<number> {
+  const result = await getNumericSetting('maxVerificationIterations', userId, MAX_VERIFICATION_ITERATIONS)
+  return Math.max(result ?? MAX_VERIFICATION_ITERATIONS, 0)
+}
+
+/**
+ * Get the maximum number of CI auto-fix attempts per task for a user.
+ * Checks user-specific setting, then falls back to environment variable.
+ *
+ * @param userId - Optional user ID for user-specific limit
+ * @returns The max CI fix attempts
+ */
+export async function getMaxCiFixAttempts(userId?: string): Promise<number> {
+  const result = await getNumericSetting('maxCiFixAttempts', userId, MAX_CI_FIX_ATTEMPTS)
+  return Math.max(result ?? MAX_CI_FIX_ATTEMPTS, 0)
+}
+
+/**
+ * Get the monthly agent spend limit (in US dollars) for a user.
+ * Checks user-specific setting, then falls back to environment variable. 0 means unlimited.
+ *
+ * @param userId - Optional user ID for user-specific limit
+ * @returns The monthly spend limit in US dollars
+ */
+export async function getMonthlySpendLimit(userId?: string): Promise<number> {
+  const value = await getSetting('monthlySpendLimitUsd', userId)
+  const limit = value ? Number(value) : NaN
+  // Fractional limits are allowed; malformed or negative values fall back to the default
+  return Number.isFinite(limit) && limit >= 0 ? limit : MONTHLY_SPEND_LIMIT_USD
+}
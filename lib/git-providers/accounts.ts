@@ -0,0 +1,259 @@
+import 'server-only'
+
+import { db } from '@/lib/db/client'
+import { accounts } from '@/lib/db/schema'
+import { and, eq } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { decrypt, encrypt } from '@/lib/crypto'
+import { getGitHubAppBotUser, getGitHubAppRepoToken } from '@/lib/github/app'
+import { getGitHubUser, parseGitHubUrl } from '@/lib/github/client'
+import { getGitHubTokenByUserId } from '@/lib/github/user-token'
+import { getGitProvider, getGitProviderForUrl } from './index'
+import { GitProvider, GitProviderError, GitProviderName } from './types'
+
+/**
+ * Accounts on git hosts, linked through the accounts table.
+ *
+ * GitHub keeps its own sign-in and connect flow (lib/github/user-token).
+ * GitLab and Gitea accounts are linked with OAuth or a personal access
+ * token; expiring OAuth tokens are refreshed when read.
+ */
+
+export interface GitOAuthTokens {
+  accessToken: string
+  refreshToken: string | null
+  expiresAt: Date | null
+  scope: string | null
+}
+
+// Refresh tokens this close to expiry so they don't expire mid-task
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000
+
+export function getOAuthAuthorizationUrl(provider: GitProvider, state: string, redirectUri: string): string | null {
+  if (!provider.oauth) return null
+
+  const params = new URLSearchParams({
+    client_id: provider.oauth.clientId,
+    redirect_uri: redirectUri,
+    response_type: 'code',
+    scope: provider.oauth.scope,
+    state,
+  })
+  return `${provider.oauth.authorizeUrl}?${params.toString()}`
+}
+
+async function requestOAuthToken(provider: GitProvider, params: Record<string, string>): Promise<GitOAuthTokens> {
+  if (!provider.oauth) {
+    throw new Error(`${provider.displayName} OAuth is not configured`)
+  }
+
+  const response = await fetch(provider.oauth.tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: new URLSearchParams({
+      client_id: provider.oauth.clientId,
+      client_secret: provider.oauth.clientSecret,
+      ...params,
+    }),
+    signal: AbortSignal.timeout(15000),
+  })
+
+  const data = (await response.json().catch(() => ({}))) as {
+    access_token?: string
+    refresh_token?: string
+    expires_in?: number
+    scope?: string
+  }
+  if (!response.ok || !data.access_token) {
+    throw new GitProviderError(`${provider.displayName} token request failed`, response.status)
+  }
+
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token || null,
+    expiresAt: data.expires_in ? new Date(Date.now() + data.expires_in * 1000) : null,
+    scope: data.scope || null,
+  }
+}
+
+export function exchangeOAuthCode(provider: GitProvider, code: string, redirectUri: string): Promise<GitOAuthTokens> {
+  return requestOAuthToken(provider, { grant_type: 'authorization_code', code, redirect_uri: redirectUri })
+}
+
+/**
+ * Link the provider account the token belongs to. An account that is already
+ * linked to another user is not moved.
+ */
+export async function saveGitProviderAccount(
+  userId: string,
+  provider: GitProvider,
+  tokens: GitOAuthTokens,
+): Promise<{ success: boolean; username?: string; error?: string }> {
+  const user = await provider.getUser(tokens.accessToken)
+
+  const [linked] = await db
+    .select({ userId: accounts.userId })
+    .from(accounts)
+    .where(and(eq(accounts.provider, provider.name), eq(accounts.externalUserId, user.id)))
+    .limit(1)
+
+  if (linked && linked.userId !== userId) {
+    return { success: false, error: `This ${provider.displayName} account is already connected to another user` }
+  }
+
+  const values = {
+    externalUserId: user.id,
+    accessToken: encrypt(tokens.accessToken),
+    refreshToken: tokens.refreshToken ? encrypt(tokens.refreshToken) : null,
+    expiresAt: tokens.expiresAt,
+    scope: tokens.scope,
+    username: user.username,
+    updatedAt: new Date(),
+  }
+
+  await db
+    .insert(accounts)
+    .values({ id: nanoid(), userId, provider: provider.name, ...values })
+    .onConflictDoUpdate({ target: [accounts.userId, accounts.provider], set: values })
+
+  return { success: true, username: user.username }
+}
+
+/**
+ * Access token of the user's account on the provider, or null if none is linked
+ */
+export async function getGitProviderToken(userId: string, provider: GitProviderName): Promise<string | null> {
+  if (provider === 'github') {
+    return getGitHubTokenByUserId(userId)
+  }
+
+  try {
+    const [account] = await db
+      .select()
+      .from(accounts)
+      .where(and(eq(accounts.userId, userId), eq(accounts.provider, provider)))
+      .limit(1)
+
+    if (!account) {
+      return null
+    }
+
+    const expiresSoon = account.expiresAt && account.expiresAt.getTime() - Date.now() < TOKEN_REFRESH_MARGIN_MS
+    if (!expiresSoon || !account.refreshToken) {
+      return decrypt(account.accessToken)
+    }
+
+    const gitProvider = getGitProvider(provider)
+    const refreshToken = decrypt(account.refreshToken)
+    if (!gitProvider || !refreshToken) {
+      return null
+    }
+
+    const tokens = await requestOAuthToken(gitProvider, { grant_type: 'refresh_token', refresh_token: refreshToken })
+    await db
+      .update(accounts)
+      .set({
+        accessToken: encrypt(tokens.accessToken),
+        refreshToken: encrypt(tokens.refreshToken || refreshToken),
+        expiresAt: tokens.expiresAt,
+        updatedAt: new Date(),
+      })
+      .where(eq(accounts.id, account.id))
+
+    return tokens.accessToken
+  } catch (error) {
+    console.error('Error fetching git provider token')
+    return null
+  }
+}
+
+/**
+ * Provider hosting the repository and the user's token for it
+ *
+ * @returns null if the URL isn't a repository on a configured host
+ */
+export async function getRepoGitCredentials(
+  userId: string,
+  repoUrl: string,
+): Promise<{ provider: GitProvider; token: string | null } | null> {
+  const provider = getGitProviderForUrl(repoUrl)
+  if (!provider) {
+    return null
+  }
+
+  const token = await getGitProviderToken(userId, provider.name)
+  if (provider.name === 'github' && token) {
+    return { provider, token: (await getGitHubAppToken(repoUrl, token)) || token }
+  }
+  return { provider, token }
+}
+
+/**
+ * GitHub App installation token for the repository, when the app is installed on it
+ * and the user can push to it (see lib/github/app)
+ */
+async function getGitHubAppToken(repoUrl: string, userToken: string): Promise<string | null> {
+  const repository = parseGitHubUrl(repoUrl)
+  return repository ? getGitHubAppRepoToken(repository.owner, repository.repo, userToken) : null
+}
+
+/**
+ * Token and user the task runs with on the repository's host: the token
+ * clones and pushes, the user authors the commits. Tasks without a
+ * repository, or on an unknown host, use the user's GitHub account.
+ *
+ * On GitHub repositories with the GitHub App installed, the task pushes with
+ * an installation token as the app's bot, and coAuthor credits the user.
+ */
+export async function getRepoGitAccount(
+  userId: string,
+  repoUrl: string | null,
+): Promise<{
+  token: string | null
+  user: { username: string; name: string | null; email: string | null } | null
+  coAuthor: { name: string; email: string } | null
+}> {
+  const provider = repoUrl ? getGitProviderForUrl(repoUrl) : null
+
+  if (!provider || provider.name === 'github') {
+    const [token, user] = await Promise.all([getGitHubTokenByUserId(userId), getGitHubUser(userId)])
+    const appToken = token && repoUrl ? await getGitHubAppToken(repoUrl, token) : null
+    const botUser = appToken ? await getGitHubAppBotUser() : null
+
+    if (appToken && botUser) {
+      const coAuthor = user && {
+        name: user.name || user.username,
+        email: `${user.username}@users.noreply.github.com`,
+      }
+      return { token: appToken, user: botUser, coAuthor }
+    }
+    return { token, user, coAuthor: null }
+  }
+
+  const token = await getGitProviderToken(userId, provider.name)
+  const user = token ? await provider.getUser(token).catch(() => null) : null
+  return { token, user: user && { username: user.username, name: user.name, email: user.email }, coAuthor: null }
+}
+
+/**
+ * Token for pushing at the end of a task that started with `token`.
+ *
+ * Installation tokens expire an hour after they are minted, which a long task
+ * can outlive, so tasks running as the GitHub App get a current one. Other
+ * tokens are returned unchanged.
+ *
+ * @param isAppToken - Whether `token` is an installation token (the task has a co-author)
+ */
+export async function getRepoPushToken(
+  userId: string | undefined,
+  repoUrl: string,
+  token: string | null | undefined,
+  isAppToken: boolean,
+): Promise<string | null> {
+  if (!isAppToken || !userId) {
+    return token ?? null
+  }
+
+  const { token: currentToken } = await getRepoGitAccount(userId, repoUrl)
+  return currentToken || token || null
+}
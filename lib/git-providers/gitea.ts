@@ -0,0 +1,259 @@
+import { parseRepoPath, requestJson, requestText, trimTrailingSlash } from './http'
+import {
+  CreateGitPullRequestParams,
+  GitBranch,
+  GitCheck,
+  GitComment,
+  GitMergeResult,
+  GitOAuthConfig,
+  GitProvider,
+  GitPullRequest,
+  GitRepository,
+  GitRepositorySummary,
+  GitUser,
+  MergeGitPullRequestParams,
+} from './types'
+
+// Gitea caps page sizes at 50 by default
+const PAGE_SIZE = 50
+const MAX_BRANCH_PAGES = 20
+
+interface GiteaUser {
+  id: number
+  login: string
+  full_name: string
+  email: string
+  avatar_url: string
+}
+
+interface GiteaRepository {
+  name: string
+  full_name: string
+  description: string
+  private: boolean
+  clone_url: string
+  default_branch: string
+  updated_at: string
+}
+
+interface GiteaPullRequest {
+  number: number
+  html_url: string
+  merged: boolean
+  merge_commit_sha: string | null
+}
+
+interface GiteaComment {
+  id: number
+  body: string
+  html_url: string
+  created_at: string
+  user: { login: string; avatar_url: string } | null
+}
+
+interface GiteaCommitStatus {
+  id: number
+  context: string
+  status: 'pending' | 'success' | 'error' | 'failure' | 'warning'
+  target_url: string
+  created_at: string
+  updated_at: string
+}
+
+function toGitCheck(status: GiteaCommitStatus): GitCheck {
+  const check = {
+    id: status.id,
+    name: status.context,
+    url: status.target_url || null,
+    startedAt: status.created_at,
+  }
+
+  switch (status.status) {
+    case 'pending':
+      return { ...check, status: 'in_progress', conclusion: null, completedAt: null }
+    case 'success':
+      return { ...check, status: 'completed', conclusion: 'success', completedAt: status.updated_at }
+    case 'warning':
+      return { ...check, status: 'completed', conclusion: 'neutral', completedAt: status.updated_at }
+    default:
+      return { ...check, status: 'completed', conclusion: 'failure', completedAt: status.updated_at }
+  }
+}
+
+/**
+ * Self-hosted Gitea (and Forgejo) at GITEA_URL.
+ * OAuth uses an application registered on the instance (GITEA_CLIENT_ID, GITEA_CLIENT_SECRET).
+ */
+export class GiteaProvider implements GitProvider {
+  readonly name = 'gitea' as const
+  readonly displayName = 'Gitea'
+  readonly baseUrl: string
+  // Gitea reads the token from the password and ignores the username
+  readonly gitUsername = 'oauth2'
+
+  constructor(baseUrl: string) {
+    this.baseUrl = trimTrailingSlash(baseUrl)
+  }
+
+  get oauth(): GitOAuthConfig | null {
+    const clientId = process.env.GITEA_CLIENT_ID
+    const clientSecret = process.env.GITEA_CLIENT_SECRET
+    if (!clientId || !clientSecret) return null
+
+    return {
+      authorizeUrl: `${this.baseUrl}/login/oauth/authorize`,
+      tokenUrl: `${this.baseUrl}/login/oauth/access_token`,
+      clientId,
+      clientSecret,
+      scope: 'read:user write:repository write:issue',
+    }
+  }
+
+  private api(path: string): string {
+    return `${this.baseUrl}/api/v1${path}`
+  }
+
+  private repo({ owner, repo }: GitRepository): string {
+    return `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`
+  }
+
+  parseRepoUrl(repoUrl: string): GitRepository | null {
+    return parseRepoPath(repoUrl, this.baseUrl)
+  }
+
+  getRepoUrl({ owner, repo }: GitRepository): string {
+    return `${this.baseUrl}/${owner}/${repo}`
+  }
+
+  async getUser(token: string): Promise<GitUser> {
+    const user = await requestJson<GiteaUser>(this.api('/user'), token)
+    return {
+      id: `${user.id}`,
+      username: user.login,
+      name: user.full_name || null,
+      email: user.email || null,
+      avatarUrl: user.avatar_url || null,
+    }
+  }
+
+  async listRepositories(token: string, options: { page?: number; perPage?: number } = {}) {
+    const params = new URLSearchParams({
+      page: `${options.page || 1}`,
+      limit: `${Math.min(options.perPage || 30, PAGE_SIZE)}`,
+    })
+    const repos = await requestJson<GiteaRepository[]>(this.api(`/user/repos?${params}`), token)
+    return repos.map(
+      (repo): GitRepositorySummary => ({
+        name: repo.name,
+        fullName: repo.full_name,
+        description: repo.description || null,
+        private: repo.private,
+        cloneUrl: repo.clone_url,
+        defaultBranch: repo.default_branch || null,
+        updatedAt: repo.updated_at || null,
+      }),
+    )
+  }
+
+  async getDefaultBranch(token: string | null, repository: GitRepository): Promise<string> {
+    const repo = await requestJson<GiteaRepository>(this.api(this.repo(repository)), token)
+    return repo.default_branch || 'main'
+  }
+
+  async listBranches(token: string | null, repository: GitRepository): Promise<GitBranch[]> {
+    const branches: GitBranch[] = []
+
+    for (let page = 1; page <= MAX_BRANCH_PAGES; page++) {
+      const data = await requestJson<{ name: string; protected: boolean; commit: { id: string } }[]>(
+        this.api(`${this.repo(repository)}/branches?limit=${PAGE_SIZE}&page=${page}`),
+        token,
+      )
+      branches.push(
+        ...data.map((branch) => ({ name: branch.name, sha: branch.commit.id, protected: branch.protected })),
+      )
+      if (data.length < PAGE_SIZE) break
+    }
+
+    return branches
+  }
+
+  async getFileContent(
+    token: string | null,
+    repository: GitRepository,
+    path: string,
+    ref?: string,
+  ): Promise<string | null> {
+    const filePath = path.split('/').map(encodeURIComponent).join('/')
+    const query = ref ? `?ref=${encodeURIComponent(ref)}` : ''
+    return requestText(this.api(`${this.repo(repository)}/raw/${filePath}${query}`), token)
+  }
+
+  async createPullRequest(
+    token: string,
+    repository: GitRepository,
+    params: CreateGitPullRequestParams,
+  ): Promise<GitPullRequest> {
+    const pullRequest = await requestJson<GiteaPullRequest>(this.api(`${this.repo(repository)}/pulls`), token, {
+      method: 'POST',
+      body: { head: params.head, base: params.base, title: params.title, body: params.body || '' },
+    })
+    return { number: pullRequest.number, url: pullRequest.html_url }
+  }
+
+  async mergePullRequest(
+    token: string,
+    repository: GitRepository,
+    number: number,
+    params: MergeGitPullRequestParams = {},
+  ): Promise<GitMergeResult> {
+    await requestJson(this.api(`${this.repo(repository)}/pulls/${number}/merge`), token, {
+      method: 'POST',
+      body: {
+        Do: params.method || 'squash',
+        MergeTitleField: params.commitTitle,
+        MergeMessageField: params.commitMessage,
+      },
+    })
+
+    // The merge endpoint returns no content; the merge commit is read from the pull request
+    const pullRequest = await requestJson<GiteaPullRequest>(this.api(`${this.repo(repository)}/pulls/${number}`), token)
+    return { merged: pullRequest.merged, sha: pullRequest.merge_commit_sha || undefined }
+  }
+
+  async closePullRequest(token: string, repository: GitRepository, number: number): Promise<void> {
+    await requestJson(this.api(`${this.repo(repository)}/pulls/${number}`), token, {
+      method: 'PATCH',
+      body: { state: 'closed' },
+    })
+  }
+
+  async listPullRequestComments(token: string, repository: GitRepository, number: number): Promise<GitComment[]> {
+    const comments = await requestJson<GiteaComment[]>(
+      this.api(`${this.repo(repository)}/issues/${number}/comments`),
+      token,
+    )
+    return comments.map((comment) => ({
+      id: comment.id,
+      author: comment.user?.login || 'unknown',
+      avatarUrl: comment.user?.avatar_url || null,
+      body: comment.body,
+      url: comment.html_url || null,
+      createdAt: comment.created_at,
+    }))
+  }
+
+  async createPullRequestComment(token: string, repository: GitRepository, number: number, body: string) {
+    await requestJson(this.api(`${this.repo(repository)}/issues/${number}/comments`), token, {
+      method: 'POST',
+      body: { body },
+    })
+  }
+
+  async listChecks(token: string, repository: GitRepository, ref: string): Promise<GitCheck[]> {
+    const statuses = await requestJson<GiteaCommitStatus[]>(
+      this.api(`${this.repo(repository)}/commits/${encodeURIComponent(ref)}/statuses?limit=${PAGE_SIZE}`),
+      token,
+    )
+    return statuses.map(toGitCheck)
+  }
+}
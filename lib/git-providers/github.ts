@@ -0,0 +1,253 @@
+import { Octokit } from '@octokit/rest'
+import { parseRepoPath, trimTrailingSlash } from './http'
+import {
+  CreateGitPullRequestParams,
+  GitBranch,
+  GitCheck,
+  GitComment,
+  GitMergeResult,
+  GitOAuthConfig,
+  GitProvider,
+  GitProviderError,
+  GitPullRequest,
+  GitRepository,
+  GitRepositorySummary,
+  GitUser,
+  MergeGitPullRequestParams,
+} from './types'
+
+const DEFAULT_GITHUB_URL = 'https://github.com'
+
+// Branch listing stops after this many pages of 100
+const MAX_BRANCH_PAGES = 10
+
+/**
+ * Web URL of the GitHub instance. GITHUB_URL points the app at GitHub Enterprise Server.
+ */
+export function getGitHubWebUrl(): string {
+  return trimTrailingSlash(process.env.GITHUB_URL || DEFAULT_GITHUB_URL)
+}
+
+/**
+ * REST API URL of the GitHub instance (GITHUB_API_URL, or /api/v3 of an Enterprise Server)
+ */
+export function getGitHubApiUrl(): string {
+  if (process.env.GITHUB_API_URL) {
+    return trimTrailingSlash(process.env.GITHUB_API_URL)
+  }
+  const webUrl = getGitHubWebUrl()
+  return webUrl === DEFAULT_GITHUB_URL ? 'https://api.github.com' : `${webUrl}/api/v3`
+}
+
+async function withGitHubErrors<T>(request: () => Promise<T>): Promise<T> {
+  try {
+    return await request()
+  } catch (error) {
+    if (error && typeof error === 'object' && 'status' in error && typeof error.status === 'number') {
+      throw new GitProviderError(error instanceof Error ? error.message : 'GitHub request failed', error.status)
+    }
+    throw error
+  }
+}
+
+function getCheckConclusion(conclusion: string | null): GitCheck['conclusion'] {
+  switch (conclusion) {
+    case 'success':
+    case 'cancelled':
+    case 'skipped':
+    case 'neutral':
+      return conclusion
+    case null:
+      return null
+    default:
+      // failure, timed_out, action_required, stale
+      return 'failure'
+  }
+}
+
+/**
+ * GitHub and GitHub Enterprise Server.
+ * OAuth uses the app's GitHub OAuth app (NEXT_PUBLIC_GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET).
+ */
+export class GitHubProvider implements GitProvider {
+  readonly name = 'github' as const
+  readonly displayName = 'GitHub'
+  readonly baseUrl = getGitHubWebUrl()
+  readonly gitUsername = 'x-access-token'
+
+  get oauth(): GitOAuthConfig | null {
+    const clientId = process.env.NEXT_PUBLIC_GITHUB_CLIENT_ID
+    const clientSecret = process.env.GITHUB_CLIENT_SECRET
+    if (!clientId || !clientSecret) return null
+
+    return {
+      authorizeUrl: `${this.baseUrl}/login/oauth/authorize`,
+      tokenUrl: `${this.baseUrl}/login/oauth/access_token`,
+      clientId,
+      clientSecret,
+      scope: 'repo,read:user,user:email',
+    }
+  }
+
+  private client(token: string | null): Octokit {
+    return new Octokit({ auth: token || undefined, baseUrl: getGitHubApiUrl() })
+  }
+
+  parseRepoUrl(repoUrl: string): GitRepository | null {
+    return parseRepoPath(repoUrl, this.baseUrl)
+  }
+
+  getRepoUrl({ owner, repo }: GitRepository): string {
+    return `${this.baseUrl}/${owner}/${repo}`
+  }
+
+  async getUser(token: string): Promise<GitUser> {
+    const { data } = await withGitHubErrors(() => this.client(token).rest.users.getAuthenticated())
+    return {
+      id: `${data.id}`,
+      username: data.login,
+      name: data.name,
+      email: data.email,
+      avatarUrl: data.avatar_url,
+    }
+  }
+
+  async listRepositories(token: string, options: { page?: number; perPage?: number } = {}) {
+    const { data } = await withGitHubErrors(() =>
+      this.client(token).rest.repos.listForAuthenticatedUser({
+        sort: 'updated',
+        page: options.page || 1,
+        per_page: options.perPage || 30,
+      }),
+    )
+    return data.map(
+      (repo): GitRepositorySummary => ({
+        name: repo.name,
+        fullName: repo.full_name,
+        description: repo.description,
+        private: repo.private,
+        cloneUrl: repo.clone_url,
+        defaultBranch: repo.default_branch,
+        updatedAt: repo.updated_at,
+      }),
+    )
+  }
+
+  async getDefaultBranch(token: string | null, { owner, repo }: GitRepository): Promise<string> {
+    const { data } = await withGitHubErrors(() => this.client(token).rest.repos.get({ owner, repo }))
+    return data.default_branch
+  }
+
+  async listBranches(token: string | null, { owner, repo }: GitRepository): Promise<GitBranch[]> {
+    const octokit = this.client(token)
+    const branches: GitBranch[] = []
+
+    for (let page = 1; page <= MAX_BRANCH_PAGES; page++) {
+      const { data } = await withGitHubErrors(() =>
+        octokit.rest.repos.listBranches({ owner, repo, per_page: 100, page }),
+      )
+      branches.push(
+        ...data.map((branch) => ({ name: branch.name, sha: branch.commit.sha, protected: branch.protected })),
+      )
+      if (data.length < 100) break
+    }
+
+    return branches
+  }
+
+  async getFileContent(
+    token: string | null,
+    { owner, repo }: GitRepository,
+    path: string,
+    ref?: string,
+  ): Promise<string | null> {
+    try {
+      const { data } = await this.client(token).rest.repos.getContent({ owner, repo, path, ref })
+      if ('content' in data && data.type === 'file') {
+        return Buffer.from(data.content, 'base64').toString('utf-8')
+      }
+      return null
+    } catch (error) {
+      if (error && typeof error === 'object' && 'status' in error && error.status === 404) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async createPullRequest(
+    token: string,
+    { owner, repo }: GitRepository,
+    params: CreateGitPullRequestParams,
+  ): Promise<GitPullRequest> {
+    const { data } = await withGitHubErrors(() =>
+      this.client(token).rest.pulls.create({
+        owner,
+        repo,
+        head: params.head,
+        base: params.base,
+        title: params.title,
+        body: params.body || '',
+      }),
+    )
+    return { number: data.number, url: data.html_url }
+  }
+
+  async mergePullRequest(
+    token: string,
+    { owner, repo }: GitRepository,
+    number: number,
+    params: MergeGitPullRequestParams = {},
+  ): Promise<GitMergeResult> {
+    const { data } = await withGitHubErrors(() =>
+      this.client(token).rest.pulls.merge({
+        owner,
+        repo,
+        pull_number: number,
+        commit_title: params.commitTitle,
+        commit_message: params.commitMessage,
+        merge_method: params.method || 'squash',
+      }),
+    )
+    return { merged: data.merged, sha: data.sha, message: data.message }
+  }
+
+  async closePullRequest(token: string, { owner, repo }: GitRepository, number: number): Promise<void> {
+    await withGitHubErrors(() =>
+      this.client(token).rest.pulls.update({ owner, repo, pull_number: number, state: 'closed' }),
+    )
+  }
+
+  async listPullRequestComments(token: string, { owner, repo }: GitRepository, number: number): Promise<GitComment[]> {
+    const { data } = await withGitHubErrors(() =>
+      this.client(token).rest.issues.listComments({ owner, repo, issue_number: number, per_page: 100 }),
+    )
+    return data.map((comment) => ({
+      id: comment.id,
+      author: comment.user?.login || 'unknown',
+      avatarUrl: comment.user?.avatar_url || null,
+      body: comment.body || '',
+      url: comment.html_url,
+      createdAt: comment.created_at,
+    }))
+  }
+
+  async createPullRequestComment(token: string, { owner, repo }: GitRepository, number: number, body: string) {
+    await withGitHubErrors(() =>
+      this.client(token).rest.issues.createComment({ owner, repo, issue_number: number, body }),
+    )
+  }
+
+  async listChecks(token: string, { owner, repo }: GitRepository, ref: string): Promise<GitCheck[]> {
+    const { data } = await withGitHubErrors(() => this.client(token).rest.checks.listForRef({ owner, repo, ref }))
+    return data.check_runs.map((run) => ({
+      id: run.id,
+      name: run.name,
+      status: run.status === 'completed' || run.status === 'in_progress' ? run.status : 'queued',
+      conclusion: getCheckConclusion(run.conclusion),
+      url: run.html_url,
+      startedAt: run.started_at,
+      completedAt: run.completed_at,
+    }))
+  }
+}
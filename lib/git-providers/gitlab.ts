@@ -0,0 +1,296 @@
+import { parseRepoPath, requestJson, requestText, trimTrailingSlash } from './http'
+import {
+  CreateGitPullRequestParams,
+  GitBranch,
+  GitCheck,
+  GitComment,
+  GitMergeResult,
+  GitOAuthConfig,
+  GitProvider,
+  GitPullRequest,
+  GitRepository,
+  GitRepositorySummary,
+  GitUser,
+  MergeGitPullRequestParams,
+} from './types'
+
+const DEFAULT_GITLAB_URL = 'https://gitlab.com'
+
+// Branch listing stops after this many pages of 100
+const MAX_BRANCH_PAGES = 10
+
+interface GitLabUser {
+  id: number
+  username: string
+  name: string | null
+  email?: string | null
+  public_email?: string | null
+  avatar_url: string | null
+}
+
+interface GitLabProject {
+  name: string
+  path_with_namespace: string
+  description: string | null
+  visibility: 'private' | 'internal' | 'public'
+  http_url_to_repo: string
+  default_branch: string | null
+  last_activity_at: string | null
+}
+
+interface GitLabMergeRequest {
+  iid: number
+  web_url: string
+  state: string
+  merge_commit_sha: string | null
+  squash_commit_sha: string | null
+}
+
+interface GitLabNote {
+  id: number
+  body: string
+  system: boolean
+  created_at: string
+  author: { username: string; avatar_url: string | null }
+}
+
+interface GitLabCommitStatus {
+  id: number
+  name: string
+  status: string
+  allow_failure: boolean
+  target_url: string | null
+  started_at: string | null
+  finished_at: string | null
+}
+
+// Pipeline job statuses reported as commit statuses
+function toGitCheck(status: GitLabCommitStatus): GitCheck {
+  const check = {
+    id: status.id,
+    name: status.name,
+    url: status.target_url,
+    startedAt: status.started_at,
+    completedAt: status.finished_at,
+  }
+
+  switch (status.status) {
+    case 'running':
+      return { ...check, status: 'in_progress', conclusion: null }
+    case 'success':
+      return { ...check, status: 'completed', conclusion: 'success' }
+    case 'failed':
+      return { ...check, status: 'completed', conclusion: status.allow_failure ? 'neutral' : 'failure' }
+    case 'canceled':
+      return { ...check, status: 'completed', conclusion: 'cancelled' }
+    case 'skipped':
+    case 'manual':
+      return { ...check, status: 'completed', conclusion: 'skipped' }
+    default:
+      // created, waiting_for_resource, preparing, pending, scheduled
+      return { ...check, status: 'queued', conclusion: null }
+  }
+}
+
+/**
+ * GitLab.com or a self-managed instance (GITLAB_URL).
+ * OAuth uses an application registered on the instance (GITLAB_CLIENT_ID, GITLAB_CLIENT_SECRET).
+ * Merge requests are exposed as pull requests, numbered by their IID.
+ */
+export class GitLabProvider implements GitProvider {
+  readonly name = 'gitlab' as const
+  readonly displayName = 'GitLab'
+  readonly baseUrl = trimTrailingSlash(process.env.GITLAB_URL || DEFAULT_GITLAB_URL)
+  // GitLab only accepts OAuth tokens with this username; personal access tokens work with any
+  readonly gitUsername = 'oauth2'
+
+  get oauth(): GitOAuthConfig | null {
+    const clientId = process.env.GITLAB_CLIENT_ID
+    const clientSecret = process.env.GITLAB_CLIENT_SECRET
+    if (!clientId || !clientSecret) return null
+
+    return {
+      authorizeUrl: `${this.baseUrl}/oauth/authorize`,
+      tokenUrl: `${this.baseUrl}/oauth/token`,
+      clientId,
+      clientSecret,
+      scope: 'api read_user write_repository',
+    }
+  }
+
+  private api(path: string): string {
+    return `${this.baseUrl}/api/v4${path}`
+  }
+
+  private project({ owner, repo }: GitRepository): string {
+    return `/projects/${encodeURIComponent(`${owner}/${repo}`)}`
+  }
+
+  parseRepoUrl(repoUrl: string): GitRepository | null {
+    return parseRepoPath(repoUrl, this.baseUrl, true)
+  }
+
+  getRepoUrl({ owner, repo }: GitRepository): string {
+    return `${this.baseUrl}/${owner}/${repo}`
+  }
+
+  async getUser(token: string): Promise<GitUser> {
+    const user = await requestJson<GitLabUser>(this.api('/user'), token)
+    return {
+      id: `${user.id}`,
+      username: user.username,
+      name: user.name,
+      email: user.public_email || user.email || null,
+      avatarUrl: user.avatar_url,
+    }
+  }
+
+  async listRepositories(token: string, options: { page?: number; perPage?: number } = {}) {
+    const params = new URLSearchParams({
+      membership: 'true',
+      order_by: 'last_activity_at',
+      page: `${options.page || 1}`,
+      per_page: `${options.perPage || 30}`,
+    })
+    const projects = await requestJson<GitLabProject[]>(this.api(`/projects?${params}`), token)
+    return projects.map(
+      (project): GitRepositorySummary => ({
+        name: project.name,
+        fullName: project.path_with_namespace,
+        description: project.description,
+        private: project.visibility !== 'public',
+        cloneUrl: project.http_url_to_repo,
+        defaultBranch: project.default_branch,
+        updatedAt: project.last_activity_at,
+      }),
+    )
+  }
+
+  async getDefaultBranch(token: string | null, repository: GitRepository): Promise<string> {
+    const project = await requestJson<GitLabProject>(this.api(this.project(repository)), token)
+    return project.default_branch || 'main'
+  }
+
+  async listBranches(token: string | null, repository: GitRepository): Promise<GitBranch[]> {
+    const branches: GitBranch[] = []
+
+    for (let page = 1; page <= MAX_BRANCH_PAGES; page++) {
+      const data = await requestJson<{ name: string; protected: boolean; commit: { id: string } }[]>(
+        this.api(`${this.project(repository)}/repository/branches?per_page=100&page=${page}`),
+        token,
+      )
+      branches.push(
+        ...data.map((branch) => ({ name: branch.name, sha: branch.commit.id, protected: branch.protected })),
+      )
+      if (data.length < 100) break
+    }
+
+    return branches
+  }
+
+  async getFileContent(
+    token: string | null,
+    repository: GitRepository,
+    path: string,
+    ref?: string,
+  ): Promise<string | null> {
+    const query = ref ? `?ref=${encodeURIComponent(ref)}` : ''
+    return requestText(
+      this.api(`${this.project(repository)}/repository/files/${encodeURIComponent(path)}/raw${query}`),
+      token,
+    )
+  }
+
+  async createPullRequest(
+    token: string,
+    repository: GitRepository,
+    params: CreateGitPullRequestParams,
+  ): Promise<GitPullRequest> {
+    const mergeRequest = await requestJson<GitLabMergeRequest>(
+      this.api(`${this.project(repository)}/merge_requests`),
+      token,
+      {
+        method: 'POST',
+        body: {
+          source_branch: params.head,
+          target_branch: params.base,
+          title: params.title,
+          description: params.body || '',
+        },
+      },
+    )
+    return { number: mergeRequest.iid, url: mergeRequest.web_url }
+  }
+
+  async mergePullRequest(
+    token: string,
+    repository: GitRepository,
+    number: number,
+    params: MergeGitPullRequestParams = {},
+  ): Promise<GitMergeResult> {
+    // Merge commits and rebases follow the project's merge method; only squashing is chosen per request
+    const squash = (params.method || 'squash') === 'squash'
+    const message = [params.commitTitle, params.commitMessage].filter(Boolean).join('\n\n') || undefined
+
+    const mergeRequest = await requestJson<GitLabMergeRequest>(
+      this.api(`${this.project(repository)}/merge_requests/${number}/merge`),
+      token,
+      {
+        method: 'PUT',
+        body: {
+          squash,
+          ...(message && (squash ? { squash_commit_message: message } : { merge_commit_message: message })),
+        },
+      },
+    )
+    return {
+      merged: mergeRequest.state === 'merged',
+      sha: mergeRequest.merge_commit_sha || mergeRequest.squash_commit_sha || undefined,
+    }
+  }
+
+  async closePullRequest(token: string, repository: GitRepository, number: number): Promise<void> {
+    await requestJson(this.api(`${this.project(repository)}/merge_requests/${number}`), token, {
+      method: 'PUT',
+      body: { state_event: 'close' },
+    })
+  }
+
+  async listPullRequestComments(token: string, repository: GitRepository, number: number): Promise<GitComment[]> {
+    const notes = await requestJson<GitLabNote[]>(
+      this.api(`${this.project(repository)}/merge_requests/${number}/notes?sort=asc&per_page=100`),
+      token,
+    )
+    // System notes record events (pushes, label changes), not comments
+    return notes
+      .filter((note) => !note.system)
+      .map((note) => ({
+        id: note.id,
+        author: note.author.username,
+        avatarUrl: note.author.avatar_url,
+        body: note.body,
+        url: `${this.getRepoUrl(repository)}/-/merge_requests/${number}#note_${note.id}`,
+        createdAt: note.created_at,
+      }))
+  }
+
+  async createPullRequestComment(token: string, repository: GitRepository, number: number, body: string) {
+    await requestJson(this.api(`${this.project(repository)}/merge_requests/${number}/notes`), token, {
+      method: 'POST',
+      body: { body },
+    })
+  }
+
+  async listChecks(token: string, repository: GitRepository, ref: string): Promise<GitCheck[]> {
+    // Statuses are listed per commit SHA, so resolve branch names first
+    const commit = await requestJson<{ id: string }>(
+      this.api(`${this.project(repository)}/repository/commits/${encodeURIComponent(ref)}`),
+      token,
+    )
+    const statuses = await requestJson<GitLabCommitStatus[]>(
+      this.api(`${this.project(repository)}/repository/commits/${commit.id}/statuses?per_page=100`),
+      token,
+    )
+    return statuses.map(toGitCheck)
+  }
+}
@@ -0,0 +1,107 @@
+import { GitProviderError, GitRepository } from './types'
+
+/**
+ * Send a request to a git host REST API and parse the JSON response.
+ * Responses without content resolve to null.
+ */
+export async function requestJson<T>(
+  url: string,
+  token: string | null,
+  init: { method?: string; body?: unknown } = {},
+): Promise<T> {
+  const response = await fetch(url, {
+    method: init.method || 'GET',
+    headers: {
+      Accept: 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` }),
+      ...(init.body !== undefined && { 'Content-Type': 'application/json' }),
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+    signal: AbortSignal.timeout(15000),
+  })
+
+  if (!response.ok) {
+    throw new GitProviderError(`Request failed with status ${response.status}`, response.status)
+  }
+
+  const text = await response.text()
+  return (text ? JSON.parse(text) : null) as T
+}
+
+/**
+ * Fetch a raw file, or null if it doesn't exist
+ */
+export async function requestText(url: string, token: string | null): Promise<string | null> {
+  const response = await fetch(url, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    signal: AbortSignal.timeout(15000),
+  })
+
+  if (response.status === 404) {
+    return null
+  }
+  if (!response.ok) {
+    throw new GitProviderError(`Request failed with status ${response.status}`, response.status)
+  }
+  return response.text()
+}
+
+export function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '')
+}
+
+function normalizeHost(host: string): string {
+  return host.toLowerCase().replace(/^www\./, '')
+}
+
+/**
+ * Whether an HTTPS URL points at the instance with the given base URL
+ */
+export function isSameHost(url: string, baseUrl: string): boolean {
+  try {
+    return normalizeHost(new URL(url).host) === normalizeHost(new URL(baseUrl).host)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Parse https://host[/prefix]/owner/repo(.git) into owner and repo.
+ * With nestedOwner, the owner may span several path segments (GitLab subgroups).
+ */
+export function parseRepoPath(repoUrl: string, baseUrl: string, nestedOwner = false): GitRepository | null {
+  if (!isSameHost(repoUrl, baseUrl)) {
+    return null
+  }
+
+  try {
+    const url = new URL(repoUrl)
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      return null
+    }
+
+    // Instances served under a path prefix (https://example.com/gitea)
+    const prefix = trimTrailingSlash(new URL(baseUrl).pathname)
+    let path = url.pathname
+    if (prefix && path.startsWith(`${prefix}/`)) {
+      path = path.slice(prefix.length)
+    }
+
+    const segments = path
+      .replace(/\/+$/, '')
+      .replace(/\.git$/, '')
+      .split('/')
+      .filter(Boolean)
+
+    if (segments.length < 2 || (!nestedOwner && segments.length !== 2)) {
+      return null
+    }
+    if (!segments.every((segment) => /^[\w.-]+$/.test(segment))) {
+      return null
+    }
+
+    return { owner: segments.slice(0, -1).join('/'), repo: segments[segments.length - 1] }
+  } catch {
+    return null
+  }
+}
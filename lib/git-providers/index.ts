@@ -0,0 +1,49 @@
+import { GiteaProvider } from './gitea'
+import { GitHubProvider } from './github'
+import { GitLabProvider } from './gitlab'
+import { GitProvider } from './types'
+
+export type {
+  CreateGitPullRequestParams,
+  GitBranch,
+  GitCheck,
+  GitComment,
+  GitMergeResult,
+  GitOAuthConfig,
+  GitProvider,
+  GitProviderName,
+  GitPullRequest,
+  GitRepository,
+  GitRepositorySummary,
+  GitUser,
+  MergeGitPullRequestParams,
+} from './types'
+export { GitProviderError } from './types'
+export { getGitHubApiUrl, getGitHubWebUrl } from './github'
+
+let _providers: GitProvider[] | null = null
+
+/**
+ * Git hosts the app can work with. GitHub (GITHUB_URL) and GitLab
+ * (GITLAB_URL) are always available; Gitea needs GITEA_URL.
+ */
+export function getGitProviders(): GitProvider[] {
+  if (!_providers) {
+    _providers = [new GitHubProvider(), new GitLabProvider()]
+    if (process.env.GITEA_URL) {
+      _providers.push(new GiteaProvider(process.env.GITEA_URL))
+    }
+  }
+  return _providers
+}
+
+export function getGitProvider(name: string): GitProvider | null {
+  return getGitProviders().find((provider) => provider.name === name) ?? null
+}
+
+/**
+ * Provider hosting the repository, or null if the URL isn't a repository on a configured host
+ */
+export function getGitProviderForUrl(repoUrl: string): GitProvider | null {
+  return getGitProviders().find((provider) => provider.parseRepoUrl(repoUrl) !== null) ?? null
+}
@@ -0,0 +1,130 @@
+import 'server-only'
+
+import { closePullRequest, createPullRequest, mergePullRequest } from '@/lib/github/client'
+import { getGitProviderToken } from './accounts'
+import { getGitProviderForUrl } from './index'
+import { GitProvider, GitProviderError, GitRepository } from './types'
+
+/**
+ * Pull request operations for task repositories on any git host. GitHub
+ * repositories go through lib/github/client (forks, session auth); other
+ * hosts through their GitProvider with the user's linked account.
+ */
+
+type ProviderErrorResult = { success: false; error: string }
+
+function handleProviderError(provider: GitProvider, error: unknown, context: string): ProviderErrorResult {
+  console.error(`Error ${context}`)
+
+  const status = error instanceof GitProviderError ? error.status : null
+  const messages: Record<number, string> = {
+    401: `${provider.displayName} token was revoked or expired`,
+    403: 'Permission denied. Check repository access',
+    404: 'Repository or pull request not found',
+    405: 'Pull request is not mergeable',
+    409: 'Pull request already exists or cannot be merged',
+    422: 'Pull request already exists or branch does not exist',
+  }
+  return { success: false, error: (status && messages[status]) || `Failed to ${context}` }
+}
+
+// Unknown hosts keep going through the GitHub client, which reports the invalid URL
+function isGitHubRepository(repoUrl: string): boolean {
+  const provider = getGitProviderForUrl(repoUrl)
+  return !provider || provider.name === 'github'
+}
+
+async function withProviderAccess<T>(
+  userId: string,
+  repoUrl: string,
+  callback: (provider: GitProvider, token: string, repository: GitRepository) => Promise<T>,
+): Promise<T | ProviderErrorResult> {
+  const provider = getGitProviderForUrl(repoUrl)
+  const repository = provider?.parseRepoUrl(repoUrl)
+  if (!provider || !repository) {
+    return { success: false, error: 'Invalid repository URL' }
+  }
+
+  const token = await getGitProviderToken(userId, provider.name)
+  if (!token) {
+    return { success: false, error: `${provider.displayName} account not connected` }
+  }
+
+  return callback(provider, token, repository)
+}
+
+export async function createTaskPullRequest(
+  userId: string,
+  params: {
+    repoUrl: string
+    branchName: string
+    title: string
+    body?: string
+    baseBranch?: string
+    headRepoUrl?: string | null
+  },
+): Promise<{ success: boolean; prUrl?: string; prNumber?: number; error?: string }> {
+  if (isGitHubRepository(params.repoUrl)) {
+    return createPullRequest({ ...params, userId })
+  }
+
+  return withProviderAccess(userId, params.repoUrl, async (provider, token, repository) => {
+    try {
+      const pullRequest = await provider.createPullRequest(token, repository, {
+        head: params.branchName,
+        base: params.baseBranch || 'main',
+        title: params.title,
+        body: params.body,
+      })
+      return { success: true, prUrl: pullRequest.url, prNumber: pullRequest.number }
+    } catch (error) {
+      return handleProviderError(provider, error, 'create pull request')
+    }
+  })
+}
+
+export async function mergeTaskPullRequest(
+  userId: string,
+  params: {
+    repoUrl: string
+    prNumber: number
+    commitTitle?: string
+    commitMessage?: string
+    mergeMethod?: 'merge' | 'squash' | 'rebase'
+  },
+): Promise<{ success: boolean; merged?: boolean; message?: string; sha?: string; error?: string }> {
+  if (isGitHubRepository(params.repoUrl)) {
+    return mergePullRequest({ ...params, userId })
+  }
+
+  return withProviderAccess(userId, params.repoUrl, async (provider, token, repository) => {
+    try {
+      const result = await provider.mergePullRequest(token, repository, params.prNumber, {
+        method: params.mergeMethod,
+        commitTitle: params.commitTitle,
+        commitMessage: params.commitMessage,
+      })
+      return { success: true, ...result }
+    } catch (error) {
+      return handleProviderError(provider, error, 'merge pull request')
+    }
+  })
+}
+
+export async function closeTaskPullRequest(
+  userId: string,
+  params: { repoUrl: string; prNumber: number },
+): Promise<{ success: boolean; error?: string }> {
+  if (isGitHubRepository(params.repoUrl)) {
+    return closePullRequest(params.repoUrl, params.prNumber, userId)
+  }
+
+  return withProviderAccess(userId, params.repoUrl, async (provider, token, repository) => {
+    try {
+      await provider.closePullRequest(token, repository, params.prNumber)
+      return { success: true }
+    } catch (error) {
+      return handleProviderError(provider, error, 'close pull request')
+    }
+  })
+}
@@ -0,0 +1,145 @@
+export type GitProviderName = 'github' | 'gitlab' | 'gitea'
+
+/**
+ * Repository on a git host. For GitLab, owner is the full namespace path
+ * (group/subgroup).
+ */
+export interface GitRepository {
+  owner: string
+  repo: string
+}
+
+export interface GitUser {
+  id: string
+  username: string
+  name: string | null
+  email: string | null
+  avatarUrl: string | null
+}
+
+export interface GitRepositorySummary {
+  name: string
+  fullName: string
+  description: string | null
+  private: boolean
+  cloneUrl: string
+  defaultBranch: string | null
+  updatedAt: string | null
+}
+
+export interface GitBranch {
+  name: string
+  sha: string
+  protected: boolean
+}
+
+export interface GitPullRequest {
+  number: number
+  url: string
+}
+
+export interface GitMergeResult {
+  merged: boolean
+  sha?: string
+  message?: string
+}
+
+export interface GitComment {
+  id: number
+  author: string
+  avatarUrl: string | null
+  body: string
+  url: string | null
+  createdAt: string
+}
+
+/** A CI check, commit status or pipeline job, normalized to GitHub's check run fields */
+export interface GitCheck {
+  id: number
+  name: string
+  status: 'queued' | 'in_progress' | 'completed'
+  conclusion: 'success' | 'failure' | 'cancelled' | 'skipped' | 'neutral' | null
+  url: string | null
+  startedAt: string | null
+  completedAt: string | null
+}
+
+/** OAuth application registered on the host, used for account linking */
+export interface GitOAuthConfig {
+  authorizeUrl: string
+  tokenUrl: string
+  clientId: string
+  clientSecret: string
+  scope: string
+}
+
+export interface CreateGitPullRequestParams {
+  /** Source branch */
+  head: string
+  /** Target branch */
+  base: string
+  title: string
+  body?: string
+}
+
+export interface MergeGitPullRequestParams {
+  method?: 'merge' | 'squash' | 'rebase'
+  commitTitle?: string
+  commitMessage?: string
+}
+
+/**
+ * Operations the app needs from a git host. Every call takes the user's
+ * access token for the host; null makes an unauthenticated request (public
+ * repositories only).
+ */
+export interface GitProvider {
+  readonly name: GitProviderName
+  readonly displayName: string
+  /** Web URL of the instance (https://github.com, https://gitlab.example.com) */
+  readonly baseUrl: string
+  /** Username given to git alongside the token for HTTPS clone and push */
+  readonly gitUsername: string
+  /** Null when no OAuth application is configured for the host */
+  readonly oauth: GitOAuthConfig | null
+
+  parseRepoUrl(repoUrl: string): GitRepository | null
+  getRepoUrl(repository: GitRepository): string
+
+  getUser(token: string): Promise<GitUser>
+  listRepositories(token: string, options?: { page?: number; perPage?: number }): Promise<GitRepositorySummary[]>
+  getDefaultBranch(token: string | null, repository: GitRepository): Promise<string>
+  listBranches(token: string | null, repository: GitRepository): Promise<GitBranch[]>
+  /** Text content of a file, or null if it doesn't exist */
+  getFileContent(token: string | null, repository: GitRepository, path: string, ref?: string): Promise<string | null>
+
+  createPullRequest(
+    token: string,
+    repository: GitRepository,
+    params: CreateGitPullRequestParams,
+  ): Promise<GitPullRequest>
+  mergePullRequest(
+    token: string,
+    repository: GitRepository,
+    number: number,
+    params?: MergeGitPullRequestParams,
+  ): Promise<GitMergeResult>
+  closePullRequest(token: string, repository: GitRepository, number: number): Promise<void>
+  listPullRequestComments(token: string, repository: GitRepository, number: number): Promise<GitComment[]>
+  createPullRequestComment(token: string, repository: GitRepository, number: number, body: string): Promise<void>
+  listChecks(token: string, repository: GitRepository, ref: string): Promise<GitCheck[]>
+}
+
+/**
+ * Thrown by providers when the host rejects a request. status is the HTTP
+ * status of the response.
+ */
+export class GitProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message)
+    this.name = 'GitProviderError'
+  }
+}
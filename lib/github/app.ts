@@ -0,0 +1,172 @@
+import 'server-only'
+
+import { createPrivateKey } from 'crypto'
+import { Octokit } from '@octokit/rest'
+import { SignJWT } from 'jose'
+import { getGitHubApiUrl } from '@/lib/git-providers/github'
+
+/**
+ * GitHub App authentication. When GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY are
+ * set, repositories the app is installed on are cloned, pushed to and commented
+ * on with short-lived installation tokens instead of the user's OAuth token.
+ * The user's own token is still used to check they can access the repository.
+ */
+
+// Installation tokens last an hour; mint a new one before it runs out mid-task
+const TOKEN_REFRESH_MARGIN_MS = 10 * 60 * 1000
+
+// Only what tasks need, rather than everything the installation was granted (see the README)
+const INSTALLATION_TOKEN_PERMISSIONS = {
+  contents: 'write',
+  pull_requests: 'write',
+  issues: 'write',
+  checks: 'read',
+} as const
+
+interface CachedInstallationToken {
+  token: string
+  expiresAt: number
+}
+
+const installationTokens = new Map<string, CachedInstallationToken>()
+let botUser: { username: string; name: string; email: string } | null = null
+
+export function isGitHubAppConfigured(): boolean {
+  return !!(process.env.GITHUB_APP_ID && process.env.GITHUB_APP_PRIVATE_KEY)
+}
+
+async function createAppJwt(): Promise<string> {
+  // Keys downloaded from GitHub are PKCS#1; also accept escaped newlines from env files
+  const privateKey = createPrivateKey(process.env.GITHUB_APP_PRIVATE_KEY!.replace(/\\n/g, '\n'))
+  const now = Math.floor(Date.now() / 1000)
+
+  // Backdated to allow for clock drift, GitHub rejects expirations over 10 minutes
+  return new SignJWT({})
+    .setProtectedHeader({ alg: 'RS256' })
+    .setIssuer(process.env.GITHUB_APP_ID!)
+    .setIssuedAt(now - 60)
+    .setExpirationTime(now + 9 * 60)
+    .sign(privateKey)
+}
+
+async function getAppOctokit(): Promise<Octokit> {
+  return new Octokit({ auth: await createAppJwt(), baseUrl: getGitHubApiUrl() })
+}
+
+/**
+ * Installation token scoped to a single repository, or null if the app isn't installed on it
+ */
+async function getRepoInstallationToken(owner: string, repo: string): Promise<string | null> {
+  const cacheKey = `${owner}/${repo}`.toLowerCase()
+  const cached = installationTokens.get(cacheKey)
+  if (cached && cached.expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+    return cached.token
+  }
+
+  const octokit = await getAppOctokit()
+  let installationId: number
+  try {
+    const { data } = await octokit.rest.apps.getRepoInstallation({ owner, repo })
+    installationId = data.id
+  } catch (error) {
+    if (error && typeof error === 'object' && 'status' in error && error.status === 404) {
+      return null
+    }
+    throw error
+  }
+
+  const { data } = await octokit.rest.apps.createInstallationAccessToken({
+    installation_id: installationId,
+    repositories: [repo],
+    permissions: INSTALLATION_TOKEN_PERMISSIONS,
+  })
+  installationTokens.set(cacheKey, { token: data.token, expiresAt: new Date(data.expires_at).getTime() })
+  return data.token
+}
+
+/**
+ * Installation token for a repository the user can push to, or null to use
+ * the user's own token (app not configured or not installed, or no access)
+ *
+ * @param userToken - The user's GitHub token, used to check their access
+ */
+export async function getGitHubAppRepoToken(owner: string, repo: string, userToken: string): Promise<string | null> {
+  if (!isGitHubAppConfigured()) {
+    return null
+  }
+
+  try {
+    const userOctokit = new Octokit({ auth: userToken, baseUrl: getGitHubApiUrl() })
+    const { data } = await userOctokit.rest.repos.get({ owner, repo })
+    if (!data.permissions?.push) {
+      return null
+    }
+
+    return await getRepoInstallationToken(owner, repo)
+  } catch (error) {
+    console.error('Error getting GitHub App installation token')
+    return null
+  }
+}
+
+/**
+ * Git identity of the app's bot account, which authors commits pushed with installation tokens
+ */
+export async function getGitHubAppBotUser(): Promise<{ username: string; name: string; email: string } | null> {
+  if (botUser || !isGitHubAppConfigured()) {
+    return botUser
+  }
+
+  try {
+    const octokit = await getAppOctokit()
+    const { data: app } = await octokit.rest.apps.getAuthenticated()
+    if (!app?.slug) {
+      return null
+    }
+
+    const login = `${app.slug}[bot]`
+    const { data: user } = await octokit.rest.users.getByUsername({ username: login })
+    // The id-prefixed noreply address is what links commits to the bot account
+    const username = `${user.id}+${login}`
+    botUser = { username, name: login, email: `${username}@users.noreply.github.com` }
+    return botUser
+  } catch (error) {
+    console.error('Error getting GitHub App bot user')
+    return null
+  }
+}
+
+/**
+ * Full names (owner/repo, lowercased) of the repositories in the app
+ * installations the user can access
+ *
+ * @returns null when the app isn't configured or the user's token can't list
+ * installations (only tokens issued through the app's own OAuth flow can)
+ */
+export async function listGitHubAppRepositoryNames(userToken: string): Promise<Set<string> | null> {
+  if (!isGitHubAppConfigured()) {
+    return null
+  }
+
+  try {
+    const octokit = new Octokit({ auth: userToken, baseUrl: getGitHubApiUrl() })
+    const installations = await octokit.paginate(octokit.rest.apps.listInstallationsForAuthenticatedUser, {
+      per_page: 100,
+    })
+
+    const names = new Set<string>()
+    for (const installation of installations) {
+      const repositories = await octokit.paginate(octokit.rest.apps.listInstallationReposForAuthenticatedUser, {
+        installation_id: installation.id,
+        per_page: 100,
+      })
+      for (const repository of repositories) {
+        names.add(repository.full_name.toLowerCase())
+      }
+    }
+    return names
+  } catch (error) {
+    console.error('Error listing GitHub App installations')
+    return null
+  }
+}
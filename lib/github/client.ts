@@ -1,5 +1,7 @@
 import { Octokit } from '@octokit/rest'
 import { getUserGitHubToken } from './user-token'
+import { getGitHubAppRepoToken } from './app'
+import { getGitHubApiUrl, getGitHubWebUrl } from '@/lib/git-providers/github'
 
 type GitHubErrorResult = { success: false; error: string }
 
@@ -46,6 +48,25 @@ export async function getOctokit(userId?: string): Promise<Octokit> {
 
   return new Octokit({
     auth: userToken || undefined,
+    baseUrl: getGitHubApiUrl(),
+  })
+}
+
+/**
+ * Create an Octokit instance for writing to a repository (pull requests, comments)
+ * Uses a GitHub App installation token when the app is installed on the repository
+ * and the user can push to it, otherwise the user's token as in getOctokit
+ *
+ * @param userId - Optional userId for API token authentication (bypasses session lookup)
+ */
+export async function getRepoOctokit(repoUrl: string, userId?: string): Promise<Octokit> {
+  const userToken = await getUserGitHubToken(userId)
+  const parsed = parseGitHubUrl(repoUrl)
+  const appToken = userToken && parsed ? await getGitHubAppRepoToken(parsed.owner, parsed.repo, userToken) : null
+
+  return new Octokit({
+    auth: appToken || userToken || undefined,
+    baseUrl: getGitHubApiUrl(),
   })
 }
 
@@ -85,10 +106,11 @@ export async function getGitHubUser(userId?: string): Promise<{
  */
 export function parseGitHubUrl(repoUrl: string): { owner: string; repo: string } | null {
   try {
-    // Handle both HTTPS and SSH URLs
+    // Handle both HTTPS and SSH URLs on github.com or the GITHUB_URL host
     // HTTPS: https://github.com/owner/repo.git
     // SSH: git@github.com:owner/repo.git
-    const match = repoUrl.match(/github\.com[/:]([\w-]+)\/([\w-]+?)(\.git)?$/)
+    const host = new URL(getGitHubWebUrl()).host.replace(/\./g, '\\.')
+    const match = repoUrl.match(new RegExp(`${host}[/:]([\\w-]+)\\/([\\w-]+?)(\\.git)?$`))
 
     if (match) {
       return {
@@ -109,6 +131,10 @@ interface CreatePullRequestParams {
   title: string
   body?: string
   baseBranch?: string
+  /** Fork the branch was pushed to; the pull request is opened from it against repoUrl */
+  headRepoUrl?: string | null
+  /** Acts for this user instead of the session user (API token requests) */
+  userId?: string
 }
 
 interface CreatePullRequestResult {
@@ -118,6 +144,15 @@ interface CreatePullRequestResult {
   error?: string
 }
 
+/**
+ * Head of a pull request or comparison: the branch name, prefixed with the fork owner for cross-fork heads
+ */
+function getHeadRef(branchName: string, headRepoUrl?: string | null): string | null {
+  if (!headRepoUrl) return branchName
+  const fork = parseGitHubUrl(headRepoUrl)
+  return fork ? `${fork.owner}:${branchName}` : null
+}
+
 async function requireGitHubAuth<T>(callback: (octokit: Octokit) => Promise<T>): Promise<T | GitHubErrorResult> {
   const octokit = await getOctokit()
 
@@ -132,10 +167,10 @@ async function requireGitHubAuth<T>(callback: (octokit: Octokit) => Promise<T>):
  * Create a pull request on GitHub
  */
 export async function createPullRequest(params: CreatePullRequestParams): Promise<CreatePullRequestResult> {
-  const { repoUrl, branchName, title, body = '', baseBranch = 'main' } = params
+  const { repoUrl, branchName, title, body = '', baseBranch = 'main', headRepoUrl } = params
 
   try {
-    const octokit = await getOctokit()
+    const octokit = await getRepoOctokit(repoUrl, params.userId)
 
     if (!octokit.auth) {
       return createErrorResult('GitHub account not connected')
@@ -147,14 +182,20 @@ export async function createPullRequest(params: CreatePullRequestParams): Promis
     }
 
     const { owner, repo } = parsed
+    const head = getHeadRef(branchName, headRepoUrl)
+    if (!head) {
+      return createErrorResult('Invalid fork repository URL')
+    }
 
     const response = await octokit.rest.pulls.create({
       owner,
       repo,
       title,
       body,
-      head: branchName,
+      head,
       base: baseBranch,
+      // Let maintainers push fixes to the fork branch
+      ...(headRepoUrl && { maintainer_can_modify: true }),
     })
 
     return {
@@ -173,6 +214,8 @@ interface MergePullRequestParams {
   commitTitle?: string
   commitMessage?: string
   mergeMethod?: 'merge' | 'squash' | 'rebase'
+  /** Acts for this user instead of the session user (API token requests) */
+  userId?: string
 }
 
 interface MergePullRequestResult {
@@ -202,7 +245,7 @@ export async function mergePullRequest(params: MergePullRequestParams): Promise<
   const { repoUrl, prNumber, commitTitle, commitMessage, mergeMethod = 'squash' } = params
 
   try {
-    const octokit = await getOctokit()
+    const octokit = await getRepoOctokit(repoUrl, params.userId)
 
     if (!octokit.auth) {
       return createErrorResult('GitHub account not connected')
@@ -235,6 +278,41 @@ export async function mergePullRequest(params: MergePullRequestParams): Promise<
   }
 }
 
+/**
+ * Close a pull request on GitHub without merging it
+ *
+ * @param userId - Optional userId for API token authentication (bypasses session lookup)
+ */
+export async function closePullRequest(
+  repoUrl: string,
+  prNumber: number,
+  userId?: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const octokit = await getRepoOctokit(repoUrl, userId)
+
+    if (!octokit.auth) {
+      return createErrorResult('GitHub account not connected')
+    }
+
+    const parsed = parseGitHubUrl(repoUrl)
+    if (!parsed) {
+      return createErrorResult('Invalid GitHub repository URL')
+    }
+
+    await octokit.rest.pulls.update({
+      owner: parsed.owner,
+      repo: parsed.repo,
+      pull_number: prNumber,
+      state: 'closed',
+    })
+
+    return { success: true }
+  } catch (error: unknown) {
+    return handleGitHubError(error, 'close pull request')
+  }
+}
+
 function getPrStatusFromResponse(data: { merged_at: string | null; state: string }): 'open' | 'closed' | 'merged' {
   if (data.merged_at) return 'merged'
   if (data.state === 'closed') return 'closed'
@@ -276,3 +354,206 @@ export async function getPullRequestStatus(params: GetPullRequestStatusParams):
     return handleGitHubError(error, 'get pull request status')
   }
 }
+
+interface CompareBranchParams {
+  repoUrl: string
+  branchName: string
+  baseBranch?: string // Defaults to the repository's default branch
+  headRepoUrl?: string | null // Fork the branch lives in, if not repoUrl
+  userId?: string // Acts for this user instead of the session user (API token requests)
+}
+
+export interface BranchFileChange {
+  filename: string
+  status: string
+  additions: number
+  deletions: number
+  patch?: string
+}
+
+interface CompareBranchResult {
+  success: boolean
+  baseBranch?: string
+  files?: BranchFileChange[]
+  additions?: number
+  deletions?: number
+  error?: string
+}
+
+/**
+ * Compare a branch against its base, returning per-file changes with patches
+ */
+export async function compareBranch(params: CompareBranchParams): Promise<CompareBranchResult> {
+  const { repoUrl, branchName } = params
+
+  try {
+    const octokit = await getOctokit(params.userId)
+
+    if (!octokit.auth) {
+      return createErrorResult('GitHub account not connected')
+    }
+
+    const parsed = parseGitHubUrl(repoUrl)
+    if (!parsed) {
+      return createErrorResult('Invalid GitHub repository URL')
+    }
+
+    const { owner, repo } = parsed
+    const head = getHeadRef(branchName, params.headRepoUrl)
+    if (!head) {
+      return createErrorResult('Invalid fork repository URL')
+    }
+
+    const baseBranch = params.baseBranch || (await octokit.rest.repos.get({ owner, repo })).data.default_branch
+
+    const response = await octokit.rest.repos.compareCommits({
+      owner,
+      repo,
+      base: baseBranch,
+      head,
+    })
+
+    const files = (response.data.files || []).map((file) => ({
+      filename: file.filename,
+      status: file.status,
+      additions: file.additions || 0,
+      deletions: file.deletions || 0,
+      patch: file.patch,
+    }))
+
+    return {
+      success: true,
+      baseBranch,
+      files,
+      additions: files.reduce((sum, file) => sum + file.additions, 0),
+      deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+    }
+  } catch (error: unknown) {
+    return handleGitHubError(error, 'compare branch')
+  }
+}
+
+interface DeleteBranchParams {
+  repoUrl: string
+  branchName: string
+}
+
+/**
+ * Delete a branch on GitHub. A branch that no longer exists counts as deleted.
+ */
+export async function deleteBranch(params: DeleteBranchParams): Promise<{ success: boolean; error?: string }> {
+  const { repoUrl, branchName } = params
+
+  try {
+    const octokit = await getOctokit()
+
+    if (!octokit.auth) {
+      return createErrorResult('GitHub account not connected')
+    }
+
+    const parsed = parseGitHubUrl(repoUrl)
+    if (!parsed) {
+      return createErrorResult('Invalid GitHub repository URL')
+    }
+
+    await octokit.rest.git.deleteRef({
+      owner: parsed.owner,
+      repo: parsed.repo,
+      ref: `heads/${branchName}`,
+    })
+
+    return { success: true }
+  } catch (error: unknown) {
+    // GitHub answers 422 "Reference does not exist" for a missing branch
+    if (error && typeof error === 'object' && 'status' in error && (error.status === 404 || error.status === 422)) {
+      return { success: true }
+    }
+    return handleGitHubError(error, 'delete branch')
+  }
+}
+
+interface RepositoryPushAccessResult {
+  success: boolean
+  canPush?: boolean
+  error?: string
+}
+
+/**
+ * Check whether the user can push to a repository
+ *
+ * @param userId - Optional userId for API token authentication (bypasses session lookup)
+ */
+export async function getRepositoryPushAccess(repoUrl: string, userId?: string): Promise<RepositoryPushAccessResult> {
+  try {
+    const octokit = await getOctokit(userId)
+
+    if (!octokit.auth) {
+      return createErrorResult('GitHub account not connected')
+    }
+
+    const parsed = parseGitHubUrl(repoUrl)
+    if (!parsed) {
+      return createErrorResult('Invalid GitHub repository URL')
+    }
+
+    const { data } = await octokit.rest.repos.get({ owner: parsed.owner, repo: parsed.repo })
+
+    return { success: true, canPush: !!data.permissions?.push }
+  } catch (error: unknown) {
+    return handleGitHubError(error, 'check repository access')
+  }
+}
+
+interface ForkRepositoryResult {
+  success: boolean
+  forkUrl?: string
+  error?: string
+}
+
+const FORK_READY_ATTEMPTS = 10
+const FORK_READY_INTERVAL_MS = 3000
+
+/**
+ * Fork a repository to the user's account. Returns the existing fork if there
+ * is one. GitHub creates forks asynchronously, so this waits until the fork's
+ * default branch can be read.
+ *
+ * @param userId - Optional userId for API token authentication (bypasses session lookup)
+ */
+export async function forkRepository(repoUrl: string, userId?: string): Promise<ForkRepositoryResult> {
+  try {
+    const octokit = await getOctokit(userId)
+
+    if (!octokit.auth) {
+      return createErrorResult('GitHub account not connected')
+    }
+
+    const parsed = parseGitHubUrl(repoUrl)
+    if (!parsed) {
+      return createErrorResult('Invalid GitHub repository URL')
+    }
+
+    const { data: fork } = await octokit.rest.repos.createFork({
+      owner: parsed.owner,
+      repo: parsed.repo,
+      default_branch_only: true,
+    })
+
+    for (let attempt = 0; attempt < FORK_READY_ATTEMPTS; attempt++) {
+      try {
+        await octokit.rest.repos.getBranch({
+          owner: fork.owner.login,
+          repo: fork.name,
+          branch: fork.default_branch,
+        })
+        return { success: true, forkUrl: fork.html_url }
+      } catch {
+        await new Promise((resolve) => setTimeout(resolve, FORK_READY_INTERVAL_MS))
+      }
+    }
+
+    return createErrorResult('Fork was not ready in time')
+  } catch (error: unknown) {
+    return handleGitHubError(error, 'fork repository')
+  }
+}
@@ -0,0 +1,200 @@
+import type { Octokit } from '@octokit/rest'
+
+/**
+ * Pull request review threads (line comments and their replies).
+ *
+ * The REST API doesn't expose threads or their resolved state, so they are
+ * read and resolved with the GraphQL API.
+ */
+
+export interface ReviewThreadComment {
+  id: number
+  author: string
+  body: string
+  url: string
+}
+
+export interface ReviewThread {
+  id: string
+  isResolved: boolean
+  isOutdated: boolean
+  path: string
+  line: number | null
+  comments: ReviewThreadComment[]
+}
+
+interface ReviewThreadsResponse {
+  repository: {
+    pullRequest: {
+      reviewThreads: {
+        pageInfo: { hasNextPage: boolean; endCursor: string | null }
+        nodes: {
+          id: string
+          isResolved: boolean
+          isOutdated: boolean
+          path: string
+          line: number | null
+          originalLine: number | null
+          comments: {
+            nodes: { databaseId: number; body: string; url: string; author: { login: string } | null }[]
+          }
+        }[]
+      }
+    } | null
+  }
+}
+
+const REVIEW_THREADS_QUERY = `
+  query ($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        reviewThreads(first: 100, after: $cursor) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            id
+            isResolved
+            isOutdated
+            path
+            line
+            originalLine
+            comments(first: 50) {
+              nodes {
+                databaseId
+                body
+                url
+                author {
+                  login
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`
+
+const RESOLVE_REVIEW_THREAD_MUTATION = `
+  mutation ($threadId: ID!) {
+    resolveReviewThread(input: { threadId: $threadId }) {
+      thread {
+        id
+      }
+    }
+  }
+`
+
+// Pull requests with more threads than this are truncated
+const MAX_THREAD_PAGES = 5
+
+export async function listReviewThreads(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+): Promise<ReviewThread[]> {
+  const threads: ReviewThread[] = []
+  let cursor: string | null = null
+
+  for (let page = 0; page < MAX_THREAD_PAGES; page++) {
+    const response: ReviewThreadsResponse = await octokit.graphql<ReviewThreadsResponse>(REVIEW_THREADS_QUERY, {
+      owner,
+      repo,
+      number: prNumber,
+      cursor,
+    })
+
+    const reviewThreads = response.repository.pullRequest?.reviewThreads
+    if (!reviewThreads) break
+
+    for (const node of reviewThreads.nodes) {
+      threads.push({
+        id: node.id,
+        isResolved: node.isResolved,
+        isOutdated: node.isOutdated,
+        path: node.path,
+        line: node.line ?? node.originalLine,
+        comments: node.comments.nodes.map((comment) => ({
+          id: comment.databaseId,
+          author: comment.author?.login || 'unknown',
+          body: comment.body,
+          url: comment.url,
+        })),
+      })
+    }
+
+    if (!reviewThreads.pageInfo.hasNextPage) break
+    cursor = reviewThreads.pageInfo.endCursor
+  }
+
+  return threads
+}
+
+/**
+ * Follow-up message asking the agent to address the given threads, with the
+ * file, line and conversation of each
+ */
+export function formatReviewFeedbackPrompt(prNumber: number, threads: ReviewThread[], instructions?: string): string {
+  const items = threads.map((thread, index) => {
+    const location = thread.line ? `${thread.path}:${thread.line}` : thread.path
+    const conversation = thread.comments
+      .map((comment) => `   @${comment.author}: ${comment.body.trim().replace(/\n/g, '\n   ')}`)
+      .join('\n')
+    return `${index + 1}. ${location}\n${conversation}`
+  })
+
+  return [
+    `Address the following review feedback on pull request #${prNumber}. Make the change each review thread asks for.`,
+    items.join('\n\n'),
+    instructions?.trim() ? `Additional instructions: ${instructions.trim()}` : null,
+  ]
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+/**
+ * Reply to each thread with the commit that addressed it, and optionally resolve it
+ *
+ * @returns Number of threads that were replied to
+ */
+export async function replyToReviewThreads(
+  octokit: Octokit,
+  params: {
+    owner: string
+    repo: string
+    prNumber: number
+    threads: ReviewThread[]
+    commitSha: string
+    resolve: boolean
+  },
+): Promise<number> {
+  const { owner, repo, prNumber, threads, commitSha, resolve } = params
+  let replied = 0
+
+  for (const thread of threads) {
+    const [firstComment] = thread.comments
+    if (!firstComment) continue
+
+    try {
+      await octokit.rest.pulls.createReplyForReviewComment({
+        owner,
+        repo,
+        pull_number: prNumber,
+        comment_id: firstComment.id,
+        body: `Addressed in ${commitSha}.`,
+      })
+      replied++
+
+      if (resolve && !thread.isResolved) {
+        await octokit.graphql(RESOLVE_REVIEW_THREAD_MUTATION, { threadId: thread.id })
+      }
+    } catch (error) {
+      console.error('Error replying to review thread')
+    }
+  }
+
+  return replied
+}
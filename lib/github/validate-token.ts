@@ -1,5 +1,6 @@
 import 'server-only'
 import { LRUCache } from 'lru-cache'
+import { getGitHubApiUrl } from '@/lib/git-providers'
 
 /**
  * GitHub Token Validation Result
@@ -56,7 +57,7 @@ export async function validateGitHubToken(token: string): Promise<GitHubTokenVal
       return cachedResult
     }
     // Test token with GitHub API (with 10 second timeout to prevent indefinite hangs)
-    const response = await fetch('https://api.github.com/user', {
+    const response = await fetch(`${getGitHubApiUrl()}/user`, {
       headers: {
         Authorization: `Bearer ${token}`,
         Accept: 'application/vnd.github+json',
@@ -0,0 +1,145 @@
+import { test, beforeEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { createHmac } from 'crypto'
+import {
+  extractMention,
+  getCommentTriggerInstruction,
+  getTriggerConfig,
+  handleWebhookDeliveryOnce,
+  isLabelTrigger,
+  isReviewTrigger,
+  verifyGitHubWebhookSignature,
+  type GitHubWebhookPayload,
+  type WebhookDeliveryLog,
+} from './webhook-events'
+
+beforeEach(() => {
+  for (const name of ['GITHUB_WEBHOOK_TRIGGERS', 'GITHUB_WEBHOOK_LABEL', 'GITHUB_WEBHOOK_MENTION']) {
+    delete process.env[name]
+  }
+})
+
+function sign(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+}
+
+// Delivery IDs recorded in memory, like the github_webhook_deliveries table
+function createDeliveryLog(): WebhookDeliveryLog & { ids: Set<string> } {
+  const ids = new Set<string>()
+  return {
+    ids,
+    record: async (deliveryId) => {
+      if (ids.has(deliveryId)) return false
+      ids.add(deliveryId)
+      return true
+    },
+    forget: async (deliveryId) => {
+      ids.delete(deliveryId)
+    },
+  }
+}
+
+function commentPayload(body: string, authorAssociation: string): GitHubWebhookPayload {
+  return {
+    action: 'created',
+    comment: { id: 1, body, author_association: authorAssociation },
+  }
+}
+
+test('signatures must match the raw body and secret', () => {
+  const body = JSON.stringify({ action: 'opened' })
+
+  assert.equal(verifyGitHubWebhookSignature(body, sign(body, 'secret'), 'secret'), true)
+  assert.equal(verifyGitHubWebhookSignature(body, sign(body, 'other-secret'), 'secret'), false)
+  assert.equal(verifyGitHubWebhookSignature(`${body} `, sign(body, 'secret'), 'secret'), false)
+  assert.equal(verifyGitHubWebhookSignature(body, sign(body, 'secret').replace('sha256=', 'sha1='), 'secret'), false)
+  assert.equal(verifyGitHubWebhookSignature(body, 'sha256=abc', 'secret'), false)
+  assert.equal(verifyGitHubWebhookSignature(body, null, 'secret'), false)
+})
+
+test('a delivery is handled once and a redelivery is skipped', async () => {
+  const deliveries = createDeliveryLog()
+  let calls = 0
+  const handle = async () => ++calls
+
+  assert.equal(await handleWebhookDeliveryOnce('delivery-1', 'issues', deliveries, handle), 1)
+  assert.equal(await handleWebhookDeliveryOnce('delivery-1', 'issues', deliveries, handle), null)
+  assert.equal(await handleWebhookDeliveryOnce('delivery-2', 'issues', deliveries, handle), 2)
+  assert.equal(calls, 2)
+})
+
+test('a delivery whose handler fails can be redelivered', async () => {
+  const deliveries = createDeliveryLog()
+
+  await assert.rejects(
+    handleWebhookDeliveryOnce('delivery-1', 'issues', deliveries, async () => {
+      throw new Error('handler failed')
+    }),
+    /handler failed/,
+  )
+  assert.equal(deliveries.ids.has('delivery-1'), false)
+  assert.equal(await handleWebhookDeliveryOnce('delivery-1', 'issues', deliveries, async () => 'retried'), 'retried')
+})
+
+test('comments from trusted authors that mention the agent start tasks', () => {
+  const config = getTriggerConfig()
+
+  for (const association of ['OWNER', 'MEMBER', 'COLLABORATOR']) {
+    assert.equal(
+      getCommentTriggerInstruction(commentPayload('@agent fix the tests', association), config),
+      'fix the tests',
+    )
+  }
+  assert.equal(getCommentTriggerInstruction(commentPayload('@agent', 'OWNER'), config), '')
+})
+
+test('comments from untrusted authors are ignored', () => {
+  const config = getTriggerConfig()
+
+  for (const association of ['CONTRIBUTOR', 'FIRST_TIME_CONTRIBUTOR', 'FIRST_TIMER', 'NONE', 'MANNEQUIN']) {
+    assert.equal(getCommentTriggerInstruction(commentPayload('@agent fix the tests', association), config), null)
+  }
+})
+
+test('edited comments, comments without the mention and disabled triggers are ignored', () => {
+  assert.equal(
+    getCommentTriggerInstruction({ ...commentPayload('@agent fix it', 'OWNER'), action: 'edited' }, getTriggerConfig()),
+    null,
+  )
+  assert.equal(getCommentTriggerInstruction(commentPayload('email me@agent.dev', 'OWNER'), getTriggerConfig()), null)
+
+  process.env.GITHUB_WEBHOOK_TRIGGERS = 'label,review'
+  assert.equal(getCommentTriggerInstruction(commentPayload('@agent fix it', 'OWNER'), getTriggerConfig()), null)
+})
+
+test('change requests start tasks only from trusted reviewers', () => {
+  const config = getTriggerConfig()
+  const review = (state: string, association: string): GitHubWebhookPayload => ({
+    action: 'submitted',
+    review: { id: 1, body: null, state, author_association: association },
+  })
+
+  assert.equal(isReviewTrigger(review('changes_requested', 'MEMBER'), config), true)
+  assert.equal(isReviewTrigger(review('changes_requested', 'CONTRIBUTOR'), config), false)
+  assert.equal(isReviewTrigger(review('approved', 'OWNER'), config), false)
+  assert.equal(isReviewTrigger({ ...review('changes_requested', 'OWNER'), action: 'edited' }, config), false)
+})
+
+test('the configured label starts tasks regardless of case', () => {
+  process.env.GITHUB_WEBHOOK_LABEL = 'AI Task'
+  const config = getTriggerConfig()
+
+  assert.equal(isLabelTrigger({ action: 'labeled', label: { name: 'ai task' } }, config), true)
+  assert.equal(isLabelTrigger({ action: 'labeled', label: { name: 'bug' } }, config), false)
+  assert.equal(isLabelTrigger({ action: 'unlabeled', label: { name: 'AI Task' } }, config), false)
+
+  process.env.GITHUB_WEBHOOK_TRIGGERS = ''
+  assert.equal(isLabelTrigger({ action: 'labeled', label: { name: 'AI Task' } }, getTriggerConfig()), false)
+})
+
+test('mentions must stand on their own', () => {
+  assert.equal(extractMention('Hey @Agent please rebase', '@agent'), 'please rebase')
+  assert.equal(extractMention('@agent-bot please rebase', '@agent'), null)
+  assert.equal(extractMention('cc:@agent', '@agent'), null)
+  assert.equal(extractMention('run @bot.v2 now', '@bot.v2'), 'now')
+})
@@ -0,0 +1,202 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+/**
+ * Request checks and trigger matching for GitHub webhook events.
+ *
+ * Kept free of database and GitHub API access; lib/github/webhooks.ts acts on
+ * the events that pass these checks.
+ */
+
+export type WebhookTrigger = 'label' | 'comment' | 'review'
+
+const WEBHOOK_TRIGGERS: WebhookTrigger[] = ['label', 'comment', 'review']
+
+// Comment and review authors allowed to start tasks (repository write access or org membership)
+const TRUSTED_AUTHOR_ASSOCIATIONS = ['OWNER', 'MEMBER', 'COLLABORATOR']
+
+export interface WebhookUser {
+  id: number
+  login: string
+}
+
+export interface WebhookRepository {
+  full_name: string
+  html_url: string
+}
+
+export interface WebhookIssue {
+  number: number
+  title: string
+  body: string | null
+  html_url: string
+  pull_request?: unknown
+}
+
+export interface WebhookPullRequest {
+  number: number
+  title: string
+  html_url: string
+  state: string
+  merged_at: string | null
+  merge_commit_sha: string | null
+  head: { ref: string; repo: { full_name: string } | null }
+}
+
+export interface WebhookComment {
+  id: number
+  body: string
+  author_association: string
+}
+
+export interface WebhookCheckRun {
+  name: string
+  conclusion: string | null
+  head_sha: string
+  check_suite: { head_branch: string | null } | null
+}
+
+export interface WebhookReview {
+  id: number
+  body: string | null
+  state: string
+  author_association: string
+}
+
+export interface GitHubWebhookPayload {
+  action?: string
+  sender?: WebhookUser
+  repository?: WebhookRepository
+  issue?: WebhookIssue
+  label?: { name: string }
+  comment?: WebhookComment
+  pull_request?: WebhookPullRequest
+  review?: WebhookReview
+  check_run?: WebhookCheckRun
+}
+
+export interface WebhookTriggerConfig {
+  triggers: WebhookTrigger[]
+  label: string
+  mention: string
+  agent: string | undefined
+}
+
+export function getTriggerConfig(): WebhookTriggerConfig {
+  const configured = process.env.GITHUB_WEBHOOK_TRIGGERS
+  const triggers =
+    configured === undefined
+      ? WEBHOOK_TRIGGERS
+      : WEBHOOK_TRIGGERS.filter((trigger) =>
+          configured
+            .split(',')
+            .map((value) => value.trim())
+            .includes(trigger),
+        )
+
+  return {
+    triggers,
+    label: process.env.GITHUB_WEBHOOK_LABEL || 'agent',
+    mention: process.env.GITHUB_WEBHOOK_MENTION || '@agent',
+    agent: process.env.GITHUB_WEBHOOK_AGENT || undefined,
+  }
+}
+
+/**
+ * Verify the X-Hub-Signature-256 header against the raw request body
+ */
+export function verifyGitHubWebhookSignature(body: string, signature: string | null, secret: string): boolean {
+  if (!signature) return false
+
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(body).digest('hex')}`)
+  const provided = Buffer.from(signature)
+  return provided.length === expected.length && timingSafeEqual(provided, expected)
+}
+
+export interface WebhookDeliveryLog {
+  /** Returns false if the delivery was already recorded */
+  record: (deliveryId: string, event: string) => Promise<boolean>
+  forget: (deliveryId: string) => Promise<void>
+}
+
+/**
+ * Run the handler at most once per delivery ID. A delivery whose handler
+ * throws is forgotten, so redelivering it from GitHub retries it.
+ *
+ * @returns The handler's result, or null if the delivery was already handled
+ */
+export async function handleWebhookDeliveryOnce<T>(
+  deliveryId: string,
+  event: string,
+  deliveries: WebhookDeliveryLog,
+  handle: () => Promise<T>,
+): Promise<T | null> {
+  if (!(await deliveries.record(deliveryId, event))) {
+    return null
+  }
+
+  try {
+    return await handle()
+  } catch (error) {
+    await deliveries.forget(deliveryId).catch(() => {})
+    throw error
+  }
+}
+
+/**
+ * Whether the comment or review author may start tasks
+ */
+export function isTrustedAuthor(authorAssociation: string): boolean {
+  return TRUSTED_AUTHOR_ASSOCIATIONS.includes(authorAssociation)
+}
+
+/**
+ * Whether an `issues` event adds the trigger label
+ */
+export function isLabelTrigger(payload: GitHubWebhookPayload, config: WebhookTriggerConfig): boolean {
+  return (
+    payload.action === 'labeled' &&
+    config.triggers.includes('label') &&
+    payload.label?.name.toLowerCase() === config.label.toLowerCase()
+  )
+}
+
+/**
+ * Instruction of an `issue_comment` event that mentions the agent, or null if
+ * the comment doesn't trigger a task. The instruction is empty when the
+ * comment only contains the mention.
+ */
+export function getCommentTriggerInstruction(
+  payload: GitHubWebhookPayload,
+  config: WebhookTriggerConfig,
+): string | null {
+  const { comment } = payload
+  if (payload.action !== 'created' || !config.triggers.includes('comment') || !comment) {
+    return null
+  }
+  if (!isTrustedAuthor(comment.author_association)) {
+    return null
+  }
+  return extractMention(comment.body, config.mention)
+}
+
+/**
+ * Whether a `pull_request_review` event requests changes from a trusted reviewer
+ */
+export function isReviewTrigger(payload: GitHubWebhookPayload, config: WebhookTriggerConfig): boolean {
+  const { review } = payload
+  return (
+    payload.action === 'submitted' &&
+    config.triggers.includes('review') &&
+    review?.state === 'changes_requested' &&
+    isTrustedAuthor(review.author_association)
+  )
+}
+
+/**
+ * Text after the mention, or null if the comment doesn't mention the agent
+ */
+export function extractMention(body: string, mention: string): string | null {
+  const escaped = mention.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const match = body.match(new RegExp(`(^|\\s)${escaped}(?![\\w-])([\\s\\S]*)`, 'i'))
+  return match ? match[2].trim() : null
+}
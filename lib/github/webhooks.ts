@@ -0,0 +1,446 @@
+import 'server-only'
+
+import { after } from 'next/server'
+import { and, eq, isNotNull, isNull, lt } from 'drizzle-orm'
+import { db } from '@/lib/db/client'
+import { accounts, githubWebhookDeliveries, insertTaskSchema, tasks, users } from '@/lib/db/schema'
+import { generateId } from '@/lib/utils/id'
+import { checkRateLimit, checkSpendLimit } from '@/lib/utils/rate-limit'
+import { formatUsd } from '@/lib/utils/model-pricing'
+import { getUserGitHubToken } from '@/lib/github/user-token'
+import { generateTaskBranchName, generateTaskTitleAsync } from '@/lib/tasks/process-task'
+import { enqueueTaskJob } from '@/lib/tasks/queue'
+import { drainTaskQueue } from '@/lib/tasks/worker'
+import { handleFailedCheckRun, isFailedCheckConclusion } from '@/lib/tasks/ci-autofix'
+import { getOctokit, getRepoOctokit, parseGitHubUrl } from './client'
+import {
+  getCommentTriggerInstruction,
+  getTriggerConfig,
+  isLabelTrigger,
+  isReviewTrigger,
+  type GitHubWebhookPayload,
+  type WebhookPullRequest,
+  type WebhookRepository,
+  type WebhookUser,
+} from './webhook-events'
+
+/**
+ * GitHub webhook handling for /api/webhooks/github.
+ *
+ * - `pull_request` events keep prStatus and prMergeCommitSha of the tasks that
+ *   opened the pull request up to date.
+ * - `issues`, `issue_comment` and `pull_request_review` events start tasks when
+ *   they match one of the configured triggers (GITHUB_WEBHOOK_TRIGGERS).
+ * - Failed `check_run` events start CI auto-fix turns (lib/tasks/ci-autofix.ts).
+ *
+ * Tasks run as the app user whose GitHub account triggered the event, with
+ * that user's GitHub token, rate limit and spend limit. Events from GitHub
+ * users without an account here are ignored. Signature checks and trigger
+ * matching live in lib/github/webhook-events.ts.
+ */
+
+const DELIVERY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+export interface WebhookResult {
+  handled: boolean
+  message: string
+  taskId?: string
+}
+
+/**
+ * Record a delivery ID. Returns false if the delivery was already handled.
+ */
+export async function recordWebhookDelivery(deliveryId: string, event: string): Promise<boolean> {
+  const inserted = await db
+    .insert(githubWebhookDeliveries)
+    .values({ id: deliveryId, event })
+    .onConflictDoNothing()
+    .returning({ id: githubWebhookDeliveries.id })
+
+  return inserted.length > 0
+}
+
+/**
+ * Forget a delivery that failed, so redelivering it from GitHub retries it
+ */
+export async function forgetWebhookDelivery(deliveryId: string): Promise<void> {
+  await db.delete(githubWebhookDeliveries).where(eq(githubWebhookDeliveries.id, deliveryId))
+}
+
+/**
+ * Delete delivery IDs older than GitHub redelivers events
+ */
+export async function pruneWebhookDeliveries(): Promise<number> {
+  const deleted = await db
+    .delete(githubWebhookDeliveries)
+    .where(lt(githubWebhookDeliveries.receivedAt, new Date(Date.now() - DELIVERY_RETENTION_MS)))
+
+  return deleted.count
+}
+
+/**
+ * Handle a verified webhook event
+ *
+ * @param appUrl - Origin of this app, used for task links in replies
+ */
+export async function handleGitHubWebhook(
+  event: string,
+  payload: GitHubWebhookPayload,
+  appUrl: string,
+): Promise<WebhookResult> {
+  switch (event) {
+    case 'ping':
+      return { handled: true, message: 'pong' }
+    case 'pull_request':
+      return handlePullRequestEvent(payload)
+    case 'issues':
+      return handleIssuesEvent(payload, appUrl)
+    case 'issue_comment':
+      return handleIssueCommentEvent(payload, appUrl)
+    case 'pull_request_review':
+      return handlePullRequestReviewEvent(payload, appUrl)
+    case 'check_run':
+      return handleCheckRunEvent(payload)
+    default:
+      return { handled: false, message: `Event ${event} is not handled` }
+  }
+}
+
+function isSameRepository(repoUrl: string, fullName: string): boolean {
+  const parsed = parseGitHubUrl(repoUrl)
+  return !!parsed && `${parsed.owner}/${parsed.repo}`.toLowerCase() === fullName.toLowerCase()
+}
+
+async function handlePullRequestEvent(payload: GitHubWebhookPayload): Promise<WebhookResult> {
+  const { pull_request: pr, repository } = payload
+  if (!pr || !repository) {
+    return { handled: false, message: 'Missing pull request' }
+  }
+
+  const prStatus = pr.merged_at ? 'merged' : pr.state === 'closed' ? 'closed' : 'open'
+
+  const candidates = await db
+    .select({ id: tasks.id, repoUrl: tasks.repoUrl, completedAt: tasks.completedAt })
+    .from(tasks)
+    .where(and(eq(tasks.prNumber, pr.number), isNotNull(tasks.repoUrl), isNull(tasks.deletedAt)))
+
+  const matching = candidates.filter((task) => isSameRepository(task.repoUrl!, repository.full_name))
+
+  for (const task of matching) {
+    const updateData: {
+      prStatus: 'open' | 'closed' | 'merged'
+      prMergeCommitSha?: string | null
+      completedAt?: Date
+      updatedAt: Date
+    } = {
+      prStatus,
+      updatedAt: new Date(),
+    }
+
+    if (prStatus === 'merged') {
+      updateData.prMergeCommitSha = pr.merge_commit_sha
+      if (!task.completedAt) {
+        updateData.completedAt = new Date()
+      }
+    }
+
+    await db.update(tasks).set(updateData).where(eq(tasks.id, task.id))
+  }
+
+  return { handled: matching.length > 0, message: `Updated ${matching.length} task(s) to ${prStatus}` }
+}
+
+async function handleCheckRunEvent(payload: GitHubWebhookPayload): Promise<WebhookResult> {
+  const { check_run: checkRun, repository } = payload
+  const headBranch = checkRun?.check_suite?.head_branch
+
+  if (payload.action !== 'completed' || !checkRun || !repository || !headBranch) {
+    return { handled: false, message: 'Not a completed check run' }
+  }
+  if (!isFailedCheckConclusion(checkRun.conclusion)) {
+    return { handled: false, message: 'Check run did not fail' }
+  }
+
+  const started = await handleFailedCheckRun({
+    repoFullName: repository.full_name,
+    headBranch,
+    headSha: checkRun.head_sha,
+  })
+
+  return { handled: started.length > 0, message: `Started CI auto-fix for ${started.length} task(s)` }
+}
+
+async function handleIssuesEvent(payload: GitHubWebhookPayload, appUrl: string): Promise<WebhookResult> {
+  const config = getTriggerConfig()
+  const { issue, repository, sender } = payload
+
+  if (!isLabelTrigger(payload, config) || !issue || !repository || !sender) {
+    return { handled: false, message: 'No trigger matched' }
+  }
+
+  const prompt = [`Resolve issue #${issue.number}: ${issue.title}`, issue.body?.trim()].filter(Boolean).join('\n\n')
+
+  return startTriggeredTask({
+    sender,
+    repository,
+    issueNumber: issue.number,
+    prompt,
+    appUrl,
+    agent: config.agent,
+  })
+}
+
+async function handleIssueCommentEvent(payload: GitHubWebhookPayload, appUrl: string): Promise<WebhookResult> {
+  const config = getTriggerConfig()
+  const { issue, repository, sender } = payload
+
+  const instruction = getCommentTriggerInstruction(payload, config)
+  if (instruction === null || !issue || !repository || !sender) {
+    return { handled: false, message: 'No trigger matched' }
+  }
+
+  if (!issue.pull_request) {
+    const prompt = [
+      instruction || `Resolve issue #${issue.number}: ${issue.title}`,
+      `Issue #${issue.number}: ${issue.title}`,
+      issue.body?.trim(),
+    ]
+      .filter(Boolean)
+      .join('\n\n')
+
+    return startTriggeredTask({
+      sender,
+      repository,
+      issueNumber: issue.number,
+      prompt,
+      appUrl,
+      agent: config.agent,
+    })
+  }
+
+  // The issue_comment payload doesn't include the pull request branch
+  const userId = await findUserByGitHubId(sender.id)
+  if (!userId) {
+    return { handled: false, message: 'GitHub user has no account' }
+  }
+
+  const [owner, repo] = repository.full_name.split('/')
+  let pr: WebhookPullRequest
+  try {
+    const octokit = await getOctokit(userId)
+    const response = await octokit.rest.pulls.get({ owner, repo, pull_number: issue.number })
+    pr = response.data
+  } catch (error) {
+    console.error('Error fetching pull request for webhook')
+    return { handled: false, message: 'Failed to fetch pull request' }
+  }
+
+  const prompt = [
+    instruction || `Address the feedback on pull request #${pr.number}`,
+    `Pull request #${pr.number}: ${pr.title}`,
+  ].join('\n\n')
+
+  return startTriggeredTask({
+    sender,
+    repository,
+    issueNumber: issue.number,
+    pullRequest: pr,
+    prompt,
+    appUrl,
+    agent: config.agent,
+  })
+}
+
+async function handlePullRequestReviewEvent(payload: GitHubWebhookPayload, appUrl: string): Promise<WebhookResult> {
+  const config = getTriggerConfig()
+  const { review, pull_request: pr, repository, sender } = payload
+
+  if (!isReviewTrigger(payload, config) || !review || !pr || !repository || !sender) {
+    return { handled: false, message: 'No trigger matched' }
+  }
+
+  const userId = await findUserByGitHubId(sender.id)
+  if (!userId) {
+    return { handled: false, message: 'GitHub user has no account' }
+  }
+
+  const [owner, repo] = repository.full_name.split('/')
+  let reviewComments: string[] = []
+  try {
+    const octokit = await getOctokit(userId)
+    const { data } = await octokit.rest.pulls.listCommentsForReview({
+      owner,
+      repo,
+      pull_number: pr.number,
+      review_id: review.id,
+      per_page: 100,
+    })
+    reviewComments = data.map((comment) => {
+      const line = comment.line ?? comment.original_line
+      return `- ${comment.path}${line ? `:${line}` : ''}: ${comment.body}`
+    })
+  } catch (error) {
+    console.error('Error fetching review comments for webhook')
+  }
+
+  const prompt = [
+    `Address the changes requested in the review of pull request #${pr.number}: ${pr.title}`,
+    review.body?.trim(),
+    reviewComments.length > 0 ? `Review comments:\n${reviewComments.join('\n')}` : null,
+  ]
+    .filter(Boolean)
+    .join('\n\n')
+
+  return startTriggeredTask({
+    sender,
+    repository,
+    issueNumber: pr.number,
+    pullRequest: pr,
+    prompt,
+    appUrl,
+    agent: config.agent,
+  })
+}
+
+/**
+ * App user for a GitHub user ID: the user who signed in with that GitHub
+ * account, or the oldest user who connected it
+ */
+async function findUserByGitHubId(githubId: number): Promise<string | null> {
+  const [user] = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(and(eq(users.provider, 'github'), eq(users.externalId, `${githubId}`)))
+    .limit(1)
+
+  if (user) return user.id
+
+  const [account] = await db
+    .select({ userId: accounts.userId })
+    .from(accounts)
+    .where(and(eq(accounts.provider, 'github'), eq(accounts.externalUserId, `${githubId}`)))
+    .orderBy(accounts.createdAt)
+    .limit(1)
+
+  return account?.userId ?? null
+}
+
+interface TriggeredTaskParams {
+  sender: WebhookUser
+  repository: WebhookRepository
+  issueNumber: number
+  pullRequest?: WebhookPullRequest
+  prompt: string
+  appUrl: string
+  agent?: string
+}
+
+async function startTriggeredTask(params: TriggeredTaskParams): Promise<WebhookResult> {
+  const { sender, repository, issueNumber, pullRequest, prompt, appUrl, agent } = params
+
+  const userId = await findUserByGitHubId(sender.id)
+  if (!userId) {
+    return { handled: false, message: 'GitHub user has no account' }
+  }
+
+  const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1)
+  if (!user) {
+    return { handled: false, message: 'GitHub user has no account' }
+  }
+
+  // Replies are posted after the response so GitHub's webhook timeout doesn't include the API call
+  const reply = (body: string) => replyToIssue(userId, repository.html_url, issueNumber, body)
+
+  // Pushing to a fork's branch needs access to the fork
+  if (pullRequest && pullRequest.head.repo?.full_name !== repository.full_name) {
+    after(() =>
+      reply('Pull requests from forks are not supported. The agent can only push to branches of this repository.'),
+    )
+    return { handled: false, message: 'Pull request is from a fork' }
+  }
+
+  const rateLimit = await checkRateLimit({ id: user.id, email: user.email ?? undefined })
+  if (!rateLimit.allowed) {
+    after(() =>
+      reply(
+        `Could not start a task: @${sender.login} has reached the daily limit of ${rateLimit.total} tasks. The limit resets at ${rateLimit.resetAt.toISOString()}.`,
+      ),
+    )
+    return { handled: false, message: 'Rate limit exceeded' }
+  }
+
+  const spendLimit = await checkSpendLimit({ id: user.id, email: user.email ?? undefined })
+  if (!spendLimit.allowed) {
+    after(() =>
+      reply(
+        `Could not start a task: @${sender.login} has reached the monthly agent spend limit of ${formatUsd(spendLimit.limitUsd!)}.`,
+      ),
+    )
+    return { handled: false, message: 'Spend limit exceeded' }
+  }
+
+  const githubToken = await getUserGitHubToken(userId)
+  if (!githubToken) {
+    return { handled: false, message: 'GitHub not connected' }
+  }
+
+  const taskId = generateId(12)
+  const selectedAgent = insertTaskSchema.shape.selectedAgent.safeParse(agent)
+
+  const validatedData = insertTaskSchema.parse({
+    id: taskId,
+    userId,
+    prompt,
+    repoUrl: repository.html_url,
+    selectedAgent: selectedAgent.success ? selectedAgent.data : undefined,
+    status: 'pending',
+    progress: 0,
+    // Work on the pull request's branch so pushes update it
+    ...(pullRequest && {
+      sourceBranch: pullRequest.head.ref,
+      branchName: pullRequest.head.ref,
+      prUrl: pullRequest.html_url,
+      prNumber: pullRequest.number,
+      prStatus: 'open',
+    }),
+  })
+
+  const [newTask] = await db
+    .insert(tasks)
+    .values({ ...validatedData, id: taskId })
+    .returning()
+
+  const job = await enqueueTaskJob({ taskId: newTask.id, userId, type: 'process-task' })
+
+  if (!pullRequest) {
+    after(() =>
+      generateTaskBranchName(taskId, validatedData.prompt, validatedData.repoUrl, validatedData.selectedAgent),
+    )
+  }
+  after(() => generateTaskTitleAsync(taskId, validatedData.prompt, validatedData.repoUrl, validatedData.selectedAgent))
+
+  after(async () => {
+    try {
+      await drainTaskQueue({ jobId: job.id })
+    } catch (error) {
+      console.error('Task queue drain failed')
+    }
+  })
+
+  after(() => reply(`Started a ${validatedData.selectedAgent} task for @${sender.login}: ${appUrl}/tasks/${taskId}`))
+
+  return { handled: true, message: 'Task created', taskId }
+}
+
+async function replyToIssue(userId: string, repoUrl: string, issueNumber: number, body: string): Promise<void> {
+  try {
+    const parsed = parseGitHubUrl(repoUrl)
+    if (!parsed) return
+    const octokit = await getRepoOctokit(repoUrl, userId)
+    if (!octokit.auth) return
+
+    await octokit.rest.issues.createComment({ ...parsed, issue_number: issueNumber, body })
+  } catch (error) {
+    console.error('Error replying to GitHub webhook event')
+  }
+}
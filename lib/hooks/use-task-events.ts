@@ -0,0 +1,171 @@
+'use client'
+
+import { useEffect, useSyncExternalStore } from 'react'
+import { mutate } from 'swr'
+import type { LogEntry, Task, TaskMessage, TaskWithLogs } from '@/lib/db/schema'
+
+interface TaskStreamConnection {
+  source: EventSource
+  refCount: number
+  connected: boolean
+  listeners: Set<() => void>
+  task: Task | null
+  logs: LogEntry[]
+  messages: TaskMessage[]
+}
+
+// One EventSource per task, shared by every component that subscribes to it
+const connections = new Map<string, TaskStreamConnection>()
+
+function setConnected(connection: TaskStreamConnection, connected: boolean) {
+  if (connection.connected === connected) return
+  connection.connected = connected
+  connection.listeners.forEach((listener) => listener())
+}
+
+/**
+ * Write the streamed state into the SWR caches used by useTask and useTaskMessages.
+ * The stream is the source of truth while connected, so logs and messages are
+ * replaced wholesale rather than merged with whatever a fetch last returned.
+ */
+function publishTask(taskId: string, connection: TaskStreamConnection) {
+  if (!connection.task) return
+  const task: TaskWithLogs = { ...connection.task, logs: [...connection.logs] }
+  mutate(`/api/tasks/${taskId}`, { task }, { revalidate: false })
+}
+
+function publishMessages(taskId: string, connection: TaskStreamConnection) {
+  mutate(`/api/tasks/${taskId}/messages`, { success: true, messages: [...connection.messages] }, { revalidate: false })
+}
+
+function openConnection(taskId: string): TaskStreamConnection {
+  const source = new EventSource(`/api/tasks/${taskId}/events`)
+  const connection: TaskStreamConnection = {
+    source,
+    refCount: 0,
+    connected: false,
+    listeners: new Set(),
+    task: null,
+    logs: [],
+    messages: [],
+  }
+
+  const on = <T>(event: string, handler: (data: T) => void) => {
+    source.addEventListener(event, (e) => {
+      try {
+        handler(JSON.parse((e as MessageEvent<string>).data))
+      } catch {
+        // Ignore malformed events
+      }
+    })
+  }
+
+  on<Task>('task', (task) => {
+    connection.task = task
+    publishTask(taskId, connection)
+  })
+
+  on<Pick<Task, 'status' | 'error'>>('status', (data) => {
+    if (!connection.task) return
+    connection.task = { ...connection.task, ...data }
+    publishTask(taskId, connection)
+  })
+
+  on<Pick<Task, 'progress'>>('progress', (data) => {
+    if (!connection.task) return
+    connection.task = { ...connection.task, ...data }
+    publishTask(taskId, connection)
+  })
+
+  on<Pick<Task, 'currentSubAgent' | 'subAgentActivity' | 'lastHeartbeat'>>('subagent', (data) => {
+    if (!connection.task) return
+    connection.task = { ...connection.task, ...data }
+    publishTask(taskId, connection)
+  })
+
+  on<LogEntry>('log', (entry) => {
+    connection.logs.push(entry)
+    publishTask(taskId, connection)
+  })
+
+  on('logs-reset', () => {
+    connection.logs = []
+    publishTask(taskId, connection)
+  })
+
+  on<TaskMessage>('message', (message) => {
+    const index = connection.messages.findIndex((m) => m.id === message.id)
+    if (index === -1) {
+      connection.messages.push(message)
+    } else {
+      connection.messages[index] = message
+    }
+    publishMessages(taskId, connection)
+  })
+
+  on<{ id: string; delta: string }>('message-delta', ({ id, delta }) => {
+    const index = connection.messages.findIndex((m) => m.id === id)
+    if (index === -1) return
+    connection.messages[index] = { ...connection.messages[index], content: connection.messages[index].content + delta }
+    publishMessages(taskId, connection)
+  })
+
+  source.onopen = () => setConnected(connection, true)
+  source.onerror = () => {
+    // EventSource reconnects on its own (resuming via Last-Event-ID) unless the
+    // server rejected the request; either way fall back to polling meanwhile
+    setConnected(connection, false)
+  }
+
+  return connection
+}
+
+function acquire(taskId: string) {
+  let connection = connections.get(taskId)
+  if (!connection) {
+    connection = openConnection(taskId)
+    connections.set(taskId, connection)
+  }
+  connection.refCount++
+}
+
+function release(taskId: string) {
+  const connection = connections.get(taskId)
+  if (!connection) return
+  connection.refCount--
+  if (connection.refCount <= 0) {
+    connection.source.close()
+    connections.delete(taskId)
+  }
+}
+
+/**
+ * Subscribe to the task's Server-Sent Events stream.
+ *
+ * Streamed logs, status, progress, sub-agent activity and messages are written
+ * into the SWR caches of useTask and useTaskMessages, which stop polling while
+ * the stream is connected.
+ *
+ * Usage:
+ *   const { isConnected } = useTaskEvents(taskId)
+ */
+export function useTaskEvents(taskId: string | null | undefined) {
+  useEffect(() => {
+    if (!taskId || typeof EventSource === 'undefined') return
+    acquire(taskId)
+    return () => release(taskId)
+  }, [taskId])
+
+  const isConnected = useSyncExternalStore(
+    (onChange) => {
+      const connection = taskId ? connections.get(taskId) : undefined
+      if (!connection) return () => {}
+      connection.listeners.add(onChange)
+      return () => connection.listeners.delete(onChange)
+    },
+    () => (taskId ? (connections.get(taskId)?.connected ?? false) : false),
+    () => false,
+  )
+
+  return { isConnected }
+}
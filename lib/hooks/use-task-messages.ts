@@ -2,6 +2,7 @@
 
 import useSWR from 'swr'
 import { fetcher } from '@/lib/hooks/use-swr-fetcher'
+import { useTaskEvents } from '@/lib/hooks/use-task-events'
 import type { TaskMessage } from '@/lib/db/schema'
 
 interface TaskMessagesResponse {
@@ -10,7 +11,10 @@ interface TaskMessagesResponse {
 }
 
 /**
- * Hook for fetching and polling task messages with SWR.
+ * Hook for fetching task messages with SWR.
+ *
+ * New messages and streaming agent output are pushed into the cache by
+ * useTaskEvents; polling only runs while the event stream is disconnected.
  *
  * Implements the `client-swr-dedup` Vercel React best practice:
  * - Automatic request deduplication
@@ -25,11 +29,13 @@ interface TaskMessagesResponse {
  *   await mutate()
  */
 export function useTaskMessages(taskId: string) {
+  const { isConnected } = useTaskEvents(taskId)
+
   const { data, error, isLoading, mutate } = useSWR<TaskMessagesResponse>(
     taskId ? `/api/tasks/${taskId}/messages` : null,
     fetcher,
     {
-      refreshInterval: 3000, // Poll every 3 seconds
+      refreshInterval: isConnected ? 0 : 3000, // Poll every 3 seconds only while the event stream is down
       revalidateOnFocus: true, // Refresh when window regains focus
       refreshWhenHidden: false, // Pause polling when tab is hidden
       refreshWhenOffline: false, // Don't poll when offline
@@ -1,19 +1,27 @@
 'use client'
 
 import useSWR from 'swr'
-import { Task } from '@/lib/db/schema'
+import { TaskWithLogs } from '@/lib/db/schema'
 import { fetcher } from '@/lib/hooks/use-swr-fetcher'
+import { useTaskEvents } from '@/lib/hooks/use-task-events'
 
 export function useTask(taskId: string) {
   // Conditional fetching: only fetch if taskId is provided
   const shouldFetch = !!taskId
 
-  const { data, error, mutate, isLoading } = useSWR<{ task: Task }>(
+  // Live updates arrive over SSE; polling is only a fallback while the stream is down
+  const { isConnected } = useTaskEvents(taskId)
+
+  const { data, error, mutate, isLoading } = useSWR<{ task: TaskWithLogs }>(
     shouldFetch ? `/api/tasks/${taskId}` : null,
     fetcher,
     {
       // Smart polling: stop when task reaches terminal status
       refreshInterval: (latestData) => {
+        if (isConnected) {
+          return 0
+        }
+
         if (!latestData) {
           // Still loading, poll every 5 seconds
           return 5000
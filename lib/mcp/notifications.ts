@@ -0,0 +1,226 @@
+/**
+ * MCP Resource Notifications
+ *
+ * Server-Sent Events stream served on GET /api/mcp that sends
+ * notifications/resources/updated for the task resources an API token has
+ * subscribed to. The stream re-reads the token's subscriptions on every sync,
+ * so subscriptions made on other requests are picked up while it is open.
+ *
+ * Changes are detected the same way as the task event stream: LISTEN on the
+ * task events channel when available, otherwise polling.
+ */
+
+import { db } from '@/lib/db/client'
+import { tasks, taskMessages, mcpResourceSubscriptions } from '@/lib/db/schema'
+import { and, eq, inArray, sql } from 'drizzle-orm'
+import { ensureListening, subscribeToTaskChanges } from '@/lib/tasks/events'
+import { getTaskResourceUri, type TaskResourceKind } from './resources'
+
+// Stream timing constants
+const POLL_INTERVAL_MS = 2000 // Used when LISTEN is unavailable
+const SUBSCRIPTION_REFRESH_MS = 5000 // New subscriptions don't notify, so re-read them regularly
+const KEEPALIVE_INTERVAL_MS = 15 * 1000
+const MIN_SYNC_INTERVAL_MS = 1000 // Coalesce bursts of changes (progress updates, streamed messages)
+const MAX_STREAM_DURATION_MS = 270 * 1000 // Close before the function limit; MCP clients reopen the GET stream
+const CLIENT_RETRY_MS = 3000
+
+/** What each resource of a task was built from; a resource is updated when its keys change */
+interface TaskSnapshot {
+  task: string
+  logs: number
+  messages: string
+  diff: string
+}
+
+function changedKinds(previous: TaskSnapshot, next: TaskSnapshot): TaskResourceKind[] {
+  const kinds: TaskResourceKind[] = []
+  // task://{id} includes the recent logs
+  if (previous.task !== next.task || previous.logs !== next.logs) kinds.push('task')
+  if (previous.logs !== next.logs) kinds.push('logs')
+  if (previous.messages !== next.messages) kinds.push('messages')
+  if (previous.diff !== next.diff) kinds.push('diff')
+  return kinds
+}
+
+/**
+ * Create the notification stream for an API token. The caller is responsible for authentication.
+ */
+export function createResourceUpdateStream(apiTokenId: string, signal: AbortSignal): ReadableStream {
+  const encoder = new TextEncoder()
+  const snapshots = new Map<string, TaskSnapshot>()
+  const taskUnsubscribers = new Map<string, () => void>()
+
+  let closed = false
+  let wake: (() => void) | null = null
+
+  return new ReadableStream({
+    async start(controller) {
+      let lastWriteAt = Date.now()
+
+      const write = (chunk: string) => {
+        if (closed) return
+        controller.enqueue(encoder.encode(chunk))
+        lastWriteAt = Date.now()
+      }
+
+      const notifyUpdated = (uri: string) => {
+        const notification = { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri } }
+        write(`event: message\ndata: ${JSON.stringify(notification)}\n\n`)
+      }
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        wake?.()
+      }
+
+      signal.addEventListener('abort', close)
+
+      /**
+       * Compare the subscribed tasks to their last snapshot and notify for the resources that changed
+       */
+      const sync = async () => {
+        const subscriptions = await db
+          .select({ taskId: mcpResourceSubscriptions.taskId, uri: mcpResourceSubscriptions.uri })
+          .from(mcpResourceSubscriptions)
+          .where(eq(mcpResourceSubscriptions.apiTokenId, apiTokenId))
+
+        const subscribedUris = new Set(subscriptions.map((subscription) => subscription.uri))
+        const taskIds = [...new Set(subscriptions.map((subscription) => subscription.taskId))]
+
+        // Wake on changes to the subscribed tasks only
+        for (const [taskId, unsubscribe] of taskUnsubscribers) {
+          if (!taskIds.includes(taskId)) {
+            unsubscribe()
+            taskUnsubscribers.delete(taskId)
+            snapshots.delete(taskId)
+          }
+        }
+        for (const taskId of taskIds) {
+          if (!taskUnsubscribers.has(taskId)) {
+            taskUnsubscribers.set(
+              taskId,
+              subscribeToTaskChanges(taskId, () => wake?.()),
+            )
+          }
+        }
+
+        if (taskIds.length === 0) return
+
+        const [taskRows, messageRows] = await Promise.all([
+          db.select().from(tasks).where(inArray(tasks.id, taskIds)),
+          db
+            .select({
+              taskId: taskMessages.taskId,
+              count: sql<number>`count(*)`,
+              bytes: sql<number>`coalesce(sum(octet_length(${taskMessages.content})), 0)`,
+            })
+            .from(taskMessages)
+            .where(inArray(taskMessages.taskId, taskIds))
+            .groupBy(taskMessages.taskId),
+        ])
+
+        const deletedTaskIds: string[] = []
+
+        for (const taskId of taskIds) {
+          const task = taskRows.find((row) => row.id === taskId)
+          const notify = (kinds: TaskResourceKind[]) => {
+            for (const kind of kinds) {
+              const uri = getTaskResourceUri(taskId, kind)
+              if (subscribedUris.has(uri)) notifyUpdated(uri)
+            }
+          }
+
+          if (!task || task.deletedAt) {
+            // Reading the resource now fails, which tells the client the task is gone
+            notify(['task', 'logs', 'messages', 'diff'])
+            deletedTaskIds.push(taskId)
+            continue
+          }
+
+          const messages = messageRows.find((row) => row.taskId === taskId)
+          const snapshot: TaskSnapshot = {
+            task: JSON.stringify([
+              task.status,
+              task.progress,
+              task.error,
+              task.title,
+              task.branchName,
+              task.prUrl,
+              task.prStatus,
+              task.completedAt,
+            ]),
+            logs: task.logSeq,
+            messages: JSON.stringify([Number(messages?.count || 0), Number(messages?.bytes || 0)]),
+            diff: JSON.stringify([task.status, task.branchName, task.prStatus]),
+          }
+
+          const previous = snapshots.get(taskId)
+          if (previous) {
+            notify(changedKinds(previous, snapshot))
+          }
+          snapshots.set(taskId, snapshot)
+        }
+
+        if (deletedTaskIds.length > 0) {
+          await db
+            .delete(mcpResourceSubscriptions)
+            .where(
+              and(
+                eq(mcpResourceSubscriptions.apiTokenId, apiTokenId),
+                inArray(mcpResourceSubscriptions.taskId, deletedTaskIds),
+              ),
+            )
+        }
+      }
+
+      try {
+        const listening = await ensureListening()
+        const waitMs = listening ? SUBSCRIPTION_REFRESH_MS : POLL_INTERVAL_MS
+        const startedAt = Date.now()
+
+        write(`retry: ${CLIENT_RETRY_MS}\n\n`)
+
+        while (!closed && Date.now() - startedAt < MAX_STREAM_DURATION_MS) {
+          const syncStartedAt = Date.now()
+          await sync()
+
+          // Wait for a change notification (or the next refresh)
+          await new Promise<void>((resolve) => {
+            const timer = setTimeout(resolve, waitMs)
+            wake = () => {
+              clearTimeout(timer)
+              resolve()
+            }
+          })
+          wake = null
+
+          if (!closed && Date.now() - lastWriteAt >= KEEPALIVE_INTERVAL_MS) {
+            write(': ping\n\n')
+          }
+
+          const sinceSync = Date.now() - syncStartedAt
+          if (sinceSync < MIN_SYNC_INTERVAL_MS) {
+            await new Promise((resolve) => setTimeout(resolve, MIN_SYNC_INTERVAL_MS - sinceSync))
+          }
+        }
+      } catch {
+        console.error('Error streaming MCP resource notifications')
+      } finally {
+        taskUnsubscribers.forEach((unsubscribe) => unsubscribe())
+        taskUnsubscribers.clear()
+        signal.removeEventListener('abort', close)
+        closed = true
+        try {
+          controller.close()
+        } catch {
+          // Stream was already cancelled by the client
+        }
+      }
+    },
+    cancel() {
+      closed = true
+      wake?.()
+    },
+  })
+}
@@ -0,0 +1,31 @@
+/**
+ * MCP Tool Permissions
+ *
+ * The MCP route puts the caller's API token in authInfo.extra.apiToken.
+ * Each tool checks the scope it needs, plus the token's repository and agent
+ * allow-lists for the task it touches.
+ */
+
+import type { ApiToken } from '@/lib/db/schema'
+import { getTokenAccessError, TokenAccessCheck } from '@/lib/auth/token-permissions'
+import type { McpToolContext, McpToolResponse } from './types'
+
+export function getMcpApiToken(context?: McpToolContext): ApiToken | null {
+  return (context?.extra?.authInfo?.extra?.apiToken as ApiToken | undefined) ?? null
+}
+
+/**
+ * Returns an error response when the caller's token doesn't allow the access, or null
+ */
+export function checkMcpTokenAccess(
+  context: McpToolContext | undefined,
+  check: TokenAccessCheck,
+): McpToolResponse | null {
+  const error = getTokenAccessError(getMcpApiToken(context), check)
+  if (!error) return null
+
+  return {
+    content: [{ type: 'text', text: JSON.stringify({ error: 'Access denied', message: error }) }],
+    isError: true,
+  }
+}
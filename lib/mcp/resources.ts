@@ -0,0 +1,182 @@
+/**
+ * MCP Resources
+ *
+ * Tasks are exposed as resources so clients can read them and subscribe to
+ * changes instead of polling get-task:
+ *
+ * - task://{taskId}           Task details (same as get-task)
+ * - task://{taskId}/logs      Most recent log entries (same as get-task-logs)
+ * - task://{taskId}/messages  Conversation with the agent
+ * - task://{taskId}/diff      Changes the task made (same as get-task-diff)
+ *
+ * Reads delegate to the tool handlers. Subscriptions are stored per API token
+ * because the Streamable HTTP transport is stateless; notifications for them
+ * are sent on the GET stream (see ./notifications).
+ */
+
+import {
+  McpError,
+  ErrorCode,
+  type ListResourcesResult,
+  type ReadResourceResult,
+} from '@modelcontextprotocol/sdk/types.js'
+import { db } from '@/lib/db/client'
+import { tasks, taskMessages, mcpResourceSubscriptions } from '@/lib/db/schema'
+import { eq, and, asc, desc, isNull } from 'drizzle-orm'
+import { getTokenAccessError } from '@/lib/auth/token-permissions'
+import { getGitProviderForUrl } from '@/lib/git-providers'
+import { getMcpApiToken } from './permissions'
+import { getTaskHandler, getTaskLogsHandler, getTaskDiffHandler } from './tools'
+import type { McpToolContext, McpToolResponse } from './types'
+
+export type TaskResourceKind = 'task' | 'logs' | 'messages' | 'diff'
+
+export const TASK_RESOURCE_MIME_TYPE = 'application/json'
+
+const TASK_URI_PATTERN = /^task:\/\/([^/]+)(?:\/(logs|messages|diff))?$/
+
+// Tasks returned by resources/list, most recent first
+const MAX_LISTED_TASKS = 50
+
+export function getTaskResourceUri(taskId: string, kind: TaskResourceKind = 'task'): string {
+  return kind === 'task' ? `task://${taskId}` : `task://${taskId}/${kind}`
+}
+
+function parseTaskResourceUri(uri: string): { taskId: string; kind: TaskResourceKind } | null {
+  const match = uri.match(TASK_URI_PATTERN)
+  if (!match) return null
+  return { taskId: decodeURIComponent(match[1]), kind: (match[2] as TaskResourceKind | undefined) || 'task' }
+}
+
+/**
+ * Load a task the caller can read, or throw the JSON-RPC error to return
+ */
+async function getReadableTask(taskId: string, context: McpToolContext) {
+  const userId = context.extra?.authInfo?.clientId
+  if (!userId) {
+    throw new McpError(ErrorCode.InvalidRequest, 'Authentication required')
+  }
+
+  const [task] = await db
+    .select({ id: tasks.id, repoUrl: tasks.repoUrl })
+    .from(tasks)
+    .where(and(eq(tasks.id, taskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)))
+    .limit(1)
+
+  if (!task) {
+    throw new McpError(ErrorCode.InvalidParams, `Resource ${getTaskResourceUri(taskId)} not found`)
+  }
+
+  const accessError = getTokenAccessError(getMcpApiToken(context), { scope: 'tasks:read', repoUrl: task.repoUrl })
+  if (accessError) {
+    throw new McpError(ErrorCode.InvalidRequest, accessError)
+  }
+
+  return task
+}
+
+function toReadResourceResult(uri: string, response: McpToolResponse): ReadResourceResult {
+  const text = response.content[0]?.text || ''
+  if (response.isError) {
+    throw new McpError(ErrorCode.InternalError, text)
+  }
+  return { contents: [{ uri, mimeType: TASK_RESOURCE_MIME_TYPE, text }] }
+}
+
+export async function readTaskResource(
+  uri: string,
+  taskId: string,
+  kind: TaskResourceKind,
+  context: McpToolContext,
+): Promise<ReadResourceResult> {
+  const task = await getReadableTask(taskId, context)
+
+  switch (kind) {
+    case 'task':
+      return toReadResourceResult(uri, await getTaskHandler({ taskId }, context))
+    case 'logs':
+      return toReadResourceResult(uri, await getTaskLogsHandler({ taskId, limit: 200 }, context))
+    case 'diff': {
+      // Remote diffs need the GitHub compare API; other hosts read the running sandbox
+      const mode = task.repoUrl && getGitProviderForUrl(task.repoUrl)?.name === 'github' ? 'remote' : 'local'
+      return toReadResourceResult(uri, await getTaskDiffHandler({ taskId, mode }, context))
+    }
+    case 'messages': {
+      const messages = await db
+        .select({
+          id: taskMessages.id,
+          role: taskMessages.role,
+          content: taskMessages.content,
+          createdAt: taskMessages.createdAt,
+        })
+        .from(taskMessages)
+        .where(eq(taskMessages.taskId, task.id))
+        .orderBy(asc(taskMessages.createdAt))
+
+      return { contents: [{ uri, mimeType: TASK_RESOURCE_MIME_TYPE, text: JSON.stringify({ messages }) }] }
+    }
+  }
+}
+
+/**
+ * The caller's most recent tasks, for resources/list
+ */
+export async function listTaskResources(context: McpToolContext): Promise<ListResourcesResult> {
+  const userId = context.extra?.authInfo?.clientId
+  if (!userId) {
+    throw new McpError(ErrorCode.InvalidRequest, 'Authentication required')
+  }
+
+  const apiToken = getMcpApiToken(context)
+  const scopeError = getTokenAccessError(apiToken, { scope: 'tasks:read' })
+  if (scopeError) {
+    return { resources: [] }
+  }
+
+  const userTasks = await db
+    .select({ id: tasks.id, title: tasks.title, prompt: tasks.prompt, status: tasks.status, repoUrl: tasks.repoUrl })
+    .from(tasks)
+    .where(and(eq(tasks.userId, userId), isNull(tasks.deletedAt)))
+    .orderBy(desc(tasks.createdAt))
+    .limit(MAX_LISTED_TASKS)
+
+  return {
+    resources: userTasks
+      .filter((task) => !getTokenAccessError(apiToken, { scope: 'tasks:read', repoUrl: task.repoUrl }))
+      .map((task) => ({
+        uri: getTaskResourceUri(task.id),
+        name: task.title || task.prompt.substring(0, 100),
+        description: `${task.status} task${task.repoUrl ? ` on ${task.repoUrl}` : ''}`,
+        mimeType: TASK_RESOURCE_MIME_TYPE,
+      })),
+  }
+}
+
+function getSubscriptionTarget(uri: string, context: McpToolContext): { apiTokenId: string; taskId: string } {
+  const apiToken = getMcpApiToken(context)
+  if (!apiToken) {
+    throw new McpError(ErrorCode.InvalidRequest, 'Subscriptions require an API token')
+  }
+
+  const parsed = parseTaskResourceUri(uri)
+  if (!parsed) {
+    throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} not found`)
+  }
+
+  return { apiTokenId: apiToken.id, taskId: parsed.taskId }
+}
+
+export async function subscribeToTaskResource(uri: string, context: McpToolContext): Promise<void> {
+  const { apiTokenId, taskId } = getSubscriptionTarget(uri, context)
+  await getReadableTask(taskId, context)
+
+  await db.insert(mcpResourceSubscriptions).values({ apiTokenId, taskId, uri }).onConflictDoNothing()
+}
+
+export async function unsubscribeFromTaskResource(uri: string, context: McpToolContext): Promise<void> {
+  const { apiTokenId } = getSubscriptionTarget(uri, context)
+
+  await db
+    .delete(mcpResourceSubscriptions)
+    .where(and(eq(mcpResourceSubscriptions.apiTokenId, apiTokenId), eq(mcpResourceSubscriptions.uri, uri)))
+}
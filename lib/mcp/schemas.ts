@@ -9,7 +9,10 @@ export const createTaskSchema = z.object({
     .min(1, 'Prompt is required')
     .max(5000, 'Prompt must be 5000 characters or less')
     .describe('The task prompt describing what the AI agent should do'),
-  repoUrl: z.string().url('Must be a valid repository URL').describe('GitHub repository URL to work on'),
+  repoUrl: z
+    .string()
+    .url('Must be a valid repository URL')
+    .describe('GitHub, GitLab or Gitea repository URL to work on'),
   sourceBranch: z.string().optional().describe('Specific branch to clone from (defaults to repository default branch)'),
   selectedAgent: z
     .enum(['claude', 'codex', 'copilot', 'cursor', 'gemini', 'opencode'])
@@ -27,6 +30,10 @@ export const createTaskSchema = z.object({
     .boolean()
     .default(false)
     .describe('Whether to keep the sandbox alive after task completion for debugging'),
+  ciAutoFix: z
+    .boolean()
+    .default(false)
+    .describe('Whether to start follow-up turns that fix failing CI checks on the task branch'),
 })
 
 /**
@@ -72,6 +79,111 @@ export const stopTaskSchema = z.object({
   taskId: z.string().min(1, 'Task ID is required').describe('Unique identifier of the task to stop'),
 })
 
+/**
+ * Schema for reading the changes a task made
+ */
+export const getTaskDiffSchema = z.object({
+  taskId: z.string().min(1, 'Task ID is required').describe('Unique identifier of the task to get the diff of'),
+  mode: z
+    .enum(['remote', 'local'])
+    .default('remote')
+    .describe(
+      'remote: pushed branch compared to its base (GitHub only); local: uncommitted and unpushed changes in the running sandbox',
+    ),
+  filename: z.string().optional().describe('Only return the diff of this file (path relative to the repository root)'),
+})
+
+/**
+ * Schema for paging through task logs
+ */
+export const getTaskLogsSchema = z.object({
+  taskId: z.string().min(1, 'Task ID is required').describe('Unique identifier of the task to get logs for'),
+  after: z.number().int().min(0).optional().describe('Return entries newer than this cursor (for tailing)'),
+  before: z.number().int().min(0).optional().describe('Return entries older than this cursor (for loading history)'),
+  limit: z
+    .number()
+    .int('Limit must be an integer')
+    .min(1, 'Limit must be at least 1')
+    .max(1000, 'Limit must be 1000 or less')
+    .default(200)
+    .describe('Maximum number of log entries to return'),
+})
+
+/**
+ * Schema for listing files in a task's sandbox
+ */
+export const listFilesSchema = z.object({
+  taskId: z.string().min(1, 'Task ID is required').describe('Unique identifier of the task to list files for'),
+  path: z.string().optional().describe('Directory to list, relative to the repository root (defaults to the root)'),
+})
+
+/**
+ * Schema for reading a file from a task's sandbox
+ */
+export const readFileSchema = z.object({
+  taskId: z.string().min(1, 'Task ID is required').describe('Unique identifier of the task to read a file from'),
+  path: z.string().min(1, 'Path is required').describe('File path relative to the repository root'),
+})
+
+/**
+ * Schema for opening a pull request from a task's branch
+ */
+export const createPrSchema = z.object({
+  taskId: z.string().min(1, 'Task ID is required').describe('Unique identifier of the task to open a pull request for'),
+  title: z
+    .string()
+    .min(1, 'Title is required')
+    .max(256, 'Title must be 256 characters or less')
+    .describe('Pull request title'),
+  body: z.string().max(65536, 'Body must be 65536 characters or less').optional().describe('Pull request description'),
+  baseBranch: z.string().optional().describe('Branch to merge into (defaults to main)'),
+})
+
+/**
+ * Schema for merging a task's pull request
+ */
+export const mergePrSchema = z.object({
+  taskId: z
+    .string()
+    .min(1, 'Task ID is required')
+    .describe('Unique identifier of the task to merge the pull request of'),
+  mergeMethod: z.enum(['merge', 'squash', 'rebase']).default('squash').describe('How to merge the pull request'),
+  commitTitle: z.string().optional().describe('Title of the merge commit'),
+  commitMessage: z.string().optional().describe('Message of the merge commit'),
+})
+
+/**
+ * Schema for closing a task's pull request without merging
+ */
+export const closePrSchema = z.object({
+  taskId: z
+    .string()
+    .min(1, 'Task ID is required')
+    .describe('Unique identifier of the task to close the pull request of'),
+})
+
+/**
+ * Schema for listing repositories on a git host
+ */
+export const listReposSchema = z.object({
+  provider: z.enum(['github', 'gitlab', 'gitea']).default('github').describe('Git host to list repositories from'),
+  page: z.number().int().min(1).default(1).describe('Page number'),
+  perPage: z
+    .number()
+    .int('Page size must be an integer')
+    .min(1, 'Page size must be at least 1')
+    .max(100, 'Page size must be 100 or less')
+    .default(30)
+    .describe('Number of repositories per page'),
+})
+
+/**
+ * Schema for listing branches of a repository
+ */
+export const listBranchesSchema = z.object({
+  repoUrl: z.string().url('Must be a valid repository URL').describe('GitHub, GitLab or Gitea repository URL'),
+})
+
 /**
  * Type exports for TypeScript type safety
  */
@@ -80,3 +192,12 @@ export type GetTaskInput = z.infer<typeof getTaskSchema>
 export type ContinueTaskInput = z.infer<typeof continueTaskSchema>
 export type ListTasksInput = z.infer<typeof listTasksSchema>
 export type StopTaskInput = z.infer<typeof stopTaskSchema>
+export type GetTaskDiffInput = z.infer<typeof getTaskDiffSchema>
+export type GetTaskLogsInput = z.infer<typeof getTaskLogsSchema>
+export type ListFilesInput = z.infer<typeof listFilesSchema>
+export type ReadFileInput = z.infer<typeof readFileSchema>
+export type CreatePrInput = z.infer<typeof createPrSchema>
+export type MergePrInput = z.infer<typeof mergePrSchema>
+export type ClosePrInput = z.infer<typeof closePrSchema>
+export type ListReposInput = z.infer<typeof listReposSchema>
+export type ListBranchesInput = z.infer<typeof listBranchesSchema>
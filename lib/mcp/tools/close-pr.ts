@@ -0,0 +1,82 @@
+/**
+ * MCP Tool: Close Pull Request
+ *
+ * Closes a task's pull request without merging it.
+ * Delegates to the same logic as POST /api/tasks/[taskId]/close-pr.
+ */
+
+import { db } from '@/lib/db/client'
+import { tasks } from '@/lib/db/schema'
+import { eq, and, isNull } from 'drizzle-orm'
+import { closeTaskPullRequest } from '@/lib/git-providers/pull-requests'
+import { checkMcpTokenAccess } from '../permissions'
+import { McpToolHandler } from '../types'
+import { ClosePrInput } from '../schemas'
+
+export const closePrHandler: McpToolHandler<ClosePrInput> = async (input, context) => {
+  try {
+    // Check authentication
+    const userId = context?.extra?.authInfo?.clientId
+    if (!userId) {
+      return {
+        content: [{ type: 'text', text: 'Authentication required' }],
+        isError: true,
+      }
+    }
+
+    // Get task (user-scoped)
+    const [task] = await db
+      .select()
+      .from(tasks)
+      .where(and(eq(tasks.id, input.taskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)))
+      .limit(1)
+
+    if (!task) {
+      return {
+        content: [{ type: 'text', text: 'Task not found' }],
+        isError: true,
+      }
+    }
+
+    const accessError = checkMcpTokenAccess(context, { scope: 'tasks:write', repoUrl: task.repoUrl })
+    if (accessError) return accessError
+
+    if (!task.repoUrl || !task.prNumber) {
+      return {
+        content: [{ type: 'text', text: 'Task does not have a pull request' }],
+        isError: true,
+      }
+    }
+
+    const result = await closeTaskPullRequest(userId, { repoUrl: task.repoUrl, prNumber: task.prNumber })
+
+    if (!result.success) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: result.error || 'Failed to close pull request' }) }],
+        isError: true,
+      }
+    }
+
+    await db.update(tasks).set({ prStatus: 'closed', updatedAt: new Date() }).where(eq(tasks.id, task.id))
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            taskId: task.id,
+            prNumber: task.prNumber,
+            prStatus: 'closed',
+          }),
+        },
+      ],
+    }
+  } catch (error) {
+    console.error('Error closing pull request')
+    return {
+      content: [{ type: 'text', text: 'Failed to close pull request' }],
+      isError: true,
+    }
+  }
+}
@@ -9,7 +9,9 @@ import { db } from '@/lib/db/client'
 import { tasks, users, taskMessages } from '@/lib/db/schema'
 import { eq, and, isNull } from 'drizzle-orm'
 import { generateId } from '@/lib/utils/id'
-import { checkRateLimit } from '@/lib/utils/rate-limit'
+import { checkRateLimit, checkSpendLimit } from '@/lib/utils/rate-limit'
+import { formatUsd } from '@/lib/utils/model-pricing'
+import { checkMcpTokenAccess } from '../permissions'
 import { McpToolHandler } from '../types'
 import { ContinueTaskInput } from '../schemas'
 
@@ -24,6 +26,9 @@ export const continueTaskHandler: McpToolHandler<ContinueTaskInput> = async (inp
       }
     }
 
+    const scopeError = checkMcpTokenAccess(context, { scope: 'tasks:write' })
+    if (scopeError) return scopeError
+
     // Get user info for rate limiting
     const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1)
 
@@ -54,6 +59,25 @@ export const continueTaskHandler: McpToolHandler<ContinueTaskInput> = async (inp
       }
     }
 
+    const spendLimit = await checkSpendLimit({ id: user.id, email: user.email ?? undefined })
+    if (!spendLimit.allowed) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Spend limit exceeded',
+              message: `You have reached your monthly agent spend limit of ${formatUsd(spendLimit.limitUsd!)}.`,
+              spentUsd: spendLimit.spentUsd,
+              limitUsd: spendLimit.limitUsd,
+              resetAt: spendLimit.resetAt.toISOString(),
+            }),
+          },
+        ],
+        isError: true,
+      }
+    }
+
     // Get the task and verify ownership
     const [task] = await db
       .select()
@@ -68,6 +92,13 @@ export const continueTaskHandler: McpToolHandler<ContinueTaskInput> = async (inp
       }
     }
 
+    const accessError = checkMcpTokenAccess(context, {
+      scope: 'tasks:write',
+      repoUrl: task.repoUrl,
+      agent: task.selectedAgent,
+    })
+    if (accessError) return accessError
+
     // Check if task has a branch name (required to continue)
     if (!task.branchName) {
       return {
@@ -0,0 +1,109 @@
+/**
+ * MCP Tool: Create Pull Request
+ *
+ * Opens a pull request from a task's branch.
+ * Delegates to the same logic as POST /api/tasks/[taskId]/pr.
+ */
+
+import { db } from '@/lib/db/client'
+import { tasks } from '@/lib/db/schema'
+import { eq, and, isNull } from 'drizzle-orm'
+import { createTaskPullRequest } from '@/lib/git-providers/pull-requests'
+import { checkMcpTokenAccess } from '../permissions'
+import { McpToolHandler } from '../types'
+import { CreatePrInput } from '../schemas'
+
+export const createPrHandler: McpToolHandler<CreatePrInput> = async (input, context) => {
+  try {
+    // Check authentication
+    const userId = context?.extra?.authInfo?.clientId
+    if (!userId) {
+      return {
+        content: [{ type: 'text', text: 'Authentication required' }],
+        isError: true,
+      }
+    }
+
+    // Get task (user-scoped)
+    const [task] = await db
+      .select()
+      .from(tasks)
+      .where(and(eq(tasks.id, input.taskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)))
+      .limit(1)
+
+    if (!task) {
+      return {
+        content: [{ type: 'text', text: 'Task not found' }],
+        isError: true,
+      }
+    }
+
+    const accessError = checkMcpTokenAccess(context, { scope: 'tasks:write', repoUrl: task.repoUrl })
+    if (accessError) return accessError
+
+    if (!task.repoUrl || !task.branchName) {
+      return {
+        content: [{ type: 'text', text: 'Task does not have repository or branch information' }],
+        isError: true,
+      }
+    }
+
+    // A task has at most one pull request
+    if (task.prUrl) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ prUrl: task.prUrl, prNumber: task.prNumber, alreadyExists: true }),
+          },
+        ],
+      }
+    }
+
+    const result = await createTaskPullRequest(userId, {
+      repoUrl: task.repoUrl,
+      branchName: task.branchName,
+      title: input.title,
+      body: input.body,
+      baseBranch: input.baseBranch || 'main',
+      headRepoUrl: task.forkRepoUrl,
+    })
+
+    if (!result.success) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: result.error || 'Failed to create pull request' }) }],
+        isError: true,
+      }
+    }
+
+    await db
+      .update(tasks)
+      .set({
+        prUrl: result.prUrl,
+        prNumber: result.prNumber,
+        prStatus: 'open',
+        updatedAt: new Date(),
+      })
+      .where(eq(tasks.id, task.id))
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            taskId: task.id,
+            prUrl: result.prUrl,
+            prNumber: result.prNumber,
+          }),
+        },
+      ],
+    }
+  } catch (error) {
+    console.error('Error creating pull request')
+    return {
+      content: [{ type: 'text', text: 'Failed to create pull request' }],
+      isError: true,
+    }
+  }
+}
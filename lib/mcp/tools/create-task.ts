@@ -1,16 +1,23 @@
 /**
  * MCP Tool: Create Task
  *
- * Creates a new coding task, triggers execution, and returns the task ID.
+ * Creates a new coding task, queues it for execution, and returns the task ID.
  * Supports full task execution including GitHub access via API tokens.
  */
 
+import { after } from 'next/server'
 import { db } from '@/lib/db/client'
 import { tasks, users, insertTaskSchema } from '@/lib/db/schema'
 import { eq } from 'drizzle-orm'
 import { generateId } from '@/lib/utils/id'
-import { checkRateLimit } from '@/lib/utils/rate-limit'
-import { getUserGitHubToken } from '@/lib/github/user-token'
+import { checkRateLimit, checkSpendLimit } from '@/lib/utils/rate-limit'
+import { formatUsd } from '@/lib/utils/model-pricing'
+import { getGitProviderForUrl } from '@/lib/git-providers'
+import { getGitProviderToken } from '@/lib/git-providers/accounts'
+import { generateTaskBranchName, generateTaskTitleAsync } from '@/lib/tasks/process-task'
+import { enqueueTaskJob } from '@/lib/tasks/queue'
+import { drainTaskQueue } from '@/lib/tasks/worker'
+import { checkMcpTokenAccess } from '../permissions'
 import { McpToolHandler } from '../types'
 import { CreateTaskInput } from '../schemas'
 
@@ -34,6 +41,9 @@ export const createTaskHandler: McpToolHandler<CreateTaskInput> = async (input,
       }
     }
 
+    const scopeError = checkMcpTokenAccess(context, { scope: 'tasks:write' })
+    if (scopeError) return scopeError
+
     // Get user info for rate limiting
     const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1)
 
@@ -74,17 +84,18 @@ export const createTaskHandler: McpToolHandler<CreateTaskInput> = async (input,
       }
     }
 
-    // Verify GitHub access before creating task (critical for MCP external access)
-    const githubToken = await getUserGitHubToken(userId)
-    if (!githubToken) {
+    const spendLimit = await checkSpendLimit({ id: user.id, email: user.email ?? undefined })
+    if (!spendLimit.allowed) {
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify({
-              error: 'GitHub not connected',
-              message: 'GitHub access is required for repository operations.',
-              hint: 'Visit /settings in the web UI to connect your GitHub account.',
+              error: 'Spend limit exceeded',
+              message: `You have reached your monthly agent spend limit of ${formatUsd(spendLimit.limitUsd!)}.`,
+              spentUsd: spendLimit.spentUsd,
+              limitUsd: spendLimit.limitUsd,
+              resetAt: spendLimit.resetAt.toISOString(),
             }),
           },
         ],
@@ -92,17 +103,19 @@ export const createTaskHandler: McpToolHandler<CreateTaskInput> = async (input,
       }
     }
 
-    // Get Bearer token from context for internal API call
-    const bearerToken = context?.extra?.authInfo?.token
-    if (!bearerToken) {
+    // Verify access to the repository's git host before creating task (critical for MCP external access)
+    const gitProvider = input.repoUrl ? getGitProviderForUrl(input.repoUrl) : null
+    const providerName = gitProvider?.displayName || 'GitHub'
+    const githubToken = await getGitProviderToken(userId, gitProvider?.name || 'github')
+    if (!githubToken) {
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify({
-              error: 'Authentication token not available',
-              message: 'Bearer token is required to trigger task execution.',
-              hint: 'This is an internal error. Ensure your MCP client is configured correctly with a valid API token.',
+              error: `${providerName} not connected`,
+              message: `${providerName} access is required for repository operations.`,
+              hint: `Visit /settings in the web UI to connect your ${providerName} account.`,
             }),
           },
         ],
@@ -122,7 +135,6 @@ export const createTaskHandler: McpToolHandler<CreateTaskInput> = async (input,
         userId: user.id,
         status: 'pending',
         progress: 0,
-        logs: [],
       })
     } catch (validationError: any) {
       // Handle Zod validation errors with specific messages
@@ -139,7 +151,7 @@ export const createTaskHandler: McpToolHandler<CreateTaskInput> = async (input,
               field: fieldPath,
               hint:
                 fieldPath === 'repoUrl'
-                  ? 'Repository URL must be a valid GitHub repository URL. Format: https://github.com/owner/repo'
+                  ? 'Repository URL must be a valid GitHub, GitLab or Gitea repository URL. Format: https://github.com/owner/repo'
                   : 'Check that all required fields are provided with valid values.',
             }),
           },
@@ -148,87 +160,55 @@ export const createTaskHandler: McpToolHandler<CreateTaskInput> = async (input,
       }
     }
 
-    // Trigger task creation via internal REST API (which uses after() for proper serverless execution)
-    // This delegates to the existing POST /api/tasks endpoint which handles:
-    // - Task insertion
-    // - Branch name generation (via after())
-    // - Title generation (via after())
-    // - Task execution (via after())
-    const baseUrl = process.env.VERCEL_URL
-      ? `https://${process.env.VERCEL_URL}`
-      : process.env.NEXTAUTH_URL || 'http://localhost:3000'
+    const accessError = checkMcpTokenAccess(context, {
+      scope: 'tasks:write',
+      repoUrl: validatedData.repoUrl ?? null,
+      agent: validatedData.selectedAgent,
+    })
+    if (accessError) return accessError
 
-    try {
-      const response = await fetch(`${baseUrl}/api/tasks`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${bearerToken}`,
-        },
-        body: JSON.stringify({
-          id: taskId, // Use our pre-generated ID
-          prompt: validatedData.prompt,
-          repoUrl: validatedData.repoUrl,
-          sourceBranch: validatedData.sourceBranch,
-          selectedAgent: validatedData.selectedAgent,
-          selectedModel: validatedData.selectedModel,
-          installDependencies: validatedData.installDependencies,
-          keepAlive: validatedData.keepAlive,
-          maxDuration: validatedData.maxDuration,
-        }),
+    // Insert the task and queue it for execution
+    const [newTask] = await db
+      .insert(tasks)
+      .values({
+        ...validatedData,
+        id: taskId,
       })
+      .returning()
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                error: 'Task creation failed',
-                message: errorData.error || 'The server could not process the request.',
-                hint: 'Check the web UI for more details or try again later.',
-                status: response.status,
-              }),
-            },
-          ],
-          isError: true,
-        }
-      }
+    const job = await enqueueTaskJob({ taskId: newTask.id, userId: user.id, type: 'process-task' })
 
-      const responseData = await response.json()
-      const newTask = responseData.task
+    // Generate AI branch name and title after the response is sent (non-blocking)
+    after(() =>
+      generateTaskBranchName(taskId, validatedData.prompt, validatedData.repoUrl, validatedData.selectedAgent),
+    )
+    after(() =>
+      generateTaskTitleAsync(taskId, validatedData.prompt, validatedData.repoUrl, validatedData.selectedAgent),
+    )
 
-      // Return success response with task ID immediately
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              success: true,
-              taskId: newTask.id,
-              status: 'processing',
-              message: 'Task created and execution started. Use get-task to check progress.',
-              createdAt: newTask.createdAt,
-            }),
-          },
-        ],
-      }
-    } catch (fetchError) {
-      console.error('Error calling internal API')
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              error: 'Task execution failed',
-              message: 'Internal API call failed.',
-              hint: 'The server may be unavailable. Check your network connection and try again later.',
-            }),
-          },
-        ],
-        isError: true,
+    // Start draining the queue right away so the task doesn't wait for the next cron tick
+    after(async () => {
+      try {
+        await drainTaskQueue({ jobId: job.id })
+      } catch (error) {
+        console.error('Task queue drain failed')
       }
+    })
+
+    // Return success response with task ID immediately
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            taskId: newTask.id,
+            status: 'queued',
+            message: 'Task created and queued for execution. Use get-task to check progress.',
+            createdAt: newTask.createdAt,
+          }),
+        },
+      ],
     }
   } catch (error) {
     console.error('Error creating task')
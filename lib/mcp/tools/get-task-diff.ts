@@ -0,0 +1,153 @@
+/**
+ * MCP Tool: Get Task Diff
+ *
+ * Returns what a task changed: the pushed branch compared to its base, or the
+ * uncommitted and unpushed changes in its running sandbox.
+ * Delegates to the same logic as GET /api/tasks/[taskId]/diff.
+ */
+
+import { db } from '@/lib/db/client'
+import { tasks } from '@/lib/db/schema'
+import { eq, and, isNull } from 'drizzle-orm'
+import { compareBranch } from '@/lib/github/client'
+import { getGitProviderForUrl } from '@/lib/git-providers'
+import { getRepoGitCredentials } from '@/lib/git-providers/accounts'
+import { isProjectPath, PROJECT_DIR, runInProject } from '@/lib/sandbox/commands'
+import { authenticatedGitCommand, fetchBranchArgs, getTaskRemote } from '@/lib/sandbox/git'
+import { connectTaskSandbox } from '@/lib/sandbox/sandbox-registry'
+import { checkMcpTokenAccess } from '../permissions'
+import { McpToolHandler, McpToolResponse } from '../types'
+import { GetTaskDiffInput } from '../schemas'
+
+// Keeps responses within what MCP clients put in a model's context
+const MAX_DIFF_CHARS = 200_000
+
+function errorResponse(text: string): McpToolResponse {
+  return { content: [{ type: 'text', text }], isError: true }
+}
+
+export const getTaskDiffHandler: McpToolHandler<GetTaskDiffInput> = async (input, context) => {
+  try {
+    // Check authentication
+    const userId = context?.extra?.authInfo?.clientId
+    if (!userId) {
+      return errorResponse('Authentication required')
+    }
+
+    // Get task (user-scoped)
+    const [task] = await db
+      .select()
+      .from(tasks)
+      .where(and(eq(tasks.id, input.taskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)))
+      .limit(1)
+
+    if (!task) {
+      return errorResponse('Task not found')
+    }
+
+    const accessError = checkMcpTokenAccess(context, { scope: 'tasks:read', repoUrl: task.repoUrl })
+    if (accessError) return accessError
+
+    if (!task.repoUrl || !task.branchName) {
+      return errorResponse('Task does not have branch or repository information')
+    }
+
+    const filename = input.filename?.replace(/^\.\//, '')
+    if (filename && !isProjectPath(filename)) {
+      return errorResponse('Filename must be relative to the repository root')
+    }
+
+    if (input.mode === 'local') {
+      const sandbox = task.sandboxId ? await connectTaskSandbox(task.id, task.sandboxId) : null
+      if (!sandbox) {
+        return errorResponse('Sandbox is not running')
+      }
+
+      // Compare the working tree to the pushed branch, or to HEAD before the first push
+      const git = await getRepoGitCredentials(userId, task.repoUrl)
+      const remote = getTaskRemote(task.repoUrl, task.forkRepoUrl)
+      await sandbox.runCommand({
+        ...authenticatedGitCommand(
+          fetchBranchArgs(remote, task.branchName),
+          remote.url,
+          git?.token,
+          git?.provider.gitUsername,
+        ),
+        cwd: PROJECT_DIR,
+      })
+      const remoteRef = `${remote.name}/${task.branchName}`
+      const remoteCheck = await runInProject(sandbox, 'git', ['rev-parse', '--verify', '--quiet', remoteRef])
+      const base = remoteCheck.success ? remoteRef : 'HEAD'
+
+      const diffResult = await runInProject(sandbox, 'git', ['diff', base, ...(filename ? ['--', filename] : [])])
+      if (!diffResult.success) {
+        return errorResponse('Failed to get local diff')
+      }
+
+      const diff = diffResult.output || ''
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              mode: 'local',
+              base,
+              diff: diff.slice(0, MAX_DIFF_CHARS),
+              truncated: diff.length > MAX_DIFF_CHARS,
+            }),
+          },
+        ],
+      }
+    }
+
+    if (getGitProviderForUrl(task.repoUrl)?.name !== 'github') {
+      return errorResponse(
+        'Remote diffs are only available for GitHub repositories. Use mode "local" while the sandbox is running.',
+      )
+    }
+
+    const result = await compareBranch({
+      repoUrl: task.repoUrl,
+      branchName: task.branchName,
+      baseBranch: task.sourceBranch || undefined,
+      headRepoUrl: task.forkRepoUrl,
+      userId,
+    })
+
+    if (!result.success) {
+      return errorResponse(JSON.stringify({ error: result.error || 'Failed to compare branch' }))
+    }
+
+    // Patches are dropped once the response gets too large; file stats are always returned
+    let remaining = MAX_DIFF_CHARS
+    let truncated = false
+    const files = (result.files || [])
+      .filter((file) => !filename || file.filename === filename)
+      .map((file) => {
+        const patch = file.patch && file.patch.length <= remaining ? file.patch : undefined
+        if (file.patch && !patch) truncated = true
+        remaining -= patch?.length || 0
+        return { ...file, patch }
+      })
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            mode: 'remote',
+            baseBranch: result.baseBranch,
+            branchName: task.branchName,
+            additions: result.additions,
+            deletions: result.deletions,
+            files,
+            truncated,
+          }),
+        },
+      ],
+    }
+  } catch (error) {
+    console.error('Error getting task diff')
+    return errorResponse('Failed to get task diff')
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * MCP Tool: Get Task Logs
+ *
+ * Pages through a task's logs with a cursor.
+ * Delegates to the same logic as GET /api/tasks/[taskId]/logs.
+ */
+
+import { db } from '@/lib/db/client'
+import { tasks } from '@/lib/db/schema'
+import { eq, and, isNull } from 'drizzle-orm'
+import { getTaskLogPage } from '@/lib/tasks/logs'
+import { checkMcpTokenAccess } from '../permissions'
+import { McpToolHandler } from '../types'
+import { GetTaskLogsInput } from '../schemas'
+
+export const getTaskLogsHandler: McpToolHandler<GetTaskLogsInput> = async (input, context) => {
+  try {
+    // Check authentication
+    const userId = context?.extra?.authInfo?.clientId
+    if (!userId) {
+      return {
+        content: [{ type: 'text', text: 'Authentication required' }],
+        isError: true,
+      }
+    }
+
+    // Get task (user-scoped)
+    const [task] = await db
+      .select({ id: tasks.id, repoUrl: tasks.repoUrl })
+      .from(tasks)
+      .where(and(eq(tasks.id, input.taskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)))
+      .limit(1)
+
+    if (!task) {
+      return {
+        content: [{ type: 'text', text: 'Task not found' }],
+        isError: true,
+      }
+    }
+
+    const accessError = checkMcpTokenAccess(context, { scope: 'tasks:read', repoUrl: task.repoUrl })
+    if (accessError) return accessError
+
+    const page = await getTaskLogPage(task.id, {
+      after: input.after,
+      before: input.before,
+      limit: input.limit,
+    })
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(page) }],
+    }
+  } catch (error) {
+    console.error('Error fetching task logs')
+    return {
+      content: [{ type: 'text', text: 'Failed to fetch task logs' }],
+      isError: true,
+    }
+  }
+}
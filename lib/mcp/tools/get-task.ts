@@ -8,6 +8,8 @@
 import { db } from '@/lib/db/client'
 import { tasks } from '@/lib/db/schema'
 import { eq, and, isNull } from 'drizzle-orm'
+import { getRecentTaskLogs } from '@/lib/tasks/logs'
+import { checkMcpTokenAccess } from '../permissions'
 import { McpToolHandler } from '../types'
 import { GetTaskInput } from '../schemas'
 
@@ -36,6 +38,11 @@ export const getTaskHandler: McpToolHandler<GetTaskInput> = async (input, contex
       }
     }
 
+    const accessError = checkMcpTokenAccess(context, { scope: 'tasks:read', repoUrl: task.repoUrl })
+    if (accessError) return accessError
+
+    const logs = await getRecentTaskLogs(task.id)
+
     // Return task details
     return {
       content: [
@@ -56,7 +63,7 @@ export const getTaskHandler: McpToolHandler<GetTaskInput> = async (input, contex
             prUrl: task.prUrl,
             prNumber: task.prNumber,
             prStatus: task.prStatus,
-            logs: task.logs,
+            logs,
             error: task.error,
             createdAt: task.createdAt,
             updatedAt: task.updatedAt,
@@ -11,3 +11,12 @@ export { getTaskHandler } from './get-task'
 export { continueTaskHandler } from './continue-task'
 export { listTasksHandler } from './list-tasks'
 export { stopTaskHandler } from './stop-task'
+export { getTaskDiffHandler } from './get-task-diff'
+export { getTaskLogsHandler } from './get-task-logs'
+export { listFilesHandler } from './list-files'
+export { readFileHandler } from './read-file'
+export { createPrHandler } from './create-pr'
+export { mergePrHandler } from './merge-pr'
+export { closePrHandler } from './close-pr'
+export { listReposHandler } from './list-repos'
+export { listBranchesHandler } from './list-branches'
@@ -0,0 +1,65 @@
+/**
+ * MCP Tool: List Branches
+ *
+ * Lists the branches of a repository and its default branch.
+ * Delegates to the same logic as GET /api/git/[provider]/branches.
+ */
+
+import { getGitProviderForUrl } from '@/lib/git-providers'
+import { getGitProviderToken } from '@/lib/git-providers/accounts'
+import { checkMcpTokenAccess } from '../permissions'
+import { McpToolHandler } from '../types'
+import { ListBranchesInput } from '../schemas'
+
+export const listBranchesHandler: McpToolHandler<ListBranchesInput> = async (input, context) => {
+  try {
+    // Check authentication
+    const userId = context?.extra?.authInfo?.clientId
+    if (!userId) {
+      return {
+        content: [{ type: 'text', text: 'Authentication required' }],
+        isError: true,
+      }
+    }
+
+    const accessError = checkMcpTokenAccess(context, { scope: 'repos:read', repoUrl: input.repoUrl })
+    if (accessError) return accessError
+
+    const provider = getGitProviderForUrl(input.repoUrl)
+    const repository = provider?.parseRepoUrl(input.repoUrl)
+    if (!provider || !repository) {
+      return {
+        content: [{ type: 'text', text: 'Invalid repository URL' }],
+        isError: true,
+      }
+    }
+
+    const token = await getGitProviderToken(userId, provider.name)
+    if (!token) {
+      return {
+        content: [{ type: 'text', text: `${provider.displayName} account not connected` }],
+        isError: true,
+      }
+    }
+
+    const [branches, defaultBranch] = await Promise.all([
+      provider.listBranches(token, repository),
+      provider.getDefaultBranch(token, repository),
+    ])
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ repoUrl: input.repoUrl, defaultBranch, branches }),
+        },
+      ],
+    }
+  } catch (error) {
+    console.error('Error listing branches')
+    return {
+      content: [{ type: 'text', text: 'Failed to list branches' }],
+      isError: true,
+    }
+  }
+}
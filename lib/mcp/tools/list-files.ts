@@ -0,0 +1,100 @@
+/**
+ * MCP Tool: List Files
+ *
+ * Lists the files in a task's running sandbox: tracked files plus new files
+ * the agent created, without ignored ones.
+ */
+
+import { db } from '@/lib/db/client'
+import { tasks } from '@/lib/db/schema'
+import { eq, and, isNull } from 'drizzle-orm'
+import { isProjectPath, runInProject } from '@/lib/sandbox/commands'
+import { connectTaskSandbox } from '@/lib/sandbox/sandbox-registry'
+import { checkMcpTokenAccess } from '../permissions'
+import { McpToolHandler } from '../types'
+import { ListFilesInput } from '../schemas'
+
+const MAX_FILES = 2000
+
+export const listFilesHandler: McpToolHandler<ListFilesInput> = async (input, context) => {
+  try {
+    // Check authentication
+    const userId = context?.extra?.authInfo?.clientId
+    if (!userId) {
+      return {
+        content: [{ type: 'text', text: 'Authentication required' }],
+        isError: true,
+      }
+    }
+
+    // Get task (user-scoped)
+    const [task] = await db
+      .select()
+      .from(tasks)
+      .where(and(eq(tasks.id, input.taskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)))
+      .limit(1)
+
+    if (!task) {
+      return {
+        content: [{ type: 'text', text: 'Task not found' }],
+        isError: true,
+      }
+    }
+
+    const accessError = checkMcpTokenAccess(context, { scope: 'tasks:read', repoUrl: task.repoUrl })
+    if (accessError) return accessError
+
+    const path = input.path?.replace(/^\.\/?/, '').replace(/\/+$/, '') || ''
+    if (path && !isProjectPath(path)) {
+      return {
+        content: [{ type: 'text', text: 'Path must be relative to the repository root' }],
+        isError: true,
+      }
+    }
+
+    const sandbox = task.sandboxId ? await connectTaskSandbox(task.id, task.sandboxId) : null
+    if (!sandbox) {
+      return {
+        content: [{ type: 'text', text: 'Sandbox is not running' }],
+        isError: true,
+      }
+    }
+
+    const result = await runInProject(sandbox, 'git', [
+      'ls-files',
+      '--cached',
+      '--others',
+      '--exclude-standard',
+      ...(path ? ['--', path] : []),
+    ])
+
+    if (!result.success) {
+      return {
+        content: [{ type: 'text', text: 'Failed to list files' }],
+        isError: true,
+      }
+    }
+
+    const files = (result.output || '').split('\n').filter(Boolean)
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            path: path || '.',
+            files: files.slice(0, MAX_FILES),
+            total: files.length,
+            truncated: files.length > MAX_FILES,
+          }),
+        },
+      ],
+    }
+  } catch (error) {
+    console.error('Error listing sandbox files')
+    return {
+      content: [{ type: 'text', text: 'Failed to list files' }],
+      isError: true,
+    }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * MCP Tool: List Repositories
+ *
+ * Lists repositories the user can access on a git host, limited to the
+ * token's repository allow-list.
+ * Delegates to the same logic as GET /api/git/[provider]/repos.
+ */
+
+import { isRepoAllowed } from '@/lib/auth/token-permissions'
+import { getGitProvider } from '@/lib/git-providers'
+import { getGitProviderToken } from '@/lib/git-providers/accounts'
+import { checkMcpTokenAccess, getMcpApiToken } from '../permissions'
+import { McpToolHandler } from '../types'
+import { ListReposInput } from '../schemas'
+
+export const listReposHandler: McpToolHandler<ListReposInput> = async (input, context) => {
+  try {
+    // Check authentication
+    const userId = context?.extra?.authInfo?.clientId
+    if (!userId) {
+      return {
+        content: [{ type: 'text', text: 'Authentication required' }],
+        isError: true,
+      }
+    }
+
+    const accessError = checkMcpTokenAccess(context, { scope: 'repos:read' })
+    if (accessError) return accessError
+
+    const provider = getGitProvider(input.provider)
+    if (!provider) {
+      return {
+        content: [{ type: 'text', text: `${input.provider} is not configured on this server` }],
+        isError: true,
+      }
+    }
+
+    const token = await getGitProviderToken(userId, provider.name)
+    if (!token) {
+      return {
+        content: [{ type: 'text', text: `${provider.displayName} account not connected` }],
+        isError: true,
+      }
+    }
+
+    const repos = await provider.listRepositories(token, { page: input.page, perPage: input.perPage })
+    const allowedRepos = getMcpApiToken(context)?.allowedRepos ?? null
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            provider: provider.name,
+            page: input.page,
+            repos: repos
+              .filter((repo) => isRepoAllowed(allowedRepos, repo.fullName))
+              .map((repo) => ({ ...repo, url: `${provider.baseUrl}/${repo.fullName}` })),
+            hasMore: repos.length === input.perPage,
+          }),
+        },
+      ],
+    }
+  } catch (error) {
+    console.error('Error listing repositories')
+    return {
+      content: [{ type: 'text', text: 'Failed to list repositories' }],
+      isError: true,
+    }
+  }
+}
@@ -8,6 +8,8 @@
 import { db } from '@/lib/db/client'
 import { tasks } from '@/lib/db/schema'
 import { eq, and, desc, isNull } from 'drizzle-orm'
+import { isRepoAllowed } from '@/lib/auth/token-permissions'
+import { checkMcpTokenAccess, getMcpApiToken } from '../permissions'
 import { McpToolHandler } from '../types'
 import { ListTasksInput } from '../schemas'
 
@@ -22,6 +24,9 @@ export const listTasksHandler: McpToolHandler<ListTasksInput> = async (input, co
       }
     }
 
+    const accessError = checkMcpTokenAccess(context, { scope: 'tasks:read' })
+    if (accessError) return accessError
+
     // Build query conditions
     const conditions = [eq(tasks.userId, userId), isNull(tasks.deletedAt)]
 
@@ -31,12 +36,18 @@ export const listTasksHandler: McpToolHandler<ListTasksInput> = async (input, co
     }
 
     // Get tasks for this user (exclude soft-deleted tasks)
-    const userTasks = await db
+    const query = db
       .select()
       .from(tasks)
       .where(and(...conditions))
       .orderBy(desc(tasks.createdAt))
-      .limit(input.limit || 20)
+    const limit = input.limit || 20
+
+    // Tokens restricted to some repositories only see tasks on those repositories
+    const allowedRepos = getMcpApiToken(context)?.allowedRepos
+    const userTasks = allowedRepos?.length
+      ? (await query).filter((task) => isRepoAllowed(allowedRepos, task.repoUrl)).slice(0, limit)
+      : await query.limit(limit)
 
     // Return task list with essential fields
     const taskList = userTasks.map((task) => ({
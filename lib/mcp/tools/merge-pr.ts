@@ -0,0 +1,116 @@
+/**
+ * MCP Tool: Merge Pull Request
+ *
+ * Merges a task's pull request and stops its sandbox.
+ * Delegates to the same logic as POST /api/tasks/[taskId]/merge-pr.
+ */
+
+import { after } from 'next/server'
+import { db } from '@/lib/db/client'
+import { tasks } from '@/lib/db/schema'
+import { eq, and, isNull } from 'drizzle-orm'
+import { mergeTaskPullRequest } from '@/lib/git-providers/pull-requests'
+import { getSandboxProvider } from '@/lib/sandbox/providers'
+import { unregisterSandbox } from '@/lib/sandbox/sandbox-registry'
+import { checkMcpTokenAccess } from '../permissions'
+import { McpToolHandler } from '../types'
+import { MergePrInput } from '../schemas'
+
+export const mergePrHandler: McpToolHandler<MergePrInput> = async (input, context) => {
+  try {
+    // Check authentication
+    const userId = context?.extra?.authInfo?.clientId
+    if (!userId) {
+      return {
+        content: [{ type: 'text', text: 'Authentication required' }],
+        isError: true,
+      }
+    }
+
+    // Get task (user-scoped)
+    const [task] = await db
+      .select()
+      .from(tasks)
+      .where(and(eq(tasks.id, input.taskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)))
+      .limit(1)
+
+    if (!task) {
+      return {
+        content: [{ type: 'text', text: 'Task not found' }],
+        isError: true,
+      }
+    }
+
+    const accessError = checkMcpTokenAccess(context, { scope: 'tasks:write', repoUrl: task.repoUrl })
+    if (accessError) return accessError
+
+    if (!task.repoUrl || !task.prNumber) {
+      return {
+        content: [{ type: 'text', text: 'Task does not have repository or PR information' }],
+        isError: true,
+      }
+    }
+
+    const result = await mergeTaskPullRequest(userId, {
+      repoUrl: task.repoUrl,
+      prNumber: task.prNumber,
+      commitTitle: input.commitTitle,
+      commitMessage: input.commitMessage,
+      mergeMethod: input.mergeMethod,
+    })
+
+    if (!result.success) {
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: result.error || 'Failed to merge pull request' }) }],
+        isError: true,
+      }
+    }
+
+    await db
+      .update(tasks)
+      .set({
+        prStatus: 'merged',
+        prMergeCommitSha: result.sha || null,
+        sandboxId: null,
+        sandboxUrl: null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(tasks.id, task.id))
+
+    // The branch is merged, nothing is left to do in the sandbox
+    if (task.sandboxId) {
+      const sandboxId = task.sandboxId
+      after(async () => {
+        try {
+          const sandbox = await getSandboxProvider().get(sandboxId)
+          await sandbox.stop()
+          unregisterSandbox(task.id)
+        } catch {
+          console.error('Failed to stop sandbox after PR merge')
+        }
+      })
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            taskId: task.id,
+            merged: result.merged,
+            sha: result.sha,
+            message: result.message,
+          }),
+        },
+      ],
+    }
+  } catch (error) {
+    console.error('Error merging pull request')
+    return {
+      content: [{ type: 'text', text: 'Failed to merge pull request' }],
+      isError: true,
+    }
+  }
+}
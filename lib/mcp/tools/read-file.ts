@@ -0,0 +1,94 @@
+/**
+ * MCP Tool: Read File
+ *
+ * Reads a file from a task's running sandbox, including changes the agent
+ * has not pushed yet.
+ */
+
+import { db } from '@/lib/db/client'
+import { tasks } from '@/lib/db/schema'
+import { eq, and, isNull } from 'drizzle-orm'
+import { isProjectPath, runInProject } from '@/lib/sandbox/commands'
+import { connectTaskSandbox } from '@/lib/sandbox/sandbox-registry'
+import { checkMcpTokenAccess } from '../permissions'
+import { McpToolHandler } from '../types'
+import { ReadFileInput } from '../schemas'
+
+const MAX_FILE_BYTES = 256 * 1024
+
+export const readFileHandler: McpToolHandler<ReadFileInput> = async (input, context) => {
+  try {
+    // Check authentication
+    const userId = context?.extra?.authInfo?.clientId
+    if (!userId) {
+      return {
+        content: [{ type: 'text', text: 'Authentication required' }],
+        isError: true,
+      }
+    }
+
+    // Get task (user-scoped)
+    const [task] = await db
+      .select()
+      .from(tasks)
+      .where(and(eq(tasks.id, input.taskId), eq(tasks.userId, userId), isNull(tasks.deletedAt)))
+      .limit(1)
+
+    if (!task) {
+      return {
+        content: [{ type: 'text', text: 'Task not found' }],
+        isError: true,
+      }
+    }
+
+    const accessError = checkMcpTokenAccess(context, { scope: 'tasks:read', repoUrl: task.repoUrl })
+    if (accessError) return accessError
+
+    const path = input.path.replace(/^\.\//, '')
+    if (!isProjectPath(path)) {
+      return {
+        content: [{ type: 'text', text: 'Path must be relative to the repository root' }],
+        isError: true,
+      }
+    }
+
+    const sandbox = task.sandboxId ? await connectTaskSandbox(task.id, task.sandboxId) : null
+    if (!sandbox) {
+      return {
+        content: [{ type: 'text', text: 'Sandbox is not running' }],
+        isError: true,
+      }
+    }
+
+    // Read one byte past the limit to tell whether the file was cut off
+    const result = await runInProject(sandbox, 'head', ['-c', String(MAX_FILE_BYTES + 1), path])
+    if (!result.success) {
+      return {
+        content: [{ type: 'text', text: 'File not found' }],
+        isError: true,
+      }
+    }
+
+    const content = result.output || ''
+    const truncated = Buffer.byteLength(content) > MAX_FILE_BYTES
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            path,
+            content: truncated ? Buffer.from(content).subarray(0, MAX_FILE_BYTES).toString('utf-8') : content,
+            truncated,
+          }),
+        },
+      ],
+    }
+  } catch (error) {
+    console.error('Error reading sandbox file')
+    return {
+      content: [{ type: 'text', text: 'Failed to read file' }],
+      isError: true,
+    }
+  }
+}
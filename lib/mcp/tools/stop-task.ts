@@ -10,6 +10,7 @@ import { tasks } from '@/lib/db/schema'
 import { eq, and, isNull } from 'drizzle-orm'
 import { createTaskLogger } from '@/lib/utils/task-logger'
 import { killSandbox, stopSandboxFromDB } from '@/lib/sandbox/sandbox-registry'
+import { checkMcpTokenAccess } from '../permissions'
 import { McpToolHandler } from '../types'
 import { StopTaskInput } from '../schemas'
 
@@ -38,6 +39,9 @@ export const stopTaskHandler: McpToolHandler<StopTaskInput> = async (input, cont
       }
     }
 
+    const accessError = checkMcpTokenAccess(context, { scope: 'tasks:stop', repoUrl: existingTask.repoUrl })
+    if (accessError) return accessError
+
     // Only allow stopping tasks that are currently processing
     if (existingTask.status !== 'processing') {
       return {
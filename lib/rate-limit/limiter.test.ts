@@ -0,0 +1,100 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  consumeRateLimit,
+  evaluateSlidingWindow,
+  getRateLimitHeaders,
+  getWindowStart,
+  rateLimitExceededResponse,
+} from './limiter'
+import type { RateLimitPolicy } from './policies'
+
+const POLICY: RateLimitPolicy = { limit: 10, windowSeconds: 60, scope: 'user' }
+
+// Start of a 60 second window
+const WINDOW_START = 1_700_000_040_000
+
+test('timestamps fall into the fixed window that contains them', () => {
+  assert.equal(getWindowStart(WINDOW_START, 60).getTime(), WINDOW_START)
+  assert.equal(getWindowStart(WINDOW_START + 59_999, 60).getTime(), WINDOW_START)
+  assert.equal(getWindowStart(WINDOW_START + 60_000, 60).getTime(), WINDOW_START + 60_000)
+  assert.equal(getWindowStart(WINDOW_START - 1, 60).getTime(), WINDOW_START - 60_000)
+})
+
+test('the previous window counts in full at the start of a window', () => {
+  const result = evaluateSlidingWindow('terminal', POLICY, WINDOW_START, 1, 10)
+
+  assert.equal(result.allowed, false)
+  assert.equal(result.remaining, 0)
+  assert.equal(result.resetSeconds, 60)
+})
+
+test('the previous window is weighted by how much of it still overlaps', () => {
+  // 25% into the window: 75% of 8 previous requests plus 3 current ones
+  const quarter = evaluateSlidingWindow('terminal', POLICY, WINDOW_START + 15_000, 3, 8)
+  assert.equal(quarter.allowed, true)
+  assert.equal(quarter.remaining, 1)
+  assert.equal(quarter.resetSeconds, 45)
+
+  // Halfway: 50% of 10 rounds down with the current count added after
+  const half = evaluateSlidingWindow('terminal', POLICY, WINDOW_START + 30_000, 5, 10)
+  assert.equal(half.allowed, true)
+  assert.equal(half.remaining, 0)
+
+  const overHalf = evaluateSlidingWindow('terminal', POLICY, WINDOW_START + 30_000, 6, 10)
+  assert.equal(overHalf.allowed, false)
+})
+
+test('partial previous requests round down and the last moment of a window rounds up to one second', () => {
+  // 99.9% into the window leaves 0.01 of the previous 10 requests
+  const result = evaluateSlidingWindow('terminal', POLICY, WINDOW_START + 59_940, 10, 10)
+
+  assert.equal(result.allowed, true)
+  assert.equal(result.remaining, 0)
+  assert.equal(result.resetSeconds, 1)
+})
+
+test('a request over the limit is rejected even without a previous window', () => {
+  assert.equal(evaluateSlidingWindow('terminal', POLICY, WINDOW_START + 1_000, 10, 0).allowed, true)
+  assert.equal(evaluateSlidingWindow('terminal', POLICY, WINDOW_START + 1_000, 11, 0).allowed, false)
+})
+
+test('longer windows use their own boundaries', () => {
+  const policy: RateLimitPolicy = { limit: 100, windowSeconds: 3600, scope: 'ip' }
+  const hourStart = getWindowStart(WINDOW_START, 3600).getTime()
+  const result = evaluateSlidingWindow('auth', policy, hourStart + 2_700_000, 20, 100)
+
+  assert.equal(result.remaining, 55)
+  assert.equal(result.resetSeconds, 900)
+  assert.equal(result.windowSeconds, 3600)
+})
+
+test('results are reported in RateLimit headers', () => {
+  const result = evaluateSlidingWindow('terminal', POLICY, WINDOW_START + 15_000, 3, 8)
+
+  assert.deepEqual(getRateLimitHeaders(result), {
+    'RateLimit-Limit': '10',
+    'RateLimit-Remaining': '1',
+    'RateLimit-Reset': '45',
+    'RateLimit-Policy': '10;w=60',
+  })
+})
+
+test('rejected requests get a 429 with Retry-After', async () => {
+  const result = evaluateSlidingWindow('terminal', POLICY, WINDOW_START + 15_000, 11, 0)
+  const response = rateLimitExceededResponse(result)
+
+  assert.equal(response.status, 429)
+  assert.equal(response.headers.get('Retry-After'), '45')
+  assert.equal(response.headers.get('RateLimit-Remaining'), '0')
+  assert.deepEqual(await response.json(), {
+    error: 'Rate limit exceeded',
+    message: 'Too many requests. Please try again in 45 seconds.',
+    limit: 10,
+    windowSeconds: 60,
+  })
+})
+
+test('disabled policies are not counted', async () => {
+  assert.equal(await consumeRateLimit('api-token', 'token:abc', { ...POLICY, limit: 0 }), null)
+})
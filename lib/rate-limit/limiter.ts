@@ -0,0 +1,227 @@
+/**
+ * Sliding-window rate limiter backed by the rate_limit_counters table.
+ *
+ * Requests are counted per key in fixed windows with a single upsert. The
+ * estimate for the sliding window is the current window's count plus the
+ * previous window's count weighted by how much of it still overlaps, which
+ * smooths out bursts at window boundaries without storing every request.
+ */
+
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db/client'
+import { apiTokens, rateLimitCounters } from '@/lib/db/schema'
+import { and, eq, lt, sql } from 'drizzle-orm'
+import { hashToken } from '@/lib/auth/api-token'
+import { getSessionFromReq } from '@/lib/session/server'
+import {
+  getRateLimitPolicy,
+  getRoutePolicyName,
+  MAX_WINDOW_SECONDS,
+  RateLimitPolicy,
+  RateLimitPolicyName,
+  RateLimitScope,
+} from './policies'
+
+export interface RateLimitResult {
+  allowed: boolean
+  policy: RateLimitPolicyName
+  limit: number
+  remaining: number
+  windowSeconds: number
+  resetSeconds: number // Until the current window ends
+}
+
+// Twice the longest window a policy may use, so the previous window is always kept
+const COUNTER_RETENTION_MS = 2 * MAX_WINDOW_SECONDS * 1000
+
+/**
+ * Count one request for the subject against a policy.
+ * Returns null when the policy is disabled.
+ */
+export async function consumeRateLimit(
+  policyName: RateLimitPolicyName,
+  subject: string,
+  policy: RateLimitPolicy = getRateLimitPolicy(policyName),
+): Promise<RateLimitResult | null> {
+  if (policy.limit === 0) return null
+
+  const key = `${policyName}:${subject}`
+  const now = Date.now()
+  const windowMs = policy.windowSeconds * 1000
+  const windowStart = getWindowStart(now, policy.windowSeconds)
+  const previousWindowStart = new Date(windowStart.getTime() - windowMs)
+
+  const [current] = await db
+    .insert(rateLimitCounters)
+    .values({ key, windowStart, count: 1 })
+    .onConflictDoUpdate({
+      target: [rateLimitCounters.key, rateLimitCounters.windowStart],
+      set: { count: sql`${rateLimitCounters.count} + 1` },
+    })
+    .returning({ count: rateLimitCounters.count })
+
+  const [previous] = await db
+    .select({ count: rateLimitCounters.count })
+    .from(rateLimitCounters)
+    .where(and(eq(rateLimitCounters.key, key), eq(rateLimitCounters.windowStart, previousWindowStart)))
+    .limit(1)
+
+  return evaluateSlidingWindow(policyName, policy, now, current.count, previous?.count ?? 0)
+}
+
+/**
+ * Start of the fixed window that contains the timestamp
+ */
+export function getWindowStart(now: number, windowSeconds: number): Date {
+  const windowMs = windowSeconds * 1000
+  return new Date(Math.floor(now / windowMs) * windowMs)
+}
+
+/**
+ * Decide a request from the counts of the current window (including the
+ * request) and the previous window
+ */
+export function evaluateSlidingWindow(
+  policyName: RateLimitPolicyName,
+  policy: RateLimitPolicy,
+  now: number,
+  currentCount: number,
+  previousCount: number,
+): RateLimitResult {
+  const windowMs = policy.windowSeconds * 1000
+  const windowStart = getWindowStart(now, policy.windowSeconds).getTime()
+  const elapsed = (now - windowStart) / windowMs
+  const estimated = Math.floor(previousCount * (1 - elapsed)) + currentCount
+
+  return {
+    allowed: estimated <= policy.limit,
+    policy: policyName,
+    limit: policy.limit,
+    remaining: Math.max(0, policy.limit - estimated),
+    windowSeconds: policy.windowSeconds,
+    resetSeconds: Math.ceil((windowStart + windowMs - now) / 1000),
+  }
+}
+
+function getClientIp(request: NextRequest): string {
+  const forwardedFor = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+  return forwardedFor || request.headers.get('x-real-ip') || 'unknown'
+}
+
+type RequestApiToken = { id: string; userId: string; rateLimitPerMinute: number | null }
+
+/**
+ * Look up the request's Bearer token. Tokens are only trusted once they are
+ * found in the database, so made-up tokens can't dodge the IP limit.
+ */
+async function findRequestApiToken(headers: Headers): Promise<RequestApiToken | null> {
+  const authHeader = headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) return null
+
+  const [token] = await db
+    .select({ id: apiTokens.id, userId: apiTokens.userId, rateLimitPerMinute: apiTokens.rateLimitPerMinute })
+    .from(apiTokens)
+    .where(eq(apiTokens.tokenHash, hashToken(authHeader.slice(7))))
+    .limit(1)
+
+  return token ?? null
+}
+
+/**
+ * Identify who a request counts against
+ */
+async function getRateLimitSubject(
+  request: NextRequest,
+  scope: RateLimitScope,
+  apiToken: RequestApiToken | null,
+): Promise<string> {
+  const ipSubject = `ip:${getClientIp(request)}`
+  if (scope === 'ip') return ipSubject
+
+  if (apiToken) {
+    return scope === 'token' ? `token:${apiToken.id}` : `user:${apiToken.userId}`
+  }
+
+  const session = await getSessionFromReq(request)
+  return session?.user?.id ? `user:${session.user.id}` : ipSubject
+}
+
+/**
+ * Count a request against the policy of its route group and, for API token
+ * requests, against the token's own limit. Returns the result of every limit
+ * that applies. Fails open: if the counters can't be updated the request is let through.
+ *
+ * @param headers - Request headers to authenticate with, when they differ from the incoming request's
+ */
+export async function checkRequestRateLimits(
+  request: NextRequest,
+  headers: Headers = request.headers,
+): Promise<RateLimitResult[]> {
+  try {
+    const apiToken = await findRequestApiToken(headers)
+    const results: (RateLimitResult | null)[] = []
+
+    const policyName = getRoutePolicyName(request.nextUrl.pathname)
+    if (policyName) {
+      const policy = getRateLimitPolicy(policyName)
+      results.push(
+        await consumeRateLimit(policyName, await getRateLimitSubject(request, policy.scope, apiToken), policy),
+      )
+    }
+
+    if (apiToken) {
+      const policy = getRateLimitPolicy('api-token')
+      results.push(
+        await consumeRateLimit('api-token', `token:${apiToken.id}`, {
+          ...policy,
+          limit: apiToken.rateLimitPerMinute ?? policy.limit,
+          windowSeconds: apiToken.rateLimitPerMinute ? 60 : policy.windowSeconds,
+        }),
+      )
+    }
+
+    return results.filter((result): result is RateLimitResult => result !== null)
+  } catch (error) {
+    console.error('Rate limiter unavailable')
+    return []
+  }
+}
+
+/**
+ * RateLimit-* response headers (IETF draft-ietf-httpapi-ratelimit-headers)
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.resetSeconds),
+    'RateLimit-Policy': `${result.limit};w=${result.windowSeconds}`,
+  }
+}
+
+export function rateLimitExceededResponse(result: RateLimitResult): NextResponse {
+  return NextResponse.json(
+    {
+      error: 'Rate limit exceeded',
+      message: `Too many requests. Please try again in ${result.resetSeconds} seconds.`,
+      limit: result.limit,
+      windowSeconds: result.windowSeconds,
+    },
+    {
+      status: 429,
+      headers: { ...getRateLimitHeaders(result), 'Retry-After': String(result.resetSeconds) },
+    },
+  )
+}
+
+/**
+ * Delete counters for windows no policy reads anymore
+ */
+export async function pruneRateLimitCounters(): Promise<number> {
+  const deleted = await db
+    .delete(rateLimitCounters)
+    .where(lt(rateLimitCounters.windowStart, new Date(Date.now() - COUNTER_RETENTION_MS)))
+
+  return deleted.count
+}
@@ -0,0 +1,63 @@
+import { test, beforeEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { getRateLimitPolicy, getRoutePolicyName, MAX_WINDOW_SECONDS } from './policies'
+
+beforeEach(() => {
+  for (const name of Object.keys(process.env).filter((key) => key.startsWith('RATE_LIMIT_'))) {
+    delete process.env[name]
+  }
+})
+
+test('route groups map to their policies', () => {
+  assert.equal(getRoutePolicyName('/api/tasks/abc123/terminal'), 'terminal')
+  assert.equal(getRoutePolicyName('/api/tasks/abc123/file-content'), 'file-content')
+  assert.equal(getRoutePolicyName('/api/tasks/abc123/diff'), 'file-content')
+  assert.equal(getRoutePolicyName('/api/github/repos'), 'github')
+  assert.equal(getRoutePolicyName('/api/repos/owner/repo/commits'), 'github')
+  assert.equal(getRoutePolicyName('/api/mcp'), 'mcp')
+  assert.equal(getRoutePolicyName('/api/mcp/sse'), 'mcp')
+  assert.equal(getRoutePolicyName('/api/auth/signin/github'), 'auth')
+  assert.equal(getRoutePolicyName('/api/auth/github/signin'), 'auth')
+  assert.equal(getRoutePolicyName('/api/oauth/token'), 'oauth')
+})
+
+test('routes outside the limited groups have no policy', () => {
+  for (const pathname of [
+    '/api/tasks',
+    '/api/tasks/abc123',
+    '/api/tasks/abc123/terminal/extra',
+    '/api/mcpx',
+    '/api/auth/callback',
+  ]) {
+    assert.equal(getRoutePolicyName(pathname), null, pathname)
+  }
+})
+
+test('policies use their defaults without an override', () => {
+  assert.deepEqual(getRateLimitPolicy('terminal'), { limit: 60, windowSeconds: 60, scope: 'user' })
+  assert.deepEqual(getRateLimitPolicy('mcp'), { limit: 120, windowSeconds: 60, scope: 'token' })
+  assert.deepEqual(getRateLimitPolicy('auth'), { limit: 20, windowSeconds: 60, scope: 'ip' })
+  assert.equal(getRateLimitPolicy('api-token').limit, 0)
+})
+
+test('environment overrides set the limit and window but keep the scope', () => {
+  process.env.RATE_LIMIT_TERMINAL = '30/120'
+  process.env.RATE_LIMIT_FILE_CONTENT = ' 500 '
+  process.env.RATE_LIMIT_API_TOKEN = '100/60'
+  process.env.RATE_LIMIT_GITHUB = '0'
+
+  assert.deepEqual(getRateLimitPolicy('terminal'), { limit: 30, windowSeconds: 120, scope: 'user' })
+  assert.deepEqual(getRateLimitPolicy('file-content'), { limit: 500, windowSeconds: 60, scope: 'user' })
+  assert.deepEqual(getRateLimitPolicy('api-token'), { limit: 100, windowSeconds: 60, scope: 'token' })
+  assert.equal(getRateLimitPolicy('github').limit, 0)
+})
+
+test('malformed overrides and windows outside the allowed range are ignored', () => {
+  for (const value of ['abc', '-5/60', '10/0', `10/${MAX_WINDOW_SECONDS + 1}`, '10/60/5', '1.5/60']) {
+    process.env.RATE_LIMIT_TERMINAL = value
+    assert.deepEqual(getRateLimitPolicy('terminal'), { limit: 60, windowSeconds: 60, scope: 'user' }, value)
+  }
+
+  process.env.RATE_LIMIT_TERMINAL = `10/${MAX_WINDOW_SECONDS}`
+  assert.equal(getRateLimitPolicy('terminal').windowSeconds, MAX_WINDOW_SECONDS)
+})
@@ -0,0 +1,80 @@
+/**
+ * Rate limit policies for API route groups.
+ *
+ * Each policy allows `limit` requests per `windowSeconds` for one subject:
+ * - `user`: the signed-in user (session cookie or API token owner)
+ * - `token`: the API token used, so each token of a user has its own budget
+ * - `ip`: the client address, for routes that are called before sign-in
+ *
+ * Requests without the subject a policy asks for (e.g. anonymous requests to
+ * a `user` policy) fall back to the client IP.
+ *
+ * Limits can be overridden with RATE_LIMIT_<NAME> environment variables in
+ * the form "<limit>/<window seconds>", e.g. RATE_LIMIT_TERMINAL=30/60.
+ * A limit of 0 disables the policy; windows are capped at 12 hours.
+ */
+
+export type RateLimitScope = 'user' | 'token' | 'ip'
+
+export interface RateLimitPolicy {
+  limit: number
+  windowSeconds: number
+  scope: RateLimitScope
+}
+
+const DEFAULT_POLICIES = {
+  // Commands run in the task sandbox
+  terminal: { limit: 60, windowSeconds: 60, scope: 'user' },
+  // Sandbox and GitHub file reads from the file browser and editor
+  'file-content': { limit: 300, windowSeconds: 60, scope: 'user' },
+  // Routes that proxy the GitHub API with the user's token
+  github: { limit: 120, windowSeconds: 60, scope: 'user' },
+  // MCP server, budgeted per API token
+  mcp: { limit: 120, windowSeconds: 60, scope: 'token' },
+  // OAuth sign-in redirects
+  auth: { limit: 20, windowSeconds: 60, scope: 'ip' },
+  // OAuth authorization server for MCP clients (registration, consent, token and revocation endpoints)
+  oauth: { limit: 60, windowSeconds: 60, scope: 'ip' },
+  // Every request made with an API token; tokens can set their own per-minute limit
+  'api-token': { limit: 0, windowSeconds: 60, scope: 'token' },
+} satisfies Record<string, RateLimitPolicy>
+
+export type RateLimitPolicyName = keyof typeof DEFAULT_POLICIES
+
+export const MAX_WINDOW_SECONDS = 12 * 60 * 60
+
+function parsePolicyOverride(value: string | undefined): Pick<RateLimitPolicy, 'limit' | 'windowSeconds'> | null {
+  const match = value?.trim().match(/^(\d+)(?:\/(\d+))?$/)
+  if (!match) return null
+
+  const limit = parseInt(match[1], 10)
+  const windowSeconds = match[2] ? parseInt(match[2], 10) : 60
+  return windowSeconds > 0 && windowSeconds <= MAX_WINDOW_SECONDS ? { limit, windowSeconds } : null
+}
+
+/**
+ * Get a policy with any environment override applied
+ */
+export function getRateLimitPolicy(name: RateLimitPolicyName): RateLimitPolicy {
+  const envName = `RATE_LIMIT_${name.toUpperCase().replace(/-/g, '_')}`
+  const override = parsePolicyOverride(process.env[envName])
+
+  return { ...DEFAULT_POLICIES[name], ...override }
+}
+
+// Route groups matched by the proxy, checked in order
+const ROUTE_POLICIES: [RegExp, RateLimitPolicyName][] = [
+  [/^\/api\/tasks\/[^/]+\/terminal$/, 'terminal'],
+  [/^\/api\/tasks\/[^/]+\/(file-content|files|project-files|diff)$/, 'file-content'],
+  [/^\/api\/(github|repos)\//, 'github'],
+  [/^\/api\/mcp(\/|$)/, 'mcp'],
+  [/^\/api\/auth\/(signin\/|github\/signin$)/, 'auth'],
+  [/^\/api\/oauth\//, 'oauth'],
+]
+
+/**
+ * Find the policy for an API path, if its route group is rate limited
+ */
+export function getRoutePolicyName(pathname: string): RateLimitPolicyName | null {
+  return ROUTE_POLICIES.find(([pattern]) => pattern.test(pathname))?.[1] ?? null
+}
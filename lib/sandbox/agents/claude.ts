@@ -1,9 +1,11 @@
-import { Sandbox } from '@vercel/sandbox'
+import type { SandboxInstance } from '../providers'
 import { Writable } from 'stream'
 import { runCommandInSandbox, runInProject, PROJECT_DIR } from '../commands'
-import { AgentExecutionResult } from '../types'
+import { AgentCredentials, AgentExecutionResult, AgentUsage } from '../types'
+import { parseClaudeResultUsage, parseClaudeStreamUsage } from './usage'
 import { redactSensitiveInfo } from '@/lib/utils/logging'
 import { TaskLogger } from '@/lib/utils/task-logger'
+import { redactTaskSecrets } from '@/lib/utils/task-secrets'
 import { connectors, taskMessages } from '@/lib/db/schema'
 import { db } from '@/lib/db/client'
 import { eq } from 'drizzle-orm'
@@ -63,12 +65,9 @@ function buildMcpJsonConfig(mcpServers: Connector[]): Record<string, unknown> {
         }
       }
 
-      // 2. Add OAuth credentials (these override env if both are set)
-      if (server.oauthClientSecret) {
-        headers['Authorization'] = `Bearer ${server.oauthClientSecret}`
-      }
-      if (server.oauthClientId) {
-        headers['X-Client-ID'] = server.oauthClientId
+      // 2. Add the OAuth access token (overrides an Authorization env value)
+      if (server.oauthAccessToken) {
+        headers['Authorization'] = `Bearer ${server.oauthAccessToken}`
       }
 
       if (Object.keys(headers).length > 0) {
@@ -82,8 +81,23 @@ function buildMcpJsonConfig(mcpServers: Connector[]): Record<string, unknown> {
   return { mcpServers: mcpServersConfig }
 }
 
+/**
+ * Environment for Claude CLI commands: AI Gateway when a gateway key is
+ * available, otherwise the Anthropic API
+ */
+function getClaudeEnv(credentials: AgentCredentials): Record<string, string> {
+  if (credentials.AI_GATEWAY_API_KEY) {
+    return {
+      ANTHROPIC_BASE_URL: 'https://ai-gateway.vercel.sh',
+      ANTHROPIC_AUTH_TOKEN: credentials.AI_GATEWAY_API_KEY,
+      ANTHROPIC_API_KEY: '',
+    }
+  }
+  return { ANTHROPIC_API_KEY: credentials.ANTHROPIC_API_KEY || '' }
+}
+
 // Helper function to run command and collect logs in project directory
-async function runAndLogCommand(sandbox: Sandbox, command: string, args: string[], logger: TaskLogger) {
+async function runAndLogCommand(sandbox: SandboxInstance, command: string, args: string[], logger: TaskLogger) {
   const fullCommand = args.length > 0 ? `${command} ${args.join(' ')}` : command
   const redactedCommand = redactSensitiveInfo(fullCommand)
 
@@ -132,8 +146,9 @@ async function runAndLogCommand(sandbox: Sandbox, command: string, args: string[
 }
 
 export async function installClaudeCLI(
-  sandbox: Sandbox,
+  sandbox: SandboxInstance,
   logger: TaskLogger,
+  credentials: AgentCredentials,
   selectedModel?: string,
   mcpServers?: Connector[],
 ): Promise<{ success: boolean }> {
@@ -155,8 +170,8 @@ export async function installClaudeCLI(
     await logger.info('Claude CLI installed successfully')
 
     // Detect authentication method
-    const hasAiGatewayKey = !!process.env.AI_GATEWAY_API_KEY
-    const hasAnthropicKey = !!process.env.ANTHROPIC_API_KEY
+    const hasAiGatewayKey = !!credentials.AI_GATEWAY_API_KEY
+    const hasAnthropicKey = !!credentials.ANTHROPIC_API_KEY
     const useAiGateway = hasAiGatewayKey // Priority: AI Gateway first
 
     if (!hasAiGatewayKey && !hasAnthropicKey) {
@@ -171,17 +186,7 @@ export async function installClaudeCLI(
     }
 
     // Authenticate Claude CLI with appropriate method
-    if (useAiGateway && process.env.AI_GATEWAY_API_KEY) {
-      // AI Gateway configuration via environment variables
-      const envExport = [
-        'export ANTHROPIC_BASE_URL="https://ai-gateway.vercel.sh"',
-        `export ANTHROPIC_AUTH_TOKEN="${process.env.AI_GATEWAY_API_KEY}"`,
-        'export ANTHROPIC_API_KEY=""',
-      ].join(' && ')
-
-      // Add to shell profile for persistence
-      await runCommandInSandbox(sandbox, 'sh', ['-c', `${envExport} && echo '${envExport}' >> ~/.bashrc`])
-
+    if (useAiGateway && credentials.AI_GATEWAY_API_KEY) {
       // MCP servers configuration via .mcp.json file (Claude Code discovers servers from this file at startup)
       if (mcpServers && mcpServers.length > 0) {
         await logger.info('Creating .mcp.json config file for MCP server discovery')
@@ -206,14 +211,14 @@ MCPEOF`
       }
 
       // Verify authentication
-      const verifyAuth = await runCommandInSandbox(sandbox, 'sh', ['-c', `${envExport} && claude --version`])
+      const verifyAuth = await runCommandInSandbox(sandbox, 'claude', ['--version'], getClaudeEnv(credentials))
 
       if (verifyAuth.success) {
         await logger.info('Claude CLI authenticated successfully')
       } else {
         await logger.info('Warning: Claude CLI authentication could not be verified')
       }
-    } else if (process.env.ANTHROPIC_API_KEY) {
+    } else if (credentials.ANTHROPIC_API_KEY) {
       await logger.info('Authenticating Claude CLI...')
 
       // Create Claude config directory (use $HOME instead of ~)
@@ -245,13 +250,16 @@ MCPEOF`
       }
 
       const modelToUse = selectedModel || 'claude-sonnet-4-5-20250929'
-      const configFileCmd = `mkdir -p $HOME/.config/claude && cat > $HOME/.config/claude/config.json << 'EOF'
+      // The key is expanded from the environment by the unquoted heredoc
+      const configFileCmd = `mkdir -p $HOME/.config/claude && cat > $HOME/.config/claude/config.json << EOF
 {
-  "api_key": "${process.env.ANTHROPIC_API_KEY}",
+  "api_key": "$ANTHROPIC_API_KEY",
   "default_model": "${modelToUse}"
 }
 EOF`
-      const configFileResult = await runCommandInSandbox(sandbox, 'sh', ['-c', configFileCmd])
+      const configFileResult = await runCommandInSandbox(sandbox, 'sh', ['-c', configFileCmd], {
+        ANTHROPIC_API_KEY: credentials.ANTHROPIC_API_KEY,
+      })
 
       if (configFileResult.success) {
         await logger.info('Claude CLI config file created successfully')
@@ -260,10 +268,7 @@ EOF`
       }
 
       // Verify authentication
-      const verifyAuth = await runCommandInSandbox(sandbox, 'sh', [
-        '-c',
-        `ANTHROPIC_API_KEY=${process.env.ANTHROPIC_API_KEY} claude --version`,
-      ])
+      const verifyAuth = await runCommandInSandbox(sandbox, 'claude', ['--version'], getClaudeEnv(credentials))
       if (verifyAuth.success) {
         await logger.info('Claude CLI authentication verified')
       } else {
@@ -281,9 +286,10 @@ EOF`
 }
 
 export async function executeClaudeInSandbox(
-  sandbox: Sandbox,
+  sandbox: SandboxInstance,
   instruction: string,
   logger: TaskLogger,
+  credentials: AgentCredentials,
   selectedModel?: string,
   mcpServers?: Connector[],
   isResumed?: boolean,
@@ -311,7 +317,7 @@ export async function executeClaudeInSandbox(
     if (!cliCheck.success) {
       // Claude CLI not found, try to install it
       // Claude CLI not found, installing
-      const installResult = await installClaudeCLI(sandbox, logger, selectedModel, mcpServers)
+      const installResult = await installClaudeCLI(sandbox, logger, credentials, selectedModel, mcpServers)
 
       if (!installResult.success) {
         return {
@@ -336,7 +342,7 @@ export async function executeClaudeInSandbox(
     }
 
     // Check if either API key is available
-    if (!process.env.AI_GATEWAY_API_KEY && !process.env.ANTHROPIC_API_KEY) {
+    if (!credentials.AI_GATEWAY_API_KEY && !credentials.ANTHROPIC_API_KEY) {
       return {
         success: false,
         error: 'Either ANTHROPIC_API_KEY or AI_GATEWAY_API_KEY environment variable is required',
@@ -353,14 +359,10 @@ export async function executeClaudeInSandbox(
       )
     }
 
-    // Determine environment prefix based on auth method
-    const useAiGateway = !!process.env.AI_GATEWAY_API_KEY
-    const envPrefix = useAiGateway
-      ? `ANTHROPIC_BASE_URL="https://ai-gateway.vercel.sh" ANTHROPIC_AUTH_TOKEN="${process.env.AI_GATEWAY_API_KEY}" ANTHROPIC_API_KEY=""`
-      : `ANTHROPIC_API_KEY="${process.env.ANTHROPIC_API_KEY}"`
+    const claudeEnv = getClaudeEnv(credentials)
 
     // Check MCP configuration status
-    const mcpList = await runCommandInSandbox(sandbox, 'sh', ['-c', `${envPrefix} claude mcp list`])
+    const mcpList = await runCommandInSandbox(sandbox, 'claude', ['mcp', 'list'], claudeEnv)
     await logger.info('MCP servers list retrieved')
     if (mcpList.error) {
       await logger.info('MCP list error occurred')
@@ -378,7 +380,7 @@ export async function executeClaudeInSandbox(
     }
 
     // Build command with stream-json output format for streaming
-    let fullCommand = `${envPrefix} claude --model "${modelToUse}" --dangerously-skip-permissions --output-format stream-json --verbose`
+    let fullCommand = `claude --model "${modelToUse}" --dangerously-skip-permissions --output-format stream-json --verbose`
 
     // Add --resume flag for follow-up messages in kept-alive sandboxes
     if (isResumed) {
@@ -401,19 +403,12 @@ export async function executeClaudeInSandbox(
       await logger.info('Executing Claude CLI with --dangerously-skip-permissions for automated file changes...')
     }
 
-    // Log the command we're about to execute (with redacted API keys)
-    let redactedCommand = fullCommand
-    if (process.env.ANTHROPIC_API_KEY) {
-      redactedCommand = redactedCommand.replace(process.env.ANTHROPIC_API_KEY, '[REDACTED]')
-    }
-    if (process.env.AI_GATEWAY_API_KEY) {
-      redactedCommand = redactedCommand.replace(process.env.AI_GATEWAY_API_KEY, '[REDACTED]')
-    }
-    await logger.command(redactedCommand)
+    await logger.command(fullCommand)
 
     // Set up streaming output capture if we have an agent message
     let capturedOutput = ''
     let accumulatedContent = ''
+    let usage: AgentUsage | undefined
     let isCompleted = false
     let lastActivityTime = Date.now()
     const INACTIVITY_TIMEOUT = 2 * 60 * 1000 // 2 minutes of no output = stalled
@@ -462,7 +457,7 @@ export async function executeClaudeInSandbox(
                     // Update database with accumulated content
                     db.update(taskMessages)
                       .set({
-                        content: accumulatedContent,
+                        content: redactTaskSecrets(taskId, accumulatedContent),
                       })
                       .where(eq(taskMessages.id, agentMessageId))
                       .then(() => {})
@@ -504,7 +499,7 @@ export async function executeClaudeInSandbox(
                       // Update database
                       db.update(taskMessages)
                         .set({
-                          content: accumulatedContent,
+                          content: redactTaskSecrets(taskId, accumulatedContent),
                         })
                         .where(eq(taskMessages.id, agentMessageId))
                         .then(() => {})
@@ -529,6 +524,7 @@ export async function executeClaudeInSandbox(
                 } else {
                   console.log('No session_id in result chunk')
                 }
+                usage = parseClaudeResultUsage(parsed)
                 isCompleted = true
               }
             } catch {
@@ -553,6 +549,7 @@ export async function executeClaudeInSandbox(
     await sandbox.runCommand({
       cmd: 'sh',
       args: ['-c', fullCommand],
+      env: claudeEnv,
       sudo: false,
       detached: true,
       cwd: PROJECT_DIR,
@@ -623,6 +620,7 @@ export async function executeClaudeInSandbox(
           cliName: 'claude',
           changesDetected: false,
           sessionId: extractedSessionId,
+          usage: usage ?? parseClaudeStreamUsage(capturedOutput),
         }
       }
     }
@@ -637,6 +635,7 @@ export async function executeClaudeInSandbox(
         cliName: 'claude',
         changesDetected: false,
         sessionId: extractedSessionId,
+        usage: usage ?? parseClaudeStreamUsage(capturedOutput),
       }
     }
 
@@ -679,6 +678,7 @@ export async function executeClaudeInSandbox(
       changesDetected: !!hasChanges,
       error: undefined,
       sessionId: extractedSessionId, // Include session ID for resumption
+      usage: usage ?? parseClaudeStreamUsage(capturedOutput),
     }
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Failed to execute Claude CLI in sandbox'
@@ -1,6 +1,7 @@
-import { Sandbox } from '@vercel/sandbox'
+import type { SandboxInstance } from '../providers'
 import { runCommandInSandbox, runInProject, PROJECT_DIR } from '../commands'
-import { AgentExecutionResult } from '../types'
+import { AgentCredentials, AgentExecutionResult } from '../types'
+import { parseCodexUsage } from './usage'
 import { redactSensitiveInfo } from '@/lib/utils/logging'
 import { TaskLogger } from '@/lib/utils/task-logger'
 import { connectors } from '@/lib/db/schema'
@@ -8,7 +9,7 @@ import { connectors } from '@/lib/db/schema'
 type Connector = typeof connectors.$inferSelect
 
 // Helper function to run command and log it in project directory
-async function runAndLogCommand(sandbox: Sandbox, command: string, args: string[], logger: TaskLogger) {
+async function runAndLogCommand(sandbox: SandboxInstance, command: string, args: string[], logger: TaskLogger) {
   const fullCommand = args.length > 0 ? `${command} ${args.join(' ')}` : command
   await logger.command(redactSensitiveInfo(fullCommand))
 
@@ -26,9 +27,10 @@ async function runAndLogCommand(sandbox: Sandbox, command: string, args: string[
 }
 
 export async function executeCodexInSandbox(
-  sandbox: Sandbox,
+  sandbox: SandboxInstance,
   instruction: string,
   logger: TaskLogger,
+  credentials: AgentCredentials,
   selectedModel?: string,
   mcpServers?: Connector[],
   isResumed?: boolean,
@@ -76,7 +78,7 @@ export async function executeCodexInSandbox(
     }
 
     // Set up authentication - we'll use API key method since we're in a sandbox
-    if (!process.env.AI_GATEWAY_API_KEY) {
+    if (!credentials.AI_GATEWAY_API_KEY) {
       return {
         success: false,
         error: 'AI Gateway API key not found. Please set AI_GATEWAY_API_KEY environment variable.',
@@ -86,7 +88,7 @@ export async function executeCodexInSandbox(
     }
 
     // Validate API key format - can be either OpenAI (sk-) or Vercel (vck_)
-    const apiKey = process.env.AI_GATEWAY_API_KEY
+    const apiKey = credentials.AI_GATEWAY_API_KEY
     const isOpenAIKey = apiKey?.startsWith('sk-')
     const isVercelKey = apiKey?.startsWith('vck_')
 
@@ -134,7 +136,7 @@ export async function executeCodexInSandbox(
       cmd: 'codex',
       args: ['--version'],
       env: {
-        OPENAI_API_KEY: process.env.OPENAI_API_KEY!,
+        OPENAI_API_KEY: credentials.OPENAI_API_KEY!,
         HOME: '/home/vercel-sandbox',
       },
       sudo: false,
@@ -224,9 +226,9 @@ command = "${executable}"
 [mcp_servers.${serverName}]
 url = "${server.baseUrl}"
 `
-          // Add bearer token if available (using oauthClientSecret)
-          if (server.oauthClientSecret) {
-            configToml += `bearer_token = "${server.oauthClientSecret}"\n`
+          // Add the OAuth access token if the server was authorized
+          if (server.oauthAccessToken) {
+            configToml += `bearer_token = "${server.oauthAccessToken}"\n`
           }
 
           await logger.info('Added remote MCP server')
@@ -302,13 +304,14 @@ url = "${server.baseUrl}"
       )
     }
 
-    // Use the same pattern as other working agents (Claude, etc.)
-    // Execute with environment variables using sh -c like Claude does
-    const envPrefix = `AI_GATEWAY_API_KEY="${process.env.AI_GATEWAY_API_KEY}" HOME="/home/vercel-sandbox" CI="true"`
-    const fullCommand = `${envPrefix} ${codexCommand} "${instruction}"`
+    const fullCommand = `${codexCommand} "${instruction}"`
 
     // Use the standard runInProject helper like other agents
-    const result = await runInProject(sandbox, 'sh', ['-c', fullCommand])
+    const result = await runInProject(sandbox, 'sh', ['-c', fullCommand], {
+      AI_GATEWAY_API_KEY: apiKey,
+      HOME: '/home/vercel-sandbox',
+      CI: 'true',
+    })
 
     // Log the output and error results (similar to Claude and Cursor)
     if (result.output && result.output.trim()) {
@@ -355,6 +358,7 @@ url = "${server.baseUrl}"
         changesDetected: !!hasChanges,
         error: undefined,
         sessionId: extractedSessionId, // Include session ID if available
+        usage: parseCodexUsage(`${result.output || ''}\n${result.error || ''}`),
       }
     } else {
       return {
@@ -364,6 +368,7 @@ url = "${server.baseUrl}"
         cliName: 'codex',
         changesDetected: !!hasChanges,
         sessionId: extractedSessionId, // Include session ID even on failure
+        usage: parseCodexUsage(`${result.output || ''}\n${result.error || ''}`),
       }
     }
   } catch (error: unknown) {
@@ -1,8 +1,9 @@
-import { Sandbox } from '@vercel/sandbox'
+import type { SandboxInstance } from '../providers'
 import { runCommandInSandbox, runInProject, PROJECT_DIR } from '../commands'
-import { AgentExecutionResult } from '../types'
+import { AgentCredentials, AgentExecutionResult } from '../types'
 import { redactSensitiveInfo } from '@/lib/utils/logging'
 import { TaskLogger } from '@/lib/utils/task-logger'
+import { redactTaskSecrets } from '@/lib/utils/task-secrets'
 import { connectors, taskMessages } from '@/lib/db/schema'
 import { db } from '@/lib/db/client'
 import { eq } from 'drizzle-orm'
@@ -11,7 +12,7 @@ import { generateId } from '@/lib/utils/id'
 type Connector = typeof connectors.$inferSelect
 
 // Helper function to run command and collect logs in project directory
-async function runAndLogCommand(sandbox: Sandbox, command: string, args: string[], logger: TaskLogger) {
+async function runAndLogCommand(sandbox: SandboxInstance, command: string, args: string[], logger: TaskLogger) {
   const fullCommand = args.length > 0 ? `${command} ${args.join(' ')}` : command
   await logger.command(redactSensitiveInfo(fullCommand))
 
@@ -29,9 +30,10 @@ async function runAndLogCommand(sandbox: Sandbox, command: string, args: string[
 }
 
 export async function executeCopilotInSandbox(
-  sandbox: Sandbox,
+  sandbox: SandboxInstance,
   instruction: string,
   logger: TaskLogger,
+  credentials: AgentCredentials,
   selectedModel?: string,
   mcpServers?: Connector[],
   isResumed?: boolean,
@@ -89,11 +91,11 @@ export async function executeCopilotInSandbox(
       }
     }
 
-    // Check if GH_TOKEN or GITHUB_TOKEN is available
-    if (!process.env.GH_TOKEN && !process.env.GITHUB_TOKEN) {
+    // Copilot authenticates with the user's GitHub token
+    if (!credentials.GH_TOKEN && !credentials.GITHUB_TOKEN) {
       return {
         success: false,
-        error: 'GH_TOKEN or GITHUB_TOKEN environment variable is required but not found',
+        error: 'A connected GitHub account is required to use GitHub Copilot',
         cliName: 'copilot',
         changesDetected: false,
       }
@@ -144,11 +146,8 @@ export async function executeCopilotInSandbox(
         } else {
           // Remote HTTP/SSE server
           const headers: Record<string, string> = {}
-          if (server.oauthClientSecret) {
-            headers.Authorization = `Bearer ${server.oauthClientSecret}`
-          }
-          if (server.oauthClientId) {
-            headers['X-Client-ID'] = server.oauthClientId
+          if (server.oauthAccessToken) {
+            headers.Authorization = `Bearer ${server.oauthAccessToken}`
           }
 
           const httpConfig: { type: 'http'; url: string; headers?: Record<string, string>; tools: string[] } = {
@@ -235,7 +234,7 @@ EOF`
 
                 // Update database with accumulated content (throttled via catch)
                 db.update(taskMessages)
-                  .set({ content: accumulatedContent })
+                  .set({ content: redactTaskSecrets(taskId, accumulatedContent) })
                   .where(eq(taskMessages.id, agentMessageId))
                   .catch((err: Error) => {
                     // Silently ignore update errors to avoid flooding logs
@@ -270,7 +269,7 @@ EOF`
     }
 
     // Build the copilot command
-    const token = process.env.GH_TOKEN || process.env.GITHUB_TOKEN
+    const token = credentials.GH_TOKEN || credentials.GITHUB_TOKEN
     const homeDir = '/home/vercel-sandbox'
     const mcpConfigPath = `${homeDir}/.copilot/mcp-config.json`
     const modelFlag = selectedModel ? ` --model ${selectedModel}` : ''
@@ -345,7 +344,7 @@ EOF`
       accumulatedContent += '</pre>'
       await db
         .update(taskMessages)
-        .set({ content: accumulatedContent })
+        .set({ content: redactTaskSecrets(taskId, accumulatedContent) })
         .where(eq(taskMessages.id, agentMessageId))
         .catch((err: Error) => console.error('Failed to update message'))
     }
@@ -371,7 +370,7 @@ EOF`
       accumulatedContent += '</pre>'
       await db
         .update(taskMessages)
-        .set({ content: accumulatedContent })
+        .set({ content: redactTaskSecrets(taskId, accumulatedContent) })
         .where(eq(taskMessages.id, agentMessageId))
         .catch((err: Error) => console.error('Failed to update message'))
     }
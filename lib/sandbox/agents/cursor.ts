@@ -1,8 +1,10 @@
-import { Sandbox } from '@vercel/sandbox'
+import type { SandboxInstance } from '../providers'
 import { runCommandInSandbox, runInProject, PROJECT_DIR } from '../commands'
-import { AgentExecutionResult } from '../types'
+import { AgentCredentials, AgentExecutionResult, AgentUsage } from '../types'
+import { parseCursorResultUsage } from './usage'
 import { redactSensitiveInfo } from '@/lib/utils/logging'
 import { TaskLogger } from '@/lib/utils/task-logger'
+import { redactTaskSecrets } from '@/lib/utils/task-secrets'
 import { connectors, taskMessages } from '@/lib/db/schema'
 import { db } from '@/lib/db/client'
 import { eq } from 'drizzle-orm'
@@ -11,7 +13,7 @@ import { generateId } from '@/lib/utils/id'
 type Connector = typeof connectors.$inferSelect
 
 // Helper function to run command in sandbox root (for installation checks)
-async function runAndLogCommandRoot(sandbox: Sandbox, command: string, args: string[], logger: TaskLogger) {
+async function runAndLogCommandRoot(sandbox: SandboxInstance, command: string, args: string[], logger: TaskLogger) {
   const fullCommand = args.length > 0 ? `${command} ${args.join(' ')}` : command
   await logger.command(redactSensitiveInfo(fullCommand))
 
@@ -29,7 +31,7 @@ async function runAndLogCommandRoot(sandbox: Sandbox, command: string, args: str
 }
 
 // Helper function to run command in project directory (for git operations)
-async function runAndLogCommand(sandbox: Sandbox, command: string, args: string[], logger: TaskLogger) {
+async function runAndLogCommand(sandbox: SandboxInstance, command: string, args: string[], logger: TaskLogger) {
   const fullCommand = args.length > 0 ? `${command} ${args.join(' ')}` : command
   await logger.command(redactSensitiveInfo(fullCommand))
 
@@ -47,9 +49,10 @@ async function runAndLogCommand(sandbox: Sandbox, command: string, args: string[
 }
 
 export async function executeCursorInSandbox(
-  sandbox: Sandbox,
+  sandbox: SandboxInstance,
   instruction: string,
   logger: TaskLogger,
+  credentials: AgentCredentials,
   selectedModel?: string,
   mcpServers?: Connector[],
   isResumed?: boolean,
@@ -167,7 +170,7 @@ export async function executeCursorInSandbox(
     }
 
     // Check if CURSOR_API_KEY is available
-    if (!process.env.CURSOR_API_KEY) {
+    if (!credentials.CURSOR_API_KEY) {
       return {
         success: false,
         error: 'CURSOR_API_KEY not found. Please set the API key to use Cursor agent.',
@@ -224,11 +227,8 @@ export async function executeCursorInSandbox(
 
           // Merge headers from oauth and env
           const headers: Record<string, string> = {}
-          if (server.oauthClientSecret) {
-            headers.Authorization = `Bearer ${server.oauthClientSecret}`
-          }
-          if (server.oauthClientId) {
-            headers['X-Client-ID'] = server.oauthClientId
+          if (server.oauthAccessToken) {
+            headers.Authorization = `Bearer ${server.oauthAccessToken}`
           }
           if (Object.keys(headers).length > 0) {
             mcpConfig.mcpServers[serverName].headers = headers
@@ -322,6 +322,7 @@ EOF`
 
     let accumulatedContent = ''
     let extractedSessionId: string | undefined
+    let usage: AgentUsage | undefined
 
     const captureStdout = new Writable({
       write(chunk: Buffer | string, encoding: BufferEncoding, callback: WriteCallback) {
@@ -345,6 +346,9 @@ EOF`
               if (parsed.type === 'result' && parsed.session_id) {
                 extractedSessionId = parsed.session_id
               }
+              if (parsed.type === 'result') {
+                usage = parseCursorResultUsage(parsed)
+              }
 
               // Only update database if streaming to taskId
               if (agentMessageId && taskId) {
@@ -387,7 +391,7 @@ EOF`
                     if (statusMsg) {
                       accumulatedContent += statusMsg
                       db.update(taskMessages)
-                        .set({ content: accumulatedContent })
+                        .set({ content: redactTaskSecrets(taskId, accumulatedContent) })
                         .where(eq(taskMessages.id, agentMessageId))
                         .catch((err: Error) => console.error('Failed to update message'))
                     }
@@ -403,7 +407,7 @@ EOF`
                     accumulatedContent += '\n\n' + textContent
                     // Update message in database (non-blocking)
                     db.update(taskMessages)
-                      .set({ content: accumulatedContent })
+                      .set({ content: redactTaskSecrets(taskId, accumulatedContent) })
                       .where(eq(taskMessages.id, agentMessageId))
                       .catch((err: Error) => console.error('Failed to update message'))
                   }
@@ -466,7 +470,7 @@ EOF`
       cmd: '/home/vercel-sandbox/.local/bin/cursor-agent',
       args: args,
       env: {
-        CURSOR_API_KEY: process.env.CURSOR_API_KEY!,
+        CURSOR_API_KEY: credentials.CURSOR_API_KEY!,
       },
       sudo: false,
       detached: true,
@@ -585,6 +589,7 @@ EOF`
       changesDetected: !!hasChanges,
       error: undefined,
       sessionId: extractedSessionId, // Include session_id for resumption
+      usage,
     }
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Failed to execute Cursor CLI in sandbox'
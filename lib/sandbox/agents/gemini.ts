@@ -1,6 +1,7 @@
-import { Sandbox } from '@vercel/sandbox'
+import type { SandboxInstance } from '../providers'
 import { runCommandInSandbox, runInProject, PROJECT_DIR } from '../commands'
-import { AgentExecutionResult } from '../types'
+import { AgentCredentials, AgentExecutionResult } from '../types'
+import { parseGeminiJsonUsage } from './usage'
 import { redactSensitiveInfo } from '@/lib/utils/logging'
 import { TaskLogger } from '@/lib/utils/task-logger'
 import { connectors } from '@/lib/db/schema'
@@ -8,7 +9,7 @@ import { connectors } from '@/lib/db/schema'
 type Connector = typeof connectors.$inferSelect
 
 // Helper function to run command and log it in project directory
-async function runAndLogCommand(sandbox: Sandbox, command: string, args: string[], logger: TaskLogger) {
+async function runAndLogCommand(sandbox: SandboxInstance, command: string, args: string[], logger: TaskLogger) {
   const fullCommand = args.length > 0 ? `${command} ${args.join(' ')}` : command
   const redactedCommand = redactSensitiveInfo(fullCommand)
 
@@ -44,9 +45,10 @@ async function runAndLogCommand(sandbox: Sandbox, command: string, args: string[
 }
 
 export async function executeGeminiInSandbox(
-  sandbox: Sandbox,
+  sandbox: SandboxInstance,
   instruction: string,
   logger: TaskLogger,
+  credentials: AgentCredentials,
   selectedModel?: string,
   mcpServers?: Connector[],
 ): Promise<AgentExecutionResult> {
@@ -134,11 +136,8 @@ export async function executeGeminiInSandbox(
 
           // Build headers object
           const headers: Record<string, string> = {}
-          if (server.oauthClientSecret) {
-            headers.Authorization = `Bearer ${server.oauthClientSecret}`
-          }
-          if (server.oauthClientId) {
-            headers['X-Client-ID'] = server.oauthClientId
+          if (server.oauthAccessToken) {
+            headers.Authorization = `Bearer ${server.oauthAccessToken}`
           }
           if (Object.keys(headers).length > 0) {
             settingsConfig.mcpServers[serverName].headers = headers
@@ -175,9 +174,9 @@ EOF`
     const authEnv: Record<string, string> = {}
 
     // Option 1: Check for GEMINI_API_KEY (Gemini API)
-    if (process.env.GEMINI_API_KEY) {
+    if (credentials.GEMINI_API_KEY) {
       authMethod = 'api_key'
-      authEnv.GEMINI_API_KEY = process.env.GEMINI_API_KEY
+      authEnv.GEMINI_API_KEY = credentials.GEMINI_API_KEY
       await logger.info('Using Gemini API key authentication')
     }
     // Option 2: Check for GOOGLE_API_KEY with Vertex AI flag (Vertex AI)
@@ -221,20 +220,13 @@ EOF`
     const redactedCommand = `gemini ${args.join(' ')} "${instruction.substring(0, 100)}..."`
     await logger.command(redactedCommand)
 
-    // Build environment variables string for shell command (like other agents)
-    const envPrefix = Object.entries(authEnv)
-      .map(([key, value]) => `${key}="${value}"`)
-      .join(' ')
-
     // Try a simpler approach first - use gemini without complex flags
     await logger.info('Attempting Gemini CLI execution with basic flags...')
 
     // Execute Gemini CLI with proper environment using shell command
     // IMPORTANT: Wrap instruction in quotes to prevent CLI option parsing issues
-    const fullCommand = envPrefix
-      ? `${envPrefix} gemini ${args.join(' ')} "${instruction}"`
-      : `gemini ${args.join(' ')} "${instruction}"`
-    let result = await runCommandInSandbox(sandbox, 'sh', ['-c', fullCommand])
+    const fullCommand = `gemini ${args.join(' ')} "${instruction}"`
+    let result = await runCommandInSandbox(sandbox, 'sh', ['-c', fullCommand], authEnv)
 
     // If that fails with tool registry error, try with different approval modes
     if (!result.success && result.error?.includes('Tool') && result.error?.includes('not found in registry')) {
@@ -247,19 +239,15 @@ EOF`
       fallbackArgs.push('-o', 'text') // Use text output instead of JSON
       // Don't add instruction to array - add it quoted separately
 
-      const fallbackCommand = envPrefix
-        ? `${envPrefix} gemini ${fallbackArgs.join(' ')} "${instruction}"`
-        : `gemini ${fallbackArgs.join(' ')} "${instruction}"`
-      result = await runCommandInSandbox(sandbox, 'sh', ['-c', fallbackCommand])
+      const fallbackCommand = `gemini ${fallbackArgs.join(' ')} "${instruction}"`
+      result = await runCommandInSandbox(sandbox, 'sh', ['-c', fallbackCommand], authEnv)
 
       // If still failing, try the most basic approach
       if (!result.success && result.error?.includes('Tool') && result.error?.includes('not found in registry')) {
         await logger.info('Retrying with minimal flags...')
         const minimalArgs = selectedModel ? ['-m', selectedModel] : []
-        const minimalCommand = envPrefix
-          ? `${envPrefix} gemini ${minimalArgs.join(' ')} "${instruction}"`
-          : `gemini ${minimalArgs.join(' ')} "${instruction}"`
-        result = await runCommandInSandbox(sandbox, 'sh', ['-c', minimalCommand])
+        const minimalCommand = `gemini ${minimalArgs.join(' ')} "${instruction}"`
+        result = await runCommandInSandbox(sandbox, 'sh', ['-c', minimalCommand], authEnv)
       }
     }
 
@@ -315,6 +303,7 @@ EOF`
         cliName: 'gemini',
         changesDetected: !!hasChanges,
         error: undefined,
+        usage: parseGeminiJsonUsage(result.output || ''),
       }
     } else {
       // Handle specific error types
@@ -345,6 +334,7 @@ EOF`
         agentResponse: result.output,
         cliName: 'gemini',
         changesDetected: !!hasChanges,
+        usage: parseGeminiJsonUsage(result.output || ''),
       }
     }
   } catch (error: unknown) {
@@ -0,0 +1,183 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { SandboxInstance, SandboxRunCommandParams } from '../providers'
+import type { TaskLogger } from '@/lib/utils/task-logger'
+import { executeAgentInSandbox, AgentType } from '.'
+
+interface RecordedCommand {
+  cmd: string
+  args: string[]
+  env?: Record<string, string>
+}
+
+// A sandbox that records every command and succeeds without output. Each call
+// yields to the event loop first so concurrent runs interleave.
+function createFakeSandbox(sandboxId: string) {
+  const commands: RecordedCommand[] = []
+  const runCommand = async (commandOrParams: string | SandboxRunCommandParams, args: string[] = []) => {
+    await new Promise((resolve) => setImmediate(resolve))
+    commands.push(
+      typeof commandOrParams === 'string'
+        ? { cmd: commandOrParams, args }
+        : { cmd: commandOrParams.cmd, args: commandOrParams.args || [], env: commandOrParams.env },
+    )
+    const finished = {
+      exitCode: 0,
+      stdout: async () => '',
+      stderr: async () => '',
+      kill: async () => {},
+      wait: async () => finished,
+    }
+    return finished
+  }
+  const sandbox = {
+    sandboxId,
+    runCommand,
+    domain: () => '',
+    stop: async () => {},
+  } as unknown as SandboxInstance
+  return { sandbox, commands }
+}
+
+const logger = new Proxy({}, { get: () => async () => {} }) as TaskLogger
+
+const CREDENTIAL_NAMES = [
+  'OPENAI_API_KEY',
+  'GEMINI_API_KEY',
+  'CURSOR_API_KEY',
+  'ANTHROPIC_API_KEY',
+  'AI_GATEWAY_API_KEY',
+  'GOOGLE_API_KEY',
+]
+
+test('concurrent agent runs keep credentials in their own command env', async () => {
+  for (const name of CREDENTIAL_NAMES) {
+    delete process.env[name]
+  }
+
+  const first = createFakeSandbox('sandbox-a')
+  const second = createFakeSandbox('sandbox-b')
+  const firstKey = 'gemini-key-for-user-a'
+  const secondKey = 'gemini-key-for-user-b'
+
+  const results = await Promise.all([
+    executeAgentInSandbox(first.sandbox, 'Fix the bug', 'gemini', logger, undefined, undefined, undefined, {
+      GEMINI_API_KEY: firstKey,
+    }),
+    executeAgentInSandbox(second.sandbox, 'Fix the bug', 'gemini', logger, undefined, undefined, undefined, {
+      GEMINI_API_KEY: secondKey,
+    }),
+  ])
+
+  for (const result of results) {
+    assert.equal(result.success, true)
+  }
+
+  for (const [{ commands }, ownKey, otherKey] of [
+    [first, firstKey, secondKey],
+    [second, secondKey, firstKey],
+  ] as const) {
+    const geminiRuns = commands.filter((command) => command.args.some((arg) => arg.startsWith('gemini ')))
+    assert.equal(geminiRuns.length, 1)
+    assert.equal(geminiRuns[0].env?.GEMINI_API_KEY, ownKey)
+
+    for (const command of commands) {
+      const commandLine = [command.cmd, ...command.args].join(' ')
+      assert.ok(!commandLine.includes(ownKey), `credential leaked into command: ${command.cmd}`)
+      assert.ok(!commandLine.includes(otherKey), `credential leaked into command: ${command.cmd}`)
+      assert.notEqual(command.env?.GEMINI_API_KEY, otherKey)
+      assert.equal(command.env?.GH_TOKEN, undefined)
+      assert.equal(command.env?.GITHUB_TOKEN, undefined)
+    }
+  }
+})
+
+// The command env variable each agent reads its credential from, and the credential that fills it
+const AGENT_CREDENTIAL_ENV: Record<AgentType, { env: string; credential: keyof RunCredentials }> = {
+  claude: { env: 'ANTHROPIC_AUTH_TOKEN', credential: 'AI_GATEWAY_API_KEY' },
+  codex: { env: 'AI_GATEWAY_API_KEY', credential: 'AI_GATEWAY_API_KEY' },
+  copilot: { env: 'GH_TOKEN', credential: 'githubToken' },
+  cursor: { env: 'CURSOR_API_KEY', credential: 'CURSOR_API_KEY' },
+  gemini: { env: 'GEMINI_API_KEY', credential: 'GEMINI_API_KEY' },
+  opencode: { env: 'OPENAI_API_KEY', credential: 'OPENAI_API_KEY' },
+}
+
+interface RunCredentials {
+  OPENAI_API_KEY: string
+  GEMINI_API_KEY: string
+  CURSOR_API_KEY: string
+  ANTHROPIC_API_KEY: string
+  AI_GATEWAY_API_KEY: string
+  githubToken: string
+}
+
+function createRunCredentials(runId: string): RunCredentials {
+  return {
+    OPENAI_API_KEY: `sk-openai-key-for-${runId}`,
+    GEMINI_API_KEY: `gemini-key-for-${runId}`,
+    CURSOR_API_KEY: `cursor-key-for-${runId}`,
+    ANTHROPIC_API_KEY: `anthropic-key-for-${runId}`,
+    AI_GATEWAY_API_KEY: `vck_gateway-key-for-${runId}`,
+    githubToken: `ghs_github-token-for-${runId}`,
+  }
+}
+
+test('every agent keeps credentials in its own command env when runs overlap', async () => {
+  for (const name of CREDENTIAL_NAMES) {
+    delete process.env[name]
+  }
+
+  const runs = (Object.keys(AGENT_CREDENTIAL_ENV) as AgentType[]).flatMap((agent) =>
+    ['user-a', 'user-b'].map((user) => {
+      const runId = `${agent}-${user}`
+      return { agent, ...createFakeSandbox(runId), credentials: createRunCredentials(runId) }
+    }),
+  )
+
+  await Promise.all(
+    runs.map(({ agent, sandbox, credentials: { githubToken, ...apiKeys } }) =>
+      executeAgentInSandbox(
+        sandbox,
+        'Fix the bug',
+        agent,
+        logger,
+        undefined,
+        undefined,
+        undefined,
+        apiKeys,
+        false,
+        undefined,
+        undefined,
+        undefined,
+        githubToken,
+      ),
+    ),
+  )
+
+  for (const run of runs) {
+    const expected = AGENT_CREDENTIAL_ENV[run.agent]
+    const ownValue = run.credentials[expected.credential]
+    assert.ok(
+      run.commands.some((command) => command.env?.[expected.env] === ownValue),
+      `${run.agent} did not receive its own ${expected.env}`,
+    )
+
+    const otherValues = runs.filter((other) => other !== run).flatMap((other) => Object.values(other.credentials))
+    for (const command of run.commands) {
+      const commandLine = [command.cmd, ...command.args].join(' ')
+      for (const value of Object.values(run.credentials)) {
+        assert.ok(!commandLine.includes(value), `credential leaked into ${run.agent} command: ${command.cmd}`)
+      }
+
+      const envValues = Object.values(command.env || {})
+      for (const value of otherValues) {
+        assert.ok(!envValues.includes(value), `${run.agent} received another run's credential`)
+      }
+
+      if (run.agent !== 'copilot') {
+        assert.equal(command.env?.GH_TOKEN, undefined)
+        assert.equal(command.env?.GITHUB_TOKEN, undefined)
+      }
+    }
+  }
+})
@@ -1,5 +1,5 @@
-import { Sandbox } from '@vercel/sandbox'
-import { AgentExecutionResult } from '../types'
+import type { SandboxInstance } from '../providers'
+import { AgentCredentials, AgentExecutionResult } from '../types'
 import { executeClaudeInSandbox } from './claude'
 import { executeCodexInSandbox } from './codex'
 import { executeCopilotInSandbox } from './copilot'
@@ -12,11 +12,38 @@ import { Connector } from '@/lib/db/schema'
 export type AgentType = 'claude' | 'codex' | 'copilot' | 'cursor' | 'gemini' | 'opencode'
 
 // Re-export types
-export type { AgentExecutionResult } from '../types'
+export type { AgentCredentials, AgentExecutionResult } from '../types'
+
+/**
+ * Build the credentials for one agent run: the user's keys, falling back to
+ * the server's own keys where the user has none. The user's GitHub token is
+ * only included for Copilot, which authenticates with it; other agents reach
+ * GitHub through the git credential helper and never see the token.
+ */
+export function resolveAgentCredentials(
+  agentType: AgentType,
+  apiKeys?: Omit<AgentCredentials, 'GH_TOKEN' | 'GITHUB_TOKEN'>,
+  githubToken?: string,
+): AgentCredentials {
+  const credentials: AgentCredentials = {
+    OPENAI_API_KEY: apiKeys?.OPENAI_API_KEY || process.env.OPENAI_API_KEY,
+    GEMINI_API_KEY: apiKeys?.GEMINI_API_KEY || process.env.GEMINI_API_KEY,
+    CURSOR_API_KEY: apiKeys?.CURSOR_API_KEY || process.env.CURSOR_API_KEY,
+    ANTHROPIC_API_KEY: apiKeys?.ANTHROPIC_API_KEY || process.env.ANTHROPIC_API_KEY,
+    AI_GATEWAY_API_KEY: apiKeys?.AI_GATEWAY_API_KEY || process.env.AI_GATEWAY_API_KEY,
+  }
+
+  if (agentType === 'copilot' && githubToken) {
+    credentials.GH_TOKEN = githubToken
+    credentials.GITHUB_TOKEN = githubToken
+  }
+
+  return credentials
+}
 
 // Main agent execution function
 export async function executeAgentInSandbox(
-  sandbox: Sandbox,
+  sandbox: SandboxInstance,
   instruction: string,
   agentType: AgentType,
   logger: TaskLogger,
@@ -47,107 +74,82 @@ export async function executeAgentInSandbox(
     }
   }
 
-  // Temporarily override process.env with user's API keys if provided
-  const originalEnv = {
-    OPENAI_API_KEY: process.env.OPENAI_API_KEY,
-    GEMINI_API_KEY: process.env.GEMINI_API_KEY,
-    CURSOR_API_KEY: process.env.CURSOR_API_KEY,
-    ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
-    AI_GATEWAY_API_KEY: process.env.AI_GATEWAY_API_KEY,
-    GH_TOKEN: process.env.GH_TOKEN,
-    GITHUB_TOKEN: process.env.GITHUB_TOKEN,
-  }
-
-  if (apiKeys?.OPENAI_API_KEY) process.env.OPENAI_API_KEY = apiKeys.OPENAI_API_KEY
-  if (apiKeys?.GEMINI_API_KEY) process.env.GEMINI_API_KEY = apiKeys.GEMINI_API_KEY
-  if (apiKeys?.CURSOR_API_KEY) process.env.CURSOR_API_KEY = apiKeys.CURSOR_API_KEY
-  if (apiKeys?.ANTHROPIC_API_KEY) process.env.ANTHROPIC_API_KEY = apiKeys.ANTHROPIC_API_KEY
-  if (apiKeys?.AI_GATEWAY_API_KEY) process.env.AI_GATEWAY_API_KEY = apiKeys.AI_GATEWAY_API_KEY
-  if (githubToken) {
-    process.env.GH_TOKEN = githubToken
-    process.env.GITHUB_TOKEN = githubToken
-  }
+  const credentials = resolveAgentCredentials(agentType, apiKeys, githubToken)
 
-  try {
-    switch (agentType) {
-      case 'claude':
-        return await executeClaudeInSandbox(
-          sandbox,
-          instruction,
-          logger,
-          selectedModel,
-          mcpServers,
-          isResumed,
-          sessionId,
-          taskId,
-          agentMessageId,
-        )
+  switch (agentType) {
+    case 'claude':
+      return await executeClaudeInSandbox(
+        sandbox,
+        instruction,
+        logger,
+        credentials,
+        selectedModel,
+        mcpServers,
+        isResumed,
+        sessionId,
+        taskId,
+        agentMessageId,
+      )
 
-      case 'codex':
-        return await executeCodexInSandbox(
-          sandbox,
-          instruction,
-          logger,
-          selectedModel,
-          mcpServers,
-          isResumed,
-          sessionId,
-        )
+    case 'codex':
+      return await executeCodexInSandbox(
+        sandbox,
+        instruction,
+        logger,
+        credentials,
+        selectedModel,
+        mcpServers,
+        isResumed,
+        sessionId,
+      )
 
-      case 'copilot':
-        return await executeCopilotInSandbox(
-          sandbox,
-          instruction,
-          logger,
-          selectedModel,
-          mcpServers,
-          isResumed,
-          sessionId,
-          taskId,
-        )
+    case 'copilot':
+      return await executeCopilotInSandbox(
+        sandbox,
+        instruction,
+        logger,
+        credentials,
+        selectedModel,
+        mcpServers,
+        isResumed,
+        sessionId,
+        taskId,
+      )
 
-      case 'cursor':
-        return await executeCursorInSandbox(
-          sandbox,
-          instruction,
-          logger,
-          selectedModel,
-          mcpServers,
-          isResumed,
-          sessionId,
-          taskId,
-        )
+    case 'cursor':
+      return await executeCursorInSandbox(
+        sandbox,
+        instruction,
+        logger,
+        credentials,
+        selectedModel,
+        mcpServers,
+        isResumed,
+        sessionId,
+        taskId,
+      )
 
-      case 'gemini':
-        return await executeGeminiInSandbox(sandbox, instruction, logger, selectedModel, mcpServers)
+    case 'gemini':
+      return await executeGeminiInSandbox(sandbox, instruction, logger, credentials, selectedModel, mcpServers)
 
-      case 'opencode':
-        return await executeOpenCodeInSandbox(
-          sandbox,
-          instruction,
-          logger,
-          selectedModel,
-          mcpServers,
-          isResumed,
-          sessionId,
-        )
+    case 'opencode':
+      return await executeOpenCodeInSandbox(
+        sandbox,
+        instruction,
+        logger,
+        credentials,
+        selectedModel,
+        mcpServers,
+        isResumed,
+        sessionId,
+      )
 
-      default:
-        return {
-          success: false,
-          error: `Unknown agent type: ${agentType}`,
-          cliName: agentType,
-          changesDetected: false,
-        }
-    }
-  } finally {
-    // Restore original environment variables
-    process.env.OPENAI_API_KEY = originalEnv.OPENAI_API_KEY
-    process.env.GEMINI_API_KEY = originalEnv.GEMINI_API_KEY
-    process.env.CURSOR_API_KEY = originalEnv.CURSOR_API_KEY
-    process.env.ANTHROPIC_API_KEY = originalEnv.ANTHROPIC_API_KEY
-    process.env.AI_GATEWAY_API_KEY = originalEnv.AI_GATEWAY_API_KEY
-    process.env.GH_TOKEN = originalEnv.GH_TOKEN
-    process.env.GITHUB_TOKEN = originalEnv.GITHUB_TOKEN
+    default:
+      return {
+        success: false,
+        error: `Unknown agent type: ${agentType}`,
+        cliName: agentType,
+        changesDetected: false,
+      }
   }
 }
@@ -1,6 +1,6 @@
-import { Sandbox } from '@vercel/sandbox'
+import type { SandboxInstance } from '../providers'
 import { runCommandInSandbox, runInProject, PROJECT_DIR } from '../commands'
-import { AgentExecutionResult } from '../types'
+import { AgentCredentials, AgentExecutionResult } from '../types'
 import { redactSensitiveInfo } from '@/lib/utils/logging'
 import { TaskLogger } from '@/lib/utils/task-logger'
 import { connectors } from '@/lib/db/schema'
@@ -8,7 +8,7 @@ import { connectors } from '@/lib/db/schema'
 type Connector = typeof connectors.$inferSelect
 
 // Helper function to run command and log it in project directory
-async function runAndLogCommand(sandbox: Sandbox, command: string, args: string[], logger: TaskLogger) {
+async function runAndLogCommand(sandbox: SandboxInstance, command: string, args: string[], logger: TaskLogger) {
   const fullCommand = args.length > 0 ? `${command} ${args.join(' ')}` : command
   const redactedCommand = redactSensitiveInfo(fullCommand)
 
@@ -44,9 +44,10 @@ async function runAndLogCommand(sandbox: Sandbox, command: string, args: string[
 }
 
 export async function executeOpenCodeInSandbox(
-  sandbox: Sandbox,
+  sandbox: SandboxInstance,
   instruction: string,
   logger: TaskLogger,
+  credentials: AgentCredentials,
   selectedModel?: string,
   mcpServers?: Connector[],
   isResumed?: boolean,
@@ -57,7 +58,7 @@ export async function executeOpenCodeInSandbox(
     await logger.info('Starting OpenCode agent execution...')
 
     // Check if we have required environment variables for OpenCode
-    if (!process.env.OPENAI_API_KEY && !process.env.ANTHROPIC_API_KEY) {
+    if (!credentials.OPENAI_API_KEY && !credentials.ANTHROPIC_API_KEY) {
       const errorMsg = 'OpenAI API key or Anthropic API key is required for OpenCode agent'
       await logger.error(errorMsg)
       return {
@@ -198,11 +199,8 @@ export async function executeOpenCodeInSandbox(
 
           // Build headers object
           const headers: Record<string, string> = {}
-          if (server.oauthClientSecret) {
-            headers.Authorization = `Bearer ${server.oauthClientSecret}`
-          }
-          if (server.oauthClientId) {
-            headers['X-Client-ID'] = server.oauthClientId
+          if (server.oauthAccessToken) {
+            headers.Authorization = `Bearer ${server.oauthAccessToken}`
           }
           if (Object.keys(headers).length > 0) {
             opencodeConfig.mcp[serverName].headers = headers
@@ -238,17 +236,19 @@ EOF`
     // OpenCode supports multiple providers, we'll configure the available ones
     const authSetupCommands: string[] = []
 
-    if (process.env.OPENAI_API_KEY) {
+    if (credentials.OPENAI_API_KEY) {
       console.log('Configuring OpenAI provider...')
       if (logger) {
         await logger.info('Configuring OpenAI provider...')
       }
 
       // Use opencode auth to configure OpenAI
-      const openaiAuthResult = await runCommandInSandbox(sandbox, 'sh', [
-        '-c',
-        `echo "${process.env.OPENAI_API_KEY}" | opencode auth add openai`,
-      ])
+      const openaiAuthResult = await runCommandInSandbox(
+        sandbox,
+        'sh',
+        ['-c', 'echo "$OPENAI_API_KEY" | opencode auth add openai'],
+        { OPENAI_API_KEY: credentials.OPENAI_API_KEY },
+      )
 
       if (!openaiAuthResult.success) {
         console.warn('Failed to configure OpenAI provider, but continuing...')
@@ -260,17 +260,19 @@ EOF`
       }
     }
 
-    if (process.env.ANTHROPIC_API_KEY) {
+    if (credentials.ANTHROPIC_API_KEY) {
       console.log('Configuring Anthropic provider...')
       if (logger) {
         await logger.info('Configuring Anthropic provider...')
       }
 
       // Use opencode auth to configure Anthropic
-      const anthropicAuthResult = await runCommandInSandbox(sandbox, 'sh', [
-        '-c',
-        `echo "${process.env.ANTHROPIC_API_KEY}" | opencode auth add anthropic`,
-      ])
+      const anthropicAuthResult = await runCommandInSandbox(
+        sandbox,
+        'sh',
+        ['-c', 'echo "$ANTHROPIC_API_KEY" | opencode auth add anthropic'],
+        { ANTHROPIC_API_KEY: credentials.ANTHROPIC_API_KEY },
+      )
 
       if (!anthropicAuthResult.success) {
         console.warn('Failed to configure Anthropic provider, but continuing...')
@@ -302,18 +304,13 @@ EOF`
     // Set up environment variables for the OpenCode execution
     const envVars: Record<string, string> = {}
 
-    if (process.env.OPENAI_API_KEY) {
-      envVars.OPENAI_API_KEY = process.env.OPENAI_API_KEY
+    if (credentials.OPENAI_API_KEY) {
+      envVars.OPENAI_API_KEY = credentials.OPENAI_API_KEY
     }
-    if (process.env.ANTHROPIC_API_KEY) {
-      envVars.ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY
+    if (credentials.ANTHROPIC_API_KEY) {
+      envVars.ANTHROPIC_API_KEY = credentials.ANTHROPIC_API_KEY
     }
 
-    // Build environment variables string for shell command
-    const envPrefix = Object.entries(envVars)
-      .map(([key, value]) => `${key}="${value}"`)
-      .join(' ')
-
     console.log('Executing OpenCode using the run command for non-interactive mode...')
     if (logger) {
       await logger.info('Executing OpenCode run command in non-interactive mode...')
@@ -343,17 +340,15 @@ EOF`
       }
     }
 
-    const fullCommand = `${envPrefix} ${opencodeCmdToUse} run${modelFlag}${sessionFlags} "${instruction}"`
+    const fullCommand = `${opencodeCmdToUse} run${modelFlag}${sessionFlags} "${instruction}"`
 
-    // Log the command we're about to execute (with redacted API keys)
-    const redactedCommand = fullCommand.replace(/API_KEY="[^"]*"/g, 'API_KEY="[REDACTED]"')
-    await logger.command(redactedCommand)
+    await logger.command(fullCommand)
     if (logger) {
-      await logger.command(redactedCommand)
+      await logger.command(fullCommand)
     }
 
     // Execute OpenCode run command
-    const executeResult = await runCommandInSandbox(sandbox, 'sh', ['-c', fullCommand])
+    const executeResult = await runCommandInSandbox(sandbox, 'sh', ['-c', fullCommand], envVars)
 
     const stdout = executeResult.output || ''
     const stderr = executeResult.error || ''
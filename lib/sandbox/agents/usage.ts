@@ -0,0 +1,128 @@
+import type { AgentUsage } from '../types'
+
+// Parsers for the usage summaries the agent CLIs print when a run finishes.
+// Copilot and opencode don't report usage, so their runs have none.
+
+function toCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.round(value) : 0
+}
+
+function buildUsage(counts: Omit<AgentUsage, 'totalTokens'> & { totalTokens?: number }): AgentUsage | undefined {
+  const totalTokens =
+    counts.totalTokens || counts.inputTokens + counts.outputTokens + counts.cacheReadTokens + counts.cacheWriteTokens
+
+  if (totalTokens === 0 && counts.costUsd === undefined) {
+    return undefined
+  }
+
+  return { ...counts, totalTokens }
+}
+
+/**
+ * Claude stream-json `result` chunk: `usage` holds token counts and
+ * `total_cost_usd` the cost of the whole run
+ */
+export function parseClaudeResultUsage(chunk: Record<string, unknown>): AgentUsage | undefined {
+  const usage = (chunk.usage || {}) as Record<string, unknown>
+  const cost = chunk.total_cost_usd ?? chunk.cost_usd
+
+  return buildUsage({
+    inputTokens: toCount(usage.input_tokens),
+    outputTokens: toCount(usage.output_tokens),
+    cacheReadTokens: toCount(usage.cache_read_input_tokens),
+    cacheWriteTokens: toCount(usage.cache_creation_input_tokens),
+    costUsd: typeof cost === 'number' ? cost : undefined,
+  })
+}
+
+/**
+ * Claude output captured without streaming to the database: find the `result`
+ * chunk among the stream-json lines
+ */
+export function parseClaudeStreamUsage(output: string): AgentUsage | undefined {
+  for (const line of output.split('\n').reverse()) {
+    const trimmed = line.trim()
+    if (!trimmed.startsWith('{') || !trimmed.includes('"result"')) continue
+
+    try {
+      const parsed = JSON.parse(trimmed)
+      if (parsed.type === 'result') {
+        return parseClaudeResultUsage(parsed)
+      }
+    } catch {
+      // Not JSON, keep looking
+    }
+  }
+  return undefined
+}
+
+/**
+ * Cursor stream-json `result` chunk. Newer cursor-agent versions include a
+ * `usage` object with camelCase or snake_case counts.
+ */
+export function parseCursorResultUsage(chunk: Record<string, unknown>): AgentUsage | undefined {
+  const usage = chunk.usage as Record<string, unknown> | undefined
+  if (!usage) return undefined
+
+  return buildUsage({
+    inputTokens: toCount(usage.inputTokens ?? usage.input_tokens),
+    outputTokens: toCount(usage.outputTokens ?? usage.output_tokens),
+    cacheReadTokens: toCount(usage.cacheReadTokens ?? usage.cache_read_tokens),
+    cacheWriteTokens: toCount(usage.cacheWriteTokens ?? usage.cache_write_tokens),
+  })
+}
+
+/**
+ * Gemini `-o json` output: `stats.models` maps each model used to its token counts
+ */
+export function parseGeminiJsonUsage(output: string): AgentUsage | undefined {
+  const start = output.indexOf('{')
+  if (start === -1) return undefined
+
+  let parsed: { stats?: { models?: Record<string, { tokens?: Record<string, unknown> }> } }
+  try {
+    parsed = JSON.parse(output.slice(start))
+  } catch {
+    return undefined
+  }
+
+  const models = Object.entries(parsed.stats?.models || {})
+  if (models.length === 0) return undefined
+
+  let inputTokens = 0
+  let outputTokens = 0
+  let cacheReadTokens = 0
+  for (const [, { tokens = {} }] of models) {
+    // Gemini counts cached tokens as part of the prompt
+    const cached = toCount(tokens.cached)
+    inputTokens += Math.max(toCount(tokens.prompt) - cached, 0)
+    cacheReadTokens += cached
+    outputTokens += toCount(tokens.candidates) + toCount(tokens.thoughts)
+  }
+
+  return buildUsage({
+    inputTokens,
+    outputTokens,
+    cacheReadTokens,
+    cacheWriteTokens: 0,
+    // Attribute the run to the model that did most of the work
+    model: models.sort(([, a], [, b]) => toCount(b.tokens?.total) - toCount(a.tokens?.total))[0][0],
+  })
+}
+
+/**
+ * Codex only prints a total ("tokens used: 12,345" or the count on the next line)
+ */
+export function parseCodexUsage(output: string): AgentUsage | undefined {
+  const matches = [...output.matchAll(/tokens used[:\s]+([\d,]+)/gi)]
+  if (matches.length === 0) return undefined
+
+  const totalTokens = parseInt(matches[matches.length - 1][1].replace(/,/g, ''), 10)
+  return buildUsage({
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    totalTokens: Number.isFinite(totalTokens) ? totalTokens : 0,
+  })
+}
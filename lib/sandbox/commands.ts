@@ -1,4 +1,4 @@
-import { Sandbox } from '@vercel/sandbox'
+import type { SandboxInstance } from './providers'
 
 // Project directory where repo is cloned
 export const PROJECT_DIR = '/vercel/sandbox/project'
@@ -18,13 +18,18 @@ export interface StreamingCommandOptions {
   onJsonLine?: (jsonData: unknown) => void
 }
 
+/**
+ * Run a command in the sandbox. Secrets go in env rather than the command
+ * line, where they would show up in process listings and command logs.
+ */
 export async function runCommandInSandbox(
-  sandbox: Sandbox,
+  sandbox: SandboxInstance,
   command: string,
   args: string[] = [],
+  env?: Record<string, string>,
 ): Promise<CommandResult> {
   try {
-    const result = await sandbox.runCommand(command, args)
+    const result = env ? await sandbox.runCommand({ cmd: command, args, env }) : await sandbox.runCommand(command, args)
 
     // Handle stdout and stderr properly
     let stdout = ''
@@ -62,8 +67,20 @@ export async function runCommandInSandbox(
   }
 }
 
+/**
+ * Whether a path from a client is relative and stays inside the project directory
+ */
+export function isProjectPath(path: string): boolean {
+  return !path.startsWith('/') && !path.split('/').includes('..')
+}
+
 // Helper function to run command in project directory
-export async function runInProject(sandbox: Sandbox, command: string, args: string[] = []): Promise<CommandResult> {
+export async function runInProject(
+  sandbox: SandboxInstance,
+  command: string,
+  args: string[] = [],
+  env?: Record<string, string>,
+): Promise<CommandResult> {
   // Properly escape arguments for shell execution
   const escapeArg = (arg: string) => {
     // Escape single quotes by replacing ' with '\''
@@ -72,11 +89,62 @@ export async function runInProject(sandbox: Sandbox, command: string, args: stri
 
   const fullCommand = args.length > 0 ? `${command} ${args.map(escapeArg).join(' ')}` : command
   const cdCommand = `cd ${PROJECT_DIR} && ${fullCommand}`
-  return await runCommandInSandbox(sandbox, 'sh', ['-c', cdCommand])
+  return await runCommandInSandbox(sandbox, 'sh', ['-c', cdCommand], env)
+}
+
+/**
+ * Run a shell command line in the project directory with extra environment variables.
+ * Used for commands declared by the repository (setup, dev, test) rather than
+ * built from escaped arguments.
+ */
+export async function runShellInProject(
+  sandbox: SandboxInstance,
+  commandLine: string,
+  env: Record<string, string> = {},
+  options: { detached?: boolean } = {},
+): Promise<CommandResult> {
+  try {
+    const params = { cmd: 'sh', args: ['-c', commandLine], cwd: PROJECT_DIR, env }
+
+    if (options.detached) {
+      await sandbox.runCommand({ ...params, detached: true })
+      return { success: true, command: commandLine }
+    }
+
+    const result = await sandbox.runCommand(params)
+
+    let stdout = ''
+    let stderr = ''
+    try {
+      stdout = await result.stdout()
+    } catch {
+      // Failed to read stdout
+    }
+    try {
+      stderr = await result.stderr()
+    } catch {
+      // Failed to read stderr
+    }
+
+    return {
+      success: result.exitCode === 0,
+      exitCode: result.exitCode,
+      output: stdout,
+      error: stderr,
+      command: commandLine,
+    }
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Command execution failed'
+    return {
+      success: false,
+      error: errorMessage,
+      command: commandLine,
+    }
+  }
 }
 
 export async function runStreamingCommandInSandbox(
-  sandbox: Sandbox,
+  sandbox: SandboxInstance,
   command: string,
   args: string[] = [],
   options: StreamingCommandOptions = {},
@@ -1,3 +1,5 @@
+import { getSandboxProvider } from './providers'
+
 export function validateEnvironmentVariables(
   selectedAgent: string = 'claude',
   githubToken?: string | null,
@@ -56,18 +58,8 @@ export function validateEnvironmentVariables(
     errors.push('GitHub is required for repository access. Please connect your GitHub account.')
   }
 
-  // Check for Vercel sandbox environment variables
-  if (!process.env.SANDBOX_VERCEL_TEAM_ID) {
-    errors.push('SANDBOX_VERCEL_TEAM_ID is required for sandbox creation')
-  }
-
-  if (!process.env.SANDBOX_VERCEL_PROJECT_ID) {
-    errors.push('SANDBOX_VERCEL_PROJECT_ID is required for sandbox creation')
-  }
-
-  if (!process.env.SANDBOX_VERCEL_TOKEN) {
-    errors.push('SANDBOX_VERCEL_TOKEN is required for sandbox creation')
-  }
+  // Check the configured sandbox provider's environment variables
+  errors.push(...getSandboxProvider().validateEnvironment())
 
   return {
     valid: errors.length === 0,
@@ -75,25 +67,6 @@ export function validateEnvironmentVariables(
   }
 }
 
-export function createAuthenticatedRepoUrl(repoUrl: string, githubToken?: string | null): string {
-  if (!githubToken) {
-    return repoUrl
-  }
-
-  try {
-    const url = new URL(repoUrl)
-    if (url.hostname === 'github.com') {
-      // Add GitHub token for authentication
-      url.username = githubToken
-      url.password = 'x-oauth-basic'
-    }
-    return url.toString()
-  } catch {
-    // Failed to parse repository URL
-    return repoUrl
-  }
-}
-
 export function createSandboxConfiguration(config: {
   repoUrl: string
   timeout?: string
@@ -1,15 +1,23 @@
-import { Sandbox } from '@vercel/sandbox'
-import { validateEnvironmentVariables, createAuthenticatedRepoUrl } from './config'
+import { validateEnvironmentVariables } from './config'
 import { runCommandInSandbox, runInProject, PROJECT_DIR } from './commands'
+import { FORK_REMOTE, fetchBranchArgs, getTaskRemote, markBranchPushed, runAuthenticatedGit } from './git'
 import { generateId } from '@/lib/utils/id'
 import { SandboxConfig, SandboxResult } from './types'
 import { redactSensitiveInfo } from '@/lib/utils/logging'
 import { TaskLogger } from '@/lib/utils/task-logger'
 import { detectPackageManager, installDependencies } from './package-manager'
 import { registerSandbox } from './sandbox-registry'
+import { getSandboxProvider, SandboxInstance } from './providers'
+import { loadRepoConfig, resolveRepoConfigEnv, runRepoSetupCommands, startRepoDevServer } from './repo-config'
 
 // Helper function to run command and log it
-async function runAndLogCommand(sandbox: Sandbox, command: string, args: string[], logger: TaskLogger, cwd?: string) {
+async function runAndLogCommand(
+  sandbox: SandboxInstance,
+  command: string,
+  args: string[],
+  logger: TaskLogger,
+  cwd?: string,
+) {
   // Properly escape arguments for shell execution
   const escapeArg = (arg: string) => {
     // Escape single quotes by replacing ' with '\''
@@ -65,10 +73,6 @@ export async function createSandbox(config: SandboxConfig, logger: TaskLogger):
     }
     await logger.info('Environment variables validated')
 
-    // Handle private repository authentication
-    const authenticatedRepoUrl = createAuthenticatedRepoUrl(config.repoUrl, config.githubToken)
-    await logger.info('Added GitHub authentication to repository URL')
-
     // Use the specified timeout (maxDuration) for sandbox lifetime
     // keepAlive only controls whether we shutdown after task completion
     const timeoutMs = config.timeout ? parseInt(config.timeout.replace(/\D/g, '')) * 60 * 1000 : 60 * 60 * 1000 // Default 1 hour
@@ -79,9 +83,6 @@ export async function createSandbox(config: SandboxConfig, logger: TaskLogger):
 
     // Create sandbox without source - we'll clone manually to /vercel/sandbox/project
     const sandboxConfig = {
-      teamId: process.env.SANDBOX_VERCEL_TEAM_ID!,
-      projectId: process.env.SANDBOX_VERCEL_PROJECT_ID!,
-      token: process.env.SANDBOX_VERCEL_TOKEN!,
       timeout: timeoutMs,
       ports: defaultPorts,
       runtime: config.runtime || 'node22',
@@ -93,9 +94,9 @@ export async function createSandbox(config: SandboxConfig, logger: TaskLogger):
       await config.onProgress(25, 'Validating configuration...')
     }
 
-    let sandbox: Sandbox
+    let sandbox: SandboxInstance
     try {
-      sandbox = await Sandbox.create(sandboxConfig)
+      sandbox = await getSandboxProvider().create(sandboxConfig)
       await logger.info('Sandbox created successfully')
 
       // Register the sandbox immediately for potential killing
@@ -125,21 +126,28 @@ export async function createSandbox(config: SandboxConfig, logger: TaskLogger):
         cloneArgs.push('--branch', config.sourceBranch)
       }
 
-      cloneArgs.push(authenticatedRepoUrl, PROJECT_DIR)
+      cloneArgs.push(config.repoUrl, PROJECT_DIR)
 
-      const cloneResult = await runCommandInSandbox(sandbox, 'git', cloneArgs)
+      // The GitHub token is only given to git commands that talk to the remote, see runAuthenticatedGit
+      const cloneResult = await runAuthenticatedGit(
+        sandbox,
+        cloneArgs,
+        config.repoUrl,
+        config.githubToken,
+        config.gitUsername,
+      )
 
       // Handle case where specified branch doesn't exist
       if (!cloneResult.success && config.sourceBranch) {
         await logger.info('Specified branch not found, falling back to default branch')
 
-        const fallbackResult = await runCommandInSandbox(sandbox, 'git', [
-          'clone',
-          '--depth',
-          '1',
-          authenticatedRepoUrl,
-          PROJECT_DIR,
-        ])
+        const fallbackResult = await runAuthenticatedGit(
+          sandbox,
+          ['clone', '--depth', '1', config.repoUrl, PROJECT_DIR],
+          config.repoUrl,
+          config.githubToken,
+          config.gitUsername,
+        )
 
         if (!fallbackResult.success) {
           await logger.error('Failed to clone repository')
@@ -159,24 +167,6 @@ export async function createSandbox(config: SandboxConfig, logger: TaskLogger):
         }
       }
 
-      // Update remote URL to include authentication for push operations
-      // Git strips credentials from remote URL after clone, so we need to re-add them
-      if (config.githubToken) {
-        const updateUrlResult = await runInProject(sandbox, 'git', [
-          'remote',
-          'set-url',
-          'origin',
-          authenticatedRepoUrl,
-        ])
-
-        if (!updateUrlResult.success) {
-          await logger.error('Failed to configure git remote authentication')
-          throw new Error('Failed to configure git authentication for push operations')
-        }
-
-        await logger.info('Git remote URL configured with authentication')
-      }
-
       // Call progress callback after sandbox creation
       if (config.onProgress) {
         await config.onProgress(30, 'Repository cloned, installing dependencies...')
@@ -206,6 +196,10 @@ export async function createSandbox(config: SandboxConfig, logger: TaskLogger):
       throw error
     }
 
+    // Optional repository configuration replaces the detection heuristics below
+    const repoConfig = await loadRepoConfig(sandbox, logger)
+    const repoEnv = repoConfig?.env?.length ? await resolveRepoConfigEnv(repoConfig.env, config.apiKeys, config.userApiKeyNames, logger) : {}
+
     // Install project dependencies (based on user preference)
     if (config.installDependencies !== false) {
       await logger.info('Detecting project type and installing dependencies...')
@@ -220,7 +214,23 @@ export async function createSandbox(config: SandboxConfig, logger: TaskLogger):
     ])
 
     if (config.installDependencies !== false) {
-      if (packageJsonCheck.success) {
+      if (repoConfig?.setup) {
+        await logger.info('Running setup commands from repository configuration...')
+
+        if (config.onProgress) {
+          await config.onProgress(35, 'Running repository setup commands...')
+        }
+
+        const setupSucceeded = await runRepoSetupCommands(sandbox, repoConfig.setup, repoEnv, logger)
+        if (!setupSucceeded) {
+          await logger.info('Warning: Repository setup failed, but continuing with sandbox setup')
+        }
+
+        if (config.onCancellationCheck && (await config.onCancellationCheck())) {
+          await logger.info('Task was cancelled after dependency installation')
+          return { success: false, cancelled: true }
+        }
+      } else if (packageJsonCheck.success) {
         // JavaScript/Node.js project
         await logger.info('package.json found, installing Node.js dependencies...')
 
@@ -371,9 +381,15 @@ export async function createSandbox(config: SandboxConfig, logger: TaskLogger):
 
     // Auto-start dev server if package.json has a dev script
     let domain: string | undefined
-    let devPort = 3000 // Default port
+    let devPort = repoConfig?.dev?.port ?? 3000 // Default port
+
+    if (repoConfig?.dev?.command && config.installDependencies) {
+      await startRepoDevServer(sandbox, repoConfig.dev.command, repoEnv, logger)
 
-    if (packageJsonCheck.success && config.installDependencies) {
+      // Wait a bit for server to start, then get URL
+      await new Promise((resolve) => setTimeout(resolve, 3000))
+      domain = sandbox.domain(devPort)
+    } else if (packageJsonCheck.success && config.installDependencies) {
       // Check if package.json has a dev script
       const packageJsonRead = await runInProject(sandbox, 'cat', ['package.json'])
       if (packageJsonRead.success && packageJsonRead.output) {
@@ -383,7 +399,7 @@ export async function createSandbox(config: SandboxConfig, logger: TaskLogger):
 
           // Detect Vite projects (use port 5173)
           const hasVite = packageJson?.dependencies?.vite || packageJson?.devDependencies?.vite
-          if (hasVite) {
+          if (hasVite && !repoConfig?.dev?.port) {
             devPort = 5173
             await logger.info('Vite project detected, using port 5173')
           }
@@ -617,15 +633,32 @@ fi
       await logger.info('Created initial commit on main branch')
 
       // Push to origin
-      const gitPush = await runInProject(sandbox, 'git', ['push', '-u', 'origin', 'main'])
+      const gitPush = await runAuthenticatedGit(
+        sandbox,
+        ['push', config.repoUrl, 'main'],
+        config.repoUrl,
+        config.githubToken,
+        config.gitUsername,
+      )
       if (!gitPush.success) {
         await logger.info('Failed to push main branch to origin')
         // Don't throw error here as local repo is still valid
       } else {
+        await markBranchPushed(sandbox, 'origin', 'main')
         await logger.info('Pushed main branch to origin')
       }
     }
 
+    // The task branch lives in the user's fork when they can't push to the repository
+    const branchRemote = getTaskRemote(config.repoUrl, config.forkRepoUrl)
+    if (config.forkRepoUrl) {
+      const addFork = await runInProject(sandbox, 'git', ['remote', 'add', FORK_REMOTE, config.forkRepoUrl])
+      if (!addFork.success) {
+        throw new Error('Failed to add fork remote')
+      }
+      await logger.info('Changes will be pushed to your fork')
+    }
+
     let branchName: string
 
     if (config.preDeterminedBranchName) {
@@ -659,39 +692,53 @@ fi
         branchName = config.preDeterminedBranchName
       } else {
         // Check if branch exists on remote
-        const branchExistsRemote = await runInProject(sandbox, 'git', [
-          'ls-remote',
-          '--heads',
-          'origin',
-          config.preDeterminedBranchName,
-        ])
+        const branchExistsRemote = await runAuthenticatedGit(
+          sandbox,
+          ['ls-remote', '--heads', branchRemote.url, config.preDeterminedBranchName],
+          branchRemote.url,
+          config.githubToken,
+          config.gitUsername,
+        )
 
         if (branchExistsRemote.success && branchExistsRemote.output?.trim()) {
           // Branch exists on remote, fetch and check it out
           await logger.info('Branch exists on remote, fetching and checking it out')
 
           // Fetch the remote branch with refspec to create local tracking branch
-          const fetchBranch = await runInProject(sandbox, 'git', [
-            'fetch',
-            'origin',
-            `${config.preDeterminedBranchName}:${config.preDeterminedBranchName}`,
-          ])
+          const fetchBranch = await runAuthenticatedGit(
+            sandbox,
+            ['fetch', branchRemote.url, `${config.preDeterminedBranchName}:${config.preDeterminedBranchName}`],
+            branchRemote.url,
+            config.githubToken,
+            config.gitUsername,
+          )
 
           if (!fetchBranch.success) {
             await logger.info('Failed to fetch remote branch, trying alternative method')
 
-            // Alternative: fetch all and then checkout
-            const fetchAll = await runInProject(sandbox, 'git', ['fetch', 'origin'])
-            if (!fetchAll.success) {
-              await logger.info('Failed to fetch from origin')
+            // Alternative: fetch into the remote-tracking ref and then checkout
+            const fetchTracking = await runAuthenticatedGit(
+              sandbox,
+              fetchBranchArgs(branchRemote, config.preDeterminedBranchName),
+              branchRemote.url,
+              config.githubToken,
+              config.gitUsername,
+            )
+            if (!fetchTracking.success) {
+              await logger.info(`Failed to fetch from ${branchRemote.name}`)
               throw new Error('Failed to fetch from remote Git repository')
             }
 
-            // Create local branch tracking remote
+            // Create local branch from the remote branch
             const checkoutTracking = await runAndLogCommand(
               sandbox,
               'git',
-              ['checkout', '-b', config.preDeterminedBranchName, '--track', `origin/${config.preDeterminedBranchName}`],
+              [
+                'checkout',
+                '-b',
+                config.preDeterminedBranchName,
+                `${branchRemote.name}/${config.preDeterminedBranchName}`,
+              ],
               logger,
               PROJECT_DIR,
             )
@@ -716,6 +763,7 @@ fi
             }
           }
 
+          await markBranchPushed(sandbox, branchRemote.name, config.preDeterminedBranchName)
           branchName = config.preDeterminedBranchName
         } else {
           // Branch doesn't exist, create it
@@ -771,6 +819,8 @@ fi
       sandbox,
       domain,
       branchName,
+      repoConfig,
+      repoEnv,
     }
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
@@ -1,14 +1,267 @@
-import { Sandbox } from '@vercel/sandbox'
-import { runCommandInSandbox, runInProject } from './commands'
+import type { SandboxInstance } from './providers'
+import { CommandResult, PROJECT_DIR, runCommandInSandbox, runInProject } from './commands'
 import { TaskLogger } from '@/lib/utils/task-logger'
+import { isProtectedPath } from './repo-config'
+import { formatSecretScanFinding, scanStagedChanges } from './secret-scan'
+
+export interface PushChangesOptions {
+  /** Remote the branch is pushed to, see getTaskRemote */
+  remote: GitRemote
+  /** Paths from the repository config that the agent must not change; changes to them are discarded */
+  protectedPaths?: string[]
+  /** Token used for the push; it is only given to the push command itself */
+  githubToken?: string | null
+  /** Username sent with the token, for hosts other than GitHub (see GitProvider.gitUsername) */
+  gitUsername?: string
+  /** Secret values used by the task (API keys, tokens, injected env); the push is blocked if the changes contain one */
+  secretValues?: (string | null | undefined)[]
+  /** Credited with a Co-authored-by trailer, for commits the GitHub App bot makes on the user's behalf */
+  coAuthor?: { name: string; email: string } | null
+}
+
+/**
+ * A remote the task talks to. Commands use the URL the server knows rather
+ * than the name, since the agent can change the remotes in .git/config; the
+ * name only labels the remote-tracking refs.
+ */
+export interface GitRemote {
+  name: string
+  url: string
+}
+
+/** Remote name of the user's fork in the sandbox clone (see SandboxConfig.forkRepoUrl) */
+export const FORK_REMOTE = 'fork'
+
+/**
+ * Remote a task's branch lives on: the user's fork when the task pushes to one,
+ * otherwise the repository itself
+ */
+export function getTaskRemote(repoUrl: string, forkRepoUrl?: string | null): GitRemote {
+  return forkRepoUrl ? { name: FORK_REMOTE, url: forkRepoUrl } : { name: 'origin', url: repoUrl }
+}
+
+/**
+ * Args to fetch a branch into its remote-tracking ref (`<remote>/<branch>`)
+ */
+export function fetchBranchArgs(remote: GitRemote, branchName: string): string[] {
+  return ['fetch', remote.url, `+refs/heads/${branchName}:refs/remotes/${remote.name}/${branchName}`]
+}
+
+// Environment variables that carry the credentials into a single git command
+const GIT_TOKEN_ENV = 'GIT_AUTH_TOKEN'
+const GIT_USERNAME_ENV = 'GIT_AUTH_USERNAME'
+const GIT_HOST_ENV = 'GIT_AUTH_HOST'
+
+const DEFAULT_GIT_USERNAME = 'x-access-token'
+
+// Answers git's credential requests from the command's environment, and only
+// for https requests to the expected host. The first (empty) helper clears
+// any helpers configured in the sandbox.
+const CREDENTIAL_HELPER_ARGS = [
+  '-c',
+  'credential.helper=',
+  '-c',
+  `credential.helper=!f() { test "$1" = get || return 0; while IFS== read -r key value; do case "$key" in protocol) protocol=$value ;; host) host=$value ;; esac; done; test "$protocol" = https && test "$host" = "$${GIT_HOST_ENV}" && echo "username=$${GIT_USERNAME_ENV}" && echo "password=$${GIT_TOKEN_ENV}"; }; f`,
+]
+
+// Hooks in the sandbox are written by the agent and would run with the token in their environment
+const HARDENING_ARGS = ['-c', 'core.hooksPath=/dev/null', '-c', 'core.askPass=']
+
+// Repository settings that could send the request or the token elsewhere, or
+// run a program while the token is in the environment. The agent can edit
+// .git/config, so they are removed before each command that talks to a remote.
+const UNSAFE_LOCAL_CONFIG =
+  '^(url\\..*|http\\..*|credential\\..*|include\\.path|includeif\\..*|gpg\\..*|push\\.gpgsign|core\\.(hookspath|fsmonitor|askpass|sshcommand|gitproxy|alternaterefscommand)|remote\\..*\\.(pushurl|proxy|receivepack|uploadpack|vcs))$'
+
+const SANITIZE_AND_RUN_GIT = `git config --local --name-only --get-regexp '${UNSAFE_LOCAL_CONFIG}' 2>/dev/null | while IFS= read -r key; do git config --local --unset-all "$key"; done; exec git "$@"`
+
+function getRemoteHost(remoteUrl: string): string | null {
+  try {
+    const url = new URL(remoteUrl)
+    return url.protocol === 'https:' ? url.host : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Build the command, args and environment for a git command that talks to
+ * the remote at `remoteUrl`. The remote must be given by URL in `args`.
+ *
+ * The token never ends up in the remote URL or .git/config: it lives only in
+ * the environment of this one git process, so the agent and terminal commands
+ * running in the sandbox can't read it. The sandbox's git config is not
+ * trusted: global and system config are ignored, unsafe repository settings
+ * are removed, hooks don't run, and the token is only sent over https to the
+ * remote's host. Without a token the command runs unauthenticated, which is
+ * enough for public repositories.
+ */
+export function authenticatedGitCommand(
+  args: string[],
+  remoteUrl: string,
+  githubToken?: string | null,
+  gitUsername: string = DEFAULT_GIT_USERNAME,
+): { cmd: string; args: string[]; env: Record<string, string> } {
+  const env: Record<string, string> = {
+    GIT_TERMINAL_PROMPT: '0',
+    GIT_ASKPASS: '',
+    GIT_CONFIG_GLOBAL: '/dev/null',
+    GIT_CONFIG_NOSYSTEM: '1',
+  }
+  const host = getRemoteHost(remoteUrl)
+
+  if (!githubToken || !host) {
+    return { cmd: 'sh', args: ['-c', SANITIZE_AND_RUN_GIT, 'sh', ...HARDENING_ARGS, ...args], env }
+  }
+
+  return {
+    cmd: 'sh',
+    args: ['-c', SANITIZE_AND_RUN_GIT, 'sh', ...HARDENING_ARGS, ...CREDENTIAL_HELPER_ARGS, ...args],
+    env: { ...env, [GIT_TOKEN_ENV]: githubToken, [GIT_USERNAME_ENV]: gitUsername, [GIT_HOST_ENV]: host },
+  }
+}
+
+/**
+ * Run a git command that talks to the remote at `remoteUrl` (clone, fetch, push, ls-remote)
+ */
+export async function runAuthenticatedGit(
+  sandbox: SandboxInstance,
+  args: string[],
+  remoteUrl: string,
+  githubToken?: string | null,
+  gitUsername?: string,
+  cwd: string = PROJECT_DIR,
+): Promise<CommandResult> {
+  const command = `git ${args.join(' ')}`
+
+  try {
+    const result = await sandbox.runCommand({
+      cwd,
+      ...authenticatedGitCommand(args, remoteUrl, githubToken, gitUsername),
+    })
+
+    let stdout = ''
+    let stderr = ''
+    try {
+      stdout = await result.stdout()
+    } catch {
+      // Failed to read stdout
+    }
+    try {
+      stderr = await result.stderr()
+    } catch {
+      // Failed to read stderr
+    }
+
+    return {
+      success: result.exitCode === 0,
+      exitCode: result.exitCode,
+      output: stdout,
+      error: stderr,
+      command,
+    }
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Command execution failed'
+    return { success: false, error: errorMessage, command }
+  }
+}
+
+/**
+ * Discard working tree changes to protected paths.
+ * Modified and deleted files are restored from HEAD, new files are removed.
+ *
+ * @returns The paths that were reverted
+ */
+export async function revertProtectedChanges(
+  sandbox: SandboxInstance,
+  patterns: string[],
+  logger: TaskLogger,
+): Promise<string[]> {
+  const statusResult = await runInProject(sandbox, 'git', ['status', '--porcelain', '--untracked-files=all'])
+  if (!statusResult.success || !statusResult.output) {
+    return []
+  }
+
+  const changedPaths = statusResult.output
+    .split('\n')
+    .filter((line) => line.trim())
+    // Porcelain lines are "XY path" or "XY old -> new" for renames
+    .flatMap((line) => line.slice(3).split(' -> '))
+    .map((path) => path.replace(/^"(.*)"$/, '$1'))
+
+  const protectedChanges = [...new Set(changedPaths.filter((path) => isProtectedPath(path, patterns)))]
+
+  for (const path of protectedChanges) {
+    const escapedPath = `'${path.replace(/'/g, "'\\''")}'`
+    await runInProject(sandbox, 'sh', [
+      '-c',
+      `git reset -q HEAD -- ${escapedPath} 2>/dev/null; git checkout HEAD -- ${escapedPath} 2>/dev/null || rm -f -- ${escapedPath}`,
+    ])
+  }
+
+  if (protectedChanges.length > 0) {
+    await logger.error(`Discarded changes to protected paths: ${protectedChanges.join(', ')}`)
+  }
+
+  return protectedChanges
+}
+
+/**
+ * Record that the remote branch is at HEAD. Shallow clones only track the
+ * default branch, so pushed and fetched task branches are recorded by hand;
+ * squashUnpushedCommits relies on this to tell pushed commits apart.
+ */
+export async function markBranchPushed(sandbox: SandboxInstance, remote: string, branchName: string): Promise<void> {
+  await runInProject(sandbox, 'git', ['update-ref', `refs/remotes/${remote}/${branchName}`, 'HEAD'])
+}
+
+/**
+ * Move the changes of commits the agent made itself back into the index, so
+ * they are checked like uncommitted changes and pushed as part of the task's
+ * commit. Commits on a remote-tracking ref have been pushed and are kept.
+ *
+ * @returns false if the unpushed commits couldn't be moved
+ */
+export async function squashUnpushedCommits(sandbox: SandboxInstance, logger: TaskLogger): Promise<boolean> {
+  const unpushedResult = await runInProject(sandbox, 'git', ['rev-list', '--reverse', 'HEAD', '--not', '--remotes'])
+  const oldest = unpushedResult.output?.trim().split('\n')[0]
+  if (!unpushedResult.success || !oldest) {
+    return true
+  }
+
+  // A root commit means no pushed commit to go back to
+  const parentResult = await runInProject(sandbox, 'git', ['rev-parse', '--verify', '-q', `${oldest}^`])
+  const parent = parentResult.output?.trim()
+  if (!parentResult.success || !parent) {
+    return false
+  }
+
+  const resetResult = await runInProject(sandbox, 'git', ['reset', '--soft', parent])
+  if (!resetResult.success) {
+    return false
+  }
+
+  await logger.info('Including commits made by the agent in the task commit')
+  return true
+}
 
 export async function pushChangesToBranch(
-  sandbox: Sandbox,
+  sandbox: SandboxInstance,
   branchName: string,
   commitMessage: string,
   logger: TaskLogger,
-): Promise<{ success: boolean; pushFailed?: boolean }> {
+  options: PushChangesOptions,
+): Promise<{ success: boolean; pushFailed?: boolean; secretsDetected?: boolean; commitSha?: string }> {
   try {
+    if (!(await squashUnpushedCommits(sandbox, logger))) {
+      await logger.error('Push blocked: could not check the commits made in the sandbox')
+      return { success: false }
+    }
+
+    if (options.protectedPaths?.length) {
+      await revertProtectedChanges(sandbox, options.protectedPaths, logger)
+    }
+
     // Check if there are any changes to commit
     const statusResult = await runInProject(sandbox, 'git', ['status', '--porcelain'])
 
@@ -30,8 +283,36 @@ export async function pushChangesToBranch(
       return { success: false }
     }
 
+    const findings = await scanStagedChanges(
+      sandbox,
+      (options.secretValues || []).filter((value): value is string => !!value),
+    )
+
+    for (const finding of findings.filter((finding) => finding.kind === 'file')) {
+      await logger.error(`Not committing ${formatSecretScanFinding(finding)}`)
+    }
+
+    const secretFindings = findings.filter((finding) => finding.kind === 'content')
+    if (secretFindings.length > 0) {
+      // Leave the changes in the working tree so they can be fixed in a follow-up
+      await runInProject(sandbox, 'git', ['reset', '-q'])
+      await logger.error(
+        `Push blocked: possible secrets in ${secretFindings.map(formatSecretScanFinding).join(', ')}. Remove them and send a follow-up message to push again.`,
+      )
+      return { success: false, secretsDetected: true }
+    }
+
+    const stagedCheck = await runInProject(sandbox, 'git', ['diff', '--cached', '--quiet'])
+    if (stagedCheck.success) {
+      await logger.info('No changes left to commit')
+      return { success: true }
+    }
+
     // Commit changes
-    const commitResult = await runInProject(sandbox, 'git', ['commit', '-m', commitMessage])
+    const message = options.coAuthor
+      ? `${commitMessage}\n\nCo-authored-by: ${options.coAuthor.name} <${options.coAuthor.email}>`
+      : commitMessage
+    const commitResult = await runInProject(sandbox, 'git', ['commit', '-m', message])
 
     if (!commitResult.success) {
       await logger.info('Failed to commit changes')
@@ -45,11 +326,19 @@ export async function pushChangesToBranch(
     await logger.info('Changes committed successfully')
 
     // Push to remote branch
-    const pushResult = await runInProject(sandbox, 'git', ['push', 'origin', branchName])
+    const pushResult = await runAuthenticatedGit(
+      sandbox,
+      ['push', options.remote.url, `HEAD:refs/heads/${branchName}`],
+      options.remote.url,
+      options.githubToken,
+      options.gitUsername,
+    )
 
     if (pushResult.success) {
+      await markBranchPushed(sandbox, options.remote.name, branchName)
       await logger.info('Successfully pushed changes to branch')
-      return { success: true }
+      const headResult = await runInProject(sandbox, 'git', ['rev-parse', 'HEAD'])
+      return { success: true, commitSha: headResult.output?.trim() || undefined }
     } else {
       const errorMsg = pushResult.error || 'Unknown error'
       await logger.info('Failed to push to branch')
@@ -72,7 +361,7 @@ export async function pushChangesToBranch(
   }
 }
 
-export async function shutdownSandbox(sandbox?: Sandbox): Promise<{ success: boolean; error?: string }> {
+export async function shutdownSandbox(sandbox?: SandboxInstance): Promise<{ success: boolean; error?: string }> {
   try {
     if (!sandbox) {
       return { success: true }
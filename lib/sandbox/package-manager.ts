@@ -1,9 +1,12 @@
-import { Sandbox } from '@vercel/sandbox'
+import type { SandboxInstance } from './providers'
 import { runInProject } from './commands'
 import { TaskLogger } from '@/lib/utils/task-logger'
 
 // Helper function to detect package manager based on lock files
-export async function detectPackageManager(sandbox: Sandbox, logger: TaskLogger): Promise<'pnpm' | 'yarn' | 'npm'> {
+export async function detectPackageManager(
+  sandbox: SandboxInstance,
+  logger: TaskLogger,
+): Promise<'pnpm' | 'yarn' | 'npm'> {
   // Check for lock files in order of preference
   const pnpmLockCheck = await runInProject(sandbox, 'test', ['-f', 'pnpm-lock.yaml'])
   if (pnpmLockCheck.success) {
@@ -30,7 +33,7 @@ export async function detectPackageManager(sandbox: Sandbox, logger: TaskLogger)
 
 // Helper function to install dependencies with the appropriate package manager
 export async function installDependencies(
-  sandbox: Sandbox,
+  sandbox: SandboxInstance,
   packageManager: 'pnpm' | 'yarn' | 'npm',
   logger: TaskLogger,
 ): Promise<{ success: boolean; error?: string }> {
@@ -86,6 +89,9 @@ export async function installDependencies(
  * Gets the appropriate dev command arguments for the given package manager.
  * Next.js 16+ uses Turbo by default (not Turbopack), which works on Vercel Sandbox.
  */
-export async function getDevCommandArgs(_sandbox: Sandbox, packageManager: 'pnpm' | 'yarn' | 'npm'): Promise<string[]> {
+export async function getDevCommandArgs(
+  _sandbox: SandboxInstance,
+  packageManager: 'pnpm' | 'yarn' | 'npm',
+): Promise<string[]> {
   return packageManager === 'npm' ? ['run', 'dev'] : ['dev']
 }
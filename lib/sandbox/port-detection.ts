@@ -1,47 +1,42 @@
-import { Octokit } from '@octokit/rest'
+import { getGitProviderForUrl } from '@/lib/git-providers'
+import { parseRepoConfig, REPO_CONFIG_FILENAMES } from './repo-config'
 
 /**
- * Detects the appropriate port for a project based on its dependencies.
- * Checks package.json from GitHub to determine if it's a Vite project.
+ * Detects the appropriate port for a project.
+ * Uses dev.port from the repository's .aa-agent.yml when declared, otherwise
+ * checks package.json from the git host to determine if it's a Vite project.
  *
- * @param repoUrl - The GitHub repository URL
- * @param githubToken - Optional GitHub token for authentication
- * @returns The appropriate port number (5173 for Vite, 3000 as default)
+ * @param repoUrl - The repository URL (GitHub, GitLab or Gitea)
+ * @param githubToken - Optional token for the repository's git host
+ * @returns The appropriate port number (configured port, 5173 for Vite, 3000 as default)
  */
 export async function detectPortFromRepo(repoUrl: string, githubToken?: string | null): Promise<number> {
   try {
-    // Parse the GitHub URL to extract owner and repo
-    const urlMatch = repoUrl.match(/github\.com[/:]([\w-]+)\/([\w-]+?)(\.git)?$/)
-    if (!urlMatch) {
-      // Not a GitHub URL, use default port
+    const provider = getGitProviderForUrl(repoUrl)
+    const repository = provider?.parseRepoUrl(repoUrl)
+    if (!provider || !repository) {
+      // Not a repository on a known host, use default port
       return 3000
     }
 
-    const [, owner, repo] = urlMatch
+    const getRepoFileContent = (path: string) =>
+      provider.getFileContent(githubToken || null, repository, path).catch(() => null)
 
-    // Create Octokit instance
-    const octokit = new Octokit({
-      auth: githubToken || undefined,
-    })
+    // An explicit port in the repository config takes precedence
+    for (const filename of REPO_CONFIG_FILENAMES) {
+      const configContent = await getRepoFileContent(filename)
+      if (configContent === null) continue
 
-    // Fetch package.json from the repository
-    let packageJsonContent: string
-    try {
-      const { data } = await octokit.repos.getContent({
-        owner,
-        repo,
-        path: 'package.json',
-      })
-
-      // Check if it's a file (not a directory or symlink)
-      if ('content' in data && data.type === 'file') {
-        // Decode base64 content
-        packageJsonContent = Buffer.from(data.content, 'base64').toString('utf-8')
-      } else {
-        // Not a file, use default
-        return 3000
+      const { config } = parseRepoConfig(configContent)
+      if (config?.dev?.port) {
+        return config.dev.port
       }
-    } catch (error) {
+      break
+    }
+
+    // Fetch package.json from the repository
+    const packageJsonContent = await getRepoFileContent('package.json')
+    if (packageJsonContent === null) {
       // package.json doesn't exist or can't be accessed, use default
       return 3000
     }
@@ -0,0 +1,27 @@
+import { LocalSandboxProvider } from './local'
+import { SandboxProvider } from './types'
+import { VercelSandboxProvider } from './vercel'
+
+export type {
+  CreateSandboxOptions,
+  SandboxCommand,
+  SandboxCommandFinished,
+  SandboxInstance,
+  SandboxProvider,
+  SandboxProviderName,
+  SandboxRunCommandParams,
+} from './types'
+export { SandboxGoneError } from './types'
+
+let _provider: SandboxProvider | null = null
+
+/**
+ * Get the configured sandbox provider.
+ * SANDBOX_PROVIDER selects the backend: "vercel" (default) or "local".
+ */
+export function getSandboxProvider(): SandboxProvider {
+  if (!_provider) {
+    _provider = process.env.SANDBOX_PROVIDER === 'local' ? new LocalSandboxProvider() : new VercelSandboxProvider()
+  }
+  return _provider
+}
@@ -0,0 +1,391 @@
+import { ChildProcess, execFile, spawn } from 'child_process'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { promisify } from 'util'
+import { generateId } from '@/lib/utils/id'
+import {
+  CreateSandboxOptions,
+  SandboxCommand,
+  SandboxCommandFinished,
+  SandboxGoneError,
+  SandboxInstance,
+  SandboxProvider,
+  SandboxRunCommandParams,
+} from './types'
+
+const execFileAsync = promisify(execFile)
+
+// Root directory that sandbox code (PROJECT_DIR etc.) expects to exist
+const SANDBOX_ROOT = '/vercel/sandbox'
+const SANDBOX_ID_PREFIX = 'local-'
+const SANDBOX_ID_PATTERN = /^local-[\w-]+$/
+const MAX_BUFFERED_OUTPUT = 10 * 1024 * 1024 // Stop buffering long-running command output after 10MB
+
+type LocalRuntime = 'docker' | 'process'
+
+// Child processes per sandbox, so stop() can terminate commands started by other handles in this process
+const runningCommands = new Map<string, Set<ChildProcess>>()
+
+function getRuntime(): LocalRuntime {
+  return process.env.SANDBOX_LOCAL_RUNTIME === 'process' ? 'process' : 'docker'
+}
+
+function getPreviewHost(): string {
+  return process.env.SANDBOX_LOCAL_HOST || 'localhost'
+}
+
+function getProcessBaseDir(): string {
+  return process.env.SANDBOX_LOCAL_DIR || path.join(os.tmpdir(), 'aa-coding-agent-sandboxes')
+}
+
+function buildCloneArgs(source: NonNullable<CreateSandboxOptions['source']>, target: string): string[] {
+  const args = ['clone', '--depth', String(source.depth || 1)]
+  if (source.revision) {
+    args.push('--branch', source.revision)
+  }
+  args.push(source.url, target)
+  return args
+}
+
+/**
+ * Command running as a local child process (either directly or through `docker exec`).
+ */
+class LocalCommand implements SandboxCommand {
+  exitCode: number | null = null
+  private output = { stdout: '', stderr: '' }
+  private readonly finished: Promise<SandboxCommandFinished>
+
+  constructor(
+    private readonly child: ChildProcess,
+    streams: Pick<SandboxRunCommandParams, 'stdout' | 'stderr'>,
+  ) {
+    child.stdout?.on('data', (chunk: Buffer) => {
+      this.buffer('stdout', chunk)
+      streams.stdout?.write(chunk)
+    })
+    child.stderr?.on('data', (chunk: Buffer) => {
+      this.buffer('stderr', chunk)
+      streams.stderr?.write(chunk)
+    })
+
+    this.finished = new Promise((resolve) => {
+      child.on('error', (error) => {
+        this.output.stderr += error.message
+        if (this.exitCode === null) this.exitCode = 127
+        resolve(this as SandboxCommandFinished)
+      })
+      child.on('close', (code) => {
+        if (this.exitCode === null) this.exitCode = code ?? 1
+        resolve(this as SandboxCommandFinished)
+      })
+    })
+  }
+
+  private buffer(stream: 'stdout' | 'stderr', chunk: Buffer) {
+    if (this.output[stream].length < MAX_BUFFERED_OUTPUT) {
+      this.output[stream] += chunk.toString()
+    }
+  }
+
+  wait(): Promise<SandboxCommandFinished> {
+    return this.finished
+  }
+
+  async stdout(): Promise<string> {
+    await this.finished
+    return this.output.stdout
+  }
+
+  async stderr(): Promise<string> {
+    await this.finished
+    return this.output.stderr
+  }
+
+  async kill(): Promise<void> {
+    killProcessTree(this.child)
+  }
+}
+
+function killProcessTree(child: ChildProcess) {
+  if (child.exitCode !== null || !child.pid) return
+  try {
+    // Commands are spawned as process group leaders, so this also stops their children
+    process.kill(-child.pid, 'SIGTERM')
+  } catch {
+    child.kill('SIGTERM')
+  }
+}
+
+abstract class LocalSandbox implements SandboxInstance {
+  constructor(readonly sandboxId: string) {}
+
+  protected abstract spawnCommand(params: SandboxRunCommandParams): ChildProcess
+
+  abstract domain(port: number): string
+
+  abstract stop(): Promise<void>
+
+  runCommand(command: string, args?: string[]): Promise<SandboxCommandFinished>
+  runCommand(params: SandboxRunCommandParams & { detached: true }): Promise<SandboxCommand>
+  runCommand(params: SandboxRunCommandParams): Promise<SandboxCommandFinished>
+  async runCommand(commandOrParams: string | SandboxRunCommandParams, args: string[] = []): Promise<SandboxCommand> {
+    const params = typeof commandOrParams === 'string' ? { cmd: commandOrParams, args } : commandOrParams
+    const child = this.spawnCommand(params)
+
+    let tracked = runningCommands.get(this.sandboxId)
+    if (!tracked) {
+      tracked = new Set()
+      runningCommands.set(this.sandboxId, tracked)
+    }
+    tracked.add(child)
+    child.on('close', () => tracked.delete(child))
+
+    const command = new LocalCommand(child, params)
+    if (params.detached) {
+      return command
+    }
+    return await command.wait()
+  }
+
+  protected killRunningCommands() {
+    const tracked = runningCommands.get(this.sandboxId)
+    if (!tracked) return
+    for (const child of tracked) {
+      killProcessTree(child)
+    }
+    runningCommands.delete(this.sandboxId)
+  }
+}
+
+/**
+ * Sandbox backed by a Docker container. The container runs `sleep` for the
+ * sandbox lifetime and every command is executed with `docker exec`.
+ */
+class DockerSandbox extends LocalSandbox {
+  constructor(
+    sandboxId: string,
+    private readonly ports: Map<number, number>,
+  ) {
+    super(sandboxId)
+  }
+
+  protected spawnCommand(params: SandboxRunCommandParams): ChildProcess {
+    const dockerArgs = ['exec', '-w', params.cwd || SANDBOX_ROOT]
+    // Pass only the names: docker reads the values from its own environment,
+    // so credentials don't show up in the host process list
+    for (const key of Object.keys(params.env || {})) {
+      dockerArgs.push('-e', key)
+    }
+    dockerArgs.push(this.sandboxId, params.cmd, ...(params.args || []))
+
+    // Commands run as the container's default (root) user, so `sudo` needs no special handling
+    return spawn('docker', dockerArgs, {
+      env: { ...process.env, ...params.env },
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    })
+  }
+
+  domain(port: number): string {
+    const hostPort = this.ports.get(port)
+    if (!hostPort) {
+      throw new Error(`Port ${port} is not exposed by sandbox ${this.sandboxId}`)
+    }
+    return `http://${getPreviewHost()}:${hostPort}`
+  }
+
+  async stop(): Promise<void> {
+    this.killRunningCommands()
+    await execFileAsync('docker', ['rm', '-f', this.sandboxId])
+  }
+
+  static async readPorts(sandboxId: string): Promise<Map<number, number>> {
+    const ports = new Map<number, number>()
+    const { stdout } = await execFileAsync('docker', ['port', sandboxId])
+
+    // Lines look like: "3000/tcp -> 127.0.0.1:49153"
+    for (const line of stdout.split('\n')) {
+      const match = line.match(/^(\d+)\/tcp -> .*:(\d+)$/)
+      if (match) {
+        ports.set(parseInt(match[1], 10), parseInt(match[2], 10))
+      }
+    }
+    return ports
+  }
+}
+
+/**
+ * Sandbox backed by plain child processes in a temporary directory.
+ * Paths under /vercel/sandbox are rewritten to the sandbox directory, and
+ * dev servers bind directly to host ports, so concurrent sandboxes share ports.
+ */
+class ProcessSandbox extends LocalSandbox {
+  private readonly rootDir: string
+  private readonly homeDir: string
+
+  constructor(
+    sandboxId: string,
+    private readonly sandboxDir: string,
+  ) {
+    super(sandboxId)
+    this.rootDir = path.join(sandboxDir, 'root')
+    this.homeDir = path.join(sandboxDir, 'home')
+  }
+
+  private translatePath(value: string): string {
+    return value.split(SANDBOX_ROOT).join(this.rootDir)
+  }
+
+  protected spawnCommand(params: SandboxRunCommandParams): ChildProcess {
+    // Do not inherit the server environment: it holds app secrets the agent must not see
+    const env: Record<string, string> = {
+      PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin',
+      HOME: this.homeDir,
+      LANG: process.env.LANG || 'C.UTF-8',
+      TERM: 'xterm',
+      ...params.env,
+    }
+
+    return spawn(
+      this.translatePath(params.cmd),
+      (params.args || []).map((arg) => this.translatePath(arg)),
+      {
+        cwd: params.cwd ? this.translatePath(params.cwd) : this.rootDir,
+        env: env as NodeJS.ProcessEnv,
+        detached: true,
+        stdio: ['ignore', 'pipe', 'pipe'],
+      },
+    )
+  }
+
+  domain(port: number): string {
+    return `http://${getPreviewHost()}:${port}`
+  }
+
+  async stop(): Promise<void> {
+    this.killRunningCommands()
+    await fs.rm(this.sandboxDir, { recursive: true, force: true })
+  }
+}
+
+interface ProcessSandboxMetadata {
+  expiresAt: number
+}
+
+/**
+ * Local sandbox provider for self-hosted deployments and CI.
+ *
+ * SANDBOX_LOCAL_RUNTIME selects the isolation level:
+ * - `docker` (default): one container per sandbox, image from SANDBOX_LOCAL_IMAGE
+ * - `process`: child processes in a temp directory (no isolation, trusted environments only)
+ */
+export class LocalSandboxProvider implements SandboxProvider {
+  readonly name = 'local' as const
+
+  validateEnvironment(): string[] {
+    const runtime = process.env.SANDBOX_LOCAL_RUNTIME
+    if (runtime && runtime !== 'docker' && runtime !== 'process') {
+      return ['SANDBOX_LOCAL_RUNTIME must be either "docker" or "process"']
+    }
+    return []
+  }
+
+  async create(options: CreateSandboxOptions): Promise<SandboxInstance> {
+    const sandboxId = `${SANDBOX_ID_PREFIX}${generateId()}`
+    const sandbox =
+      getRuntime() === 'docker'
+        ? await this.createDocker(sandboxId, options)
+        : await this.createProcess(sandboxId, options)
+
+    if (options.source) {
+      // Run from / since the process runtime only creates the sandbox root during the clone
+      const clone = await sandbox.runCommand({
+        cmd: 'git',
+        args: buildCloneArgs(options.source, SANDBOX_ROOT),
+        cwd: '/',
+      })
+      if (clone.exitCode !== 0) {
+        await sandbox.stop()
+        throw new Error(`Failed to clone source into sandbox: ${(await clone.stderr()).trim()}`)
+      }
+    }
+
+    return sandbox
+  }
+
+  async get(sandboxId: string): Promise<SandboxInstance> {
+    if (!SANDBOX_ID_PATTERN.test(sandboxId)) {
+      throw new SandboxGoneError(sandboxId)
+    }
+    return getRuntime() === 'docker' ? await this.getDocker(sandboxId) : await this.getProcess(sandboxId)
+  }
+
+  private async createDocker(sandboxId: string, options: CreateSandboxOptions): Promise<SandboxInstance> {
+    const image = process.env.SANDBOX_LOCAL_IMAGE || 'node:22'
+    const runArgs = ['run', '-d', '--init', '--name', sandboxId, '--label', 'aa-coding-agent.sandbox=true']
+    runArgs.push('-w', SANDBOX_ROOT)
+    for (const port of options.ports) {
+      // Let Docker pick a free host port so concurrent sandboxes don't collide
+      runArgs.push('-p', `127.0.0.1::${port}`)
+    }
+    if (options.resources?.vcpus) {
+      runArgs.push('--cpus', String(options.resources.vcpus))
+    }
+    // The container lives exactly as long as the requested timeout
+    runArgs.push(image, 'sleep', String(Math.ceil(options.timeout / 1000)))
+
+    await execFileAsync('docker', runArgs)
+    return new DockerSandbox(sandboxId, await DockerSandbox.readPorts(sandboxId))
+  }
+
+  private async getDocker(sandboxId: string): Promise<SandboxInstance> {
+    try {
+      const { stdout } = await execFileAsync('docker', ['inspect', '-f', '{{.State.Running}}', sandboxId])
+      if (stdout.trim() !== 'true') {
+        throw new SandboxGoneError(sandboxId)
+      }
+      return new DockerSandbox(sandboxId, await DockerSandbox.readPorts(sandboxId))
+    } catch {
+      throw new SandboxGoneError(sandboxId)
+    }
+  }
+
+  private async createProcess(sandboxId: string, options: CreateSandboxOptions): Promise<SandboxInstance> {
+    const sandboxDir = path.join(getProcessBaseDir(), sandboxId)
+    await fs.mkdir(path.join(sandboxDir, 'home'), { recursive: true })
+    // Source clones need an empty target directory, so the root is only created when there is no source
+    if (!options.source) {
+      await fs.mkdir(path.join(sandboxDir, 'root'), { recursive: true })
+    }
+
+    const metadata: ProcessSandboxMetadata = { expiresAt: Date.now() + options.timeout }
+    await fs.writeFile(path.join(sandboxDir, 'sandbox.json'), JSON.stringify(metadata))
+
+    const sandbox = new ProcessSandbox(sandboxId, sandboxDir)
+
+    // Best-effort expiry for this server process; get() also enforces expiresAt across restarts
+    setTimeout(() => {
+      sandbox.stop().catch(() => {})
+    }, options.timeout).unref()
+
+    return sandbox
+  }
+
+  private async getProcess(sandboxId: string): Promise<SandboxInstance> {
+    const sandboxDir = path.join(getProcessBaseDir(), sandboxId)
+    let metadata: ProcessSandboxMetadata
+    try {
+      metadata = JSON.parse(await fs.readFile(path.join(sandboxDir, 'sandbox.json'), 'utf8'))
+    } catch {
+      throw new SandboxGoneError(sandboxId)
+    }
+
+    const sandbox = new ProcessSandbox(sandboxId, sandboxDir)
+    if (Date.now() > metadata.expiresAt) {
+      await sandbox.stop()
+      throw new SandboxGoneError(sandboxId)
+    }
+    return sandbox
+  }
+}
@@ -0,0 +1,84 @@
+import type { Writable } from 'stream'
+
+/**
+ * Parameters accepted by SandboxInstance.runCommand (object form).
+ * Mirrors the @vercel/sandbox API so existing call sites work unchanged.
+ */
+export interface SandboxRunCommandParams {
+  cmd: string
+  args?: string[]
+  cwd?: string
+  env?: Record<string, string>
+  sudo?: boolean
+  detached?: boolean
+  stdout?: Writable
+  stderr?: Writable
+}
+
+/**
+ * A command started in a sandbox. Detached commands resolve before the
+ * process exits, so exitCode is null until wait() resolves.
+ */
+export interface SandboxCommand {
+  exitCode: number | null
+  wait(): Promise<SandboxCommandFinished>
+  stdout(): Promise<string>
+  stderr(): Promise<string>
+  kill(): Promise<void>
+}
+
+export interface SandboxCommandFinished extends SandboxCommand {
+  exitCode: number
+}
+
+/**
+ * Provider-neutral handle to a running sandbox.
+ * The Vercel Sandbox class satisfies this interface structurally.
+ */
+export interface SandboxInstance {
+  readonly sandboxId: string
+  runCommand(command: string, args?: string[]): Promise<SandboxCommandFinished>
+  runCommand(params: SandboxRunCommandParams & { detached: true }): Promise<SandboxCommand>
+  runCommand(params: SandboxRunCommandParams): Promise<SandboxCommandFinished>
+  domain(port: number): string
+  stop(): Promise<void>
+}
+
+export interface CreateSandboxOptions {
+  /** Sandbox lifetime in milliseconds */
+  timeout: number
+  ports: number[]
+  runtime?: string
+  resources?: {
+    vcpus?: number
+  }
+  /** Optional git source cloned into the sandbox working directory on creation */
+  source?: {
+    type: 'git'
+    url: string
+    revision?: string
+    depth?: number
+  }
+}
+
+export type SandboxProviderName = 'vercel' | 'local'
+
+export interface SandboxProvider {
+  readonly name: SandboxProviderName
+  /** Returns a list of configuration errors (empty when the provider is ready to use) */
+  validateEnvironment(): string[]
+  create(options: CreateSandboxOptions): Promise<SandboxInstance>
+  /** Reconnect to an existing sandbox. Throws SandboxGoneError if it no longer exists. */
+  get(sandboxId: string): Promise<SandboxInstance>
+}
+
+/**
+ * Thrown when a sandbox has expired or been removed.
+ * The message includes "410 Gone" so existing expiry checks keep matching.
+ */
+export class SandboxGoneError extends Error {
+  constructor(sandboxId: string) {
+    super(`Sandbox ${sandboxId} is no longer available (410 Gone)`)
+    this.name = 'SandboxGoneError'
+  }
+}
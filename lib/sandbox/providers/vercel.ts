@@ -0,0 +1,54 @@
+import { Sandbox } from '@vercel/sandbox'
+import { CreateSandboxOptions, SandboxInstance, SandboxProvider } from './types'
+
+/**
+ * Vercel Sandbox provider (default).
+ * Requires SANDBOX_VERCEL_TEAM_ID, SANDBOX_VERCEL_PROJECT_ID and SANDBOX_VERCEL_TOKEN.
+ */
+export class VercelSandboxProvider implements SandboxProvider {
+  readonly name = 'vercel' as const
+
+  validateEnvironment(): string[] {
+    const errors: string[] = []
+
+    if (!process.env.SANDBOX_VERCEL_TEAM_ID) {
+      errors.push('SANDBOX_VERCEL_TEAM_ID is required for sandbox creation')
+    }
+
+    if (!process.env.SANDBOX_VERCEL_PROJECT_ID) {
+      errors.push('SANDBOX_VERCEL_PROJECT_ID is required for sandbox creation')
+    }
+
+    if (!process.env.SANDBOX_VERCEL_TOKEN) {
+      errors.push('SANDBOX_VERCEL_TOKEN is required for sandbox creation')
+    }
+
+    return errors
+  }
+
+  async create(options: CreateSandboxOptions): Promise<SandboxInstance> {
+    return await Sandbox.create({
+      ...this.credentials(),
+      source: options.source,
+      timeout: options.timeout,
+      ports: options.ports,
+      runtime: options.runtime || 'node22',
+      resources: { vcpus: options.resources?.vcpus || 4 },
+    })
+  }
+
+  async get(sandboxId: string): Promise<SandboxInstance> {
+    return await Sandbox.get({
+      ...this.credentials(),
+      sandboxId,
+    })
+  }
+
+  private credentials() {
+    return {
+      teamId: process.env.SANDBOX_VERCEL_TEAM_ID!,
+      projectId: process.env.SANDBOX_VERCEL_PROJECT_ID!,
+      token: process.env.SANDBOX_VERCEL_TOKEN!,
+    }
+  }
+}
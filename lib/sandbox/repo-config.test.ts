@@ -0,0 +1,191 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { TaskLogger } from '@/lib/utils/task-logger'
+
+// Read by lib/constants when the module loads, so repo-config is imported after this is set
+process.env.SANDBOX_ENV_ALLOWLIST = 'SENTRY_DSN,OPENAI_API_KEY'
+process.env.SENTRY_DSN = 'https://public@sentry.example.com/1'
+process.env.DATABASE_URL = 'postgres://server-secret'
+process.env.OPENAI_API_KEY = 'sk-server-openai-key'
+process.env.ANTHROPIC_API_KEY = 'sk-ant-server-key'
+
+const loadRepoConfigModule = () => import('./repo-config')
+
+function createLogger() {
+  const messages: string[] = []
+  const logger = new Proxy(
+    {},
+    {
+      get: () => async (message: string) => {
+        messages.push(message)
+      },
+    },
+  ) as TaskLogger
+  return { logger, messages }
+}
+
+test('a full configuration is parsed', async () => {
+  const { parseRepoConfig } = await loadRepoConfigModule()
+  const { config, errors } = parseRepoConfig(`
+setup:
+  - pnpm install
+  - pnpm db:generate
+dev:
+  command: pnpm dev
+  port: 4000
+env:
+  - OPENAI_API_KEY
+agent: claude
+model: claude-sonnet-4-5-20250929
+typecheck: pnpm type-check
+lint: pnpm lint
+test: pnpm test
+protected:
+  - .github/workflows/**
+  - pnpm-lock.yaml
+`)
+
+  assert.deepEqual(errors, [])
+  assert.deepEqual(config, {
+    setup: ['pnpm install', 'pnpm db:generate'],
+    dev: { command: 'pnpm dev', port: 4000 },
+    env: ['OPENAI_API_KEY'],
+    agent: 'claude',
+    model: 'claude-sonnet-4-5-20250929',
+    typecheck: 'pnpm type-check',
+    lint: 'pnpm lint',
+    test: 'pnpm test',
+    protected: ['.github/workflows/**', 'pnpm-lock.yaml'],
+  })
+})
+
+test('an empty file is an empty configuration', async () => {
+  const { parseRepoConfig } = await loadRepoConfigModule()
+
+  assert.deepEqual(parseRepoConfig(''), { config: {}, errors: [] })
+  assert.deepEqual(parseRepoConfig('# comments only\n'), { config: {}, errors: [] })
+})
+
+test('invalid YAML reports only the first line of the parser error', async () => {
+  const { parseRepoConfig } = await loadRepoConfigModule()
+  const { config, errors } = parseRepoConfig('setup:\n  - pnpm install\n bad: [indent')
+
+  assert.equal(config, null)
+  assert.equal(errors.length, 1)
+  assert.ok(!errors[0].includes('\n'))
+})
+
+test('validation errors name the offending field', async () => {
+  const { parseRepoConfig } = await loadRepoConfigModule()
+  const cases: [string, RegExp][] = [
+    ['unknown: true', /^root: Unrecognized key/],
+    ['dev:\n  port: 70000', /^dev\.port: /],
+    ['dev:\n  command: pnpm dev\n  host: 0.0.0.0', /^dev: Unrecognized key/],
+    ['env:\n  - MY-VAR', /^env\.0: Must be a valid environment variable name/],
+    ['agent: copilot-x', /^agent: /],
+    ['setup:\n  - ""', /^setup\.0: Setup commands cannot be empty/],
+    ['typecheck: ""', /^typecheck: Typecheck command cannot be empty/],
+    ['protected: .github', /^protected: /],
+    ['- pnpm install', /^root: /],
+  ]
+
+  for (const [content, expected] of cases) {
+    const { config, errors } = parseRepoConfig(content)
+    assert.equal(config, null, content)
+    assert.match(errors[0], expected, content)
+  }
+})
+
+test('invalid files fall back to automatic detection and log the errors', async () => {
+  const { loadRepoConfig } = await loadRepoConfigModule()
+  const { logger, messages } = createLogger()
+  const files: Record<string, string> = { '.aa-agent.yaml': 'dev:\n  port: 0' }
+  // Answers `test -f <file>` and `cat <file>` run in the project directory
+  const sandbox = {
+    runCommand: async (_cmd: string, args: string[] = []) => {
+      const filename = args[1].match(/'([^']+)'$/)?.[1] ?? ''
+      const content = files[filename]
+      return {
+        exitCode: content === undefined ? 1 : 0,
+        stdout: async () => (args[1].includes('&& cat ') ? content : ''),
+        stderr: async () => '',
+      }
+    },
+  } as unknown as Parameters<typeof loadRepoConfig>[0]
+
+  assert.equal(await loadRepoConfig(sandbox, logger), null)
+  assert.deepEqual(messages, [
+    'Invalid .aa-agent.yaml, using automatic project detection',
+    '.aa-agent.yaml: dev.port: Too small: expected number to be >=1',
+  ])
+
+  files['.aa-agent.yml'] = 'lint: pnpm lint'
+  assert.deepEqual(await loadRepoConfig(sandbox, logger), { lint: 'pnpm lint' })
+})
+
+test("the user's own keys are injected without the allowlist", async () => {
+  const { resolveRepoConfigEnv } = await loadRepoConfigModule()
+  const { logger } = createLogger()
+
+  const env = await resolveRepoConfigEnv(
+    ['ANTHROPIC_API_KEY'],
+    { ANTHROPIC_API_KEY: 'sk-ant-user-key' },
+    ['ANTHROPIC_API_KEY'],
+    logger,
+  )
+
+  assert.deepEqual(env, { ANTHROPIC_API_KEY: 'sk-ant-user-key' })
+})
+
+test("a user's key is injected even when it equals the server's value", async () => {
+  const { resolveRepoConfigEnv } = await loadRepoConfigModule()
+  const { logger } = createLogger()
+
+  const env = await resolveRepoConfigEnv(
+    ['ANTHROPIC_API_KEY'],
+    { ANTHROPIC_API_KEY: 'sk-ant-server-key' },
+    ['ANTHROPIC_API_KEY'],
+    logger,
+  )
+
+  assert.deepEqual(env, { ANTHROPIC_API_KEY: 'sk-ant-server-key' })
+})
+
+test("the server's fallback keys need the allowlist", async () => {
+  const { resolveRepoConfigEnv } = await loadRepoConfigModule()
+  const { logger, messages } = createLogger()
+  const fallbackKeys = { ANTHROPIC_API_KEY: 'sk-ant-server-key', OPENAI_API_KEY: 'sk-server-openai-key' }
+
+  const env = await resolveRepoConfigEnv(['ANTHROPIC_API_KEY', 'OPENAI_API_KEY'], fallbackKeys, [], logger)
+
+  assert.deepEqual(env, { OPENAI_API_KEY: 'sk-server-openai-key' })
+  assert.deepEqual(messages, ['Environment variables not available for injection: ANTHROPIC_API_KEY'])
+})
+
+test('other server variables are only injected when allowlisted', async () => {
+  const { resolveRepoConfigEnv } = await loadRepoConfigModule()
+  const { logger, messages } = createLogger()
+
+  const env = await resolveRepoConfigEnv(['SENTRY_DSN', 'DATABASE_URL', 'NOT_SET'], undefined, undefined, logger)
+
+  assert.deepEqual(env, { SENTRY_DSN: 'https://public@sentry.example.com/1' })
+  assert.deepEqual(messages, ['Environment variables not available for injection: DATABASE_URL, NOT_SET'])
+})
+
+test('protected paths follow .gitignore matching', async () => {
+  const { isProtectedPath } = await loadRepoConfigModule()
+  const patterns = ['.github/workflows/**', 'pnpm-lock.yaml', 'secrets', '/docs/*.md']
+
+  for (const path of [
+    '.github/workflows/ci.yml',
+    'pnpm-lock.yaml',
+    'packages/a/pnpm-lock.yaml',
+    'config/secrets/key.txt',
+    'docs/intro.md',
+  ]) {
+    assert.equal(isProtectedPath(path, patterns), true, path)
+  }
+  for (const path of ['.github/CODEOWNERS', 'package.json', 'docs/guide/intro.md', 'src/docs/intro.md']) {
+    assert.equal(isProtectedPath(path, patterns), false, path)
+  }
+})
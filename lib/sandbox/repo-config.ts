@@ -0,0 +1,256 @@
+/**
+ * Repository Agent Configuration
+ *
+ * Repositories can commit an `.aa-agent.yml` file to replace the sandbox setup
+ * heuristics (package manager detection, Vite/Next.js port guessing) with
+ * explicit settings:
+ *
+ *   setup:                 # Commands run instead of automatic dependency installation
+ *     - pnpm install
+ *     - pnpm db:generate
+ *   dev:
+ *     command: pnpm dev    # Development server started in the background
+ *     port: 4000
+ *   env:                   # Variables to inject into setup, dev and verification commands
+ *     - OPENAI_API_KEY
+ *   agent: claude          # Used when the task does not select a model
+ *   model: claude-sonnet-4-5-20250929
+ *   typecheck: pnpm type-check  # Verification commands run after the agent
+ *   lint: pnpm lint
+ *   test: pnpm test
+ *   protected:             # Paths the agent must not modify (globs)
+ *     - .github/workflows/**
+ *     - pnpm-lock.yaml
+ */
+
+import { parse as parseYaml } from 'yaml'
+import { z } from 'zod'
+import type { SandboxInstance } from './providers'
+import { runInProject, runShellInProject } from './commands'
+import { TaskLogger } from '@/lib/utils/task-logger'
+import { SANDBOX_ENV_ALLOWLIST } from '@/lib/constants'
+
+export const REPO_CONFIG_FILENAMES = ['.aa-agent.yml', '.aa-agent.yaml']
+
+const envVarNameSchema = z
+  .string()
+  .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Must be a valid environment variable name (letters, digits and underscores)')
+
+export const repoConfigSchema = z
+  .object({
+    setup: z.array(z.string().min(1, 'Setup commands cannot be empty')).optional(),
+    dev: z
+      .object({
+        command: z.string().min(1, 'Dev command cannot be empty').optional(),
+        port: z.number().int().min(1).max(65535).optional(),
+      })
+      .strict()
+      .optional(),
+    env: z.array(envVarNameSchema).optional(),
+    agent: z.enum(['claude', 'codex', 'copilot', 'cursor', 'gemini', 'opencode']).optional(),
+    model: z.string().min(1).optional(),
+    typecheck: z.string().min(1, 'Typecheck command cannot be empty').optional(),
+    lint: z.string().min(1, 'Lint command cannot be empty').optional(),
+    test: z.string().min(1, 'Test command cannot be empty').optional(),
+    protected: z.array(z.string().min(1, 'Protected paths cannot be empty')).optional(),
+  })
+  .strict()
+
+export type RepoConfig = z.infer<typeof repoConfigSchema>
+
+export interface RepoConfigParseResult {
+  config: RepoConfig | null
+  errors: string[]
+}
+
+/**
+ * Parse and validate the contents of an .aa-agent.yml file
+ */
+export function parseRepoConfig(content: string): RepoConfigParseResult {
+  let raw: unknown
+  try {
+    raw = parseYaml(content)
+  } catch (error) {
+    // YAML errors include a multi-line code excerpt; the first line has the position
+    return { config: null, errors: [error instanceof Error ? error.message.split('\n')[0] : 'Invalid YAML'] }
+  }
+
+  // An empty file is a valid (empty) configuration
+  if (raw === null || raw === undefined) {
+    return { config: {}, errors: [] }
+  }
+
+  const result = repoConfigSchema.safeParse(raw)
+  if (!result.success) {
+    return {
+      config: null,
+      errors: result.error.issues.map((issue) => `${issue.path.join('.') || 'root'}: ${issue.message}`),
+    }
+  }
+
+  return { config: result.data, errors: [] }
+}
+
+/**
+ * Read the repository config from the cloned project.
+ * Returns null when there is no config file or it is invalid; validation
+ * errors are written to the task logs and the sandbox falls back to detection.
+ */
+export async function loadRepoConfig(sandbox: SandboxInstance, logger: TaskLogger): Promise<RepoConfig | null> {
+  for (const filename of REPO_CONFIG_FILENAMES) {
+    const fileCheck = await runInProject(sandbox, 'test', ['-f', filename])
+    if (!fileCheck.success) continue
+
+    const fileRead = await runInProject(sandbox, 'cat', [filename])
+    if (!fileRead.success) {
+      await logger.error(`Failed to read ${filename}, using automatic project detection`)
+      return null
+    }
+
+    const { config, errors } = parseRepoConfig(fileRead.output || '')
+    if (!config) {
+      await logger.error(`Invalid ${filename}, using automatic project detection`)
+      for (const error of errors) {
+        await logger.error(`${filename}: ${error}`)
+      }
+      return null
+    }
+
+    await logger.info(`Loaded repository configuration from ${filename}`)
+    return config
+  }
+
+  return null
+}
+
+/**
+ * Resolve the environment variables requested by the repository config.
+ *
+ * Values come from API keys the user stored themselves first, then from the
+ * server environment for names the operator has allowed via
+ * SANDBOX_ENV_ALLOWLIST. The task's API keys fall back to the server's own
+ * keys, so only the keys listed in userApiKeyNames are used without the
+ * allowlist. Repositories can't otherwise read server secrets by naming them.
+ *
+ * @param userApiKeyNames - Names of the apiKeys entries the user stored (see getUserApiKeysWithSource)
+ */
+export async function resolveRepoConfigEnv(
+  names: string[],
+  apiKeys: Record<string, string | undefined> | undefined,
+  userApiKeyNames: string[] | undefined,
+  logger: TaskLogger,
+): Promise<Record<string, string>> {
+  const env: Record<string, string> = {}
+  const missing: string[] = []
+
+  for (const name of names) {
+    const userValue = userApiKeyNames?.includes(name) ? apiKeys?.[name] : undefined
+    const value = userValue || (SANDBOX_ENV_ALLOWLIST.includes(name) ? process.env[name] : undefined)
+    if (value) {
+      env[name] = value
+    } else {
+      missing.push(name)
+    }
+  }
+
+  if (missing.length > 0) {
+    await logger.info(`Environment variables not available for injection: ${missing.join(', ')}`)
+  }
+
+  return env
+}
+
+/**
+ * Run the configured setup commands in order, stopping at the first failure.
+ * Returns false if a command failed.
+ */
+export async function runRepoSetupCommands(
+  sandbox: SandboxInstance,
+  commands: string[],
+  env: Record<string, string>,
+  logger: TaskLogger,
+): Promise<boolean> {
+  for (const command of commands) {
+    await logger.command(command)
+    const result = await runShellInProject(sandbox, command, env)
+
+    if (!result.success) {
+      await logger.error(`Setup command failed with exit code ${result.exitCode ?? 'unknown'}`)
+      return false
+    }
+  }
+
+  await logger.info('Repository setup commands completed')
+  return true
+}
+
+/**
+ * Start the configured development server in the background
+ */
+export async function startRepoDevServer(
+  sandbox: SandboxInstance,
+  command: string,
+  env: Record<string, string>,
+  logger: TaskLogger,
+): Promise<void> {
+  await logger.info('Starting development server from repository configuration')
+  await runShellInProject(sandbox, command, env, { detached: true })
+  await logger.info('Development server started')
+}
+
+/**
+ * Convert a protected-path glob to a regular expression.
+ * Supports `*` (within a path segment), `?` and `**` (across segments).
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?'
+        i += 2
+      } else {
+        source += '.*'
+        i++
+      }
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Check whether a repository-relative path is covered by a protected pattern.
+ *
+ * Patterns follow .gitignore conventions: a pattern without a slash matches a
+ * file or directory name at any depth, otherwise it is matched from the
+ * repository root. Matching a directory protects everything inside it.
+ */
+export function isProtectedPath(path: string, patterns: string[]): boolean {
+  const segments = path.split('/')
+
+  return patterns.some((rawPattern) => {
+    const pattern = rawPattern.replace(/^\.?\//, '').replace(/\/$/, '')
+    if (!pattern) return false
+
+    const regex = globToRegExp(pattern)
+    const candidates = pattern.includes('/')
+      ? segments.map((_, index) => segments.slice(0, index + 1).join('/'))
+      : segments
+
+    return candidates.some((candidate) => regex.test(candidate))
+  })
+}
+
+/**
+ * Instruction appended to the agent prompt listing the protected paths
+ */
+export function formatProtectedPathsInstruction(patterns: string[]): string {
+  return `\n\nDo not create, modify or delete files matching these paths: ${patterns.join(', ')}. Changes to them will be discarded.`
+}
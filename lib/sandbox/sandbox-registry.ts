@@ -1,17 +1,17 @@
-import { Sandbox } from '@vercel/sandbox'
 import { db } from '@/lib/db/client'
 import { tasks } from '@/lib/db/schema'
 import { eq } from 'drizzle-orm'
+import { getSandboxProvider, SandboxInstance } from './providers'
 
 /**
- * Simplified sandbox registry since we now use Sandbox.get() to reconnect
+ * Simplified sandbox registry since we now use the sandbox provider's get() to reconnect
  * This registry is only used for immediate operations within the same serverless execution
  */
 
 // Temporary in-memory tracking for current execution only
-const activeSandboxes = new Map<string, Sandbox>()
+const activeSandboxes = new Map<string, SandboxInstance>()
 
-export function registerSandbox(taskId: string, sandbox: Sandbox, _keepAlive: boolean = false): void {
+export function registerSandbox(taskId: string, sandbox: SandboxInstance, _keepAlive: boolean = false): void {
   // Note: keepAlive parameter kept for backward compatibility but not used
   // Real persistence happens via sandboxId in database
   activeSandboxes.set(taskId, sandbox)
@@ -21,10 +21,27 @@ export function unregisterSandbox(taskId: string): void {
   activeSandboxes.delete(taskId)
 }
 
-export function getSandbox(taskId: string): Sandbox | undefined {
+export function getSandbox(taskId: string): SandboxInstance | undefined {
   return activeSandboxes.get(taskId)
 }
 
+/**
+ * Sandbox of a task: the one started in this execution, or a reconnection to its sandboxId
+ * Returns null when the sandbox provider isn't configured
+ */
+export async function connectTaskSandbox(taskId: string, sandboxId: string): Promise<SandboxInstance | null> {
+  const sandbox = activeSandboxes.get(taskId)
+  if (sandbox) {
+    return sandbox
+  }
+
+  const provider = getSandboxProvider()
+  if (provider.validateEnvironment().length > 0) {
+    return null
+  }
+  return provider.get(sandboxId)
+}
+
 export async function killSandbox(taskId: string): Promise<{ success: boolean; error?: string }> {
   const sandbox = activeSandboxes.get(taskId)
 
@@ -80,12 +97,7 @@ export async function stopSandboxFromDB(taskId: string): Promise<{ success: bool
     }
 
     // 2. Try to reconnect and stop the sandbox
-    const sandbox = await Sandbox.get({
-      sandboxId: task.sandboxId,
-      teamId: process.env.SANDBOX_VERCEL_TEAM_ID!,
-      projectId: process.env.SANDBOX_VERCEL_PROJECT_ID!,
-      token: process.env.SANDBOX_VERCEL_TOKEN!,
-    })
+    const sandbox = await getSandboxProvider().get(task.sandboxId)
 
     // 3. Stop the sandbox
     await sandbox.stop()
@@ -108,7 +120,7 @@ export async function stopSandboxFromDB(taskId: string): Promise<{ success: bool
  * Check if a sandbox is healthy by running a lightweight command
  * Returns true if sandbox responds, false if expired (410) or unreachable
  */
-export async function isSandboxHealthy(sandbox: Sandbox): Promise<boolean> {
+export async function isSandboxHealthy(sandbox: SandboxInstance): Promise<boolean> {
   try {
     // Run a simple command to verify sandbox is responsive
     const result = await sandbox.runCommand({
@@ -0,0 +1,143 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { SandboxInstance } from './providers'
+import { formatSecretScanFinding, isSecretFile, scanDiffForSecrets, scanStagedChanges } from './secret-scan'
+
+// Token-shaped values are assembled at run time so this file doesn't look like it holds secrets
+const TOKEN_SAMPLES: { name: string; value: string }[] = [
+  { name: 'Private key', value: ['-----BEGIN RSA', 'PRIVATE KEY-----'].join(' ') },
+  { name: 'GitHub token', value: 'ghp_' + 'A1b2'.repeat(9) },
+  { name: 'GitHub token', value: 'github_pat_' + 'x'.repeat(60) },
+  { name: 'Anthropic API key', value: 'sk-ant-' + 'api03-'.repeat(5) },
+  { name: 'OpenAI API key', value: 'sk-proj-' + 'Ab9'.repeat(15) },
+  { name: 'Vercel AI Gateway key', value: 'vck_' + 'Zz'.repeat(12) },
+  { name: 'AWS access key', value: 'AKIA' + 'ABCDEFGH23456789' },
+  { name: 'Google API key', value: 'AIza' + 'S'.repeat(35) },
+  { name: 'Slack token', value: 'xoxb-' + '1234567890-abc' },
+  { name: 'Stripe secret key', value: 'sk_live_' + 'q'.repeat(24) },
+]
+
+function diffAdding(path: string, lines: string[], startLine = 1): string {
+  return [
+    `diff --git a/${path} b/${path}`,
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    `@@ -0,0 +${startLine},${lines.length} @@`,
+    ...lines.map((line) => `+${line}`),
+  ].join('\n')
+}
+
+test('known token formats in added lines are reported without the value', () => {
+  for (const { name, value } of TOKEN_SAMPLES) {
+    const findings = scanDiffForSecrets(diffAdding('src/config.ts', [`const token = "${value}"`]))
+    assert.deepEqual(findings, [{ path: 'src/config.ts', kind: 'content', reason: name, line: 1 }], name)
+    assert.ok(!formatSecretScanFinding(findings[0]).includes(value))
+  }
+})
+
+test('ordinary code and near-miss token shapes are not reported', () => {
+  const lines = [
+    'const apiKey = process.env.OPENAI_API_KEY',
+    'const prefix = "ghp_"',
+    'const short = "sk-ant-abc"',
+    'const aws = "AKIA1234"',
+    'const hash = "3f786850e387550fdab836ed7e6dc881de23001b"',
+    'const skTest = "sk_test_' + 'q'.repeat(24) + '"',
+  ]
+
+  assert.deepEqual(scanDiffForSecrets(diffAdding('src/config.ts', lines)), [])
+})
+
+test('only added lines are scanned and line numbers follow the hunk header', () => {
+  const token = TOKEN_SAMPLES[1].value
+  const diff = [
+    'diff --git a/src/a.ts b/src/a.ts',
+    '--- a/src/a.ts',
+    '+++ b/src/a.ts',
+    '@@ -10,1 +10,0 @@',
+    `-const removed = "${token}"`,
+    '@@ -20,0 +21,2 @@',
+    '+const safe = true',
+    `+const added = "${token}"`,
+  ].join('\n')
+
+  assert.deepEqual(scanDiffForSecrets(diff), [{ path: 'src/a.ts', kind: 'content', reason: 'GitHub token', line: 22 }])
+})
+
+test('secret values used by the task are reported in any added line', () => {
+  const registered = 'internal-service-password-123'
+  const diff = [
+    diffAdding('README.md', [`Connect with ${registered}`], 5),
+    diffAdding('scripts/deploy.sh', ['echo deploying']),
+  ].join('\n')
+
+  assert.deepEqual(scanDiffForSecrets(diff, [registered]), [
+    { path: 'README.md', kind: 'content', reason: 'Secret value used by this task', line: 5 },
+  ])
+  assert.equal(
+    formatSecretScanFinding(scanDiffForSecrets(diff, [registered])[0]),
+    'README.md:5 (Secret value used by this task)',
+  )
+})
+
+test('short or empty registered values are ignored', () => {
+  const diff = diffAdding('src/a.ts', ['const mode = "production"', 'const flag = ""'])
+
+  assert.deepEqual(scanDiffForSecrets(diff, ['production', '']), [])
+})
+
+test('deleted files are not scanned', () => {
+  const diff = ['diff --git a/old.ts b/old.ts', '--- a/old.ts', '+++ /dev/null', '@@ -1 +0,0 @@', '+ignored'].join('\n')
+
+  assert.deepEqual(scanDiffForSecrets(diff, ['ignored-value-xyz']), [])
+})
+
+test('files that hold secrets by convention are detected', () => {
+  for (const path of [
+    '.env',
+    '.env.local',
+    'config/.env.production',
+    'id_rsa',
+    'keys/id_ed25519',
+    'cert.pem',
+    'tls.key',
+  ]) {
+    assert.equal(isSecretFile(path), true, path)
+  }
+  for (const path of [
+    '.env.example',
+    'config/.env.sample',
+    '.env.template',
+    '.env.defaults',
+    'env.ts',
+    'keyboard.ts',
+  ]) {
+    assert.equal(isSecretFile(path), false, path)
+  }
+})
+
+test('staged secret files are unstaged and reported before the content scan', async () => {
+  const token = TOKEN_SAMPLES[1].value
+  const commands: string[] = []
+  const sandbox = {
+    runCommand: async (_cmd: string, args: string[] = []) => {
+      const commandLine = args.join(' ')
+      commands.push(commandLine)
+      const stdout = commandLine.includes('--name-only')
+        ? '.env\nsrc/a.ts\n.env.example\n'
+        : commandLine.includes('-U0')
+          ? diffAdding('src/a.ts', [`const token = "${token}"`])
+          : ''
+      return { exitCode: 0, stdout: async () => stdout, stderr: async () => '' }
+    },
+  } as unknown as SandboxInstance
+
+  const findings = await scanStagedChanges(sandbox)
+
+  assert.deepEqual(findings, [
+    { path: '.env', kind: 'file', reason: 'File usually holds secrets' },
+    { path: 'src/a.ts', kind: 'content', reason: 'GitHub token', line: 1 },
+  ])
+  assert.equal(commands.filter((command) => command.includes("'reset'")).length, 1)
+  assert.ok(commands.some((command) => command.includes("'reset' '-q' 'HEAD' '--' '.env'")))
+})
@@ -0,0 +1,126 @@
+import type { SandboxInstance } from './providers'
+import { runInProject } from './commands'
+
+/**
+ * Pre-push secret scanning of the agent's staged changes.
+ *
+ * Two kinds of findings are reported:
+ * - `file`: files that hold secrets by convention (.env, private keys).
+ *   These are unstaged and the rest of the change is pushed.
+ * - `content`: added lines that match a known token format or contain one of
+ *   the secret values in use for the task (API keys, GitHub token, injected
+ *   env). These block the push.
+ *
+ * Findings never include the matched value.
+ */
+
+export interface SecretScanFinding {
+  path: string
+  kind: 'file' | 'content'
+  reason: string
+  line?: number
+}
+
+const SECRET_PATTERNS: { name: string; pattern: RegExp }[] = [
+  { name: 'Private key', pattern: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----/ },
+  { name: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{50,})\b/ },
+  { name: 'Anthropic API key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/ },
+  { name: 'OpenAI API key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{40,}/ },
+  { name: 'Vercel AI Gateway key', pattern: /\bvck_[A-Za-z0-9]{20,}/ },
+  { name: 'AWS access key', pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/ },
+  { name: 'Google API key', pattern: /\bAIza[A-Za-z0-9_-]{35}\b/ },
+  { name: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/ },
+  { name: 'Stripe secret key', pattern: /\b[rs]k_live_[A-Za-z0-9]{20,}/ },
+]
+
+// .env, .env.local, config/.env.production, ... but not .env.example and friends
+const SECRET_FILE_PATTERNS = [
+  /(^|\/)\.env(\.(?!example$|sample$|template$|defaults$)[^/]+)?$/,
+  /(^|\/)id_(rsa|dsa|ecdsa|ed25519)$/,
+  /\.(pem|key|p12|pfx)$/,
+]
+
+// Shorter values are too likely to show up by chance
+const MIN_SECRET_VALUE_LENGTH = 12
+
+export function isSecretFile(path: string): boolean {
+  return SECRET_FILE_PATTERNS.some((pattern) => pattern.test(path))
+}
+
+/**
+ * Find secrets in the lines added by a unified diff (`git diff -U0`)
+ */
+export function scanDiffForSecrets(diff: string, secretValues: string[] = []): SecretScanFinding[] {
+  const values = [...new Set(secretValues.filter((value) => value && value.length >= MIN_SECRET_VALUE_LENGTH))]
+  const findings: SecretScanFinding[] = []
+  let path: string | null = null
+  let lineNumber = 0
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      path = line === '+++ /dev/null' ? null : line.slice(4).replace(/^b\//, '')
+      continue
+    }
+
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)/)
+    if (hunk) {
+      lineNumber = parseInt(hunk[1], 10)
+      continue
+    }
+
+    if (!path || !line.startsWith('+')) continue
+
+    const added = line.slice(1)
+    const reason = values.some((value) => added.includes(value))
+      ? 'Secret value used by this task'
+      : SECRET_PATTERNS.find(({ pattern }) => pattern.test(added))?.name
+
+    if (reason) {
+      findings.push({ path, kind: 'content', reason, line: lineNumber })
+    }
+    lineNumber++
+  }
+
+  return findings
+}
+
+/**
+ * Scan the staged changes in the project directory. Files that hold secrets by
+ * convention are unstaged before the content scan.
+ */
+export async function scanStagedChanges(
+  sandbox: SandboxInstance,
+  secretValues: string[] = [],
+): Promise<SecretScanFinding[]> {
+  const findings: SecretScanFinding[] = []
+
+  const namesResult = await runInProject(sandbox, 'git', ['diff', '--cached', '--name-only', '--diff-filter=ACMR'])
+  const secretFiles = (namesResult.output || '')
+    .split('\n')
+    .map((path) => path.trim())
+    .filter((path) => path && isSecretFile(path))
+
+  for (const path of secretFiles) {
+    await runInProject(sandbox, 'git', ['reset', '-q', 'HEAD', '--', path])
+    findings.push({ path, kind: 'file', reason: 'File usually holds secrets' })
+  }
+
+  const diffResult = await runInProject(sandbox, 'git', [
+    'diff',
+    '--cached',
+    '-U0',
+    '--no-color',
+    '--no-ext-diff',
+    '--diff-filter=ACMR',
+  ])
+  if (!diffResult.success) {
+    throw new Error('Failed to read staged changes')
+  }
+
+  findings.push(...scanDiffForSecrets(diffResult.output || '', secretValues))
+  return findings
+}
+
+export function formatSecretScanFinding(finding: SecretScanFinding): string {
+  return finding.line ? `${finding.path}:${finding.line} (${finding.reason})` : `${finding.path} (${finding.reason})`
+}
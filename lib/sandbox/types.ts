@@ -1,10 +1,13 @@
-import { Sandbox } from '@vercel/sandbox'
+import type { SandboxInstance } from './providers'
+import type { RepoConfig } from './repo-config'
 import { LogEntry } from '@/lib/db/schema'
 
 export interface SandboxConfig {
   taskId: string
   repoUrl: string
   githubToken?: string | null
+  /** Username sent with githubToken to hosts other than GitHub (see GitProvider.gitUsername) */
+  gitUsername?: string
   gitAuthorName?: string
   gitAuthorEmail?: string
   apiKeys?: {
@@ -14,6 +17,8 @@ export interface SandboxConfig {
     ANTHROPIC_API_KEY?: string
     AI_GATEWAY_API_KEY?: string
   }
+  /** Names of the apiKeys the user stored; the others are the server's fallback keys */
+  userApiKeyNames?: string[]
   timeout?: string
   ports?: number[]
   runtime?: string
@@ -28,19 +33,50 @@ export interface SandboxConfig {
   preDeterminedBranchName?: string
   /** Source branch to clone from (defaults to repository default branch if not specified) */
   sourceBranch?: string
+  /** User's fork of repoUrl; when set, the task branch is fetched from and pushed to the fork */
+  forkRepoUrl?: string | null
   onProgress?: (progress: number, message: string) => Promise<void>
   onCancellationCheck?: () => Promise<boolean>
 }
 
 export interface SandboxResult {
   success: boolean
-  sandbox?: Sandbox
+  sandbox?: SandboxInstance
   domain?: string
   branchName?: string
+  /** Parsed .aa-agent.yml, or null if the repository has none (or it is invalid) */
+  repoConfig?: RepoConfig | null
+  /** Environment variables resolved from repoConfig.env for repository commands */
+  repoEnv?: Record<string, string>
   error?: string
   cancelled?: boolean
 }
 
+/**
+ * Keys and tokens for a single agent run. Runners read these instead of
+ * process.env, which is shared by every task running in the same process.
+ */
+export interface AgentCredentials {
+  OPENAI_API_KEY?: string
+  GEMINI_API_KEY?: string
+  CURSOR_API_KEY?: string
+  ANTHROPIC_API_KEY?: string
+  AI_GATEWAY_API_KEY?: string
+  GH_TOKEN?: string
+  GITHUB_TOKEN?: string
+}
+
+/** Token usage reported by an agent CLI for a single run */
+export interface AgentUsage {
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheWriteTokens: number
+  totalTokens: number
+  costUsd?: number // Only set when the CLI reports cost itself
+  model?: string
+}
+
 export interface AgentExecutionResult {
   success: boolean
   output?: string
@@ -51,4 +87,5 @@ export interface AgentExecutionResult {
   streamingLogs?: unknown[]
   logs?: LogEntry[]
   sessionId?: string // For Cursor agent session resumption
+  usage?: AgentUsage
 }
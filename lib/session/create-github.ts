@@ -6,6 +6,7 @@ import { encryptJWE } from '@/lib/jwe/encrypt'
 import { upsertUser } from '@/lib/db/users'
 import { encrypt } from '@/lib/crypto'
 import ms from 'ms'
+import { getGitHubApiUrl } from '@/lib/git-providers'
 
 interface GitHubUser {
   login: string
@@ -17,7 +18,7 @@ interface GitHubUser {
 
 export async function createGitHubSession(accessToken: string, scope?: string): Promise<Session | undefined> {
   // Fetch GitHub user info
-  const userResponse = await fetch('https://api.github.com/user', {
+  const userResponse = await fetch(`${getGitHubApiUrl()}/user`, {
     headers: {
       Authorization: `Bearer ${accessToken}`,
       Accept: 'application/vnd.github.v3+json',
@@ -35,7 +36,7 @@ export async function createGitHubSession(accessToken: string, scope?: string):
   let email = githubUser.email
   if (!email) {
     try {
-      const emailsResponse = await fetch('https://api.github.com/user/emails', {
+      const emailsResponse = await fetch(`${getGitHubApiUrl()}/user/emails`, {
         headers: {
           Authorization: `Bearer ${accessToken}`,
           Accept: 'application/vnd.github.v3+json',
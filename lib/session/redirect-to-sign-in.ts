@@ -1,7 +1,7 @@
-export async function redirectToSignIn(): Promise<void> {
+export async function redirectToSignIn(next: string = window.location.pathname): Promise<void> {
   const response = await fetch(
     `/api/auth/signin/vercel?${new URLSearchParams({
-      next: window.location.pathname,
+      next,
     }).toString()}`,
     { method: 'POST' },
   )
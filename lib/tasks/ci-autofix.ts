@@ -0,0 +1,264 @@
+/**
+ * CI Auto-Fix
+ *
+ * When a check on the branch of a task that opted in (ciAutoFix) fails, the
+ * failing jobs' logs (GitHub Actions) or check run output are sent to the
+ * agent as a follow-up turn through the continue flow. Each attempt is saved
+ * as a follow-up message and logged on the task, and attempts stop at the
+ * user's maxCiFixAttempts setting.
+ *
+ * Failures are reported by check_run events of the GitHub webhook. Only the
+ * latest commit of the branch is handled, once.
+ */
+
+import { after } from 'next/server'
+import type { Octokit } from '@octokit/rest'
+import { db } from '@/lib/db/client'
+import { tasks, taskMessages, users } from '@/lib/db/schema'
+import { and, eq, isNull, lt, notInArray, or, ne, sql } from 'drizzle-orm'
+import { getOctokit, parseGitHubUrl } from '@/lib/github/client'
+import { getRepoGitAccount } from '@/lib/git-providers/accounts'
+import { getUserApiKeysWithSource } from '@/lib/api-keys/user-keys'
+import { getMaxCiFixAttempts, getMaxSandboxDuration } from '@/lib/db/settings'
+import { checkRateLimit, checkSpendLimit } from '@/lib/utils/rate-limit'
+import { createTaskLogger } from '@/lib/utils/task-logger'
+import { redactSensitiveInfo } from '@/lib/utils/logging'
+import { generateId } from '@/lib/utils/id'
+import { continueTask } from './continue-task'
+
+const FAILED_CONCLUSIONS = ['failure', 'timed_out']
+
+const MAX_CHECKS_IN_PROMPT = 3
+const MAX_ANNOTATIONS_PER_CHECK = 20
+const MAX_PROMPT_OUTPUT_LENGTH = 3000 // Per failed check
+
+interface FailedCheck {
+  name: string
+  url: string | null
+  details: string
+}
+
+export function isFailedCheckConclusion(conclusion: string | null | undefined): boolean {
+  return !!conclusion && FAILED_CONCLUSIONS.includes(conclusion)
+}
+
+// Keep the end of the log, where the failing step reports its error
+function tail(text: string, maxLength: number): string {
+  return text.length > maxLength ? `...${text.slice(-(maxLength - 3))}` : text
+}
+
+async function getCheckRunDetails(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  run: {
+    id: number
+    app: { slug?: string } | null
+    output: { title: string | null; summary: string | null; text: string | null }
+  },
+): Promise<string> {
+  const parts = [run.output.title, run.output.summary, run.output.text].filter(Boolean) as string[]
+
+  try {
+    const { data: annotations } = await octokit.rest.checks.listAnnotations({
+      owner,
+      repo,
+      check_run_id: run.id,
+      per_page: MAX_ANNOTATIONS_PER_CHECK,
+    })
+    const failures = annotations.filter((annotation) => annotation.annotation_level === 'failure')
+    if (failures.length > 0) {
+      parts.push(
+        failures.map((annotation) => `${annotation.path}:${annotation.start_line}: ${annotation.message}`).join('\n'),
+      )
+    }
+  } catch (error) {
+    console.error('Error fetching check run annotations')
+  }
+
+  // GitHub Actions check runs share their ID with the workflow job
+  if (run.app?.slug === 'github-actions') {
+    try {
+      const { data } = await octokit.rest.actions.downloadJobLogsForWorkflowRun({ owner, repo, job_id: run.id })
+      if (typeof data === 'string' && data.trim()) {
+        parts.push(tail(data.trim(), MAX_PROMPT_OUTPUT_LENGTH))
+      }
+    } catch (error) {
+      console.error('Error downloading job logs')
+    }
+  }
+
+  return tail(redactSensitiveInfo(parts.join('\n\n').trim()), MAX_PROMPT_OUTPUT_LENGTH)
+}
+
+async function getFailedChecks(octokit: Octokit, owner: string, repo: string, sha: string): Promise<FailedCheck[]> {
+  const { data } = await octokit.rest.checks.listForRef({ owner, repo, ref: sha, filter: 'latest', per_page: 100 })
+  const failedRuns = data.check_runs.filter((run) => isFailedCheckConclusion(run.conclusion))
+
+  const failedChecks: FailedCheck[] = []
+  for (const run of failedRuns.slice(0, MAX_CHECKS_IN_PROMPT)) {
+    failedChecks.push({
+      name: run.name,
+      url: run.html_url,
+      details: await getCheckRunDetails(octokit, owner, repo, run),
+    })
+  }
+  return failedChecks
+}
+
+function formatCiFailurePrompt(checks: FailedCheck[], sha: string, attempt: number, maxAttempts: number): string {
+  const sections = checks.map(
+    (check) => `${check.name} failed${check.url ? ` (${check.url})` : ''}:\n${check.details || 'No output available.'}`,
+  )
+
+  return [
+    `CI checks failed on commit ${sha.slice(0, 7)} (auto-fix attempt ${attempt} of ${maxAttempts}). Fix the cause of these failures:`,
+    ...sections,
+  ].join('\n\n')
+}
+
+/**
+ * Start fix-up turns for the opted-in tasks on a branch whose check failed
+ *
+ * @returns IDs of the tasks an attempt was started for
+ */
+export async function handleFailedCheckRun(params: {
+  repoFullName: string
+  headBranch: string
+  headSha: string
+}): Promise<string[]> {
+  const { repoFullName, headBranch, headSha } = params
+
+  const candidates = await db
+    .select()
+    .from(tasks)
+    .where(and(eq(tasks.branchName, headBranch), eq(tasks.ciAutoFix, true), isNull(tasks.deletedAt)))
+
+  const started: string[] = []
+  for (const task of candidates) {
+    const parsed = task.repoUrl ? parseGitHubUrl(task.repoUrl) : null
+    if (!parsed || `${parsed.owner}/${parsed.repo}`.toLowerCase() !== repoFullName.toLowerCase()) continue
+
+    try {
+      if (await startCiFixAttempt(task, parsed.owner, parsed.repo, headSha)) {
+        started.push(task.id)
+      }
+    } catch (error) {
+      console.error('Error starting CI auto-fix attempt')
+    }
+  }
+  return started
+}
+
+async function startCiFixAttempt(
+  task: typeof tasks.$inferSelect,
+  owner: string,
+  repo: string,
+  headSha: string,
+): Promise<boolean> {
+  // A running turn pushes a new commit, which gets its own checks
+  if (task.status === 'processing' || task.status === 'pending' || task.ciFixHeadSha === headSha) {
+    return false
+  }
+
+  const logger = createTaskLogger(task.id)
+  const maxAttempts = await getMaxCiFixAttempts(task.userId)
+
+  // Record the commit so the remaining failing checks of the same commit are skipped
+  const markHandled = () => db.update(tasks).set({ ciFixHeadSha: headSha }).where(eq(tasks.id, task.id))
+
+  if (task.ciFixAttempts >= maxAttempts) {
+    await markHandled()
+    await logger.info(
+      `Checks failed on ${headSha.slice(0, 7)}. CI auto-fix stopped after ${task.ciFixAttempts} attempt(s).`,
+    )
+    return false
+  }
+
+  const octokit = await getOctokit(task.userId)
+  if (!octokit.auth) return false
+
+  const { data: branch } = await octokit.rest.repos.getBranch({ owner, repo, branch: task.branchName! })
+  if (branch.commit.sha !== headSha) return false
+
+  const failedChecks = await getFailedChecks(octokit, owner, repo, headSha)
+  if (failedChecks.length === 0) return false
+
+  const [user] = await db.select().from(users).where(eq(users.id, task.userId)).limit(1)
+  if (!user) return false
+
+  const [rateLimit, spendLimit] = await Promise.all([
+    checkRateLimit({ id: user.id, email: user.email ?? undefined }),
+    checkSpendLimit({ id: user.id, email: user.email ?? undefined }),
+  ])
+  if (!rateLimit.allowed || !spendLimit.allowed) {
+    await markHandled()
+    await logger.info(
+      `Checks failed on ${headSha.slice(0, 7)}. CI auto-fix skipped: ${!rateLimit.allowed ? 'daily message limit' : 'monthly spend limit'} reached.`,
+    )
+    return false
+  }
+
+  // Claim the attempt; a concurrent event for the same commit or a follow-up started meanwhile wins
+  const [claimed] = await db
+    .update(tasks)
+    .set({
+      ciFixAttempts: sql`${tasks.ciFixAttempts} + 1`,
+      ciFixHeadSha: headSha,
+      status: 'processing',
+      progress: 0,
+      completedAt: null,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(tasks.id, task.id),
+        notInArray(tasks.status, ['processing', 'pending']),
+        lt(tasks.ciFixAttempts, maxAttempts),
+        or(isNull(tasks.ciFixHeadSha), ne(tasks.ciFixHeadSha, headSha)),
+      ),
+    )
+    .returning({ ciFixAttempts: tasks.ciFixAttempts })
+
+  if (!claimed) return false
+
+  const prompt = formatCiFailurePrompt(failedChecks, headSha, claimed.ciFixAttempts, maxAttempts)
+
+  await db.insert(taskMessages).values({
+    id: generateId(12),
+    taskId: task.id,
+    role: 'user',
+    content: prompt,
+  })
+
+  await logger.info(
+    `CI auto-fix attempt ${claimed.ciFixAttempts} of ${maxAttempts}: ${failedChecks.map((check) => check.name).join(', ')} failed on ${headSha.slice(0, 7)}`,
+  )
+
+  const [userApiKeys, gitAccount, maxSandboxDuration] = await Promise.all([
+    getUserApiKeysWithSource(task.userId),
+    getRepoGitAccount(task.userId, task.repoUrl),
+    getMaxSandboxDuration(task.userId),
+  ])
+
+  after(async () => {
+    await continueTask(
+      task.id,
+      task.userId,
+      prompt,
+      task.repoUrl || '',
+      task.branchName || '',
+      task.maxDuration || maxSandboxDuration,
+      task.selectedAgent || 'claude',
+      task.selectedModel || undefined,
+      task.installDependencies || false,
+      userApiKeys.apiKeys,
+      gitAccount.token,
+      gitAccount.user,
+      gitAccount.coAuthor,
+      userApiKeys.userKeyNames,
+    )
+  })
+
+  return true
+}
@@ -0,0 +1,485 @@
+/**
+ * Task Continuation
+ *
+ * Runs a follow-up turn of a task: reconnects to the kept-alive sandbox or
+ * creates a new one on the task branch, runs the agent with the follow-up
+ * prompt and recent conversation, and pushes the changes. Used by the
+ * continue route and the CI auto-fix loop.
+ */
+
+import { db } from '@/lib/db/client'
+import { tasks, taskMessages, connectors } from '@/lib/db/schema'
+import { eq, and, asc } from 'drizzle-orm'
+import { generateId } from '@/lib/utils/id'
+import { createTaskLogger } from '@/lib/utils/task-logger'
+import { getSandboxProvider, SandboxInstance } from '@/lib/sandbox/providers'
+import { createSandbox } from '@/lib/sandbox/creation'
+import { executeAgentInSandbox, AgentType, resolveAgentCredentials } from '@/lib/sandbox/agents'
+import { getTaskRemote, pushChangesToBranch, shutdownSandbox } from '@/lib/sandbox/git'
+import { unregisterSandbox, isSandboxHealthy } from '@/lib/sandbox/sandbox-registry'
+import { decrypt } from '@/lib/crypto'
+import { getConnectorAccessToken } from '@/lib/connectors/oauth'
+import {
+  clearTaskSecrets,
+  getConnectorSecrets,
+  getTaskSecrets,
+  redactTaskSecrets,
+  registerTaskSecrets,
+} from '@/lib/utils/task-secrets'
+import { generateCommitMessage, createFallbackCommitMessage } from '@/lib/utils/commit-message-generator'
+import { detectPortFromRepo } from '@/lib/sandbox/port-detection'
+import {
+  loadRepoConfig,
+  formatProtectedPathsInstruction,
+  resolveRepoConfigEnv,
+  RepoConfig,
+} from '@/lib/sandbox/repo-config'
+import { getGitProviderForUrl } from '@/lib/git-providers'
+import { getRepoPushToken } from '@/lib/git-providers/accounts'
+import { recordTaskUsage } from './usage'
+
+export async function continueTask(
+  taskId: string,
+  userId: string,
+  prompt: string,
+  repoUrl: string,
+  branchName: string,
+  maxDuration: number,
+  selectedAgent: string = 'claude',
+  selectedModel?: string,
+  installDependencies: boolean = false,
+  apiKeys?: {
+    OPENAI_API_KEY?: string
+    GEMINI_API_KEY?: string
+    CURSOR_API_KEY?: string
+    ANTHROPIC_API_KEY?: string
+    AI_GATEWAY_API_KEY?: string
+  },
+  githubToken?: string | null,
+  githubUser?: {
+    username: string
+    name: string | null
+    email: string | null
+  } | null,
+  gitCoAuthor?: { name: string; email: string } | null,
+  userApiKeyNames?: string[],
+): Promise<{ commitSha?: string }> {
+  let sandbox: SandboxInstance | null = null
+  let commitSha: string | undefined
+  let isResumedSandbox = false // Track if we reconnected to existing sandbox
+  let repoConfig: RepoConfig | null = null
+  const logger = createTaskLogger(taskId)
+
+  registerTaskSecrets(taskId, [
+    ...Object.values(resolveAgentCredentials(selectedAgent as AgentType, apiKeys)),
+    githubToken,
+  ])
+
+  const gitProvider = repoUrl ? getGitProviderForUrl(repoUrl) : null
+
+  try {
+    console.log('Continuing task with new message')
+
+    await logger.updateStatus('processing', 'Processing follow-up message...')
+    await logger.updateProgress(10, 'Initializing continuation...')
+
+    if (githubToken) {
+      await logger.info(`Using authenticated ${gitProvider?.displayName || 'GitHub'} access`)
+    }
+
+    // Fetch task to get sandboxId and keepAlive settings
+    // Also fetch session and previous messages in parallel for efficiency
+    const [currentTask, previousMessages] = await Promise.all([
+      (async () => {
+        const [task] = await db.select().from(tasks).where(eq(tasks.id, taskId)).limit(1)
+        return task
+      })(),
+      db
+        .select()
+        .from(taskMessages)
+        .where(eq(taskMessages.taskId, taskId))
+        .orderBy(asc(taskMessages.createdAt))
+        .limit(10),
+    ])
+
+    if (!currentTask) {
+      throw new Error('Task not found')
+    }
+
+    // Try to reconnect to existing sandbox if keepAlive was enabled
+    console.log('Checking for existing sandbox:', {
+      hasSandboxId: !!currentTask.sandboxId,
+      sandboxId: currentTask.sandboxId,
+      keepAlive: currentTask.keepAlive,
+    })
+
+    if (currentTask.sandboxId && currentTask.keepAlive) {
+      try {
+        await logger.info('Attempting to reconnect to existing sandbox')
+        console.log('Reconnecting to sandbox with sandboxId:', currentTask.sandboxId)
+        const reconnectedSandbox = await getSandboxProvider().get(currentTask.sandboxId)
+
+        if (reconnectedSandbox) {
+          // Health check before reuse
+          const healthy = await isSandboxHealthy(reconnectedSandbox)
+
+          if (healthy) {
+            await logger.info('Successfully reconnected to existing sandbox')
+            sandbox = reconnectedSandbox
+            isResumedSandbox = true // Mark as resumed
+            repoConfig = await loadRepoConfig(reconnectedSandbox, logger)
+            // The sandbox was set up with these values in an earlier run
+            if (repoConfig?.env?.length) {
+              registerTaskSecrets(
+                taskId,
+                Object.values(await resolveRepoConfigEnv(repoConfig.env, apiKeys, userApiKeyNames, logger)),
+              )
+            }
+            await logger.updateProgress(50, 'Executing agent with follow-up message')
+          } else {
+            // Sandbox expired or unhealthy - clear session and create new one
+            await logger.info('Sandbox expired, will create new one')
+            // Clear agent session ID since sandbox is gone
+            await db.update(tasks).set({ agentSessionId: null }).where(eq(tasks.id, taskId))
+            // Don't set sandbox - will fall through to create new one below
+          }
+        }
+      } catch (error) {
+        console.error('Failed to reconnect to sandbox')
+        await logger.info('Could not reconnect to sandbox, will create new one')
+        // Clear agent session ID on reconnect failure
+        await db.update(tasks).set({ agentSessionId: null }).where(eq(tasks.id, taskId))
+      }
+    }
+
+    if (!sandbox) {
+      // Create new sandbox
+      await logger.updateProgress(15, 'Creating sandbox environment')
+      console.log('Creating sandbox for continuation')
+
+      // Detect the appropriate port for the project
+      const port = await detectPortFromRepo(repoUrl, githubToken)
+      console.log('Port detection completed for project')
+
+      // Create sandbox and checkout the existing branch
+      const sandboxResult = await createSandbox(
+        {
+          taskId,
+          repoUrl,
+          githubToken,
+          gitUsername: gitProvider?.gitUsername,
+          gitAuthorName: githubUser?.name || githubUser?.username || 'Coding Agent',
+          gitAuthorEmail: githubUser?.username
+            ? `${githubUser.username}@users.noreply.github.com`
+            : 'agent@example.com',
+          apiKeys,
+          userApiKeyNames,
+          timeout: `${maxDuration}m`,
+          ports: [port],
+          runtime: 'node22',
+          resources: { vcpus: 4 },
+          taskPrompt: prompt,
+          selectedAgent,
+          selectedModel,
+          installDependencies,
+          preDeterminedBranchName: branchName, // Use existing branch
+          forkRepoUrl: currentTask.forkRepoUrl,
+          onProgress: async (progress: number, message: string) => {
+            await logger.updateProgress(progress, message)
+          },
+        },
+        logger,
+      )
+
+      if (!sandboxResult.success) {
+        throw new Error(sandboxResult.error || 'Failed to create sandbox')
+      }
+
+      const { sandbox: createdSandbox, domain } = sandboxResult
+      sandbox = createdSandbox || null
+      repoConfig = sandboxResult.repoConfig ?? null
+      registerTaskSecrets(taskId, Object.values(sandboxResult.repoEnv || {}))
+
+      await db
+        .update(tasks)
+        .set({
+          sandboxId: sandbox?.sandboxId || undefined,
+          sandboxUrl: domain || undefined,
+          updatedAt: new Date(),
+        })
+        .where(eq(tasks.id, taskId))
+    }
+
+    console.log('Starting agent execution')
+
+    // Get the last 5 messages before the current one (which is the last message)
+    // previousMessages was already fetched in parallel above during task fetch
+    const contextMessages = previousMessages.slice(-6, -1) // Last 6 excluding the very last one, giving us 5 messages
+
+    // Build conversation history context - put the new request FIRST, then context
+    // Sanitize the current prompt to prevent CLI option parsing issues
+    const instruction = repoConfig?.protected?.length
+      ? prompt + formatProtectedPathsInstruction(repoConfig.protected)
+      : prompt
+    const sanitizedPrompt = instruction
+      .replace(/`/g, "'") // Replace backticks with single quotes
+      .replace(/\$/g, '') // Remove dollar signs
+      .replace(/\\/g, '') // Remove backslashes
+      .replace(/^-/gm, ' -') // Prefix lines starting with dash to avoid CLI option parsing
+
+    let promptWithContext = sanitizedPrompt
+    // Always add conversation history as context backup
+    // Even when using --resume, Claude may not have access to previous context if session expired
+    if (contextMessages.length > 0) {
+      let conversationHistory = '\n\n---\n\nFor context, here is the conversation history from this session:\n\n'
+      contextMessages.forEach((msg) => {
+        const role = msg.role === 'user' ? 'User' : 'A'
+        // Escape special characters and limit length to avoid shell parsing issues
+        const truncatedContent = msg.content.length > 500 ? msg.content.substring(0, 500) + '...' : msg.content
+        // Remove problematic characters that could cause shell parsing issues
+        const sanitizedContent = truncatedContent
+          .replace(/`/g, "'") // Replace backticks with single quotes
+          .replace(/\$/g, '') // Remove dollar signs
+          .replace(/\\/g, '') // Remove backslashes
+          .replace(/^-/gm, ' -') // Prefix lines starting with dash to avoid CLI option parsing
+        conversationHistory += `${role}: ${sanitizedContent}\n\n`
+      })
+      promptWithContext = `${sanitizedPrompt}${conversationHistory}`
+    }
+
+    type Connector = typeof connectors.$inferSelect
+
+    let mcpServers: Connector[] = []
+
+    try {
+      const userConnectors = await db
+        .select()
+        .from(connectors)
+        .where(and(eq(connectors.userId, userId), eq(connectors.status, 'connected')))
+
+      mcpServers = await Promise.all(
+        userConnectors.map(async (connector: Connector) => {
+          const decryptedEnv = (() => {
+            if (!connector.env) return null
+            try {
+              const decrypted = decrypt(connector.env)
+              return decrypted ? JSON.parse(decrypted) : null
+            } catch {
+              return null
+            }
+          })()
+          return {
+            ...connector,
+            env: decryptedEnv,
+            oauthClientSecret: connector.oauthClientSecret ? decrypt(connector.oauthClientSecret) : null,
+            oauthAccessToken: await getConnectorAccessToken(connector),
+            oauthRefreshToken: null,
+          }
+        }),
+      )
+
+      registerTaskSecrets(taskId, mcpServers.flatMap(getConnectorSecrets))
+
+      if (mcpServers.length > 0) {
+        await logger.info('Found connected MCP servers')
+      }
+    } catch (mcpError) {
+      console.error('Failed to fetch MCP servers')
+      await logger.info('Warning: Could not fetch MCP servers, continuing without them')
+    }
+
+    if (!sandbox) {
+      throw new Error('Sandbox is not available for agent execution')
+    }
+
+    // Generate agent message ID for streaming updates
+    const agentMessageId = generateId()
+
+    // Validate session ID format before using
+    const sessionId = currentTask.agentSessionId
+    const validSessionId =
+      sessionId && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(sessionId)
+        ? sessionId
+        : undefined
+
+    // Log session state for debugging
+    await logger.info('Executing follow-up agent')
+    console.log('Session state:', {
+      hasSessionId: !!sessionId,
+      isResumedSandbox,
+      sandboxId: sandbox?.sandboxId?.substring(0, 8),
+    })
+
+    const agentResult = await executeAgentInSandbox(
+      sandbox,
+      promptWithContext,
+      selectedAgent as AgentType,
+      logger,
+      selectedModel,
+      mcpServers,
+      undefined,
+      apiKeys,
+      isResumedSandbox && !!validSessionId, // Only set isResumed if we have valid session
+      validSessionId, // Use validated session ID
+      taskId, // taskId for streaming updates
+      agentMessageId, // agentMessageId for streaming updates
+      githubToken ?? undefined, // githubToken for agent MCP external access
+    )
+
+    console.log('Agent execution completed')
+
+    await recordTaskUsage({
+      taskId,
+      userId,
+      repoUrl,
+      agent: selectedAgent,
+      model: selectedModel,
+      turn: 'follow-up',
+      usage: agentResult.usage,
+      logger,
+    })
+
+    // Update agent session ID if provided (for Cursor agent resumption)
+    if (agentResult.sessionId) {
+      await db.update(tasks).set({ agentSessionId: agentResult.sessionId }).where(eq(tasks.id, taskId))
+    }
+
+    if (agentResult.success) {
+      await logger.success('Agent execution completed')
+      await logger.info('Code changes applied successfully')
+
+      if (agentResult.agentResponse) {
+        await logger.info('Agent response received')
+
+        // Save the agent's response message
+        try {
+          await db.insert(taskMessages).values({
+            id: generateId(12),
+            taskId,
+            role: 'agent',
+            content: redactTaskSecrets(taskId, agentResult.agentResponse),
+          })
+        } catch (error) {
+          console.error('Failed to save agent message')
+        }
+      }
+
+      // Generate AI-powered commit message
+      let commitMessage: string
+      try {
+        // Extract repository name from URL for context
+        let repoName: string | undefined
+        try {
+          const url = new URL(repoUrl)
+          const pathParts = url.pathname.split('/')
+          if (pathParts.length >= 3) {
+            repoName = pathParts[pathParts.length - 1].replace(/\.git$/, '')
+          }
+        } catch {
+          // Ignore URL parsing errors
+        }
+
+        if (process.env.AI_GATEWAY_API_KEY) {
+          commitMessage = await generateCommitMessage({
+            description: prompt,
+            repoName,
+            context: `${selectedAgent} agent follow-up`,
+          })
+        } else {
+          commitMessage = createFallbackCommitMessage(prompt)
+        }
+      } catch (error) {
+        console.error('Error generating commit message')
+        commitMessage = createFallbackCommitMessage(prompt)
+      }
+
+      const pushToken = await getRepoPushToken(userId, repoUrl, githubToken, !!gitCoAuthor)
+      registerTaskSecrets(taskId, [pushToken])
+
+      // Push changes to branch
+      const pushResult = await pushChangesToBranch(sandbox, branchName, commitMessage, logger, {
+        protectedPaths: repoConfig?.protected,
+        githubToken: pushToken,
+        gitUsername: gitProvider?.gitUsername,
+        remote: getTaskRemote(repoUrl, currentTask.forkRepoUrl),
+        coAuthor: gitCoAuthor,
+        secretValues: getTaskSecrets(taskId),
+      })
+
+      // Conditionally shutdown sandbox based on task's keepAlive setting
+      // currentTask was already fetched at the beginning, use that value
+      if (currentTask.keepAlive) {
+        // Keep sandbox alive for future follow-up messages
+        await logger.info('Sandbox kept alive for follow-up messages')
+      } else {
+        // Shutdown sandbox
+        unregisterSandbox(taskId)
+        const shutdownResult = await shutdownSandbox(sandbox)
+        if (shutdownResult.success) {
+          await logger.success('Sandbox shutdown completed')
+        } else {
+          await logger.error('Sandbox shutdown failed')
+        }
+      }
+
+      if (pushResult.secretsDetected) {
+        await logger.updateStatus('error')
+        await logger.error('Task failed: Changes were not pushed because they appear to contain secrets')
+        throw new Error('Push blocked: changes appear to contain secrets')
+      } else if (pushResult.pushFailed) {
+        await logger.updateStatus('error')
+        await logger.error('Task failed: Unable to push changes to repository')
+        throw new Error('Failed to push changes to repository')
+      } else {
+        await logger.updateStatus('completed')
+        await logger.updateProgress(100, 'Task completed successfully')
+        console.log('Task continuation completed successfully')
+        commitSha = pushResult.commitSha
+      }
+    } else {
+      await logger.error('Agent execution failed')
+      throw new Error(agentResult.error || 'Agent execution failed')
+    }
+  } catch (error) {
+    console.error('Error continuing task')
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+
+    try {
+      if (sandbox) {
+        // Check keepAlive setting before shutting down sandbox on error
+        // Fetch task to get current keepAlive setting
+        const [currentTaskData] = await db
+          .select({ keepAlive: tasks.keepAlive })
+          .from(tasks)
+          .where(eq(tasks.id, taskId))
+          .limit(1)
+
+        if (currentTaskData?.keepAlive) {
+          // Keep sandbox alive even on error for potential retry
+          await logger.info('Sandbox kept alive despite error')
+        } else {
+          unregisterSandbox(taskId)
+          await shutdownSandbox(sandbox)
+        }
+      }
+    } catch (cleanupError) {
+      console.error('Error during cleanup')
+    }
+
+    await logger.updateStatus('error')
+    await logger.error('Task failed to continue')
+
+    await db
+      .update(tasks)
+      .set({
+        error: redactTaskSecrets(taskId, errorMessage),
+        updatedAt: new Date(),
+      })
+      .where(eq(tasks.id, taskId))
+  } finally {
+    clearTaskSecrets(taskId)
+  }
+
+  return { commitSha }
+}
@@ -0,0 +1,297 @@
+/**
+ * Task Events
+ *
+ * Server-Sent Events stream of task changes: log entries, progress, status,
+ * sub-agent activity and agent message deltas.
+ *
+ * Database triggers publish the task ID on the "task_events" channel whenever
+ * a task or one of its messages changes (see migration 0028). Each stream
+ * listens for those notifications and diffs the task against what it has
+ * already sent, falling back to polling if LISTEN is unavailable (e.g. behind
+ * a transaction pooler).
+ *
+ * Event IDs are the seq of the last log entry delivered, so a client
+ * reconnecting with Last-Event-ID only receives the logs it missed. All other
+ * state is re-sent in full on connect.
+ */
+
+import postgres from 'postgres'
+import { db } from '@/lib/db/client'
+import { tasks, taskMessages, taskLogEntries, TaskMessage } from '@/lib/db/schema'
+import { and, eq, asc, gte, inArray, sql } from 'drizzle-orm'
+import { toLogEntry } from './logs'
+
+export const TASK_EVENTS_CHANNEL = 'task_events'
+
+export type TaskEventType =
+  | 'task' // Full task (without logs) - sent on connect and when other fields change
+  | 'status'
+  | 'progress'
+  | 'subagent'
+  | 'log'
+  | 'logs-reset' // Logs were cleared
+  | 'message' // New or rewritten message
+  | 'message-delta' // Text appended to a streaming message
+
+// Stream timing constants
+const POLL_INTERVAL_MS = 2000 // Used when LISTEN is unavailable
+const KEEPALIVE_INTERVAL_MS = 15 * 1000 // Comment ping to keep proxies from closing the connection
+const MIN_SYNC_INTERVAL_MS = 250 // Coalesce bursts of notifications (e.g. token streaming)
+const MAX_STREAM_DURATION_MS = 270 * 1000 // Close before the function limit; clients reconnect with Last-Event-ID
+const CLIENT_RETRY_MS = 3000
+const LOG_BATCH_SIZE = 500
+
+type Listener = () => void
+
+const listeners = new Map<string, Set<Listener>>()
+let listenPromise: Promise<boolean> | null = null
+
+/**
+ * Start listening on the task events channel (once per server instance).
+ * Resolves to false if LISTEN is not supported by the connection.
+ */
+export function ensureListening(): Promise<boolean> {
+  if (!listenPromise) {
+    listenPromise = (async () => {
+      try {
+        const client = postgres(process.env.POSTGRES_URL!, { max: 1 })
+        await client.listen(TASK_EVENTS_CHANNEL, (taskId) => {
+          listeners.get(taskId)?.forEach((listener) => listener())
+        })
+        return true
+      } catch {
+        console.error('Failed to listen for task events, falling back to polling')
+        listenPromise = null
+        return false
+      }
+    })()
+  }
+  return listenPromise
+}
+
+/**
+ * Call listener whenever the task changes, once ensureListening has resolved to true.
+ * Returns a function that removes the listener.
+ */
+export function subscribeToTaskChanges(taskId: string, listener: Listener): () => void {
+  let taskListeners = listeners.get(taskId)
+  if (!taskListeners) {
+    taskListeners = new Set()
+    listeners.set(taskId, taskListeners)
+  }
+  taskListeners.add(listener)
+
+  return () => {
+    taskListeners.delete(listener)
+    if (taskListeners.size === 0) {
+      listeners.delete(taskId)
+    }
+  }
+}
+
+/**
+ * Parse a Last-Event-ID value into a log cursor
+ */
+export function parseTaskEventId(value: string | null | undefined): number {
+  const cursor = parseInt(value || '', 10)
+  return Number.isFinite(cursor) && cursor > 0 ? cursor : 0
+}
+
+/**
+ * Create an SSE stream for a task. The caller is responsible for verifying access.
+ */
+export function createTaskEventStream(taskId: string, lastEventId: number, signal: AbortSignal): ReadableStream {
+  const encoder = new TextEncoder()
+
+  let logCursor = lastEventId
+  let lastStatusKey: string | null = null
+  let lastProgress: number | null = null
+  let lastSubAgentKey: string | null = null
+  let lastTaskKey: string | null = null
+  const sentMessages = new Map<string, { content: string; bytes: number }>()
+
+  let closed = false
+  let wake: (() => void) | null = null
+
+  return new ReadableStream({
+    async start(controller) {
+      let lastWriteAt = Date.now()
+
+      const write = (chunk: string) => {
+        if (closed) return
+        controller.enqueue(encoder.encode(chunk))
+        lastWriteAt = Date.now()
+      }
+
+      const send = (event: TaskEventType, data: unknown) => {
+        write(`event: ${event}\nid: ${logCursor}\ndata: ${JSON.stringify(data)}\n\n`)
+      }
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        wake?.()
+      }
+
+      signal.addEventListener('abort', close)
+      const unsubscribe = subscribeToTaskChanges(taskId, () => wake?.())
+
+      const fetchLogEntries = (fromSeq: number) =>
+        db
+          .select()
+          .from(taskLogEntries)
+          .where(and(eq(taskLogEntries.taskId, taskId), gte(taskLogEntries.seq, fromSeq)))
+          .orderBy(asc(taskLogEntries.seq))
+          .limit(LOG_BATCH_SIZE)
+
+      /**
+       * Diff the task against what has been sent and emit events for the changes.
+       * Returns false if the task no longer exists.
+       */
+      const sync = async (): Promise<boolean> => {
+        const [task] = await db.select().from(tasks).where(eq(tasks.id, taskId)).limit(1)
+
+        if (!task || task.deletedAt) {
+          return false
+        }
+
+        // Task fields
+        const statusKey = JSON.stringify([task.status, task.error])
+        const subAgentKey = JSON.stringify([task.currentSubAgent, task.subAgentActivity, task.lastHeartbeat])
+        const taskKey = JSON.stringify({ ...task, updatedAt: undefined, lastHeartbeat: undefined, logSeq: undefined })
+
+        if (lastTaskKey === null || taskKey !== lastTaskKey) {
+          send('task', task)
+        } else {
+          if (statusKey !== lastStatusKey) {
+            send('status', { status: task.status, error: task.error })
+          }
+          if (task.progress !== lastProgress) {
+            send('progress', { progress: task.progress })
+          }
+          if (subAgentKey !== lastSubAgentKey) {
+            send('subagent', {
+              currentSubAgent: task.currentSubAgent,
+              subAgentActivity: task.subAgentActivity,
+              lastHeartbeat: task.lastHeartbeat,
+            })
+          }
+        }
+
+        lastTaskKey = taskKey
+        lastStatusKey = statusKey
+        lastProgress = task.progress
+        lastSubAgentKey = subAgentKey
+
+        // Log entries - seq only increases, so a missing cursor entry means the logs were cleared or pruned
+        if (task.logSeq > logCursor || logCursor > 0) {
+          let fromSeq = logCursor
+          let entries = await fetchLogEntries(fromSeq)
+
+          if (logCursor > 0 && entries[0]?.seq !== logCursor) {
+            logCursor = 0
+            send('logs-reset', {})
+            fromSeq = 0
+            entries = await fetchLogEntries(fromSeq)
+          }
+
+          while (true) {
+            for (const entry of entries) {
+              if (entry.seq <= logCursor) continue
+              logCursor = entry.seq
+              send('log', toLogEntry(entry))
+            }
+
+            if (entries.length < LOG_BATCH_SIZE) break
+            fromSeq = logCursor + 1
+            entries = await fetchLogEntries(fromSeq)
+          }
+        }
+
+        // Messages - compare byte lengths first so unchanged content isn't re-read
+        const messageSizes = await db
+          .select({ id: taskMessages.id, bytes: sql<number>`octet_length(${taskMessages.content})` })
+          .from(taskMessages)
+          .where(eq(taskMessages.taskId, taskId))
+
+        const changedIds = messageSizes
+          .filter((message) => sentMessages.get(message.id)?.bytes !== Number(message.bytes))
+          .map((message) => message.id)
+
+        if (changedIds.length > 0) {
+          const changedMessages: TaskMessage[] = await db
+            .select()
+            .from(taskMessages)
+            .where(inArray(taskMessages.id, changedIds))
+            .orderBy(asc(taskMessages.createdAt))
+
+          for (const message of changedMessages) {
+            const previous = sentMessages.get(message.id)
+
+            if (previous && message.content.startsWith(previous.content)) {
+              send('message-delta', { id: message.id, delta: message.content.slice(previous.content.length) })
+            } else {
+              send('message', message)
+            }
+
+            sentMessages.set(message.id, {
+              content: message.content,
+              bytes: Buffer.byteLength(message.content, 'utf8'),
+            })
+          }
+        }
+
+        return true
+      }
+
+      try {
+        const listening = await ensureListening()
+        const waitMs = listening ? KEEPALIVE_INTERVAL_MS : POLL_INTERVAL_MS
+        const startedAt = Date.now()
+
+        write(`retry: ${CLIENT_RETRY_MS}\n\n`)
+
+        while (!closed && Date.now() - startedAt < MAX_STREAM_DURATION_MS) {
+          const syncStartedAt = Date.now()
+          if (!(await sync())) {
+            break
+          }
+
+          // Wait for a change notification (or the next poll)
+          await new Promise<void>((resolve) => {
+            const timer = setTimeout(resolve, waitMs)
+            wake = () => {
+              clearTimeout(timer)
+              resolve()
+            }
+          })
+          wake = null
+
+          if (!closed && Date.now() - lastWriteAt >= KEEPALIVE_INTERVAL_MS) {
+            write(': ping\n\n')
+          }
+
+          const sinceSync = Date.now() - syncStartedAt
+          if (sinceSync < MIN_SYNC_INTERVAL_MS) {
+            await new Promise((resolve) => setTimeout(resolve, MIN_SYNC_INTERVAL_MS - sinceSync))
+          }
+        }
+      } catch {
+        console.error('Error streaming task events')
+      } finally {
+        unsubscribe()
+        signal.removeEventListener('abort', close)
+        closed = true
+        try {
+          controller.close()
+        } catch {
+          // Stream was already cancelled by the client
+        }
+      }
+    },
+    cancel() {
+      closed = true
+      wake?.()
+    },
+  })
+}
@@ -0,0 +1,216 @@
+/**
+ * Task Groups
+ *
+ * A task group links the runs created by the multi-agent "Compare" option so
+ * they can be reviewed side by side. One run is promoted to a pull request;
+ * the others can then be stopped and their sandboxes and branches removed.
+ */
+
+import { db } from '@/lib/db/client'
+import { tasks, taskGroups, Task, TaskGroup } from '@/lib/db/schema'
+import { and, asc, eq, isNull } from 'drizzle-orm'
+import { compareBranch, deleteBranch, BranchFileChange } from '@/lib/github/client'
+import { createTaskPullRequest } from '@/lib/git-providers/pull-requests'
+import { stopSandboxFromDB } from '@/lib/sandbox/sandbox-registry'
+import { createTaskLogger } from '@/lib/utils/task-logger'
+import { getTaskUsageTotals, UsageTotals } from './usage'
+
+export interface TaskGroupRunDiff {
+  baseBranch: string
+  files: BranchFileChange[]
+  additions: number
+  deletions: number
+}
+
+export interface TaskGroupRunChanges {
+  diff: TaskGroupRunDiff | null
+  diffError: string | null
+  usage: UsageTotals | null
+}
+
+// Run as returned by GET /api/task-groups/[groupId]
+export type TaskGroupRun = Task & TaskGroupRunChanges
+
+type TaskRow = typeof tasks.$inferSelect
+
+/**
+ * Get a group owned by the user together with its (non-deleted) runs
+ */
+export async function getUserTaskGroup(
+  groupId: string,
+  userId: string,
+): Promise<{ group: TaskGroup; tasks: TaskRow[] } | null> {
+  const [group] = await db
+    .select()
+    .from(taskGroups)
+    .where(and(eq(taskGroups.id, groupId), eq(taskGroups.userId, userId)))
+    .limit(1)
+
+  if (!group) return null
+
+  const groupTasks = await db
+    .select()
+    .from(tasks)
+    .where(and(eq(tasks.groupId, groupId), eq(tasks.userId, userId), isNull(tasks.deletedAt)))
+    .orderBy(asc(tasks.createdAt))
+
+  return { group, tasks: groupTasks }
+}
+
+/**
+ * Fetch the branch diff and usage of every run. Runs whose branch hasn't been
+ * pushed yet get a null diff rather than failing the whole comparison.
+ */
+export async function getTaskGroupRuns(groupTasks: TaskRow[]): Promise<(TaskRow & TaskGroupRunChanges)[]> {
+  const usageByTask = await getTaskUsageTotals(groupTasks.map((task) => task.id))
+
+  return Promise.all(
+    groupTasks.map(async (task): Promise<TaskRow & TaskGroupRunChanges> => {
+      const usage = usageByTask[task.id] ?? null
+
+      if (!task.repoUrl || !task.branchName || task.status === 'pending') {
+        return { ...task, diff: null, diffError: null, usage }
+      }
+
+      const result = await compareBranch({
+        repoUrl: task.repoUrl,
+        branchName: task.branchName,
+        baseBranch: task.sourceBranch || undefined,
+        headRepoUrl: task.forkRepoUrl,
+      })
+
+      if (!result.success) {
+        // Still-running tasks may not have pushed their branch yet
+        const diffError = task.status === 'processing' ? null : result.error || 'Failed to load changes'
+        return { ...task, diff: null, diffError, usage }
+      }
+
+      return {
+        ...task,
+        diff: {
+          baseBranch: result.baseBranch!,
+          files: result.files!,
+          additions: result.additions!,
+          deletions: result.deletions!,
+        },
+        diffError: null,
+        usage,
+      }
+    }),
+  )
+}
+
+export interface PromoteTaskGroupRunParams {
+  group: TaskGroup
+  task: TaskRow
+  title: string
+  body?: string
+}
+
+/**
+ * Record the run as the group's winner and open a pull request for its branch.
+ * A run that already has a pull request is promoted without creating another.
+ */
+export async function promoteTaskGroupRun(
+  params: PromoteTaskGroupRunParams,
+): Promise<{ success: boolean; task?: TaskRow; error?: string }> {
+  const { group, title, body } = params
+  let task = params.task
+
+  if (!task.repoUrl || !task.branchName) {
+    return { success: false, error: 'Task does not have repository or branch information' }
+  }
+
+  if (!task.prUrl) {
+    const result = await createTaskPullRequest(task.userId, {
+      repoUrl: task.repoUrl,
+      branchName: task.branchName,
+      title,
+      body,
+      baseBranch: task.sourceBranch || undefined,
+      headRepoUrl: task.forkRepoUrl,
+    })
+
+    if (!result.success) {
+      return { success: false, error: result.error || 'Failed to create pull request' }
+    }
+
+    const [updatedTask] = await db
+      .update(tasks)
+      .set({
+        prUrl: result.prUrl,
+        prNumber: result.prNumber,
+        prStatus: 'open',
+        updatedAt: new Date(),
+      })
+      .where(eq(tasks.id, task.id))
+      .returning()
+    task = updatedTask
+  }
+
+  await db.update(taskGroups).set({ winnerTaskId: task.id, updatedAt: new Date() }).where(eq(taskGroups.id, group.id))
+
+  await createTaskLogger(task.id).success('Promoted from comparison to a pull request')
+
+  return { success: true, task }
+}
+
+export interface TaskGroupRunCleanup {
+  taskId: string
+  stopped: boolean
+  sandboxStopped: boolean
+  branchDeleted: boolean
+  error?: string
+}
+
+/**
+ * Stop a run that is still in progress, shut down its sandbox and optionally
+ * delete its branch. Branches with a pull request are never deleted.
+ */
+export async function cleanUpTaskGroupRun(
+  task: TaskRow,
+  options: { deleteBranch: boolean },
+): Promise<TaskGroupRunCleanup> {
+  const logger = createTaskLogger(task.id)
+  const result: TaskGroupRunCleanup = { taskId: task.id, stopped: false, sandboxStopped: false, branchDeleted: false }
+
+  if (task.status === 'pending' || task.status === 'processing') {
+    await db
+      .update(tasks)
+      .set({
+        status: 'stopped',
+        error: 'Task was stopped when its comparison was cleaned up',
+        updatedAt: new Date(),
+        completedAt: new Date(),
+      })
+      .where(eq(tasks.id, task.id))
+    await logger.info('Task stopped because another run in its comparison was chosen')
+    result.stopped = true
+  }
+
+  if (task.sandboxId) {
+    const stopResult = await stopSandboxFromDB(task.id)
+    if (stopResult.success) {
+      await db
+        .update(tasks)
+        .set({ sandboxId: null, sandboxUrl: null, updatedAt: new Date() })
+        .where(eq(tasks.id, task.id))
+      await logger.info('Sandbox stopped')
+      result.sandboxStopped = true
+    } else {
+      result.error = 'Failed to stop sandbox'
+    }
+  }
+
+  if (options.deleteBranch && task.repoUrl && task.branchName && !task.prUrl) {
+    const deleteResult = await deleteBranch({ repoUrl: task.repoUrl, branchName: task.branchName })
+    if (deleteResult.success) {
+      await logger.info('Branch deleted')
+      result.branchDeleted = true
+    } else {
+      result.error = deleteResult.error || 'Failed to delete branch'
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,143 @@
+/**
+ * Task Logs
+ *
+ * Read, pagination and retention helpers for the task_log_entries table.
+ * Entries are written by TaskLogger.
+ */
+
+import { db } from '@/lib/db/client'
+import { tasks, taskLogEntries, LogEntry, TaskLogEntry } from '@/lib/db/schema'
+import { and, asc, desc, eq, gt, inArray, isNotNull, lt, or, sql } from 'drizzle-orm'
+import { TASK_LOG_RETENTION_DAYS, MAX_LOG_ENTRIES_PER_TASK } from '@/lib/constants'
+
+export const DEFAULT_LOG_PAGE_SIZE = 500
+export const MAX_LOG_PAGE_SIZE = 1000
+
+/**
+ * Convert a stored row to the LogEntry shape used by the UI and API
+ */
+export function toLogEntry(row: TaskLogEntry): LogEntry & { seq: number } {
+  return {
+    seq: row.seq,
+    type: row.type,
+    message: row.message,
+    timestamp: row.timestamp.toISOString(),
+    agentSource: row.agentSource ?? undefined,
+  }
+}
+
+export interface TaskLogPageOptions {
+  /** Return entries with seq greater than this (oldest first) */
+  after?: number
+  /** Return the entries immediately before this seq */
+  before?: number
+  limit?: number
+}
+
+export interface TaskLogPage {
+  logs: (LogEntry & { seq: number })[]
+  /** Whether more entries exist in the requested direction */
+  hasMore: boolean
+  /** Cursor for the next page (pass as `after`, or as `before` when paging backwards) */
+  nextCursor: number | null
+}
+
+/**
+ * Fetch a page of log entries for a task, always returned in ascending seq order.
+ *
+ * - `after`: the page following the cursor (use to tail new entries)
+ * - `before`: the page preceding the cursor (use to load older history)
+ * - neither: the most recent entries
+ */
+export async function getTaskLogPage(taskId: string, options: TaskLogPageOptions = {}): Promise<TaskLogPage> {
+  const limit = Math.min(Math.max(options.limit || DEFAULT_LOG_PAGE_SIZE, 1), MAX_LOG_PAGE_SIZE)
+
+  if (options.after !== undefined) {
+    const rows = await db
+      .select()
+      .from(taskLogEntries)
+      .where(and(eq(taskLogEntries.taskId, taskId), gt(taskLogEntries.seq, options.after)))
+      .orderBy(asc(taskLogEntries.seq))
+      .limit(limit + 1)
+
+    const page = rows.slice(0, limit)
+    return {
+      logs: page.map(toLogEntry),
+      hasMore: rows.length > limit,
+      nextCursor: page.length > 0 ? page[page.length - 1].seq : options.after,
+    }
+  }
+
+  const rows = await db
+    .select()
+    .from(taskLogEntries)
+    .where(
+      and(
+        eq(taskLogEntries.taskId, taskId),
+        options.before !== undefined ? lt(taskLogEntries.seq, options.before) : undefined,
+      ),
+    )
+    .orderBy(desc(taskLogEntries.seq))
+    .limit(limit + 1)
+
+  const page = rows.slice(0, limit).reverse()
+  const hasMore = rows.length > limit
+  return {
+    logs: page.map(toLogEntry),
+    hasMore,
+    nextCursor: hasMore && page.length > 0 ? page[0].seq : null,
+  }
+}
+
+/**
+ * Get the most recent log entries for a task (oldest first)
+ */
+export async function getRecentTaskLogs(taskId: string, limit: number = DEFAULT_LOG_PAGE_SIZE): Promise<LogEntry[]> {
+  const { logs } = await getTaskLogPage(taskId, { limit })
+  return logs
+}
+
+/**
+ * Delete all log entries for a task. Sequence numbers keep increasing, so
+ * clients tailing with a cursor can tell the log was cleared.
+ */
+export async function clearTaskLogs(taskId: string): Promise<void> {
+  await db.delete(taskLogEntries).where(eq(taskLogEntries.taskId, taskId))
+}
+
+/**
+ * Apply log retention rules:
+ * - Tasks that finished (or were deleted) more than TASK_LOG_RETENTION_DAYS ago lose their logs
+ * - Every task keeps at most MAX_LOG_ENTRIES_PER_TASK of its newest entries
+ *
+ * @returns Number of deleted entries
+ */
+export async function pruneTaskLogEntries(): Promise<number> {
+  const cutoff = new Date(Date.now() - TASK_LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+
+  const expiredTasks = db
+    .select({ id: tasks.id })
+    .from(tasks)
+    .where(
+      or(
+        and(isNotNull(tasks.deletedAt), lt(tasks.deletedAt, cutoff)),
+        and(inArray(tasks.status, ['completed', 'error', 'stopped']), lt(tasks.updatedAt, cutoff)),
+      ),
+    )
+
+  const expired = await db.delete(taskLogEntries).where(inArray(taskLogEntries.taskId, expiredTasks))
+
+  // seq is allocated sequentially, so anything at or below log_seq - cap is past the limit
+  const overflowingTasks = db.select({ id: tasks.id }).from(tasks).where(gt(tasks.logSeq, MAX_LOG_ENTRIES_PER_TASK))
+
+  const overflow = await db.delete(taskLogEntries).where(
+    and(
+      inArray(taskLogEntries.taskId, overflowingTasks),
+      sql`${taskLogEntries.seq} <= (
+        SELECT ${tasks.logSeq} - ${MAX_LOG_ENTRIES_PER_TASK} FROM ${tasks} WHERE ${tasks.id} = ${taskLogEntries.taskId}
+      )`,
+    ),
+  )
+
+  return expired.count + overflow.count
+}
@@ -5,50 +5,48 @@
  * and MCP tool handlers to ensure consistent task execution.
  */
 
-import { Sandbox } from '@vercel/sandbox'
 import { db } from '@/lib/db/client'
 import { tasks, connectors, taskMessages } from '@/lib/db/schema'
 import { eq, and } from 'drizzle-orm'
 import { createSandbox } from '@/lib/sandbox/creation'
-import { executeAgentInSandbox, AgentType } from '@/lib/sandbox/agents'
-import { pushChangesToBranch, shutdownSandbox } from '@/lib/sandbox/git'
-import { unregisterSandbox } from '@/lib/sandbox/sandbox-registry'
+import { executeAgentInSandbox, AgentType, resolveAgentCredentials } from '@/lib/sandbox/agents'
+import { getTaskRemote, pushChangesToBranch, shutdownSandbox } from '@/lib/sandbox/git'
+import { forkRepository, getRepositoryPushAccess } from '@/lib/github/client'
+import { stopSandboxFromDB, unregisterSandbox } from '@/lib/sandbox/sandbox-registry'
+import { getSandboxProvider, SandboxInstance } from '@/lib/sandbox/providers'
 import { detectPortFromRepo } from '@/lib/sandbox/port-detection'
-import { createTaskLogger } from '@/lib/utils/task-logger'
+import { validateEnvironmentVariables } from '@/lib/sandbox/config'
+import { formatProtectedPathsInstruction } from '@/lib/sandbox/repo-config'
+import { getMaxVerificationIterations } from '@/lib/db/settings'
+import { hasVerificationCommands, verifyTaskChanges } from './verification'
+import { createTaskLogger, TaskLogger } from '@/lib/utils/task-logger'
 import { generateBranchName, createFallbackBranchName } from '@/lib/utils/branch-name-generator'
 import { generateTaskTitle, createFallbackTitle } from '@/lib/utils/title-generator'
 import { generateCommitMessage, createFallbackCommitMessage } from '@/lib/utils/commit-message-generator'
 import { decrypt } from '@/lib/crypto'
+import { getConnectorAccessToken } from '@/lib/connectors/oauth'
+import {
+  clearTaskSecrets,
+  getConnectorSecrets,
+  getTaskSecrets,
+  redactTaskSecrets,
+  registerTaskSecrets,
+} from '@/lib/utils/task-secrets'
 import { generateId } from '@/lib/utils/id'
 import { validateGitHubToken } from '@/lib/github/validate-token'
+import { getGitProviderForUrl } from '@/lib/git-providers'
+import { getRepoPushToken } from '@/lib/git-providers/accounts'
+import { enqueueTaskJob } from './queue'
+import { recordTaskUsage } from './usage'
 
 // Timeout and cleanup constants
 const KEEPALIVE_MAX_IDLE_MS = 30 * 60 * 1000 // 30 minutes idle = cleanup keepAlive sandbox
 
 /**
- * Validate GitHub repository URL format
- * Ensures URL is a valid GitHub repository before passing to git clone
+ * Strip characters that break the agent CLI invocation (shell quoting, option parsing)
  */
-function validateGitHubUrl(url: string): boolean {
-  try {
-    const parsed = new URL(url)
-
-    // Must be github.com or www.github.com
-    if (!['github.com', 'www.github.com'].includes(parsed.hostname || '')) {
-      return false
-    }
-
-    // Path must match /owner/repo or /owner/repo.git format
-    // Allow alphanumeric, hyphens, underscores, and dots in owner/repo names
-    if (!/^\/[\w.-]+\/[\w.-]+(\.git)?$/.test(parsed.pathname)) {
-      return false
-    }
-
-    return true
-  } catch {
-    // Invalid URL format
-    return false
-  }
+function sanitizeInstruction(instruction: string): string {
+  return instruction.replace(/`/g, "'").replace(/\$/g, '').replace(/\\/g, '').replace(/^-/gm, ' -')
 }
 
 export interface TaskProcessingInput {
@@ -69,16 +67,50 @@ export interface TaskProcessingInput {
     ANTHROPIC_API_KEY?: string
     AI_GATEWAY_API_KEY?: string
   }
+  /** Names of the apiKeys the user stored; the others are the server's fallback keys */
+  userApiKeyNames?: string[]
+  /** Token for the repository's git host (GitHub, GitLab or Gitea) */
   githubToken?: string | null
   githubUser?: {
     username: string
     name: string | null
     email: string | null
   } | null
+  /** Set when githubToken is a GitHub App installation token; credited on the bot's commits */
+  gitCoAuthor?: { name: string; email: string } | null
   userId?: string
   mcpServers?: (typeof connectors.$inferSelect)[]
 }
 
+/**
+ * Fork the repository when the user has no push access to it, so the branch can
+ * be pushed to the fork and the pull request opened across forks.
+ *
+ * @returns The fork URL, or null to push to the repository itself
+ */
+async function resolveForkRepoUrl(
+  taskId: string,
+  repoUrl: string,
+  userId: string | undefined,
+  logger: TaskLogger,
+): Promise<string | null> {
+  const access = await getRepositoryPushAccess(repoUrl, userId)
+  // If access can't be determined, push to the repository as before
+  if (!access.success || access.canPush) {
+    return null
+  }
+
+  await logger.info('No push access to the repository, forking it to your account')
+  const fork = await forkRepository(repoUrl, userId)
+  if (!fork.success || !fork.forkUrl) {
+    await logger.info('Failed to fork the repository, changes may not be pushed')
+    return null
+  }
+
+  await db.update(tasks).set({ forkRepoUrl: fork.forkUrl, updatedAt: new Date() }).where(eq(tasks.id, taskId))
+  return fork.forkUrl
+}
+
 /**
  * Generate AI branch name for a task (non-blocking)
  */
@@ -288,6 +320,65 @@ async function checkTaskActivity(
   }
 }
 
+/**
+ * Stop a keepAlive sandbox that has been idle for KEEPALIVE_MAX_IDLE_MS.
+ * Runs as a queued 'keepalive-cleanup' job; if the sandbox is still in use
+ * the check is re-queued for when it would next become idle.
+ */
+export async function cleanupIdleKeepAliveSandbox(taskId: string, userId: string): Promise<void> {
+  const [currentTask] = await db
+    .select({
+      lastHeartbeat: tasks.lastHeartbeat,
+      sandboxId: tasks.sandboxId,
+      status: tasks.status,
+      updatedAt: tasks.updatedAt,
+    })
+    .from(tasks)
+    .where(eq(tasks.id, taskId))
+    .limit(1)
+
+  if (!currentTask || !currentTask.sandboxId) {
+    return // Sandbox already cleaned up
+  }
+
+  // Check if there's been any activity (or a follow-up is running) within the idle window
+  const lastActivity = new Date(currentTask.lastHeartbeat || currentTask.updatedAt).getTime()
+  const idleTime = Date.now() - lastActivity
+  if (currentTask.status === 'processing' || idleTime < KEEPALIVE_MAX_IDLE_MS) {
+    await enqueueTaskJob({
+      taskId,
+      userId,
+      type: 'keepalive-cleanup',
+      runAt: new Date(Math.max(Date.now(), lastActivity) + KEEPALIVE_MAX_IDLE_MS),
+    })
+    return
+  }
+
+  // Idle for 30+ minutes, cleanup sandbox
+  const cleanupLogger = createTaskLogger(taskId)
+  await cleanupLogger.info('Auto-cleanup initiated for idle keepAlive sandbox')
+
+  // Stop sandbox using registry function
+  const { stopSandboxFromDB } = await import('@/lib/sandbox/sandbox-registry')
+  const stopResult = await stopSandboxFromDB(taskId)
+
+  if (stopResult.success) {
+    await cleanupLogger.info('Idle sandbox stopped successfully')
+
+    // Clear sandbox fields in database
+    await db
+      .update(tasks)
+      .set({
+        sandboxId: null,
+        sandboxUrl: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(tasks.id, taskId))
+  } else {
+    await cleanupLogger.error('Failed to stop idle sandbox')
+  }
+}
+
 /**
  * Process a task with timeout wrapper that respects heartbeat activity
  * The timeout will be extended if there's recent heartbeat activity (sub-agents running)
@@ -449,7 +540,9 @@ export async function processTaskWithTimeout(input: TaskProcessingInput): Promis
     if (timeoutController.interval) {
       clearInterval(timeoutController.interval)
     }
-    if (error instanceof Error && error.message?.includes('timed out after')) {
+    // A timeout is final: the task is marked as failed and the job completes
+    // instead of being retried while the timed-out attempt may still be running
+    if (isTimedOut) {
       console.error('Task timed out')
       const timeoutLogger = createTaskLogger(input.taskId)
       await timeoutLogger.error('Task execution timed out')
@@ -474,8 +567,6 @@ export async function processTaskWithTimeout(input: TaskProcessingInput): Promis
 
       // Clean up sandbox on timeout - use the DB-backed stop function
       try {
-        // Import the DB-backed sandbox stop function
-        const { stopSandboxFromDB } = await import('@/lib/sandbox/sandbox-registry')
         const stopResult = await stopSandboxFromDB(input.taskId)
 
         if (stopResult.success) {
@@ -484,14 +575,8 @@ export async function processTaskWithTimeout(input: TaskProcessingInput): Promis
           // Fallback to direct cleanup if stopSandboxFromDB failed
           const [task] = await db.select().from(tasks).where(eq(tasks.id, input.taskId)).limit(1)
           if (task?.sandboxId && !input.keepAlive) {
-            const { Sandbox } = await import('@vercel/sandbox')
             try {
-              const sandbox = await Sandbox.get({
-                sandboxId: task.sandboxId,
-                teamId: process.env.SANDBOX_VERCEL_TEAM_ID!,
-                projectId: process.env.SANDBOX_VERCEL_PROJECT_ID!,
-                token: process.env.SANDBOX_VERCEL_TOKEN!,
-              })
+              const sandbox = await getSandboxProvider().get(task.sandboxId)
               await shutdownSandbox(sandbox)
             } catch (sandboxError) {
               // Sandbox may already be gone - that's OK
@@ -517,37 +602,51 @@ async function processTask(input: TaskProcessingInput): Promise<void> {
     prompt,
     repoUrl,
     maxDuration,
-    selectedAgent = 'claude',
-    selectedModel,
     installDependencies = false,
     keepAlive = false,
     apiKeys,
     githubToken,
     githubUser,
+    gitCoAuthor,
   } = input
+  // May be replaced by the repository's default agent and model
+  let { selectedAgent = 'claude', selectedModel } = input
 
-  let sandbox: Sandbox | null = null
+  let sandbox: SandboxInstance | null = null
+  // Failures before the agent starts are retried by the worker; later ones fail the task
+  let agentStarted = false
   const logger = createTaskLogger(taskId)
 
+  registerTaskSecrets(taskId, [
+    ...Object.values(resolveAgentCredentials(selectedAgent as AgentType, apiKeys)),
+    githubToken,
+  ])
+
+  // Validated below before the URL is passed to git clone
+  const gitProvider = repoUrl ? getGitProviderForUrl(repoUrl) : null
+  const providerName = gitProvider?.displayName || 'GitHub'
+
   try {
     console.log('Starting task processing')
 
-    // Validate GitHub token if repo access is needed
+    // Validate the git host token if repo access is needed
     if (repoUrl) {
       // Check if token exists
       if (!githubToken) {
-        await logger.error('GitHub access no longer available')
+        await logger.error(`${providerName} access no longer available`)
         await db
           .update(tasks)
           .set({
             status: 'error',
-            error: 'GitHub token was revoked or expired. Please reconnect GitHub.',
+            error: `${providerName} token was revoked or expired. Please reconnect ${providerName}.`,
           })
           .where(eq(tasks.id, taskId))
         return
       }
+    }
 
-      // Validate token with GitHub API
+    // Validate token with GitHub API; installation tokens can't read /user and were just minted
+    if (repoUrl && githubToken && gitProvider?.name === 'github' && !gitCoAuthor) {
       await logger.info('Validating GitHub access')
       const validationResult = await validateGitHubToken(githubToken)
 
@@ -572,29 +671,39 @@ async function processTask(input: TaskProcessingInput): Promise<void> {
     ])
 
     try {
-      await db.insert(taskMessages).values({
-        id: generateId(12),
-        taskId,
-        role: 'user',
-        content: prompt,
-      })
+      // A retried attempt already saved the prompt
+      const [existingMessage] = await db
+        .select({ id: taskMessages.id })
+        .from(taskMessages)
+        .where(and(eq(taskMessages.taskId, taskId), eq(taskMessages.role, 'user')))
+        .limit(1)
+
+      if (!existingMessage) {
+        await db.insert(taskMessages).values({
+          id: generateId(12),
+          taskId,
+          role: 'user',
+          content: prompt,
+        })
+      }
     } catch (error) {
       console.error('Failed to save user message')
     }
 
     if (githubToken) {
-      await logger.info('Using authenticated GitHub access')
+      await logger.info(`Using authenticated ${providerName} access`)
     }
     await logger.info('API keys configured for selected agent')
 
     // Validate repository URL format
-    if (repoUrl && !validateGitHubUrl(repoUrl)) {
+    if (repoUrl && !gitProvider) {
       await logger.error('Invalid repository URL format')
       await db
         .update(tasks)
         .set({
           status: 'error',
-          error: 'Invalid GitHub repository URL format. Please provide a valid GitHub repository URL.',
+          error:
+            'Invalid repository URL format. Please provide a repository URL on GitHub, GitLab or a configured Gitea instance.',
         })
         .where(eq(tasks.id, taskId))
       return
@@ -620,8 +729,31 @@ async function processTask(input: TaskProcessingInput): Promise<void> {
       await logger.info('AI branch name not ready, will use fallback during sandbox creation')
     }
 
+    // Forking is only supported on GitHub
+    const forkRepoUrl =
+      repoUrl && githubToken && gitProvider?.name === 'github'
+        ? await resolveForkRepoUrl(taskId, repoUrl, input.userId, logger)
+        : null
+
     await logger.updateProgress(15, 'Creating sandbox environment')
 
+    // Stop the sandbox left behind by an earlier attempt before creating a new one
+    const [previousAttempt] = await db
+      .select({ sandboxId: tasks.sandboxId })
+      .from(tasks)
+      .where(eq(tasks.id, taskId))
+      .limit(1)
+    if (previousAttempt?.sandboxId) {
+      const stopResult = await stopSandboxFromDB(taskId)
+      if (!stopResult.success) {
+        await logger.info('Could not stop the sandbox from a previous attempt')
+      }
+      await db
+        .update(tasks)
+        .set({ sandboxId: null, sandboxUrl: null, updatedAt: new Date() })
+        .where(eq(tasks.id, taskId))
+    }
+
     const port = await portPromise
 
     const sandboxResult = await createSandbox(
@@ -629,9 +761,11 @@ async function processTask(input: TaskProcessingInput): Promise<void> {
         taskId,
         repoUrl,
         githubToken,
+        gitUsername: gitProvider?.gitUsername,
         gitAuthorName: githubUser?.name || githubUser?.username || 'Coding Agent',
         gitAuthorEmail: githubUser?.username ? `${githubUser.username}@users.noreply.github.com` : 'agent@example.com',
         apiKeys,
+        userApiKeyNames: input.userApiKeyNames,
         timeout: `${maxDuration}m`,
         ports: [port],
         runtime: 'node22',
@@ -642,6 +776,7 @@ async function processTask(input: TaskProcessingInput): Promise<void> {
         installDependencies,
         keepAlive,
         sourceBranch: input.sourceBranch,
+        forkRepoUrl,
         preDeterminedBranchName: aiBranchName || undefined,
         onProgress: async (progress: number, message: string) => {
           await logger.updateProgress(progress, message)
@@ -688,6 +823,27 @@ async function processTask(input: TaskProcessingInput): Promise<void> {
 
     await db.update(tasks).set(updateData).where(eq(tasks.id, taskId))
 
+    const repoConfig = sandboxResult.repoConfig
+    registerTaskSecrets(taskId, Object.values(sandboxResult.repoEnv || {}))
+
+    // Repository defaults apply when the task didn't choose a specific model
+    if (repoConfig && !selectedModel && (repoConfig.agent || repoConfig.model)) {
+      const configuredAgent = repoConfig.agent || selectedAgent
+      const agentValidation = validateEnvironmentVariables(configuredAgent, githubToken, apiKeys)
+
+      if (agentValidation.valid) {
+        selectedAgent = configuredAgent
+        selectedModel = repoConfig.model
+        await db
+          .update(tasks)
+          .set({ selectedAgent, selectedModel: selectedModel || null })
+          .where(eq(tasks.id, taskId))
+        await logger.info(`Using ${selectedAgent} agent from repository configuration`)
+      } else {
+        await logger.info('Repository default agent is missing API keys, using the selected agent')
+      }
+    }
+
     if (await isTaskStopped(taskId)) {
       await logger.info('Task was stopped before agent execution')
       return
@@ -710,19 +866,23 @@ async function processTask(input: TaskProcessingInput): Promise<void> {
           .from(connectors)
           .where(and(eq(connectors.userId, input.userId), eq(connectors.status, 'connected')))
 
-        mcpServers = userConnectors.map((connector: Connector) => ({
-          ...connector,
-          env: (() => {
-            if (!connector.env) return null
-            try {
-              const decrypted = decrypt(connector.env)
-              return decrypted ? JSON.parse(decrypted) : null
-            } catch {
-              return null
-            }
-          })(),
-          oauthClientSecret: connector.oauthClientSecret ? decrypt(connector.oauthClientSecret) : null,
-        }))
+        mcpServers = await Promise.all(
+          userConnectors.map(async (connector: Connector) => ({
+            ...connector,
+            env: (() => {
+              if (!connector.env) return null
+              try {
+                const decrypted = decrypt(connector.env)
+                return decrypted ? JSON.parse(decrypted) : null
+              } catch {
+                return null
+              }
+            })(),
+            oauthClientSecret: connector.oauthClientSecret ? decrypt(connector.oauthClientSecret) : null,
+            oauthAccessToken: await getConnectorAccessToken(connector),
+            oauthRefreshToken: null,
+          })),
+        )
 
         if (mcpServers.length > 0) {
           await logger.info('Found connected MCP servers')
@@ -732,10 +892,17 @@ async function processTask(input: TaskProcessingInput): Promise<void> {
       }
     }
 
-    const sanitizedPrompt = prompt.replace(/`/g, "'").replace(/\$/g, '').replace(/\\/g, '').replace(/^-/gm, ' -')
+    // Covers servers pre-fetched by the worker as well as the ones fetched above
+    registerTaskSecrets(taskId, mcpServers.flatMap(getConnectorSecrets))
+
+    const instruction = repoConfig?.protected?.length
+      ? prompt + formatProtectedPathsInstruction(repoConfig.protected)
+      : prompt
+    const sanitizedPrompt = sanitizeInstruction(instruction)
 
     const agentMessageId = generateId()
 
+    agentStarted = true
     const agentResult = await executeAgentInSandbox(
       sandbox,
       sanitizedPrompt,
@@ -756,6 +923,17 @@ async function processTask(input: TaskProcessingInput): Promise<void> {
       agentResult.error = 'Agent execution failed without specific error'
     }
 
+    await recordTaskUsage({
+      taskId,
+      userId: input.userId,
+      repoUrl,
+      agent: selectedAgent,
+      model: selectedModel,
+      turn: 'initial',
+      usage: agentResult.usage,
+      logger,
+    })
+
     if (agentResult.sessionId) {
       const isValidUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(agentResult.sessionId)
       if (isValidUUID) {
@@ -776,13 +954,76 @@ async function processTask(input: TaskProcessingInput): Promise<void> {
             id: generateId(12),
             taskId,
             role: 'agent',
-            content: agentResult.agentResponse,
+            content: redactTaskSecrets(taskId, agentResult.agentResponse),
           })
         } catch (error) {
           console.error('Failed to save agent message')
         }
       }
 
+      if (hasVerificationCommands(repoConfig)) {
+        await logger.updateProgress(80, 'Verifying changes')
+        let sessionId = agentResult.sessionId
+
+        await verifyTaskChanges({
+          taskId,
+          sandbox,
+          repoConfig,
+          env: sandboxResult.repoEnv || {},
+          logger,
+          maxIterations: await getMaxVerificationIterations(input.userId),
+          runFixTurn: async (fixInstruction) => {
+            const fixResult = await executeAgentInSandbox(
+              sandbox!,
+              sanitizeInstruction(fixInstruction),
+              selectedAgent as AgentType,
+              logger,
+              selectedModel,
+              mcpServers,
+              undefined,
+              apiKeys,
+              true,
+              sessionId,
+              taskId,
+              generateId(),
+              githubToken ?? undefined,
+            )
+
+            await recordTaskUsage({
+              taskId,
+              userId: input.userId,
+              repoUrl,
+              agent: selectedAgent,
+              model: selectedModel,
+              turn: 'verification',
+              usage: fixResult.usage,
+              logger,
+            })
+
+            if (fixResult.sessionId && fixResult.sessionId !== sessionId) {
+              sessionId = fixResult.sessionId
+              await db.update(tasks).set({ agentSessionId: sessionId }).where(eq(tasks.id, taskId))
+            }
+
+            if (fixResult.agentResponse) {
+              try {
+                await db.insert(taskMessages).values({
+                  id: generateId(12),
+                  taskId,
+                  role: 'agent',
+                  content: redactTaskSecrets(taskId, fixResult.agentResponse),
+                })
+              } catch (error) {
+                console.error('Failed to save agent message')
+              }
+            }
+
+            return fixResult.success
+          },
+          onCancellationCheck: () => isTaskStopped(taskId),
+        })
+      }
+
       let commitMessage: string
       try {
         let repoName: string | undefined
@@ -810,70 +1051,34 @@ async function processTask(input: TaskProcessingInput): Promise<void> {
         commitMessage = createFallbackCommitMessage(prompt)
       }
 
-      const pushResult = await pushChangesToBranch(sandbox!, branchName!, commitMessage, logger)
+      const pushToken = await getRepoPushToken(input.userId, repoUrl, githubToken, !!gitCoAuthor)
+      registerTaskSecrets(taskId, [pushToken])
+
+      const pushResult = await pushChangesToBranch(sandbox!, branchName!, commitMessage, logger, {
+        protectedPaths: repoConfig?.protected,
+        githubToken: pushToken,
+        gitUsername: gitProvider?.gitUsername,
+        remote: getTaskRemote(repoUrl, forkRepoUrl),
+        coAuthor: gitCoAuthor,
+        secretValues: getTaskSecrets(taskId),
+      })
 
       if (keepAlive) {
         await logger.info('Sandbox kept alive for follow-up messages')
 
-        // Schedule auto-cleanup check for idle keepAlive sandboxes
-        setTimeout(async () => {
+        // Schedule a durable auto-cleanup check for idle keepAlive sandboxes
+        if (input.userId) {
           try {
-            // Check if sandbox is still idle after 30 minutes
-            const [currentTask] = await db
-              .select({
-                lastHeartbeat: tasks.lastHeartbeat,
-                sandboxId: tasks.sandboxId,
-                sandboxUrl: tasks.sandboxUrl,
-                status: tasks.status,
-              })
-              .from(tasks)
-              .where(eq(tasks.id, taskId))
-              .limit(1)
-
-            if (!currentTask || !currentTask.sandboxId) {
-              return // Sandbox already cleaned up
-            }
-
-            // If task completed or errored, no need to auto-cleanup (user probably used it)
-            if (currentTask.status === 'completed' || currentTask.status === 'error') {
-              return
-            }
-
-            // Check if there's been any activity in the last 30 minutes
-            if (currentTask.lastHeartbeat) {
-              const idleTime = Date.now() - new Date(currentTask.lastHeartbeat).getTime()
-              if (idleTime < KEEPALIVE_MAX_IDLE_MS) {
-                return // Still active, don't cleanup
-              }
-            }
-
-            // Idle for 30+ minutes, cleanup sandbox
-            const cleanupLogger = createTaskLogger(taskId)
-            await cleanupLogger.info('Auto-cleanup initiated for idle keepAlive sandbox')
-
-            // Stop sandbox using registry function
-            const { stopSandboxFromDB } = await import('@/lib/sandbox/sandbox-registry')
-            const stopResult = await stopSandboxFromDB(taskId)
-
-            if (stopResult.success) {
-              await cleanupLogger.info('Idle sandbox stopped successfully')
-
-              // Clear sandbox fields in database
-              await db
-                .update(tasks)
-                .set({
-                  sandboxId: null,
-                  sandboxUrl: null,
-                  updatedAt: new Date(),
-                })
-                .where(eq(tasks.id, taskId))
-            } else {
-              await cleanupLogger.error('Failed to stop idle sandbox')
-            }
+            await enqueueTaskJob({
+              taskId,
+              userId: input.userId,
+              type: 'keepalive-cleanup',
+              runAt: new Date(Date.now() + KEEPALIVE_MAX_IDLE_MS),
+            })
           } catch (error) {
-            console.error('Error during keepAlive auto-cleanup')
+            console.error('Failed to schedule keepAlive auto-cleanup')
           }
-        }, KEEPALIVE_MAX_IDLE_MS)
+        }
       } else {
         unregisterSandbox(taskId)
         const shutdownResult = await shutdownSandbox(sandbox!)
@@ -884,7 +1089,11 @@ async function processTask(input: TaskProcessingInput): Promise<void> {
         }
       }
 
-      if (pushResult.pushFailed) {
+      if (pushResult.secretsDetected) {
+        await logger.updateStatus('error')
+        await logger.error('Task failed: Changes were not pushed because they appear to contain secrets')
+        throw new Error('Push blocked: changes appear to contain secrets')
+      } else if (pushResult.pushFailed) {
         await logger.updateStatus('error')
         await logger.error('Task failed: Unable to push changes to repository')
         throw new Error('Failed to push changes to repository')
@@ -918,8 +1127,14 @@ async function processTask(input: TaskProcessingInput): Promise<void> {
       }
     }
 
+    if (!agentStarted) {
+      throw error
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
     await logger.error('Error occurred during task processing')
     await logger.updateStatus('error', errorMessage)
+  } finally {
+    clearTaskSecrets(taskId)
   }
 }
@@ -0,0 +1,219 @@
+/**
+ * Task Queue
+ *
+ * Postgres-backed job queue for background task work. Jobs are leased by a
+ * worker for a visibility timeout; if the worker dies the lease expires and
+ * the job becomes available again until maxAttempts is exhausted.
+ */
+
+import { db } from '@/lib/db/client'
+import { taskJobs, TaskJob } from '@/lib/db/schema'
+import { and, asc, eq, gte, lt, lte, or, sql } from 'drizzle-orm'
+import { generateId } from '@/lib/utils/id'
+import { MAX_CONCURRENT_TASKS_PER_USER } from '@/lib/constants'
+
+export type TaskJobType = TaskJob['type']
+
+// Lease and retry constants
+export const TASK_JOB_LEASE_MS = 5 * 60 * 1000 // Visibility timeout, renewed while the job runs
+const RETRY_BASE_DELAY_MS = 30 * 1000 // Doubled on every failed attempt
+const LEASE_LOCK_KEY = 'task_jobs_lease'
+
+// Job types that occupy one of the user's concurrent task slots
+const SLOT_JOB_TYPES: TaskJobType[] = ['process-task']
+
+export interface EnqueueTaskJobParams {
+  taskId: string
+  userId: string
+  type: TaskJobType
+  payload?: Record<string, unknown>
+  runAt?: Date
+  maxAttempts?: number
+}
+
+/**
+ * Add a job to the queue. It becomes leasable once runAt has passed.
+ */
+export async function enqueueTaskJob(params: EnqueueTaskJobParams): Promise<TaskJob> {
+  const [job] = await db
+    .insert(taskJobs)
+    .values({
+      id: generateId(12),
+      taskId: params.taskId,
+      userId: params.userId,
+      type: params.type,
+      payload: params.payload,
+      runAt: params.runAt || new Date(),
+      maxAttempts: params.maxAttempts ?? 3,
+    })
+    .returning()
+
+  return job
+}
+
+/**
+ * Lease the next runnable job for a worker.
+ *
+ * Picks queued jobs that are due plus leased jobs whose visibility timeout has
+ * passed, skipping users that already have their maximum number of task jobs
+ * running. Leasing is serialized with an advisory lock so the per-user cap
+ * holds across concurrent workers. A malformed maxConcurrentTasks setting
+ * falls back to the default cap.
+ *
+ * @param jobId - Only consider this job instead of the next one in the queue
+ */
+export async function leaseNextTaskJob(
+  workerId: string,
+  leaseMs: number = TASK_JOB_LEASE_MS,
+  jobId?: string,
+): Promise<TaskJob | null> {
+  return await db.transaction(async (tx) => {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${LEASE_LOCK_KEY}))`)
+
+    const now = new Date()
+    const slotTypes = sql.join(
+      SLOT_JOB_TYPES.map((type) => sql`${type}`),
+      sql`, `,
+    )
+
+    const [candidate] = await tx
+      .select({ id: taskJobs.id })
+      .from(taskJobs)
+      .where(
+        and(
+          jobId ? eq(taskJobs.id, jobId) : undefined,
+          or(
+            and(eq(taskJobs.status, 'queued'), lte(taskJobs.runAt, now)),
+            and(eq(taskJobs.status, 'leased'), lt(taskJobs.leasedUntil, now)),
+          ),
+          sql`${taskJobs.attempts} < ${taskJobs.maxAttempts}`,
+          or(
+            sql`${taskJobs.type} NOT IN (${slotTypes})`,
+            sql`(
+              SELECT count(*) FROM task_jobs AS running
+              WHERE running.user_id = ${taskJobs.userId}
+                AND running.id <> ${taskJobs.id}
+                AND running.status = 'leased'
+                AND running.leased_until >= ${now}
+                AND running.type IN (${slotTypes})
+            ) < COALESCE(
+              (
+                SELECT CASE WHEN value ~ '^[0-9]{1,9}$' THEN value::int END FROM settings
+                WHERE settings.user_id = ${taskJobs.userId} AND settings.key = 'maxConcurrentTasks'
+              ),
+              ${MAX_CONCURRENT_TASKS_PER_USER}
+            )`,
+          ),
+        ),
+      )
+      .orderBy(asc(taskJobs.runAt))
+      .limit(1)
+      .for('update', { skipLocked: true })
+
+    if (!candidate) {
+      return null
+    }
+
+    const [job] = await tx
+      .update(taskJobs)
+      .set({
+        status: 'leased',
+        leaseOwner: workerId,
+        leasedUntil: new Date(now.getTime() + leaseMs),
+        attempts: sql`${taskJobs.attempts} + 1`,
+        updatedAt: now,
+      })
+      .where(eq(taskJobs.id, candidate.id))
+      .returning()
+
+    return job
+  })
+}
+
+/**
+ * Extend the visibility timeout of a job that is still running.
+ * Returns false if the worker no longer holds the lease.
+ */
+export async function renewTaskJobLease(
+  jobId: string,
+  workerId: string,
+  leaseMs: number = TASK_JOB_LEASE_MS,
+): Promise<boolean> {
+  const now = new Date()
+  const renewed = await db
+    .update(taskJobs)
+    .set({
+      leasedUntil: new Date(now.getTime() + leaseMs),
+      updatedAt: now,
+    })
+    .where(and(eq(taskJobs.id, jobId), eq(taskJobs.leaseOwner, workerId), eq(taskJobs.status, 'leased')))
+    .returning({ id: taskJobs.id })
+
+  return renewed.length > 0
+}
+
+/**
+ * Mark a leased job as completed.
+ */
+export async function completeTaskJob(jobId: string, workerId: string): Promise<void> {
+  const now = new Date()
+  await db
+    .update(taskJobs)
+    .set({
+      status: 'completed',
+      leasedUntil: null,
+      completedAt: now,
+      updatedAt: now,
+    })
+    .where(and(eq(taskJobs.id, jobId), eq(taskJobs.leaseOwner, workerId)))
+}
+
+/**
+ * Record a failed attempt. The job is re-queued with exponential backoff
+ * until it runs out of attempts, after which it is marked as failed.
+ *
+ * @returns true if the job will be retried
+ */
+export async function failTaskJob(job: TaskJob, workerId: string, error: string): Promise<boolean> {
+  const now = new Date()
+  const willRetry = job.attempts < job.maxAttempts
+
+  await db
+    .update(taskJobs)
+    .set({
+      status: willRetry ? 'queued' : 'failed',
+      leaseOwner: null,
+      leasedUntil: null,
+      lastError: error,
+      runAt: willRetry ? new Date(now.getTime() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)) : job.runAt,
+      completedAt: willRetry ? null : now,
+      updatedAt: now,
+    })
+    .where(and(eq(taskJobs.id, job.id), eq(taskJobs.leaseOwner, workerId)))
+
+  return willRetry
+}
+
+/**
+ * Fail jobs whose lease expired on their last allowed attempt.
+ * These belong to workers that died and can no longer be retried.
+ *
+ * @returns The jobs that were marked as failed
+ */
+export async function reapExpiredTaskJobs(): Promise<TaskJob[]> {
+  const now = new Date()
+  return await db
+    .update(taskJobs)
+    .set({
+      status: 'failed',
+      leaseOwner: null,
+      leasedUntil: null,
+      lastError: 'Worker lease expired',
+      completedAt: now,
+      updatedAt: now,
+    })
+    .where(
+      and(eq(taskJobs.status, 'leased'), lt(taskJobs.leasedUntil, now), gte(taskJobs.attempts, taskJobs.maxAttempts)),
+    )
+    .returning()
+}
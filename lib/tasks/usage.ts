@@ -0,0 +1,174 @@
+/**
+ * Task Usage
+ *
+ * Records the tokens and cost of every agent run in task_usage and aggregates
+ * them for the usage dashboard, the comparison page and the monthly spend limit.
+ * Cost comes from the CLI when it reports one (Claude), otherwise it is
+ * estimated from published model prices; runs with unknown cost count as zero.
+ */
+
+import { db } from '@/lib/db/client'
+import { taskUsage, tasks, TaskUsage } from '@/lib/db/schema'
+import { and, desc, eq, gte, inArray, sql } from 'drizzle-orm'
+import type { AgentUsage } from '@/lib/sandbox/types'
+import { estimateCostUsd, formatUsd } from '@/lib/utils/model-pricing'
+import { generateId } from '@/lib/utils/id'
+import { TaskLogger } from '@/lib/utils/task-logger'
+
+export interface RecordTaskUsageParams {
+  taskId: string
+  userId?: string
+  repoUrl?: string | null
+  agent: string
+  model?: string | null
+  turn: TaskUsage['turn']
+  usage: AgentUsage | undefined
+  logger?: TaskLogger
+}
+
+/**
+ * Store the usage of one agent run. Failures are logged and swallowed so
+ * accounting never fails the task itself.
+ */
+export async function recordTaskUsage(params: RecordTaskUsageParams): Promise<void> {
+  const { taskId, userId, repoUrl, agent, turn, usage, logger } = params
+  if (!usage || !userId) return
+
+  const model = usage.model || params.model || undefined
+  const estimatedCost = usage.costUsd === undefined ? estimateCostUsd(model, usage) : null
+  const costUsd = usage.costUsd ?? estimatedCost
+
+  try {
+    await db.insert(taskUsage).values({
+      id: generateId(12),
+      taskId,
+      userId,
+      repoUrl: repoUrl || undefined,
+      agent,
+      model,
+      turn,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cacheReadTokens: usage.cacheReadTokens,
+      cacheWriteTokens: usage.cacheWriteTokens,
+      totalTokens: usage.totalTokens,
+      costUsd,
+      costSource: usage.costUsd !== undefined ? 'reported' : estimatedCost !== null ? 'estimated' : null,
+    })
+  } catch (error) {
+    console.error('Failed to record task usage')
+    return
+  }
+
+  if (logger) {
+    const cost = costUsd !== null ? `, ${formatUsd(costUsd)}` : ''
+    await logger.info(`Agent usage: ${usage.totalTokens.toLocaleString('en-US')} tokens${cost}`)
+  }
+}
+
+export interface UsageTotals {
+  costUsd: number
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+  runs: number
+}
+
+// sum() over integer columns returns bigint, which postgres-js hands back as a string
+const totalsColumns = {
+  costUsd: sql<number>`coalesce(sum(${taskUsage.costUsd}), 0)`.mapWith(Number),
+  inputTokens: sql<number>`coalesce(sum(${taskUsage.inputTokens}), 0)`.mapWith(Number),
+  outputTokens: sql<number>`coalesce(sum(${taskUsage.outputTokens}), 0)`.mapWith(Number),
+  totalTokens: sql<number>`coalesce(sum(${taskUsage.totalTokens}), 0)`.mapWith(Number),
+  runs: sql<number>`count(*)`.mapWith(Number),
+}
+
+/**
+ * Usage totals for each of the given tasks, keyed by task ID
+ */
+export async function getTaskUsageTotals(taskIds: string[]): Promise<Record<string, UsageTotals>> {
+  if (taskIds.length === 0) return {}
+
+  const rows = await db
+    .select({ taskId: taskUsage.taskId, ...totalsColumns })
+    .from(taskUsage)
+    .where(inArray(taskUsage.taskId, taskIds))
+    .groupBy(taskUsage.taskId)
+
+  return Object.fromEntries(rows.flatMap(({ taskId, ...totals }) => (taskId ? [[taskId, totals]] : [])))
+}
+
+/**
+ * Start of the current calendar month (UTC), when monthly spend resets
+ */
+export function getMonthStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+}
+
+/**
+ * Total cost of the user's agent runs since the start of the month
+ */
+export async function getMonthlySpendUsd(userId: string): Promise<number> {
+  const [row] = await db
+    .select({ costUsd: totalsColumns.costUsd })
+    .from(taskUsage)
+    .where(and(eq(taskUsage.userId, userId), gte(taskUsage.createdAt, getMonthStart())))
+
+  return row?.costUsd ?? 0
+}
+
+export interface UserUsageSummary {
+  since: string
+  totals: UsageTotals
+  byAgent: (UsageTotals & { agent: string; model: string | null })[]
+  byRepo: (UsageTotals & { repoUrl: string | null })[]
+  byDay: (UsageTotals & { day: string })[]
+  topTasks: (UsageTotals & { taskId: string; title: string | null; prompt: string | null })[]
+}
+
+/**
+ * Aggregate the user's usage since the given date for the usage dashboard
+ */
+export async function getUserUsageSummary(userId: string, since: Date): Promise<UserUsageSummary> {
+  const where = and(eq(taskUsage.userId, userId), gte(taskUsage.createdAt, since))
+  const day = sql<string>`to_char(date_trunc('day', ${taskUsage.createdAt}), 'YYYY-MM-DD')`
+
+  const [[totals], byAgent, byRepo, byDay, topTasks] = await Promise.all([
+    db.select(totalsColumns).from(taskUsage).where(where),
+    db
+      .select({ agent: taskUsage.agent, model: taskUsage.model, ...totalsColumns })
+      .from(taskUsage)
+      .where(where)
+      .groupBy(taskUsage.agent, taskUsage.model)
+      .orderBy(desc(totalsColumns.costUsd)),
+    db
+      .select({ repoUrl: taskUsage.repoUrl, ...totalsColumns })
+      .from(taskUsage)
+      .where(where)
+      .groupBy(taskUsage.repoUrl)
+      .orderBy(desc(totalsColumns.costUsd)),
+    db
+      .select({ day, ...totalsColumns })
+      .from(taskUsage)
+      .where(where)
+      .groupBy(day)
+      .orderBy(day),
+    db
+      .select({ taskId: tasks.id, title: tasks.title, prompt: tasks.prompt, ...totalsColumns })
+      .from(taskUsage)
+      .innerJoin(tasks, eq(taskUsage.taskId, tasks.id))
+      .where(where)
+      .groupBy(tasks.id, tasks.title, tasks.prompt)
+      .orderBy(desc(totalsColumns.costUsd))
+      .limit(10),
+  ])
+
+  return {
+    since: since.toISOString(),
+    totals: totals ?? { costUsd: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, runs: 0 },
+    byAgent,
+    byRepo,
+    byDay,
+    topTasks,
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Task Verification
+ *
+ * Runs the repository's typecheck, lint and test commands (declared in
+ * .aa-agent.yml) after the agent finishes. When a check fails, the failure
+ * output is sent back to the agent as a follow-up turn in the same session,
+ * up to the user's maxVerificationIterations setting.
+ */
+
+import { db } from '@/lib/db/client'
+import { tasks, VerificationCheck, VerificationResult } from '@/lib/db/schema'
+import { eq } from 'drizzle-orm'
+import type { SandboxInstance } from '@/lib/sandbox/providers'
+import type { RepoConfig } from '@/lib/sandbox/repo-config'
+import { runShellInProject } from '@/lib/sandbox/commands'
+import { TaskLogger } from '@/lib/utils/task-logger'
+import { redactSensitiveInfo } from '@/lib/utils/logging'
+
+// Cheapest checks first so the agent sees compile errors before test noise
+const CHECK_ORDER: VerificationCheck['name'][] = ['typecheck', 'lint', 'test']
+
+const MAX_STORED_OUTPUT_LENGTH = 4000
+const MAX_PROMPT_OUTPUT_LENGTH = 3000 // Per failed check
+
+/**
+ * Whether the repository config declares any verification commands
+ */
+export function hasVerificationCommands(config: RepoConfig | null | undefined): config is RepoConfig {
+  return CHECK_ORDER.some((name) => !!config?.[name])
+}
+
+// Keep the end of the output, where test runners and compilers summarize failures
+function tail(text: string, maxLength: number): string {
+  return text.length > maxLength ? `...${text.slice(-(maxLength - 3))}` : text
+}
+
+/**
+ * Run every configured check in order. All checks run even if an earlier one
+ * fails, so a fix-up turn sees every problem at once.
+ */
+export async function runVerificationChecks(
+  sandbox: SandboxInstance,
+  config: RepoConfig,
+  env: Record<string, string>,
+  logger: TaskLogger,
+): Promise<VerificationCheck[]> {
+  const checks: VerificationCheck[] = []
+
+  for (const name of CHECK_ORDER) {
+    const command = config[name]
+    if (!command) continue
+
+    await logger.command(command)
+    const startedAt = Date.now()
+    const result = await runShellInProject(sandbox, command, env)
+    const output = redactSensitiveInfo([result.output, result.error].filter(Boolean).join('\n').trim())
+
+    checks.push({
+      name,
+      command,
+      success: result.success,
+      exitCode: result.exitCode ?? null,
+      durationMs: Date.now() - startedAt,
+      output: tail(output, MAX_STORED_OUTPUT_LENGTH),
+    })
+
+    if (result.success) {
+      await logger.success(`Verification check passed: ${name}`)
+    } else {
+      await logger.error(`Verification check failed: ${name} (exit code ${result.exitCode ?? 'unknown'})`)
+    }
+  }
+
+  return checks
+}
+
+/**
+ * Build the follow-up instruction describing the failed checks
+ */
+export function buildVerificationFixPrompt(checks: VerificationCheck[]): string {
+  const failures = checks
+    .filter((check) => !check.success)
+    .map(
+      (check) =>
+        `${check.name} failed (command: ${check.command}, exit code ${check.exitCode ?? 'unknown'}):\n${tail(check.output, MAX_PROMPT_OUTPUT_LENGTH)}`,
+    )
+
+  return [
+    "The repository's verification checks failed after your changes.",
+    'Fix the underlying problems. Do not disable, skip or weaken the checks.',
+    ...failures,
+  ].join('\n\n')
+}
+
+export interface VerifyTaskChangesParams {
+  taskId: string
+  sandbox: SandboxInstance
+  repoConfig: RepoConfig
+  env: Record<string, string>
+  logger: TaskLogger
+  maxIterations: number
+  /** Send a follow-up turn to the agent. Resolves to false if the agent run failed. */
+  runFixTurn: (instruction: string) => Promise<boolean>
+  onCancellationCheck?: () => Promise<boolean>
+}
+
+/**
+ * Verify the agent's changes, asking the agent to fix failures until the
+ * checks pass or maxIterations fix-up turns have been used.
+ * Every round is recorded on tasks.verification.
+ */
+export async function verifyTaskChanges(params: VerifyTaskChangesParams): Promise<VerificationResult> {
+  const { taskId, sandbox, repoConfig, env, logger, maxIterations, runFixTurn, onCancellationCheck } = params
+  let iteration = 0
+
+  const record = async (status: VerificationResult['status'], checks: VerificationCheck[]) => {
+    const result: VerificationResult = {
+      status,
+      iteration,
+      maxIterations,
+      checks,
+      updatedAt: new Date().toISOString(),
+    }
+    await db.update(tasks).set({ verification: result, updatedAt: new Date() }).where(eq(tasks.id, taskId))
+    return result
+  }
+
+  await logger.info('Running verification checks')
+  await record('running', [])
+  let checks = await runVerificationChecks(sandbox, repoConfig, env, logger)
+
+  while (checks.some((check) => !check.success) && iteration < maxIterations) {
+    if (onCancellationCheck && (await onCancellationCheck())) {
+      break
+    }
+
+    iteration++
+    await record('running', checks)
+    await logger.info(`Asking the agent to fix verification failures (attempt ${iteration} of ${maxIterations})`)
+
+    const agentSucceeded = await runFixTurn(buildVerificationFixPrompt(checks))
+    if (!agentSucceeded) {
+      await logger.error('Agent failed while fixing verification failures')
+      break
+    }
+
+    checks = await runVerificationChecks(sandbox, repoConfig, env, logger)
+  }
+
+  const passed = checks.every((check) => check.success)
+  if (passed) {
+    await logger.success('Verification passed')
+  } else {
+    await logger.error('Verification failed, pushing changes with failing checks')
+  }
+
+  return await record(passed ? 'passed' : 'failed', checks)
+}
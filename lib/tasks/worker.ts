@@ -0,0 +1,215 @@
+/**
+ * Task Worker
+ *
+ * Drains the task queue. Invoked after a task is enqueued (via after()) and
+ * periodically by the task-queue cron so jobs survive instance restarts.
+ */
+
+import { db } from '@/lib/db/client'
+import { tasks, connectors, TaskJob } from '@/lib/db/schema'
+import { eq, and } from 'drizzle-orm'
+import { decrypt } from '@/lib/crypto'
+import { getConnectorAccessToken } from '@/lib/connectors/oauth'
+import { generateId } from '@/lib/utils/id'
+import { createTaskLogger } from '@/lib/utils/task-logger'
+import { getUserApiKeysWithSource } from '@/lib/api-keys/user-keys'
+import { getRepoGitAccount } from '@/lib/git-providers/accounts'
+import { getMaxSandboxDuration } from '@/lib/db/settings'
+import { processTaskWithTimeout, cleanupIdleKeepAliveSandbox } from './process-task'
+import {
+  completeTaskJob,
+  failTaskJob,
+  leaseNextTaskJob,
+  reapExpiredTaskJobs,
+  renewTaskJobLease,
+  TASK_JOB_LEASE_MS,
+} from './queue'
+
+const LEASE_RENEW_INTERVAL_MS = 60 * 1000
+
+export interface DrainTaskQueueOptions {
+  /** Stop leasing new jobs after this many milliseconds (running jobs are allowed to finish) */
+  maxRuntimeMs?: number
+  /** Maximum number of jobs to run in this invocation */
+  maxJobs?: number
+  /** Only run this job, e.g. the one just enqueued for a newly created task */
+  jobId?: string
+}
+
+/**
+ * Lease and run jobs one at a time until the queue is empty or a limit is reached.
+ *
+ * @returns Number of jobs that were run
+ */
+export async function drainTaskQueue(options: DrainTaskQueueOptions = {}): Promise<{ processed: number }> {
+  const { maxRuntimeMs = 4 * 60 * 1000, jobId, maxJobs = jobId ? 1 : Infinity } = options
+  const workerId = `worker-${generateId(8)}`
+  const startedAt = Date.now()
+  let processed = 0
+
+  await markAbandonedTasksFailed()
+
+  while (processed < maxJobs && Date.now() - startedAt < maxRuntimeMs) {
+    const job = await leaseNextTaskJob(workerId, TASK_JOB_LEASE_MS, jobId)
+    if (!job) {
+      break
+    }
+
+    await runLeasedJob(job, workerId)
+    processed++
+  }
+
+  return { processed }
+}
+
+/**
+ * Run a single leased job, renewing its lease until it finishes.
+ */
+async function runLeasedJob(job: TaskJob, workerId: string): Promise<void> {
+  const renewInterval = setInterval(async () => {
+    try {
+      const renewed = await renewTaskJobLease(job.id, workerId, TASK_JOB_LEASE_MS)
+      if (!renewed) {
+        console.error('Lost lease on task job')
+      }
+    } catch {
+      console.error('Failed to renew task job lease')
+    }
+  }, LEASE_RENEW_INTERVAL_MS)
+
+  try {
+    switch (job.type) {
+      case 'process-task':
+        await runProcessTaskJob(job)
+        break
+      case 'keepalive-cleanup':
+        await cleanupIdleKeepAliveSandbox(job.taskId, job.userId)
+        break
+    }
+
+    clearInterval(renewInterval)
+    await completeTaskJob(job.id, workerId)
+  } catch (error) {
+    clearInterval(renewInterval)
+    console.error('Task job failed')
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+    const willRetry = await failTaskJob(job, workerId, errorMessage)
+
+    if (job.type === 'process-task') {
+      const logger = createTaskLogger(job.taskId)
+      if (willRetry) {
+        await logger.info('Task processing failed, it will be retried')
+      } else {
+        await logger.error('Task processing failed after all retry attempts')
+        await logger.updateStatus('error', errorMessage)
+      }
+    }
+  }
+}
+
+/**
+ * Execute a queued task. Credentials are resolved at run time from the task
+ * owner's stored keys so nothing sensitive is persisted in the job itself.
+ */
+async function runProcessTaskJob(job: TaskJob): Promise<void> {
+  const [task] = await db.select().from(tasks).where(eq(tasks.id, job.taskId)).limit(1)
+
+  // Skip tasks that were deleted, stopped or already finished while queued
+  if (!task || task.deletedAt || !isTaskRunnable(task.status)) {
+    return
+  }
+
+  if (job.attempts > 1) {
+    const logger = createTaskLogger(task.id)
+    await logger.info('Retrying task after an interrupted attempt')
+  }
+
+  const [userApiKeys, gitAccount, maxSandboxDuration, mcpServers] = await Promise.all([
+    getUserApiKeysWithSource(task.userId),
+    getRepoGitAccount(task.userId, task.repoUrl),
+    getMaxSandboxDuration(task.userId),
+    getMcpServersForUser(task.userId),
+  ])
+
+  await processTaskWithTimeout({
+    taskId: task.id,
+    prompt: task.prompt,
+    repoUrl: task.repoUrl || '',
+    maxDuration: task.maxDuration || maxSandboxDuration,
+    selectedAgent: task.selectedAgent || 'claude',
+    selectedModel: task.selectedModel || undefined,
+    installDependencies: task.installDependencies || false,
+    keepAlive: task.keepAlive || false,
+    sourceBranch: task.sourceBranch || undefined,
+    apiKeys: userApiKeys.apiKeys,
+    userApiKeyNames: userApiKeys.userKeyNames,
+    githubToken: gitAccount.token,
+    githubUser: gitAccount.user,
+    gitCoAuthor: gitAccount.coAuthor,
+    userId: task.userId,
+    mcpServers,
+  })
+}
+
+/**
+ * Mark tasks as failed when their job's worker died on the final attempt.
+ */
+async function markAbandonedTasksFailed(): Promise<void> {
+  try {
+    const reaped = await reapExpiredTaskJobs()
+
+    for (const job of reaped) {
+      if (job.type !== 'process-task') continue
+
+      const [task] = await db.select({ status: tasks.status }).from(tasks).where(eq(tasks.id, job.taskId)).limit(1)
+      if (!task || !isTaskRunnable(task.status)) continue
+
+      const logger = createTaskLogger(job.taskId)
+      await logger.error('Task processing was interrupted and could not be retried')
+      await logger.updateStatus('error', 'Task processing was interrupted')
+    }
+  } catch {
+    console.error('Failed to reap expired task jobs')
+  }
+}
+
+function isTaskRunnable(status: string): boolean {
+  return status === 'pending' || status === 'processing'
+}
+
+// Helper function to get MCP servers for a user with decrypted credentials
+type Connector = typeof connectors.$inferSelect
+
+async function getMcpServersForUser(userId: string): Promise<Connector[]> {
+  try {
+    const userConnectors = await db
+      .select()
+      .from(connectors)
+      .where(and(eq(connectors.userId, userId), eq(connectors.status, 'connected')))
+
+    return await Promise.all(
+      userConnectors.map(async (connector: Connector) => {
+        const decryptedEnv = (() => {
+          if (!connector.env) return null
+          try {
+            const decrypted = decrypt(connector.env)
+            return decrypted ? JSON.parse(decrypted) : null
+          } catch {
+            return null
+          }
+        })()
+
+        return {
+          ...connector,
+          env: decryptedEnv,
+          oauthClientSecret: connector.oauthClientSecret ? decrypt(connector.oauthClientSecret) : null,
+          oauthAccessToken: await getConnectorAccessToken(connector),
+          oauthRefreshToken: null,
+        }
+      }),
+    )
+  } catch {
+    return []
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { timingSafeEqual } from 'crypto'
+
+/**
+ * Verify that a request comes from Vercel Cron, which sends CRON_SECRET as a Bearer token.
+ *
+ * @returns An error response to return, or null if the request is authorized
+ */
+export function verifyCronRequest(request: NextRequest): NextResponse | null {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) {
+    return NextResponse.json({ error: 'CRON_SECRET is not configured' }, { status: 500 })
+  }
+
+  const expected = Buffer.from(`Bearer ${cronSecret}`)
+  const provided = Buffer.from(request.headers.get('authorization') || '')
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  return null
+}
@@ -0,0 +1,63 @@
+import type { AgentUsage } from '@/lib/sandbox/types'
+
+/**
+ * Published list prices in US dollars per million tokens, used to estimate
+ * cost for agent CLIs that report token counts but not cost.
+ * Keys are matched against the model name with any provider prefix removed.
+ */
+interface ModelPrice {
+  input: number
+  output: number
+  cacheRead?: number
+  cacheWrite?: number
+}
+
+// Ordered so that more specific names match before their prefixes (gpt-5-mini before gpt-5)
+const MODEL_PRICES: [string, ModelPrice][] = [
+  ['claude-opus-4', { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 }],
+  ['opus-4', { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 }],
+  ['claude-sonnet-4', { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 }],
+  ['sonnet-4', { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 }],
+  ['claude-haiku-4', { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 }],
+  ['gpt-5-nano', { input: 0.05, output: 0.4, cacheRead: 0.005 }],
+  ['gpt-5-mini', { input: 0.25, output: 2, cacheRead: 0.025 }],
+  ['gpt-5.1-codex-mini', { input: 0.25, output: 2, cacheRead: 0.025 }],
+  ['gpt-5-pro', { input: 15, output: 120 }],
+  ['gpt-5', { input: 1.25, output: 10, cacheRead: 0.125 }],
+  ['gpt-4.1', { input: 2, output: 8, cacheRead: 0.5 }],
+  ['gemini-3-pro', { input: 2, output: 12, cacheRead: 0.2 }],
+  ['gemini-2.5-pro', { input: 1.25, output: 10, cacheRead: 0.125 }],
+  ['gemini-2.5-flash', { input: 0.3, output: 2.5, cacheRead: 0.03 }],
+]
+
+function getModelPrice(model: string): ModelPrice | undefined {
+  const name = model.toLowerCase().split('/').pop() || ''
+  return MODEL_PRICES.find(([prefix]) => name.startsWith(prefix))?.[1]
+}
+
+/**
+ * Estimate the cost of a run from its token counts.
+ * Returns null for unknown models and for usage without an input/output
+ * breakdown (Codex only reports a total).
+ */
+export function estimateCostUsd(model: string | null | undefined, usage: AgentUsage): number | null {
+  if (!model) return null
+
+  const price = getModelPrice(model)
+  if (!price) return null
+
+  const { inputTokens, outputTokens, cacheReadTokens, cacheWriteTokens } = usage
+  if (inputTokens + outputTokens + cacheReadTokens + cacheWriteTokens === 0) return null
+
+  const cost =
+    inputTokens * price.input +
+    outputTokens * price.output +
+    cacheReadTokens * (price.cacheRead ?? price.input) +
+    cacheWriteTokens * (price.cacheWrite ?? price.input)
+
+  return cost / 1_000_000
+}
+
+export function formatUsd(amount: number): string {
+  return `$${amount < 0.01 && amount > 0 ? amount.toFixed(4) : amount.toFixed(2)}`
+}
@@ -1,9 +1,10 @@
 import { db } from '@/lib/db/client'
 import { tasks, taskMessages } from '@/lib/db/schema'
-import { eq, gte, and, isNull } from 'drizzle-orm'
-import { getMaxMessagesPerDay } from '@/lib/db/settings'
+import { eq, gte, and, isNull, count } from 'drizzle-orm'
+import { getMaxMessagesPerDay, getMonthlySpendLimit } from '@/lib/db/settings'
 import { ADMIN_MAX_MESSAGES_PER_DAY } from '@/lib/constants'
 import { isAdminUser } from '@/lib/utils/admin-domains'
+import { getMonthStart, getMonthlySpendUsd } from '@/lib/tasks/usage'
 import type { Session } from '@/lib/session/types'
 
 type RateLimitUser = Pick<Session['user'], 'id' | 'email'>
@@ -23,14 +24,14 @@ export async function checkRateLimit(
   tomorrow.setUTCDate(tomorrow.getUTCDate() + 1)
 
   // Count tasks created by this user today (excluding soft-deleted tasks)
-  const tasksToday = await db
-    .select()
+  const [tasksToday] = await db
+    .select({ count: count() })
     .from(tasks)
     .where(and(eq(tasks.userId, user.id), gte(tasks.createdAt, today), isNull(tasks.deletedAt)))
 
   // Count user messages sent today across all tasks
-  const userMessagesToday = await db
-    .select()
+  const [userMessagesToday] = await db
+    .select({ count: count() })
     .from(taskMessages)
     .innerJoin(tasks, eq(taskMessages.taskId, tasks.id))
     .where(
@@ -43,9 +44,9 @@ export async function checkRateLimit(
     )
 
   // Total count includes both new tasks and follow-up messages
-  const count = tasksToday.length + userMessagesToday.length
-  const remaining = Math.max(0, maxMessagesPerDay - count)
-  const allowed = count < maxMessagesPerDay
+  const used = tasksToday.count + userMessagesToday.count
+  const remaining = Math.max(0, maxMessagesPerDay - used)
+  const allowed = used < maxMessagesPerDay
 
   return {
     allowed,
@@ -54,3 +55,24 @@ export async function checkRateLimit(
     resetAt: tomorrow,
   }
 }
+
+/**
+ * Check the user's agent spend for the current month against their limit.
+ * A limit of 0 (the default) and admin users are unlimited.
+ */
+export async function checkSpendLimit(
+  user: RateLimitUser,
+): Promise<{ allowed: boolean; spentUsd: number; limitUsd: number | null; resetAt: Date }> {
+  const limitUsd = isAdminUser(user) ? 0 : await getMonthlySpendLimit(user.id)
+  const spentUsd = await getMonthlySpendUsd(user.id)
+
+  const resetAt = getMonthStart()
+  resetAt.setUTCMonth(resetAt.getUTCMonth() + 1)
+
+  return {
+    allowed: limitUsd === 0 || spentUsd < limitUsd,
+    spentUsd,
+    limitUsd: limitUsd === 0 ? null : limitUsd,
+    resetAt,
+  }
+}
@@ -1,6 +1,7 @@
 import { db } from '@/lib/db/client'
-import { tasks, SubAgentActivity } from '@/lib/db/schema'
+import { tasks, taskLogEntries, SubAgentActivity } from '@/lib/db/schema'
 import { eq, sql } from 'drizzle-orm'
+import type { PgUpdateSetSource } from 'drizzle-orm/pg-core'
 import {
   createInfoLog,
   createCommandLog,
@@ -11,6 +12,7 @@ import {
   AgentSource,
 } from './logging'
 import { generateId } from './id'
+import { redactTaskSecrets } from './task-secrets'
 
 export class TaskLogger {
   private taskId: string
@@ -68,16 +70,10 @@ export class TaskLogger {
           logEntry = createInfoLog(message, source)
       }
 
-      // Atomically append the new log entry using PostgreSQL JSONB concatenation
-      // This prevents race conditions by avoiding read-modify-write patterns
-      await db
-        .update(tasks)
-        .set({
-          logs: sql`COALESCE(${tasks.logs}, '[]'::jsonb) || ${JSON.stringify([logEntry])}::jsonb`,
-          lastHeartbeat: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(tasks.id, this.taskId))
+      await this.insertLogEntry(logEntry, {
+        lastHeartbeat: new Date(),
+        updatedAt: new Date(),
+      })
 
       // Task log: ${type.toUpperCase()}: ${message.substring(0, 100)}
     } catch {
@@ -86,6 +82,35 @@ export class TaskLogger {
     }
   }
 
+  /**
+   * Insert a log entry and apply task updates in one transaction.
+   * Incrementing tasks.log_seq locks the task row, so concurrent writers
+   * get consecutive sequence numbers.
+   */
+  private async insertLogEntry(logEntry: LogEntry, taskUpdates: PgUpdateSetSource<typeof tasks>): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [task] = await tx
+        .update(tasks)
+        .set({
+          ...taskUpdates,
+          logSeq: sql`${tasks.logSeq} + 1`,
+        })
+        .where(eq(tasks.id, this.taskId))
+        .returning({ logSeq: tasks.logSeq })
+
+      if (!task) return
+
+      await tx.insert(taskLogEntries).values({
+        taskId: this.taskId,
+        seq: task.logSeq,
+        type: logEntry.type,
+        message: redactTaskSecrets(this.taskId, logEntry.message),
+        agentSource: logEntry.agentSource,
+        timestamp: logEntry.timestamp ? new Date(logEntry.timestamp) : new Date(),
+      })
+    })
+  }
+
   /**
    * Convenience methods for different log types
    */
@@ -138,17 +163,13 @@ export class TaskLogger {
         subAgentId,
       )
 
-      // Atomically append sub-agent activity and log entry using PostgreSQL JSONB concatenation
-      await db
-        .update(tasks)
-        .set({
-          subAgentActivity: sql`COALESCE(${tasks.subAgentActivity}, '[]'::jsonb) || ${JSON.stringify([activity])}::jsonb`,
-          currentSubAgent: name,
-          logs: sql`COALESCE(${tasks.logs}, '[]'::jsonb) || ${JSON.stringify([logEntry])}::jsonb`,
-          lastHeartbeat: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(tasks.id, this.taskId))
+      // Atomically append sub-agent activity using PostgreSQL JSONB concatenation, together with the log entry
+      await this.insertLogEntry(logEntry, {
+        subAgentActivity: sql`COALESCE(${tasks.subAgentActivity}, '[]'::jsonb) || ${JSON.stringify([activity])}::jsonb`,
+        currentSubAgent: name,
+        lastHeartbeat: new Date(),
+        updatedAt: new Date(),
+      })
 
       return subAgentId
     } catch {
@@ -227,10 +248,8 @@ export class TaskLogger {
       const newStatus = success ? 'completed' : 'error'
 
       // Atomically update sub-agent status and append log entry
-      await db
-        .update(tasks)
-        .set({
-          subAgentActivity: sql`(
+      await this.insertLogEntry(logEntry, {
+        subAgentActivity: sql`(
             SELECT jsonb_agg(
               CASE
                 WHEN elem->>'id' = ${subAgentId}
@@ -244,12 +263,10 @@ export class TaskLogger {
             )
             FROM jsonb_array_elements(COALESCE(${tasks.subAgentActivity}, '[]'::jsonb)) elem
           )`,
-          currentSubAgent: otherRunning?.name || null,
-          logs: sql`COALESCE(${tasks.logs}, '[]'::jsonb) || ${JSON.stringify([logEntry])}::jsonb`,
-          lastHeartbeat: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(tasks.id, this.taskId))
+        currentSubAgent: otherRunning?.name || null,
+        lastHeartbeat: new Date(),
+        updatedAt: new Date(),
+      })
     } catch {
       // Ignore errors
     }
@@ -281,15 +298,11 @@ export class TaskLogger {
       const logEntry = createInfoLog(message)
 
       // Atomically update progress and append log entry
-      await db
-        .update(tasks)
-        .set({
-          progress,
-          logs: sql`COALESCE(${tasks.logs}, '[]'::jsonb) || ${JSON.stringify([logEntry])}::jsonb`,
-          lastHeartbeat: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(tasks.id, this.taskId))
+      await this.insertLogEntry(logEntry, {
+        progress,
+        lastHeartbeat: new Date(),
+        updatedAt: new Date(),
+      })
 
       // Task progress: ${progress}%
     } catch {
@@ -307,14 +320,10 @@ export class TaskLogger {
         const logEntry = createInfoLog(message)
 
         // Atomically update status and append log entry
-        await db
-          .update(tasks)
-          .set({
-            status,
-            logs: sql`COALESCE(${tasks.logs}, '[]'::jsonb) || ${JSON.stringify([logEntry])}::jsonb`,
-            updatedAt: new Date(),
-          })
-          .where(eq(tasks.id, this.taskId))
+        await this.insertLogEntry(logEntry, {
+          status,
+          updatedAt: new Date(),
+        })
       } else {
         // No log message, just update status
         await db
@@ -0,0 +1,53 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { clearTaskSecrets, getTaskSecrets, redactTaskSecrets, registerTaskSecrets } from './task-secrets'
+
+test('registered values are redacted in plain, base64 and URL-encoded form', () => {
+  const secret = 'sk-user-key/with+chars=1'
+  registerTaskSecrets('task-encoded', [secret])
+
+  const base64 = Buffer.from(secret).toString('base64')
+  const text = [
+    secret,
+    base64,
+    base64.replace(/=+$/, ''),
+    Buffer.from(secret).toString('base64url'),
+    encodeURIComponent(secret),
+  ]
+    .map((form) => `value=${form};`)
+    .join(' ')
+
+  assert.equal(redactTaskSecrets('task-encoded', text), Array(5).fill('value=[REDACTED];').join(' '))
+  clearTaskSecrets('task-encoded')
+})
+
+test('a value is redacted before a shorter value it contains', () => {
+  registerTaskSecrets('task-overlap', ['token-12345'])
+  registerTaskSecrets('task-overlap', ['prefix-token-12345-suffix'])
+
+  assert.equal(
+    redactTaskSecrets('task-overlap', 'a prefix-token-12345-suffix b token-12345'),
+    'a [REDACTED] b [REDACTED]',
+  )
+  clearTaskSecrets('task-overlap')
+})
+
+test('short, empty and missing values are not registered', () => {
+  registerTaskSecrets('task-short', ['abc1234', '', null, undefined])
+
+  assert.deepEqual(getTaskSecrets('task-short'), [])
+  assert.equal(redactTaskSecrets('task-short', 'abc1234 stays'), 'abc1234 stays')
+})
+
+test('secrets are scoped to their task and cleared when the run ends', () => {
+  registerTaskSecrets('task-a', ['secret-of-task-a'])
+  registerTaskSecrets('task-b', ['secret-of-task-b'])
+
+  assert.equal(redactTaskSecrets('task-a', 'secret-of-task-a secret-of-task-b'), '[REDACTED] secret-of-task-b')
+  assert.equal(redactTaskSecrets(undefined, 'secret-of-task-a'), 'secret-of-task-a')
+
+  clearTaskSecrets('task-a')
+  assert.equal(redactTaskSecrets('task-a', 'secret-of-task-a'), 'secret-of-task-a')
+  assert.equal(redactTaskSecrets('task-b', 'secret-of-task-b'), '[REDACTED]')
+  clearTaskSecrets('task-b')
+})
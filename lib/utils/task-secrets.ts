@@ -0,0 +1,97 @@
+/**
+ * Per-task registry of the secret values a task runs with (API keys, GitHub
+ * token, connector and repository env values).
+ *
+ * redactSensitiveInfo only catches secrets by their shape or the variable name
+ * printed next to them. Everything a task writes to its logs and messages is
+ * also checked against the exact values registered here, including their
+ * base64 and URL-encoded forms.
+ *
+ * The registry is in memory and only covers the process that runs the task:
+ * values are registered by processTask and continueTask when a run starts and
+ * cleared when it ends. Log entries and messages written for the task by any
+ * other process (API routes such as start-sandbox, the MCP tools) or after
+ * the run ends are NOT checked against these values and rely on
+ * redactSensitiveInfo alone. Code outside a task run must not log command
+ * output that can contain the task's credentials.
+ */
+
+const REDACTED = '[REDACTED]'
+
+// Shorter values would redact ordinary words and numbers
+const MIN_SECRET_LENGTH = 8
+
+const taskSecrets = new Map<string, string[]>()
+
+function encodedForms(value: string): string[] {
+  const base64 = Buffer.from(value, 'utf8').toString('base64')
+  return [
+    value,
+    base64,
+    base64.replace(/=+$/, ''),
+    Buffer.from(value, 'utf8').toString('base64url'),
+    encodeURIComponent(value),
+  ]
+}
+
+/**
+ * Add secret values for a task. Empty and very short values are ignored.
+ */
+export function registerTaskSecrets(taskId: string, values: (string | null | undefined)[]): void {
+  const forms = new Set(taskSecrets.get(taskId))
+
+  for (const value of values) {
+    if (!value || value.length < MIN_SECRET_LENGTH) continue
+    for (const form of encodedForms(value)) {
+      if (form.length >= MIN_SECRET_LENGTH) forms.add(form)
+    }
+  }
+
+  if (forms.size > 0) {
+    // Longest first, so a value is replaced before any shorter value it contains
+    const sorted = [...forms].sort((a, b) => b.length - a.length)
+    taskSecrets.set(taskId, sorted)
+  }
+}
+
+/**
+ * Secret values of an MCP connector after its env has been decrypted and parsed
+ */
+export function getConnectorSecrets(connector: {
+  env: unknown
+  oauthClientSecret: string | null
+  oauthAccessToken: string | null
+}): string[] {
+  const env =
+    connector.env && typeof connector.env === 'object'
+      ? Object.values(connector.env).filter((value): value is string => typeof value === 'string')
+      : []
+  return [...env, connector.oauthClientSecret, connector.oauthAccessToken].filter((value): value is string => !!value)
+}
+
+/**
+ * Every registered secret of the task, including encoded forms
+ */
+export function getTaskSecrets(taskId: string): string[] {
+  return taskSecrets.get(taskId) || []
+}
+
+export function clearTaskSecrets(taskId: string): void {
+  taskSecrets.delete(taskId)
+}
+
+/**
+ * Replace every registered secret of the task in the text
+ */
+export function redactTaskSecrets(taskId: string | undefined, text: string): string {
+  const secrets = taskId ? taskSecrets.get(taskId) : undefined
+  if (!secrets || !text) return text
+
+  let redacted = text
+  for (const secret of secrets) {
+    if (redacted.includes(secret)) {
+      redacted = redacted.split(secret).join(REDACTED)
+    }
+  }
+  return redacted
+}
@@ -1,39 +1,75 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import {
+  checkRequestRateLimits,
+  getRateLimitHeaders,
+  rateLimitExceededResponse,
+  RateLimitResult,
+} from '@/lib/rate-limit/limiter'
 
 /**
- * Proxy to transform query parameter authentication to Bearer token headers.
- * This allows MCP clients to authenticate using ?apikey=xxx query parameters,
- * which are then transformed into Authorization: Bearer xxx headers.
+ * Proxy for API requests:
  *
- * Only applies to /api/mcp routes.
+ * 1. Transforms query parameter authentication to Bearer token headers for
+ *    /api/mcp routes. This allows MCP clients to authenticate using
+ *    ?apikey=xxx query parameters, which are then transformed into
+ *    Authorization: Bearer xxx headers.
+ * 2. Applies the rate limit policy of the route group (see lib/rate-limit/policies.ts)
+ *    and the per-token limit of API token requests, and adds RateLimit-* headers
+ *    for the most constrained limit to the response.
  *
  * Security Note: Query parameters may appear in logs. This is acceptable for
- * development and internal tools, but prefer header-based auth for production.
+ * development and internal tools, but prefer header-based auth for production,
+ * or let MCP clients sign in with OAuth (see lib/auth/oauth.ts).
  */
-export function proxy(request: NextRequest) {
-  // Only apply to MCP routes
-  if (!request.nextUrl.pathname.startsWith('/api/mcp')) {
-    return NextResponse.next()
-  }
-
-  const apiKey = request.nextUrl.searchParams.get('apikey')
+export async function proxy(request: NextRequest) {
+  const { pathname } = request.nextUrl
+  const requestHeaders = new Headers(request.headers)
 
+  const apiKey = pathname.startsWith('/api/mcp') ? request.nextUrl.searchParams.get('apikey') : null
   if (apiKey) {
-    // Clone request with new Authorization header
-    const requestHeaders = new Headers(request.headers)
     requestHeaders.set('Authorization', `Bearer ${apiKey}`)
+  }
+
+  const rateLimits = await checkRequestRateLimits(request, requestHeaders)
+
+  const exceeded = rateLimits.find((result) => !result.allowed)
+  if (exceeded) {
+    return rateLimitExceededResponse(exceeded)
+  }
+
+  const rateLimit = rateLimits.reduce<RateLimitResult | null>(
+    (lowest, result) => (!lowest || result.remaining < lowest.remaining ? result : lowest),
+    null,
+  )
+
+  const response = apiKey
+    ? // Clone request with new Authorization header
+      NextResponse.next({
+        request: {
+          headers: requestHeaders,
+        },
+      })
+    : NextResponse.next()
 
-    return NextResponse.next({
-      request: {
-        headers: requestHeaders,
-      },
-    })
+  if (rateLimit) {
+    for (const [name, value] of Object.entries(getRateLimitHeaders(rateLimit))) {
+      response.headers.set(name, value)
+    }
   }
 
-  return NextResponse.next()
+  return response
 }
 
 export const config = {
-  matcher: '/api/mcp/:path*',
+  matcher: [
+    '/api/mcp/:path*',
+    '/api/tasks/:path*',
+    '/api/usage',
+    '/api/github/:path*',
+    '/api/repos/:path*',
+    '/api/auth/signin/:path*',
+    '/api/auth/github/signin',
+    '/api/oauth/:path*',
+  ],
 }
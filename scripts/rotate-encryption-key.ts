@@ -0,0 +1,126 @@
+#!/usr/bin/env node
+
+/**
+ * Encryption Key Rotation Script
+ *
+ * Re-encrypts every stored secret that isn't encrypted with the primary key
+ * (the first entry of ENCRYPTION_KEYS), including values written with
+ * AES-256-CBC before key versioning. Once a run reports nothing left to
+ * re-encrypt and no failures, older keys can be removed from the environment.
+ *
+ * Usage:
+ *   pnpm db:rotate-encryption-key            Re-encrypt secrets
+ *   pnpm db:rotate-encryption-key --dry-run  Only count secrets that need it
+ *
+ * Requires POSTGRES_URL and every key that existing values were encrypted with.
+ */
+
+import { eq } from 'drizzle-orm'
+import type { PgColumn, PgTable } from 'drizzle-orm/pg-core'
+import { db } from '../lib/db/client'
+import { accounts, connectors, keys, users } from '../lib/db/schema'
+import { decrypt, encrypt, getPrimaryEncryptionKeyId, needsReEncryption } from '../lib/crypto'
+
+interface SecretColumns {
+  name: string
+  table: PgTable
+  id: PgColumn
+  columns: Record<string, PgColumn>
+}
+
+type SecretRow = { id: string } & Record<string, string | null>
+
+const SECRET_COLUMNS: SecretColumns[] = [
+  {
+    name: 'users',
+    table: users,
+    id: users.id,
+    columns: { accessToken: users.accessToken, refreshToken: users.refreshToken },
+  },
+  {
+    name: 'accounts',
+    table: accounts,
+    id: accounts.id,
+    columns: { accessToken: accounts.accessToken, refreshToken: accounts.refreshToken },
+  },
+  { name: 'keys', table: keys, id: keys.id, columns: { value: keys.value } },
+  {
+    name: 'connectors',
+    table: connectors,
+    id: connectors.id,
+    columns: {
+      env: connectors.env,
+      oauthClientSecret: connectors.oauthClientSecret,
+      oauthAccessToken: connectors.oauthAccessToken,
+      oauthRefreshToken: connectors.oauthRefreshToken,
+    },
+  },
+]
+
+const dryRun = process.argv.includes('--dry-run')
+
+async function rotateTable({ name, table, id, columns }: SecretColumns) {
+  const rows = (await db.select({ id, ...columns }).from(table)) as unknown as SecretRow[]
+
+  let reEncrypted = 0
+  let failed = 0
+
+  for (const row of rows) {
+    const updates: Record<string, string> = {}
+
+    for (const column of Object.keys(columns)) {
+      const value = row[column]
+      if (!value || !needsReEncryption(value)) continue
+
+      const decrypted = decrypt(value)
+      if (decrypted === null) {
+        failed++
+        console.error(`  ${name}.${column} of ${row.id} could not be decrypted`)
+        continue
+      }
+      updates[column] = encrypt(decrypted)
+    }
+
+    const changed = Object.keys(updates).length
+    if (changed === 0) continue
+
+    if (!dryRun) {
+      await db.update(table).set(updates).where(eq(id, row.id))
+    }
+    reEncrypted += changed
+  }
+
+  console.log(`  ${name}: ${reEncrypted} value(s) ${dryRun ? 'to re-encrypt' : 're-encrypted'}, ${failed} failed`)
+  return { reEncrypted, failed }
+}
+
+async function main() {
+  if (!process.env.POSTGRES_URL) {
+    throw new Error('POSTGRES_URL environment variable is required')
+  }
+
+  const primaryKeyId = getPrimaryEncryptionKeyId()
+  if (!primaryKeyId) {
+    throw new Error('ENCRYPTION_KEYS or ENCRYPTION_KEY environment variable is required')
+  }
+
+  console.log(`→ Re-encrypting secrets with key "${primaryKeyId}"${dryRun ? ' (dry run)' : ''}...`)
+
+  let failed = 0
+  for (const secretColumns of SECRET_COLUMNS) {
+    failed += (await rotateTable(secretColumns)).failed
+  }
+
+  if (failed > 0) {
+    console.error(`✗ ${failed} value(s) could not be decrypted. Keep the old keys configured and check them.`)
+    process.exit(1)
+  }
+
+  console.log('✓ Key rotation completed')
+  process.exit(0)
+}
+
+main().catch((error) => {
+  console.error('Key rotation failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})